@@ -21,6 +21,31 @@ CREATE INDEX IF NOT EXISTS idx_sessions_code ON sessions(session_code);
 CREATE INDEX IF NOT EXISTS idx_sessions_active ON sessions(is_active);
 ```
 
+```sql
+-- Per-template countdown / pose prompt settings (keyed by template id)
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS capture_settings JSONB;
+
+-- Layouts made in the admin template designer (array of template definitions)
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS custom_templates JSONB;
+
+-- Uploaded branding fonts ([{id, name, url}]) and the font id chosen per text block
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS config_fonts JSONB;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS config_text_fonts JSONB;
+
+-- Single-photo retakes a guest gets from the review screen
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS max_frame_retakes INTEGER DEFAULT 2;
+
+-- Timetable: booths activate the session at starts_at and close it at ends_at
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS starts_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS ends_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS closed_at TIMESTAMP WITH TIME ZONE;
+-- Each booth's scheduler asks for the sessions starting around now every 30 seconds
+CREATE INDEX IF NOT EXISTS idx_sessions_starts_at ON sessions(starts_at) WHERE starts_at IS NOT NULL;
+
+-- "Event ended" screen shown while the session is closed ({title, message})
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS ended_screen JSONB;
+```
+
 ### Photos Table
 ```sql
 -- Create photos table
@@ -42,6 +67,105 @@ CREATE INDEX IF NOT EXISTS idx_photos_uploaded ON photos(uploaded);
 CREATE INDEX IF NOT EXISTS idx_photos_id ON photos(photo_id);
 ```
 
+```sql
+-- Storage path of the dithered print version ("photos/{uuid}/{uuid}.png"), the download token and
+-- the SESSIONCODE-NUMBER id older photos were saved under
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS storage_path TEXT;
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS access_token TEXT;
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS legacy_photo_id TEXT;
+
+-- Full-colour download copy ("photos/{uuid}/{uuid}-color.jpg"); storage_path is the dithered print version
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS color_path TEXT;
+
+-- Motion templates: storage paths of the animated GIF and its boomerang
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS motion_path TEXT;
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS boomerang_path TEXT;
+```
+
+### Booths Table
+```sql
+-- Devices taking photos for a session; one row per session and device, refreshed by the booth's heartbeat
+CREATE TABLE IF NOT EXISTS booths (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_code TEXT NOT NULL,
+  device_id TEXT NOT NULL,
+  booth_name TEXT NOT NULL,
+  photo_count INTEGER DEFAULT 0,
+  registered_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (session_code, device_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booths_session ON booths(session_code);
+
+-- Which booth took each photo
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS booth_id TEXT;
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS booth_name TEXT;
+```
+
+### Photo Numbers
+```sql
+-- Hand out the next photo number of a session. The UPDATE locks the session row, so booths
+-- sharing a session never get the same number. Also registers the booth and counts its photo.
+CREATE OR REPLACE FUNCTION next_photo_number(p_session_code TEXT, p_device_id TEXT, p_booth_name TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  next_number INTEGER;
+BEGIN
+  UPDATE sessions
+  SET photo_count = COALESCE(photo_count, 0) + 1
+  WHERE session_code = p_session_code
+  RETURNING photo_count INTO next_number;
+
+  IF next_number IS NULL THEN
+    RAISE EXCEPTION 'Session % not found', p_session_code;
+  END IF;
+
+  IF p_device_id IS NOT NULL THEN
+    INSERT INTO booths (session_code, device_id, booth_name, photo_count, last_seen_at)
+    VALUES (p_session_code, p_device_id, COALESCE(p_booth_name, p_device_id), 1, NOW())
+    ON CONFLICT (session_code, device_id) DO UPDATE
+    SET booth_name = EXCLUDED.booth_name,
+        photo_count = booths.photo_count + 1,
+        last_seen_at = NOW();
+  END IF;
+
+  RETURN next_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+```
+
+### Photo Moderation
+```sql
+-- Hidden or deleted by the organiser; validate-download refuses both. Deleted rows are kept (token
+-- and files removed) so an old QR code reports "removed" rather than "invalid link"
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS moderation_status TEXT CHECK (moderation_status IN ('hidden', 'deleted'));
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMP WITH TIME ZONE;
+
+-- Set when the download link is revoked; access_token is cleared at the same time
+ALTER TABLE photos ADD COLUMN IF NOT EXISTS token_revoked_at TIMESTAMP WITH TIME ZONE;
+
+-- Audit trail of moderation actions (append only). Written by the moderate-photo edge function:
+-- actor_user_id and actor_email are the organiser account it checked, actor_device_id and
+-- actor_name what the booth reported, ip_address what the function saw
+CREATE TABLE IF NOT EXISTS photo_moderation_log (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  photo_id TEXT NOT NULL,
+  session_code TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('hide', 'unhide', 'revoke', 'delete')),
+  reason TEXT,
+  actor_user_id UUID NOT NULL,
+  actor_email TEXT,
+  actor_device_id TEXT,
+  actor_name TEXT,
+  ip_address TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_photo_moderation_log_photo ON photo_moderation_log(photo_id);
+CREATE INDEX IF NOT EXISTS idx_photo_moderation_log_session ON photo_moderation_log(session_code);
+```
+
 ### Storage Bucket Setup
 ```sql
 -- Create storage bucket for photos
@@ -51,9 +175,14 @@ VALUES (
   'photos',
   false, -- Private bucket
   10485760, -- 10MB limit
-  ARRAY['image/png', 'image/jpeg', 'image/jpg']
+  ARRAY['image/png', 'image/jpeg', 'image/jpg', 'image/gif']
 )
 ON CONFLICT (id) DO NOTHING;
+
+-- Existing buckets: allow the motion template GIFs
+UPDATE storage.buckets
+SET allowed_mime_types = array_append(allowed_mime_types, 'image/gif')
+WHERE id = 'photos' AND NOT ('image/gif' = ANY(allowed_mime_types));
 ```
 
 ## 2. Set Up RLS Policies
@@ -92,6 +221,52 @@ CREATE POLICY "Allow public insert photos" ON photos
 -- Allow public update for photo upload status
 CREATE POLICY "Allow public update photos" ON photos
   FOR UPDATE USING (true);
+
+-- Booths may only change the upload columns. The token and moderation columns are changed by the
+-- moderate-photo edge function, whose service role keeps full access
+REVOKE UPDATE ON photos FROM anon, authenticated;
+GRANT UPDATE (uploaded, supabase_url, storage_path, color_path, motion_path, boomerang_path)
+  ON photos TO anon, authenticated;
+```
+
+### Booths Table Policies
+```sql
+ALTER TABLE booths ENABLE ROW LEVEL SECURITY;
+
+-- Booths register themselves and send heartbeats; the admin lists them
+CREATE POLICY "Allow public read booths" ON booths
+  FOR SELECT USING (true);
+
+-- A booth only writes its own row: registerBooth sends its device id in the x-booth-device-id
+-- header. The header isn't authenticated, so this stops one booth overwriting another's row by
+-- mistake rather than a client that sets the header on purpose.
+CREATE POLICY "Allow booths to insert their own row" ON booths
+  FOR INSERT WITH CHECK (device_id = current_setting('request.headers', true)::json->>'x-booth-device-id');
+
+CREATE POLICY "Allow booths to update their own row" ON booths
+  FOR UPDATE
+  USING (device_id = current_setting('request.headers', true)::json->>'x-booth-device-id')
+  WITH CHECK (device_id = current_setting('request.headers', true)::json->>'x-booth-device-id');
+```
+
+### Photo Moderation Log Policies
+```sql
+ALTER TABLE photo_moderation_log ENABLE ROW LEVEL SECURITY;
+
+-- Read by the admin. Entries are only written by the moderate-photo edge function (service role),
+-- so there is no insert, update or delete policy and clients can't forge or edit the trail
+CREATE POLICY "Allow public read photo moderation log" ON photo_moderation_log
+  FOR SELECT USING (true);
+```
+
+### Organiser Accounts
+```sql
+-- moderate-photo only accepts Supabase Auth users with the admin role. Create the user under
+-- Authentication → Users, then give it the role here. app_metadata can only be changed with the
+-- service role, so users can't give it to themselves
+UPDATE auth.users
+SET raw_app_meta_data = COALESCE(raw_app_meta_data, '{}'::jsonb) || '{"role": "admin"}'::jsonb
+WHERE email = 'organiser@example.com';
 ```
 
 ### Storage Bucket Policies
@@ -105,6 +280,9 @@ CREATE POLICY "Allow public uploads" ON storage.objects
 CREATE POLICY "Allow signed URL reads" ON storage.objects
   FOR SELECT TO public
   USING (bucket_id = 'photos');
+
+-- No delete policy: photo files are deleted by the moderate-photo edge function (service role),
+-- after it has marked the row deleted
 ```
 
 ## 3. Auto-Delete Functions
@@ -166,7 +344,7 @@ VALUES ('TEST-ABC123-001', 'TEST-ABC123', 1, 'data:image/png;base64,test', false
 -- Check if tables exist
 SELECT table_name FROM information_schema.tables 
 WHERE table_schema = 'public' 
-AND table_name IN ('sessions', 'photos');
+AND table_name IN ('sessions', 'photos', 'booths', 'photo_moderation_log');
 
 -- Check if storage bucket exists
 SELECT * FROM storage.buckets WHERE id = 'photos';
@@ -174,15 +352,17 @@ SELECT * FROM storage.buckets WHERE id = 'photos';
 -- Check RLS policies
 SELECT schemaname, tablename, policyname, permissive, roles, cmd, qual 
 FROM pg_policies 
-WHERE tablename IN ('sessions', 'photos');
+WHERE tablename IN ('sessions', 'photos', 'booths', 'photo_moderation_log');
 ```
 
 ## Usage Notes
 
 1. **Sessions Table**: Stores session information with unique codes
 2. **Photos Table**: Stores photo metadata and upload status
-3. **Storage Bucket**: Stores actual image files (private)
-4. **Auto-cleanup**: Storage files deleted after 5 days, DB records after 30 days
-5. **RLS Policies**: Allow public access for photo booth functionality
+3. **Booths Table**: Devices registered per session, with last-seen time; photo numbers come from `next_photo_number`
+4. **Photo Moderation Log**: Hide, unhide, revoke and delete actions on photos, with the organiser account and booth that made them. Actions go through the `moderate-photo` edge function, which only accepts organiser accounts (admin role) and also writes the log
+5. **Storage Bucket**: Stores actual image files (private)
+6. **Auto-cleanup**: Storage files deleted after 5 days, DB records after 30 days
+7. **RLS Policies**: Allow public access for photo booth functionality; booths can only update a photo's upload columns
 
 Run these SQL commands in your Supabase SQL Editor to set up the complete database structure.
@@ -1,4 +1,4 @@
-import React, { useRef, useState, useEffect } from 'react';
+import React, { useCallback, useRef, useState, useEffect } from 'react';
 import { View, StyleSheet, Alert, PermissionsAndroid, Platform, BackHandler, Text, ToastAndroid, TouchableOpacity } from 'react-native';
 import WebView from 'react-native-webview';
 import * as Linking from 'expo-linking';
@@ -7,15 +7,28 @@ import Constants from 'expo-constants';
 import NetInfo from '@react-native-community/netinfo';
 import * as Sentry from '@sentry/react-native';
 import { NativeBLEPrinter, PrinterDevice } from './services/NativeBLEPrinter';
+import { NativeTCPPrinter } from './services/NativeTCPPrinter';
+import type { PrinterTransport } from './services/PrinterTransport';
 import { PrinterSelectionModal } from './components/PrinterSelectionModal';
 import { PrinterStorage } from './services/PrinterStorage';
 import { Buffer } from 'buffer';
+import { canPrintWithStatus, PRINTER_STATUS_MESSAGES, type PrinterStatusReport } from '../../src/shared/printerStatus';
+import {
+  BRIDGE_PROTOCOL_VERSION,
+  BRIDGE_RESEND_AFTER_MS,
+  BRIDGE_TRANSFER_TIMEOUT_MS,
+  parseBridgeMessage,
+  TransferAssembler,
+  type NativeToWebMessage,
+  type WebToNativeMessage
+} from '../../src/shared/bridgeProtocol';
 
 const WEBVIEW_URL = Constants.expoConfig?.extra?.webviewUrl || 'https://morobooth.netlify.app';
 const BUNDLE_VERSION =
   Constants.expoConfig?.extra?.bundleVersion ?? Constants.expoConfig?.version ?? 'dev';
 const HAS_SENTRY_DSN = Boolean(Constants.expoConfig?.extra?.sentryDsn);
 const DEFAULT_PRINTER_WIDTH = 384;
+const PRINTER_STATUS_POLL_MS = 15000;
 
 if (typeof window !== 'undefined') {
   (window as any).MoroboothBundleVersion = BUNDLE_VERSION;
@@ -32,6 +45,9 @@ if (HAS_SENTRY_DSN) {
 function App() {
   const webViewRef = useRef<WebView>(null);
   const [printer] = useState(new NativeBLEPrinter());
+  const [tcpPrinter] = useState(new NativeTCPPrinter());
+  // Transport of the connected (or last connected) printer
+  const activePrinterRef = useRef<PrinterTransport>(printer);
   const [connectedDevice, setConnectedDevice] = useState<PrinterDevice | null>(null);
   const [showPrinterModal, setShowPrinterModal] = useState(false);
   const [currentUrl, setCurrentUrl] = useState(WEBVIEW_URL);
@@ -46,6 +62,9 @@ function App() {
     startTime: number;
   } | null>(null);
 
+  // Print transfer in progress (bridge protocol v2)
+  const incomingTransferRef = useRef<{ assembler: TransferAssembler; lastResendAt: number } | null>(null);
+
   useEffect(() => {
     console.log('App bundle version:', BUNDLE_VERSION);
     initializeApp();
@@ -68,6 +87,7 @@ function App() {
     
     return () => {
       printer.cleanup();
+      tcpPrinter.cleanup();
 
       if (typeof keepAwakeModule.deactivateKeepAwakeAsync === 'function') {
         keepAwakeModule.deactivateKeepAwakeAsync().catch((err: unknown) =>
@@ -83,6 +103,60 @@ function App() {
     };
   }, []);
 
+  // Only touch refs, so they stay the same across renders and are safe effect dependencies
+  const sendMessageToWebView = useCallback((message: NativeToWebMessage) => {
+    webViewRef.current?.postMessage(JSON.stringify(message));
+  }, []);
+
+  const reportPrinterStatus = useCallback(async () => {
+    try {
+      const report = await activePrinterRef.current.queryStatus();
+      if (report) {
+        sendMessageToWebView({ type: 'PRINTER_STATUS', data: report });
+      }
+      return report;
+    } catch (error) {
+      console.warn('App: printer status query failed', error);
+      return null;
+    }
+  }, [sendMessageToWebView]);
+
+  // Poll paper/cover status while a printer is connected (no-op for profiles without status support)
+  useEffect(() => {
+    if (!connectedDevice) return;
+    const interval = setInterval(() => {
+      void reportPrinterStatus();
+    }, PRINTER_STATUS_POLL_MS);
+    return () => clearInterval(interval);
+  }, [connectedDevice, reportPrinterStatus]);
+
+  // Ask for missing chunks when a transfer stalls, and give up when it stops making progress
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const transfer = incomingTransferRef.current;
+      if (!transfer) return;
+      const now = Date.now();
+      const { transferId } = transfer.assembler.start;
+      const idleMs = now - transfer.assembler.lastActivityAt;
+      if (idleMs > BRIDGE_TRANSFER_TIMEOUT_MS) {
+        console.error('App: print transfer timed out', transferId);
+        incomingTransferRef.current = null;
+        sendMessageToWebView({
+          type: 'PRINT_FAILED',
+          data: { success: false, error: 'Timeout waiting for print data', errorCode: 'TRANSFER_TIMEOUT', transferId }
+        });
+        return;
+      }
+      if (idleMs > BRIDGE_RESEND_AFTER_MS && now - transfer.lastResendAt > BRIDGE_RESEND_AFTER_MS) {
+        const missing = transfer.assembler.getMissing();
+        console.warn('App: requesting missing chunks', { transferId, missing: missing.length });
+        transfer.lastResendAt = now;
+        sendMessageToWebView({ type: 'PRINT_TRANSFER_RESEND', data: { transferId, missing } });
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [sendMessageToWebView]);
+
   // Debug: Monitor modal state changes
   useEffect(() => {
     console.log('App: showPrinterModal state changed to:', showPrinterModal);
@@ -91,6 +165,11 @@ function App() {
   const initializeApp = async () => {
     try {
       await printer.init();
+      const forwardStatus = (report: PrinterStatusReport) => {
+        sendMessageToWebView({ type: 'PRINTER_STATUS', data: report });
+      };
+      printer.setStatusListener(forwardStatus);
+      tcpPrinter.setStatusListener(forwardStatus);
       
       // Request permissions on startup
       const permissionGranted = await requestAllPermissions();
@@ -230,7 +309,8 @@ function App() {
         }
         
         try {
-          await printer.connect(lastPrinter.id);
+          const savedProfile = await PrinterStorage.getPrinterProfile(lastPrinter.id);
+          await selectTransport(lastPrinter).connect(lastPrinter.id, savedProfile);
           
           // Successfully reconnected
           setConnectedDevice(lastPrinter);
@@ -241,6 +321,7 @@ function App() {
             type: 'BLUETOOTH_CONNECTED',
             data: { connected: true, device: lastPrinter, autoConnected: true }
           });
+          void reportPrinterStatus();
           
           // Show success toast
           if (Platform.OS === 'android') {
@@ -276,19 +357,34 @@ function App() {
   const handleWebViewMessage = async (event: any) => {
     try {
       console.log('App: WebView message received, raw data:', event.nativeEvent.data);
-      const message = JSON.parse(event.nativeEvent.data);
-      console.log('App: Parsed message:', message.type, message);
+      const message = parseBridgeMessage<WebToNativeMessage>(event.nativeEvent.data);
+      if (!message) {
+        console.warn('App: ignoring non-bridge WebView message');
+        return;
+      }
+      if (message.type !== 'PRINT_TRANSFER_CHUNK') {
+        console.log('App: Parsed message:', message.type, message);
+      }
       
       switch (message.type) {
+        case 'HELLO':
+          // Protocol handshake: tell the web app which bridge messages this build understands
+          console.log('App: HELLO from web app, protocol', message.data.protocolVersion);
+          sendMessageToWebView({
+            type: 'HELLO_ACK',
+            data: { protocolVersion: BRIDGE_PROTOCOL_VERSION, appVersion: BUNDLE_VERSION }
+          });
+          break;
+
         case 'GET_PRINTER_STATUS':
           // WebView asking for current printer status
           console.log('App: GET_PRINTER_STATUS received');
-          sendMessageToWebView({
-            type: connectedDevice ? 'BLUETOOTH_CONNECTED' : 'BLUETOOTH_DISCONNECTED',
-            data: connectedDevice 
-              ? { connected: true, device: connectedDevice }
-              : { connected: false }
-          });
+          if (connectedDevice) {
+            sendMessageToWebView({ type: 'BLUETOOTH_CONNECTED', data: { connected: true, device: connectedDevice } });
+            void reportPrinterStatus();
+          } else {
+            sendMessageToWebView({ type: 'BLUETOOTH_DISCONNECTED', data: { connected: false } });
+          }
           break;
           
         case 'SCAN_BLUETOOTH_PRINTERS':
@@ -319,9 +415,92 @@ function App() {
           await handleDisconnectPrinter();
           // Clear any pending chunks on disconnect
           bitmapChunksRef.current = null;
+          incomingTransferRef.current = null;
+          break;
+          
+        case 'SET_PRINTER_PROFILE':
+          // Web app resolved a printer profile for the connected device
+          if (message.data?.profile) {
+            activePrinterRef.current.setProfile(message.data.profile);
+            if (message.data.deviceId) {
+              await PrinterStorage.savePrinterProfile(message.data.deviceId, message.data.profile);
+            }
+            // Status support may have changed with the profile
+            void reportPrinterStatus();
+          }
           break;
           
+        case 'PRINT_TRANSFER_START': {
+          const { transferId } = message.data;
+          // START is resent when READY gets lost; answer again without dropping received chunks
+          if (incomingTransferRef.current?.assembler.start.transferId === transferId) {
+            sendMessageToWebView({ type: 'PRINT_TRANSFER_READY', data: { transferId } });
+            break;
+          }
+          if (!connectedDevice) {
+            console.log('App: Print requested but no printer connected, opening modal...');
+            await checkPermissionAndOpenModal();
+            sendMessageToWebView({
+              type: 'PRINT_FAILED',
+              data: {
+                success: false,
+                error: 'No printer connected. Please connect to a printer first.',
+                needsConnection: true,
+                transferId
+              }
+            });
+            break;
+          }
+          if (incomingTransferRef.current) {
+            console.log('App: Replacing unfinished transfer', incomingTransferRef.current.assembler.start.transferId);
+          }
+          console.log('App: transfer START', message.data);
+          incomingTransferRef.current = { assembler: new TransferAssembler(message.data), lastResendAt: 0 };
+          sendMessageToWebView({ type: 'PRINT_TRANSFER_READY', data: { transferId } });
+          break;
+        }
+
+        case 'PRINT_TRANSFER_CHUNK': {
+          const transfer = incomingTransferRef.current;
+          if (!transfer || !transfer.assembler.accept(message.data)) {
+            console.warn('App: ignoring chunk for unknown transfer', message.data.transferId, message.data.chunkIndex);
+            break;
+          }
+          const { assembler } = transfer;
+          const { transferId, width, height } = assembler.start;
+          sendMessageToWebView({
+            type: 'PRINT_TRANSFER_ACK',
+            data: { transferId, chunkIndex: message.data.chunkIndex }
+          });
+          if (!assembler.isComplete()) break;
+
+          incomingTransferRef.current = null;
+          let bitmapBase64: string;
+          try {
+            bitmapBase64 = assembler.assemble();
+          } catch (error) {
+            console.error('App: invalid transfer', error);
+            sendMessageToWebView({
+              type: 'PRINT_FAILED',
+              data: { success: false, error: String(error), errorCode: 'TRANSFER_INVALID', transferId }
+            });
+            break;
+          }
+          console.log('App: transfer complete', { transferId, base64Length: bitmapBase64.length });
+          sendMessageToWebView({ type: 'PRINT_TRANSFER_COMPLETE', data: { transferId } });
+          await handlePrintBitmap(bitmapBase64, width, height, transferId);
+          break;
+        }
+
+        case 'PRINT_TRANSFER_CANCEL':
+          if (incomingTransferRef.current?.assembler.start.transferId === message.data.transferId) {
+            console.log('App: transfer cancelled by web app', message.data);
+            incomingTransferRef.current = null;
+          }
+          break;
+
         case 'PRINT_DITHERED_BITMAP_START':
+          // v1 stream from web bundles that predate the handshake
           // Initialize chunk storage
           if (!connectedDevice) {
             console.log('App: Print requested but no printer connected, opening modal...');
@@ -505,7 +684,7 @@ function App() {
           break;
           
         default:
-          console.log('Unknown message:', message.type);
+          console.log('Unknown message:', (message as { type: string }).type);
       }
     } catch (error) {
       Sentry.captureException(error);
@@ -621,12 +800,26 @@ function App() {
     }, 50);
   };
 
+  /**
+   * Pick the transport for a device (BLE unless it is a network printer) and make it the
+   * active one, closing the other transport's connection first.
+   */
+  const selectTransport = (device: PrinterDevice): PrinterTransport => {
+    const transport: PrinterTransport = device.transport === 'tcp' ? tcpPrinter : printer;
+    if (activePrinterRef.current !== transport) {
+      void activePrinterRef.current.disconnect();
+      activePrinterRef.current = transport;
+    }
+    return transport;
+  };
+
   const handleSelectPrinter = async (device: PrinterDevice) => {
     console.log('App: handleSelectPrinter called for:', device.name);
     
     try {
       // This will throw error if connection fails
-      await printer.connect(device.id);
+      const savedProfile = await PrinterStorage.getPrinterProfile(device.id);
+      await selectTransport(device).connect(device.id, savedProfile);
       
       // Connection succeeded
       setConnectedDevice(device);
@@ -636,6 +829,7 @@ function App() {
         type: 'BLUETOOTH_CONNECTED',
         data: { connected: true, device }
       });
+      void reportPrinterStatus();
       
       // Show success toast
       if (Platform.OS === 'android') {
@@ -655,7 +849,7 @@ function App() {
   const handleDisconnectPrinter = async () => {
     const deviceName = connectedDevice?.name || 'Printer';
     
-    await printer.disconnect();
+    await activePrinterRef.current.disconnect();
     await PrinterStorage.clearLastPrinter();
     setConnectedDevice(null);
     
@@ -675,7 +869,8 @@ function App() {
   const handlePrintBitmap = async (
     bitmapBase64: string,
     width: number,
-    height: number
+    height: number,
+    transferId?: string
   ) => {
     try {
       if (!connectedDevice) {
@@ -688,23 +883,36 @@ function App() {
         height
       });
       
+      // Don't send a job into an open cover or an empty roll: it would be lost while reporting success
+      const status = await reportPrinterStatus();
+      if (status && !canPrintWithStatus(status.state)) {
+        sendMessageToWebView({
+          type: 'PRINT_FAILED',
+          data: {
+            success: false,
+            error: PRINTER_STATUS_MESSAGES[status.state],
+            errorCode: 'PRINTER_NOT_READY',
+            status,
+            transferId
+          }
+        });
+        return;
+      }
+
       // Show progress
       sendMessageToWebView({
         type: 'PRINT_PROGRESS',
         data: { status: 'printing', progress: 50 }
       });
       
-      const success = await printer.printDitheredBitmap(bitmapBase64, width, height);
+      const success = await activePrinterRef.current.printDitheredBitmap(bitmapBase64, width, height);
       console.log('App: print result', { success });
       
-      sendMessageToWebView({
-        type: success ? 'PRINT_SUCCESS' : 'PRINT_FAILED',
-        data: { success, progress: 100 }
-      });
-      
       if (success) {
+        sendMessageToWebView({ type: 'PRINT_SUCCESS', data: { success: true, progress: 100, transferId } });
         Alert.alert('Success', 'Photo printed!');
       } else {
+        sendMessageToWebView({ type: 'PRINT_FAILED', data: { success: false, error: 'Print failed', transferId } });
         throw new Error('Print failed');
       }
     } catch (error) {
@@ -717,10 +925,6 @@ function App() {
     }
   };
 
-  const sendMessageToWebView = (message: any) => {
-    webViewRef.current?.postMessage(JSON.stringify(message));
-  };
-
   const injectedJavaScript = `
     window.isNativeApp = true;
     window.hasNativeBluetooth = true;
@@ -782,6 +986,7 @@ function App() {
         onSelectPrinter={handleSelectPrinter}
         onDisconnect={handleDisconnectPrinter}
         printer={printer}
+        tcpPrinter={tcpPrinter}
         connectedDevice={connectedDevice}
       />
       
@@ -1,7 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, FlatList, TouchableOpacity, StyleSheet, ActivityIndicator, Clipboard, Alert, ScrollView } from 'react-native';
+import { View, Text, TextInput, FlatList, TouchableOpacity, StyleSheet, ActivityIndicator, Clipboard, Alert, ScrollView } from 'react-native';
 import Modal from 'react-native-modal';
 import { NativeBLEPrinter, PrinterDevice } from '../services/NativeBLEPrinter';
+import { NativeTCPPrinter, createTcpPrinterDevice, parsePrinterAddress } from '../services/NativeTCPPrinter';
+import { PrinterStorage } from '../services/PrinterStorage';
 
 interface Props {
   isVisible: boolean;
@@ -9,6 +11,7 @@ interface Props {
   onSelectPrinter: (device: PrinterDevice) => void;
   onDisconnect: () => void;
   printer: NativeBLEPrinter;
+  tcpPrinter: NativeTCPPrinter;
   connectedDevice: PrinterDevice | null;
 }
 
@@ -31,12 +34,15 @@ export const PrinterSelectionModal: React.FC<Props> = ({
   onSelectPrinter, 
   onDisconnect,
   printer, 
+  tcpPrinter,
   connectedDevice 
 }) => {
   const [devices, setDevices] = useState<PrinterDevice[]>([]);
   const [state, setState] = useState<ModalState>('scanning');
   const [error, setError] = useState<ErrorDetail | null>(null);
   const [connectingDevice, setConnectingDevice] = useState<PrinterDevice | null>(null);
+  const [networkAddress, setNetworkAddress] = useState('');
+  const [networkScanProgress, setNetworkScanProgress] = useState<string | null>(null);
 
   useEffect(() => {
     console.log('PrinterSelectionModal: isVisible changed to:', isVisible);
@@ -68,19 +74,17 @@ export const PrinterSelectionModal: React.FC<Props> = ({
     try {
       // Permission is already handled in App.tsx before opening this modal
       console.log('Modal: Scanning for paired devices...');
-      const foundDevices = await printer.scanDevices();
+      const bleDevices = await printer.scanDevices();
+      const networkDevices = await PrinterStorage.getNetworkPrinters();
+      const foundDevices = [...networkDevices, ...bleDevices];
       console.log('Modal: Scan complete. Found devices:', foundDevices.length);
       
       if (foundDevices.length === 0) {
-        setError({
-          message: 'No paired Bluetooth devices found',
-          fullError: `❌ No Paired Devices\n\nNo Bluetooth devices are paired to this phone.\n\n✅ How to pair your printer:\n1. Turn on your thermal printer\n2. Open Android Settings\n3. Go to Bluetooth\n4. Tap "Pair new device"\n5. Select your printer (usually named "BlueTooth Printer" or similar)\n6. Come back here and tap Retry`
-        });
-        setState('error');
-      } else {
-        setError(null);
-        setState('device-list');
+        // Stay on the list: a network printer can still be added from there
+        console.log('Modal: No paired or saved printers');
       }
+      setError(null);
+      setState('device-list');
       
       setDevices(foundDevices);
     } catch (error) {
@@ -143,6 +147,64 @@ export const PrinterSelectionModal: React.FC<Props> = ({
     }
   };
 
+  const addDevices = (added: PrinterDevice[]) => {
+    setDevices(current => [
+      ...added.filter(device => !current.some(c => c.id === device.id)),
+      ...current
+    ]);
+  };
+
+  const handleAddNetworkPrinter = async () => {
+    const address = parsePrinterAddress(networkAddress);
+    if (!address) {
+      Alert.alert('Invalid Address', 'Enter the printer IP address, for example 192.168.1.50 or 192.168.1.50:9100');
+      return;
+    }
+    const device = createTcpPrinterDevice(address.host, address.port);
+    await PrinterStorage.saveNetworkPrinter(device);
+    addDevices([device]);
+    setNetworkAddress('');
+    await handleSelectDevice(device);
+  };
+
+  const handleNetworkScan = async () => {
+    setNetworkScanProgress('Starting...');
+    try {
+      const found = await tcpPrinter.scanSubnet(undefined, (scanned, total) => {
+        setNetworkScanProgress(`${scanned}/${total}`);
+      });
+      for (const device of found) {
+        await PrinterStorage.saveNetworkPrinter(device);
+      }
+      addDevices(found);
+      Alert.alert(
+        'Network Scan Complete',
+        found.length > 0
+          ? `Found ${found.length} network printer${found.length !== 1 ? 's' : ''}`
+          : 'No printers answered on port 9100. Enter the IP address manually if the printer uses a different subnet.'
+      );
+    } catch (error) {
+      Alert.alert('Network Scan Failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setNetworkScanProgress(null);
+    }
+  };
+
+  const handleForgetDevice = (device: PrinterDevice) => {
+    if (device.transport !== 'tcp') return;
+    Alert.alert('Forget Printer', `Remove ${device.name} from the list?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          await PrinterStorage.removeNetworkPrinter(device.id);
+          setDevices(current => current.filter(d => d.id !== device.id));
+        }
+      }
+    ]);
+  };
+
   const handleDisconnect = () => {
     Alert.alert(
       'Disconnect Printer',
@@ -175,9 +237,12 @@ export const PrinterSelectionModal: React.FC<Props> = ({
     <TouchableOpacity 
       style={styles.deviceItem}
       onPress={() => handleSelectDevice(item)}
+      onLongPress={() => handleForgetDevice(item)}
     >
       <View style={styles.deviceInfo}>
-        <Text style={styles.deviceName}>📱 {item.name ?? 'Unknown Device'}</Text>
+        <Text style={styles.deviceName}>
+          {item.transport === 'tcp' ? '🌐' : '📱'} {item.name ?? 'Unknown Device'}
+        </Text>
         <Text style={styles.deviceId}>{item.id ?? ''}</Text>
         {item.rssi !== undefined && <Text style={styles.deviceRssi}>Signal: {item.rssi} dBm</Text>}
       </View>
@@ -192,7 +257,7 @@ export const PrinterSelectionModal: React.FC<Props> = ({
           <View style={styles.stateContainer}>
             <ActivityIndicator size="large" color="#007bff" />
             <Text style={styles.stateTitle}>Scanning for devices...</Text>
-            <Text style={styles.stateSubtext}>Looking for paired Bluetooth devices</Text>
+            <Text style={styles.stateSubtext}>Looking for paired Bluetooth devices and saved network printers</Text>
           </View>
         );
 
@@ -204,7 +269,9 @@ export const PrinterSelectionModal: React.FC<Props> = ({
             <Text style={styles.stateSubtext}>
               Connecting to {connectingDevice?.name ?? 'Printer'}
             </Text>
-            <Text style={styles.stateHint}>This may take up to 10 seconds</Text>
+            <Text style={styles.stateHint}>
+              This may take up to {connectingDevice?.transport === 'tcp' ? 5 : 10} seconds
+            </Text>
           </View>
         );
 
@@ -285,11 +352,46 @@ export const PrinterSelectionModal: React.FC<Props> = ({
               ListEmptyComponent={
                 <View style={styles.emptyContainer}>
                   <Text style={styles.emptyText}>
-                    No devices found
+                    No paired Bluetooth devices found.{'\n'}
+                    Pair the printer in Android Settings → Bluetooth, or add a network printer below.
                   </Text>
                 </View>
               }
             />
+
+            <View style={styles.networkSection}>
+              <Text style={styles.networkTitle}>Network printer (port 9100)</Text>
+              <View style={styles.networkRow}>
+                <TextInput
+                  style={styles.networkInput}
+                  value={networkAddress}
+                  onChangeText={setNetworkAddress}
+                  placeholder="192.168.1.50"
+                  keyboardType="numbers-and-punctuation"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  onSubmitEditing={handleAddNetworkPrinter}
+                />
+                <TouchableOpacity
+                  style={[styles.networkButton, !networkAddress.trim() && styles.networkButtonDisabled]}
+                  onPress={handleAddNetworkPrinter}
+                  disabled={!networkAddress.trim()}
+                >
+                  <Text style={styles.actionButtonText}>Connect</Text>
+                </TouchableOpacity>
+              </View>
+              <TouchableOpacity
+                style={[styles.actionButton, styles.changeButton, { marginTop: 10 }]}
+                onPress={handleNetworkScan}
+                disabled={networkScanProgress !== null}
+              >
+                {networkScanProgress !== null ? (
+                  <Text style={styles.actionButtonText}>Scanning network... {networkScanProgress}</Text>
+                ) : (
+                  <Text style={styles.actionButtonText}>🌐 Scan Wi-Fi Network</Text>
+                )}
+              </TouchableOpacity>
+            </View>
             
             <TouchableOpacity 
               style={[styles.actionButton, styles.refreshButton]} 
@@ -328,7 +430,7 @@ export const PrinterSelectionModal: React.FC<Props> = ({
     >
       <View style={styles.container}>
         <Text style={styles.title}>
-          {state === 'connected' ? '🖨️ Printer Connected' : '🖨️ Bluetooth Printer'}
+          {state === 'connected' ? '🖨️ Printer Connected' : '🖨️ Select Printer'}
         </Text>
         
         {renderContent()}
@@ -509,6 +611,42 @@ const styles = StyleSheet.create({
   retryButton: {
     backgroundColor: '#007bff',
   },
+  networkSection: {
+    marginTop: 15,
+    paddingTop: 15,
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+  },
+  networkTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  networkRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  networkInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 15,
+    fontFamily: 'monospace',
+    color: '#333',
+  },
+  networkButton: {
+    backgroundColor: '#28a745',
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    justifyContent: 'center',
+  },
+  networkButtonDisabled: {
+    opacity: 0.5,
+  },
   refreshButton: {
     backgroundColor: '#28a745',
     marginTop: 10,
@@ -1,7 +1,11 @@
 // Learn more https://docs.expo.io/guides/customizing-metro
+const path = require('path');
 const { getDefaultConfig } = require('expo/metro-config');
 
 /** @type {import('expo/metro-config').MetroConfig} */
 const config = getDefaultConfig(__dirname);
 
+// Platform-neutral modules (ESC/POS encoder) are shared with the web app
+config.watchFolders = [...(config.watchFolders ?? []), path.resolve(__dirname, '../../src/shared')];
+
 module.exports = config;
@@ -1,22 +1,48 @@
 import BleManager from 'react-native-ble-manager';
 import { NativeModules, NativeEventEmitter, PermissionsAndroid, Platform } from 'react-native';
-import { Buffer } from 'buffer';
+import {
+  decodeBitmapPayload,
+  encodeBitmapForProfile,
+  PrinterStatusReader,
+  type NativePrinterProfile,
+  type PrinterDevice,
+  type PrinterTransport
+} from './PrinterTransport';
+import type { PrinterStatusReport } from '../../../src/shared/printerStatus';
+
+export type { NativePrinterProfile, PrinterDevice } from './PrinterTransport';
 
 const BleManagerModule = NativeModules.BleManager;
 const bleManagerEmitter = new NativeEventEmitter(BleManagerModule);
 
-export interface PrinterDevice {
-  id: string;
-  name: string;
-  rssi?: number;
+// BLE libraries report both short ("ff02") and full 128-bit UUIDs
+const uuidMatches = (a: string | undefined, b: string | undefined): boolean => {
+  if (!a || !b) return false;
+  const x = a.toLowerCase();
+  const y = b.toLowerCase();
+  if (x === y) return true;
+  const shortX = x.length === 4 ? x : x.slice(4, 8);
+  const shortY = y.length === 4 ? y : y.slice(4, 8);
+  return (x.length === 4 || y.length === 4) && shortX === shortY;
+};
+
+interface GattCharacteristicInfo {
+  characteristic: string;
+  service?: string;
+  serviceUUID?: string;
+  properties?: Record<string, unknown>;
 }
 
-export class NativeBLEPrinter {
+export class NativeBLEPrinter implements PrinterTransport {
   private connectedDeviceId: string | null = null;
   private characteristicUUID: string = '0000ff02-0000-1000-8000-00805f9b34fb';
   private serviceUUID: string = '0000ff00-0000-1000-8000-00805f9b34fb';
   private mtu: number = 20;
   private characteristicProperties: any = null;
+  private profile: NativePrinterProfile | null = null;
+  private notifyCharacteristicUUID: string | null = null;
+  private status = new PrinterStatusReader(bytes => this.writeBytes(bytes));
+  private printing = false;
   
   private listeners: any[] = [];
 
@@ -25,7 +51,8 @@ export class NativeBLEPrinter {
     
     // Setup listeners
     this.listeners.push(
-      bleManagerEmitter.addListener('BleManagerDisconnectPeripheral', this.handleDisconnect)
+      bleManagerEmitter.addListener('BleManagerDisconnectPeripheral', this.handleDisconnect),
+      bleManagerEmitter.addListener('BleManagerDidUpdateValueForCharacteristic', this.handleValueUpdate)
     );
   }
 
@@ -33,11 +60,94 @@ export class NativeBLEPrinter {
     console.log('Printer disconnected:', data);
     if (data.peripheral === this.connectedDeviceId) {
       this.connectedDeviceId = null;
+      this.resetStatus();
       // Skip auto-reconnect to prevent infinite loop
       // User can manually reconnect if needed
     }
   }
 
+  private handleValueUpdate = (data: { peripheral: string; characteristic: string; value: number[] }) => {
+    if (data.peripheral !== this.connectedDeviceId || !data.value) return;
+    this.status.handleData(data.value);
+  }
+
+  /**
+   * Called with every status the printer pushes on its own (Automatic Status Back).
+   */
+  setStatusListener(listener: ((report: PrinterStatusReport) => void) | null): void {
+    this.status.setListener(listener);
+  }
+
+  getLastStatus(): PrinterStatusReport | null {
+    return this.status.getLastStatus();
+  }
+
+  /**
+   * Ask the printer for cover/paper/error state via DLE EOT 2/3/4.
+   * Returns null when the profile does not declare status support or the printer has no notify characteristic.
+   * While a job is being sent the last known status is returned so requests never interleave with image data.
+   */
+  async queryStatus(): Promise<PrinterStatusReport | null> {
+    if (!this.connectedDeviceId || !this.profile?.supportsStatus || !this.notifyCharacteristicUUID) {
+      return null;
+    }
+    if (this.printing) return this.status.getLastStatus();
+    return this.status.queryStatus();
+  }
+
+  private async writeBytes(bytes: number[]): Promise<void> {
+    if (!this.connectedDeviceId) throw new Error('No printer connected');
+    if (this.characteristicProperties?.WriteWithoutResponse) {
+      await BleManager.writeWithoutResponse(this.connectedDeviceId, this.serviceUUID, this.characteristicUUID, bytes, bytes.length);
+    } else {
+      await BleManager.write(this.connectedDeviceId, this.serviceUUID, this.characteristicUUID, bytes);
+    }
+  }
+
+  /**
+   * Subscribe to the printer's notify/indicate characteristic (preferring the write
+   * characteristic's service) so DLE EOT answers and status packets can be received.
+   */
+  private async setupStatusNotifications(
+    deviceId: string,
+    peripheralInfo: {
+      characteristics?: GattCharacteristicInfo[];
+      services?: { uuid: string; characteristics?: GattCharacteristicInfo[] }[];
+    }
+  ): Promise<void> {
+    const candidates: { service?: string; characteristic: string }[] = [];
+    for (const c of peripheralInfo.characteristics ?? []) {
+      if (c.properties?.Notify || c.properties?.Indicate) {
+        candidates.push({ service: c.service ?? c.serviceUUID, characteristic: c.characteristic });
+      }
+    }
+    for (const s of peripheralInfo.services ?? []) {
+      for (const c of s.characteristics ?? []) {
+        if (c.properties?.Notify || c.properties?.Indicate) {
+          candidates.push({ service: s.uuid, characteristic: c.characteristic });
+        }
+      }
+    }
+    const notify = candidates.find(c => uuidMatches(c.service, this.serviceUUID)) ?? candidates[0];
+    if (!notify?.service) {
+      console.log('No notify characteristic, printer status unavailable');
+      return;
+    }
+    try {
+      await BleManager.startNotification(deviceId, notify.service, notify.characteristic);
+      this.notifyCharacteristicUUID = notify.characteristic;
+      console.log('Listening for printer status on', notify.characteristic);
+    } catch (error) {
+      console.log('Could not enable printer notifications:', error);
+    }
+  }
+
+  private resetStatus(): void {
+    this.status.reset();
+    this.notifyCharacteristicUUID = null;
+    this.printing = false;
+  }
+
   async requestPermissions(): Promise<boolean> {
     if (Platform.OS === 'android' && Platform.Version >= 31) {
       const granted = await PermissionsAndroid.requestMultiple([
@@ -76,7 +186,20 @@ export class NativeBLEPrinter {
     }
   }
 
-  async connect(deviceId: string): Promise<boolean> {
+  setProfile(profile: NativePrinterProfile | null): void {
+    console.log('Printer profile set:', profile?.name ?? 'none');
+    this.profile = profile;
+  }
+
+  getProfile(): NativePrinterProfile | null {
+    return this.profile;
+  }
+
+  async connect(deviceId: string, profile?: NativePrinterProfile | null): Promise<boolean> {
+    if (profile !== undefined) {
+      this.setProfile(profile);
+    }
+    this.resetStatus();
     try {
       console.log('Connecting to device:', deviceId);
       
@@ -99,7 +222,7 @@ export class NativeBLEPrinter {
       if (peripheralInfo.characteristics && peripheralInfo.characteristics.length > 0) {
         console.log('Found characteristics directly in peripheralInfo:', peripheralInfo.characteristics.length);
         
-        for (const char of peripheralInfo.characteristics as any[]) {
+        for (const char of this.orderByProfile(peripheralInfo.characteristics as GattCharacteristicInfo[])) {
           const c: any = char;
           console.log('Checking characteristic:', c.characteristic, 'properties:', c.properties);
           
@@ -143,6 +266,7 @@ export class NativeBLEPrinter {
               console.log('MTU negotiation failed, using default MTU:', this.mtu);
             }
             
+            await this.setupStatusNotifications(deviceId, peripheralInfo);
             this.connectedDeviceId = deviceId;
             console.log('Successfully connected to printer');
             return true;
@@ -153,12 +277,17 @@ export class NativeBLEPrinter {
       // Fallback: Old API with services (should not reach here in v11.5.0)
       if (peripheralInfo.services && peripheralInfo.services.length > 0) {
         console.log('Trying old API with services:', peripheralInfo.services.length);
-        for (const service of peripheralInfo.services as any[]) {
+        const preferredServices = this.profile?.serviceUUIDs ?? [];
+        const services = [...(peripheralInfo.services as { uuid: string }[])].sort((a, b) =>
+          Number(preferredServices.some(u => uuidMatches(u, b.uuid))) -
+          Number(preferredServices.some(u => uuidMatches(u, a.uuid)))
+        );
+        for (const service of services) {
           const s: any = service;
           console.log('Service UUID:', s.uuid);
           // In old API, service should have characteristics
           if (s.characteristics && s.characteristics.length > 0) {
-            for (const char of s.characteristics as any[]) {
+            for (const char of this.orderByProfile(s.characteristics as GattCharacteristicInfo[])) {
               const c: any = char;
               if (c.properties?.Write || c.properties?.WriteWithoutResponse) {
                 console.log('Found writable characteristic:', c.characteristic);
@@ -177,6 +306,7 @@ export class NativeBLEPrinter {
                   console.log('MTU negotiation failed, using default MTU:', this.mtu);
                 }
                 
+                await this.setupStatusNotifications(deviceId, peripheralInfo);
                 this.connectedDeviceId = deviceId;
                 console.log('Successfully connected to printer');
                 return true;
@@ -200,6 +330,22 @@ export class NativeBLEPrinter {
     }
   }
 
+  /**
+   * Put the profile's preferred characteristic (or characteristics of its
+   * preferred services) first so the writable-characteristic search picks it.
+   */
+  private orderByProfile<T extends { characteristic: string; service?: string; serviceUUID?: string }>(characteristics: T[]): T[] {
+    const profile = this.profile;
+    if (!profile) return characteristics;
+    const score = (c: T) => {
+      if (uuidMatches(profile.characteristicUUID, c.characteristic)) return 2;
+      const serviceUUID = c.service ?? c.serviceUUID;
+      if ((profile.serviceUUIDs ?? []).some(u => uuidMatches(u, serviceUUID))) return 1;
+      return 0;
+    };
+    return [...characteristics].sort((a, b) => score(b) - score(a));
+  }
+
   async disconnect(): Promise<void> {
     if (this.connectedDeviceId) {
       try {
@@ -208,6 +354,7 @@ export class NativeBLEPrinter {
         console.error('Disconnect error:', error);
       }
       this.connectedDeviceId = null;
+      this.resetStatus();
     }
   }
 
@@ -224,44 +371,11 @@ export class NativeBLEPrinter {
       throw new Error('No printer connected');
     }
 
+    // Let a status query that is already on the wire finish before image data goes out
+    await this.status.getActiveQuery();
+    this.printing = true;
     try {
-      const bitmapData = Buffer.from(bitmapBase64, 'base64');
-      const raw = new Uint8Array(bitmapData);
-
-      // Normalize input to unpacked 0/1 per-pixel array of length width*height
-      const expectedPixels = width * height;
-      const bytesPerRow = Math.ceil(width / 8);
-      let pixels: Uint8Array;
-      if (raw.length === expectedPixels) {
-        // Already unpacked (0/1 per pixel)
-        pixels = raw;
-      } else if (raw.length === bytesPerRow * height) {
-        // Packed bits -> unpack to 0/1 per pixel (MSB first)
-        pixels = new Uint8Array(expectedPixels);
-        let idx = 0;
-        for (let y = 0; y < height; y++) {
-          for (let bx = 0; bx < bytesPerRow; bx++) {
-            const byte = raw[y * bytesPerRow + bx];
-            for (let bit = 0; bit < 8; bit++) {
-              const x = bx * 8 + bit;
-              if (x < width) {
-                const bitVal = (byte & (0x80 >> bit)) ? 1 : 0; // 1 = black
-                pixels[idx++] = bitVal;
-              }
-            }
-          }
-        }
-      } else {
-        console.warn('Bitmap length does not match width*height or packed size. Attempting best-effort print.', {
-          providedLength: raw.length,
-          expectedPixels,
-          expectedPacked: bytesPerRow * height
-        });
-        // Fallback: truncate or pad to expectedPixels
-        pixels = new Uint8Array(expectedPixels);
-        const len = Math.min(expectedPixels, raw.length);
-        for (let i = 0; i < len; i++) pixels[i] = raw[i] ? 1 : 0;
-      }
+      const pixels = decodeBitmapPayload(bitmapBase64, width, height);
 
       // Debug stats after normalization
       let blackCount = 0;
@@ -275,15 +389,17 @@ export class NativeBLEPrinter {
         blackPercentage: pixels.length > 0 ? ((blackCount / pixels.length) * 100).toFixed(2) + '%' : '0%'
       });
 
-      // Use ESC/POS raster bit image (GS v 0) for broader compatibility
-      const escposCommands = this.generateRasterFromBitmap(pixels, width, height);
-      // Determine BLE chunk size (cap to 182 bytes for broader compatibility)
-      const chunkSize = Math.min(this.mtu, 182);
+      // Same encoder as the web path; image mode comes from the printer profile
+      const escposCommands = this.encodeBitmap(pixels, width, height);
+      // Determine BLE chunk size (profile value, otherwise cap to 182 bytes for broader compatibility)
+      const chunkSize = Math.max(20, Math.min(this.mtu, this.profile?.chunkSize ?? 182));
+      const chunkDelayMs = this.profile?.chunkDelayMs;
       console.log('Native raster payload stats:', {
         totalBytes: escposCommands.length,
         dataBytes: escposCommands.length - 8, // approximate after header
         negotiatedMtu: this.mtu,
-        chunkSize
+        chunkSize,
+        profile: this.profile?.id ?? null
       });
       
       // Send in optimized chunks
@@ -329,8 +445,10 @@ export class NativeBLEPrinter {
           throw err;
         }
         
-        // Adaptive delay based on chunk size
-        if (chunkSize < 100) {
+        // Adaptive delay based on chunk size, unless the profile pins one
+        if (chunkDelayMs !== undefined) {
+          if (chunkDelayMs > 0) await new Promise(r => setTimeout(r, chunkDelayMs));
+        } else if (chunkSize < 100) {
           await new Promise(r => setTimeout(r, 50));
         } else {
           await new Promise(r => setTimeout(r, 30));
@@ -341,60 +459,23 @@ export class NativeBLEPrinter {
     } catch (error) {
       console.error('Print error:', error);
       throw error;
+    } finally {
+      this.printing = false;
     }
   }
 
-  private generateRasterFromBitmap(
+  private encodeBitmap(
     bitmap: Uint8Array,
     width: number,
     height: number
   ): Uint8Array {
-    const commands: number[] = [];
-    
-    // ESC @ - Initialize printer
-    commands.push(0x1B, 0x40);
-    
-    // GS v 0 m xL xH yL yH [data]  — raster bit image (most compatible)
-    const mode = 0x00; // normal
-    const bytesPerRow = Math.ceil(width / 8);
-    const xL = bytesPerRow & 0xFF;
-    const xH = (bytesPerRow >> 8) & 0xFF;
-    const yL = height & 0xFF;
-    const yH = (height >> 8) & 0xFF;
-    
-    commands.push(0x1D, 0x76, 0x30, mode, xL, xH, yL, yH);
-    console.log('Native: raster header', {
-      mode,
-      bytesPerRow,
+    console.log('Native: encoding image', {
+      imageMode: this.profile?.imageMode ?? 'raster',
+      bytesPerRow: Math.ceil(width / 8),
       width,
       height
     });
-      
-    // Build data row-wise; each byte packs 8 horizontal pixels, MSB first
-    for (let y = 0; y < height; y++) {
-      for (let bx = 0; bx < bytesPerRow; bx++) {
-        let byte = 0;
-        for (let bit = 0; bit < 8; bit++) {
-          const x = bx * 8 + bit;
-          if (x < width) {
-            const pixelIndex = y * width + x;
-            // 1 = black, set bit to print dot; 0 = white
-            if (bitmap[pixelIndex] === 1) {
-              byte |= (0x80 >> bit);
-            }
-          }
-        }
-        commands.push(byte);
-      }
-    }
-    
-    // Feed a bit
-    commands.push(0x0A, 0x0A);
-    
-    // Try cut (ignored by most 58mm)
-    commands.push(0x1D, 0x56, 0x00);
-    
-    return new Uint8Array(commands);
+    return encodeBitmapForProfile(bitmap, width, height, this.profile);
   }
 
   cleanup(): void {
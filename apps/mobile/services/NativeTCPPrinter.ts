@@ -0,0 +1,264 @@
+import TcpSocket from 'react-native-tcp-socket';
+import NetInfo from '@react-native-community/netinfo';
+import { Buffer } from 'buffer';
+import {
+  decodeBitmapPayload,
+  encodeBitmapForProfile,
+  PrinterStatusReader,
+  type NativePrinterProfile,
+  type PrinterDevice,
+  type PrinterTransport
+} from './PrinterTransport';
+import type { PrinterStatusReport } from '../../../src/shared/printerStatus';
+
+type Socket = ReturnType<typeof TcpSocket.createConnection>;
+
+export const DEFAULT_RAW_PRINT_PORT = 9100;
+
+const CONNECT_TIMEOUT_MS = 5000;
+const SCAN_TIMEOUT_MS = 400;
+const SCAN_CONCURRENCY = 24;
+// TCP handles flow control, so chunks only bound memory per write
+const TCP_CHUNK_SIZE = 4096;
+
+const TCP_ID_PREFIX = 'tcp://';
+
+export function isTcpDeviceId(id: string): boolean {
+  return id.startsWith(TCP_ID_PREFIX);
+}
+
+export function createTcpPrinterDevice(host: string, port: number = DEFAULT_RAW_PRINT_PORT): PrinterDevice {
+  return {
+    id: `${TCP_ID_PREFIX}${host}:${port}`,
+    name: `Network Printer ${host}`,
+    transport: 'tcp',
+    host,
+    port
+  };
+}
+
+/**
+ * Parse "192.168.1.50" or "192.168.1.50:9100" as typed by the operator.
+ * Returns null for anything that is not an IPv4 address or hostname with a valid port.
+ */
+export function parsePrinterAddress(input: string): { host: string; port: number } | null {
+  const match = input.trim().match(/^([a-zA-Z0-9.-]+)(?::(\d{1,5}))?$/);
+  if (!match) return null;
+  const port = match[2] ? Number(match[2]) : DEFAULT_RAW_PRINT_PORT;
+  if (port < 1 || port > 65535) return null;
+  return { host: match[1], port };
+}
+
+function parseTcpDeviceId(id: string): { host: string; port: number } | null {
+  return isTcpDeviceId(id) ? parsePrinterAddress(id.slice(TCP_ID_PREFIX.length)) : null;
+}
+
+/**
+ * Raw ESC/POS over TCP ("JetDirect" port 9100) for Ethernet / Wi-Fi receipt printers.
+ * Sends exactly the same payload as the BLE transport.
+ */
+export class NativeTCPPrinter implements PrinterTransport {
+  private socket: Socket | null = null;
+  private host: string | null = null;
+  private port: number = DEFAULT_RAW_PRINT_PORT;
+  private profile: NativePrinterProfile | null = null;
+  private status = new PrinterStatusReader(bytes => this.writeBytes(Uint8Array.from(bytes)));
+  private printing = false;
+
+  setProfile(profile: NativePrinterProfile | null): void {
+    console.log('TCP printer profile set:', profile?.name ?? 'none');
+    this.profile = profile;
+  }
+
+  async connect(deviceId: string, profile?: NativePrinterProfile | null): Promise<boolean> {
+    if (profile !== undefined) {
+      this.setProfile(profile);
+    }
+    const address = parseTcpDeviceId(deviceId);
+    if (!address) {
+      throw new Error(`Invalid network printer address: ${deviceId}`);
+    }
+    await this.disconnect();
+    this.host = address.host;
+    this.port = address.port;
+    await this.openSocket();
+    console.log('Connected to network printer', `${this.host}:${this.port}`);
+    return true;
+  }
+
+  private openSocket(): Promise<void> {
+    const host = this.host;
+    const port = this.port;
+    if (!host) return Promise.reject(new Error('No printer connected'));
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const socket = TcpSocket.createConnection({ host, port, connectTimeout: CONNECT_TIMEOUT_MS }, () => {
+        settled = true;
+        this.socket = socket;
+        resolve();
+      });
+      socket.on('data', data => {
+        const bytes = typeof data === 'string' ? Buffer.from(data, 'binary') : data;
+        this.status.handleData(bytes);
+      });
+      socket.on('error', error => {
+        console.log('Network printer socket error:', error);
+        if (!settled) {
+          settled = true;
+          socket.destroy();
+          reject(new Error(`Could not reach printer at ${host}:${port}. Check the IP address and that the printer is on the same network.`));
+        }
+      });
+      socket.on('close', () => {
+        // Many printers drop idle connections; the next job reconnects
+        if (this.socket === socket) {
+          this.socket = null;
+        }
+      });
+    });
+  }
+
+  private writeBytes(bytes: Uint8Array): Promise<void> {
+    const socket = this.socket;
+    if (!socket) return Promise.reject(new Error('No printer connected'));
+    return new Promise((resolve, reject) => {
+      socket.write(bytes, undefined, error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.socket) {
+      this.socket.destroy();
+      this.socket = null;
+    }
+    this.host = null;
+    this.status.reset();
+    this.printing = false;
+  }
+
+  /**
+   * Called with every status the printer pushes on its own (Automatic Status Back).
+   */
+  setStatusListener(listener: ((report: PrinterStatusReport) => void) | null): void {
+    this.status.setListener(listener);
+  }
+
+  /**
+   * DLE EOT status over the same socket. Returns null when the profile does not declare status support.
+   */
+  async queryStatus(): Promise<PrinterStatusReport | null> {
+    if (!this.host || !this.profile?.supportsStatus) return null;
+    if (this.printing) return this.status.getLastStatus();
+    try {
+      if (!this.socket) await this.openSocket();
+    } catch (error) {
+      console.warn('Network printer unreachable for status query:', error);
+      return null;
+    }
+    return this.status.queryStatus();
+  }
+
+  async printDitheredBitmap(bitmapBase64: string, width: number, height: number): Promise<boolean> {
+    if (!this.host) {
+      throw new Error('No printer connected');
+    }
+
+    await this.status.getActiveQuery();
+    this.printing = true;
+    try {
+      if (!this.socket) {
+        console.log('Network printer connection was closed, reconnecting...');
+        await this.openSocket();
+      }
+
+      const pixels = decodeBitmapPayload(bitmapBase64, width, height);
+      const payload = encodeBitmapForProfile(pixels, width, height, this.profile);
+      console.log('TCP raster payload stats:', {
+        totalBytes: payload.length,
+        host: this.host,
+        port: this.port,
+        profile: this.profile?.id ?? null
+      });
+
+      for (let i = 0; i < payload.length; i += TCP_CHUNK_SIZE) {
+        await this.writeBytes(payload.subarray(i, i + TCP_CHUNK_SIZE));
+      }
+      return true;
+    } catch (error) {
+      console.error('TCP print error:', error);
+      throw error;
+    } finally {
+      this.printing = false;
+    }
+  }
+
+  /**
+   * Check whether something accepts connections on host:port.
+   */
+  probe(host: string, port: number = DEFAULT_RAW_PRINT_PORT, timeoutMs: number = CONNECT_TIMEOUT_MS): Promise<boolean> {
+    return new Promise(resolve => {
+      let done = false;
+      // Declared before connecting: an error can arrive before createConnection returns
+      let socket: Socket | null = null;
+      const finish = (found: boolean) => {
+        if (done) return;
+        done = true;
+        clearTimeout(timer);
+        socket?.destroy();
+        resolve(found);
+      };
+      const timer = setTimeout(() => finish(false), timeoutMs + 100);
+      socket = TcpSocket.createConnection({ host, port, connectTimeout: timeoutMs }, () => finish(true));
+      socket.on('error', () => finish(false));
+      if (done) socket.destroy();
+    });
+  }
+
+  /**
+   * Look for raw print servers on the phone's /24 Wi-Fi or Ethernet subnet.
+   * @param onProgress - called with (scanned, total) as hosts are checked
+   */
+  async scanSubnet(
+    port: number = DEFAULT_RAW_PRINT_PORT,
+    onProgress?: (scanned: number, total: number) => void
+  ): Promise<PrinterDevice[]> {
+    const state = await NetInfo.fetch();
+    const details = state.details as { ipAddress?: string } | null;
+    const ipAddress = details?.ipAddress;
+    const octets = ipAddress?.split('.');
+    if (!ipAddress || !octets || octets.length !== 4 || (state.type !== 'wifi' && state.type !== 'ethernet')) {
+      throw new Error('Connect this device to the printer\'s Wi-Fi or Ethernet network to scan for printers.');
+    }
+
+    const prefix = octets.slice(0, 3).join('.');
+    const hosts: string[] = [];
+    for (let i = 1; i <= 254; i++) {
+      const host = `${prefix}.${i}`;
+      if (host !== ipAddress) hosts.push(host);
+    }
+    console.log(`Scanning ${prefix}.0/24 for port ${port}...`);
+
+    const found: PrinterDevice[] = [];
+    let next = 0;
+    let scanned = 0;
+    const worker = async () => {
+      while (next < hosts.length) {
+        const host = hosts[next++];
+        if (await this.probe(host, port, SCAN_TIMEOUT_MS)) {
+          console.log('Found network printer at', host);
+          found.push(createTcpPrinterDevice(host, port));
+        }
+        scanned++;
+        onProgress?.(scanned, hosts.length);
+      }
+    };
+    await Promise.all(Array.from({ length: SCAN_CONCURRENCY }, worker));
+
+    return found.sort((a, b) => Number(a.host?.split('.')[3]) - Number(b.host?.split('.')[3]));
+  }
+
+  cleanup(): void {
+    void this.disconnect();
+  }
+}
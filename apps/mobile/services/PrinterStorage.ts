@@ -1,7 +1,9 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { PrinterDevice } from './NativeBLEPrinter';
+import { NativePrinterProfile, PrinterDevice } from './PrinterTransport';
 
 const PRINTER_KEY = '@morobooth:last_printer';
+const PROFILE_KEY_PREFIX = '@morobooth:printer_profile:';
+const NETWORK_PRINTERS_KEY = '@morobooth:network_printers';
 
 export class PrinterStorage {
   static async saveLastPrinter(device: PrinterDevice): Promise<void> {
@@ -16,6 +18,32 @@ export class PrinterStorage {
   static async clearLastPrinter(): Promise<void> {
     await AsyncStorage.removeItem(PRINTER_KEY);
   }
+
+  // Profile resolved by the web app for a device, reused on auto-connect before the WebView loads
+  static async savePrinterProfile(deviceId: string, profile: NativePrinterProfile): Promise<void> {
+    await AsyncStorage.setItem(PROFILE_KEY_PREFIX + deviceId, JSON.stringify(profile));
+  }
+
+  static async getPrinterProfile(deviceId: string): Promise<NativePrinterProfile | null> {
+    const data = await AsyncStorage.getItem(PROFILE_KEY_PREFIX + deviceId);
+    return data ? JSON.parse(data) : null;
+  }
+
+  // Network printers can't be listed like paired BLE devices, so remember every one that was added
+  static async getNetworkPrinters(): Promise<PrinterDevice[]> {
+    const data = await AsyncStorage.getItem(NETWORK_PRINTERS_KEY);
+    return data ? JSON.parse(data) : [];
+  }
+
+  static async saveNetworkPrinter(device: PrinterDevice): Promise<void> {
+    const printers = (await PrinterStorage.getNetworkPrinters()).filter(p => p.id !== device.id);
+    await AsyncStorage.setItem(NETWORK_PRINTERS_KEY, JSON.stringify([...printers, device]));
+  }
+
+  static async removeNetworkPrinter(deviceId: string): Promise<void> {
+    const printers = (await PrinterStorage.getNetworkPrinters()).filter(p => p.id !== deviceId);
+    await AsyncStorage.setItem(NETWORK_PRINTERS_KEY, JSON.stringify(printers));
+  }
 }
 
 
@@ -0,0 +1,189 @@
+import { Buffer } from 'buffer';
+import { encodeImageJob, unpackRasterRows } from '../../../src/shared/escpos';
+import type { BridgePrinterDevice, BridgePrinterProfile, BridgeTransportKind } from '../../../src/shared/bridgeProtocol';
+import {
+  DLE_EOT_ERROR,
+  DLE_EOT_OFFLINE,
+  DLE_EOT_PAPER,
+  ENABLE_AUTOMATIC_STATUS_BACK,
+  isRealtimeStatusByte,
+  parseAutomaticStatusBack,
+  parseRealtimeStatus,
+  type PrinterStatusReport
+} from '../../../src/shared/printerStatus';
+
+export type PrinterTransportKind = BridgeTransportKind;
+// Devices and profiles travel over the WebView bridge, so they share its schema
+export type PrinterDevice = BridgePrinterDevice;
+export type NativePrinterProfile = BridgePrinterProfile;
+
+/**
+ * What App.tsx needs from a printer connection, regardless of how bytes reach the printer.
+ */
+export interface PrinterTransport {
+  setProfile(profile: NativePrinterProfile | null): void;
+  connect(deviceId: string, profile?: NativePrinterProfile | null): Promise<boolean>;
+  disconnect(): Promise<void>;
+  printDitheredBitmap(bitmapBase64: string, width: number, height: number): Promise<boolean>;
+  queryStatus(): Promise<PrinterStatusReport | null>;
+  setStatusListener(listener: ((report: PrinterStatusReport) => void) | null): void;
+  cleanup(): void;
+}
+
+/**
+ * Normalize the PWA's base64 bitmap (unpacked 0/1 per pixel or packed MSB-first rows)
+ * to an unpacked array of width*height.
+ */
+export function decodeBitmapPayload(bitmapBase64: string, width: number, height: number): Uint8Array {
+  const raw = new Uint8Array(Buffer.from(bitmapBase64, 'base64'));
+  const expectedPixels = width * height;
+  const bytesPerRow = Math.ceil(width / 8);
+
+  if (raw.length === expectedPixels) {
+    // Already unpacked (0/1 per pixel)
+    return raw;
+  }
+  if (raw.length === bytesPerRow * height) {
+    // Packed bits -> unpack to 0/1 per pixel (MSB first)
+    return unpackRasterRows(raw, width, height).pixels;
+  }
+
+  console.warn('Bitmap length does not match width*height or packed size. Attempting best-effort print.', {
+    providedLength: raw.length,
+    expectedPixels,
+    expectedPacked: bytesPerRow * height
+  });
+  // Fallback: truncate or pad to expectedPixels
+  const pixels = new Uint8Array(expectedPixels);
+  const len = Math.min(expectedPixels, raw.length);
+  for (let i = 0; i < len; i++) pixels[i] = raw[i] ? 1 : 0;
+  return pixels;
+}
+
+/**
+ * Encode a bitmap with the shared ESC/POS encoder using the profile's output options.
+ */
+export function encodeBitmapForProfile(
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+  profile: NativePrinterProfile | null
+): Uint8Array {
+  // Without a profile keep the previous native output: GS v 0 raster, 2 line feeds, full cut
+  return encodeImageJob(
+    { width, height, pixels },
+    {
+      imageMode: profile?.imageMode ?? 'raster',
+      alignment: profile?.alignment ?? 'left',
+      density: profile?.density ?? null,
+      feedLines: profile?.feedLines ?? 2,
+      cutMode: profile?.cutMode ?? 'full'
+    }
+  );
+}
+
+// Each DLE EOT request gets one byte back; printers without real-time status stay silent
+const STATUS_RESPONSE_TIMEOUT_MS = 1000;
+
+/**
+ * DLE EOT / Automatic Status Back handling shared by the transports.
+ * The transport feeds every received byte packet to `handleData` and provides a raw `write`.
+ */
+export class PrinterStatusReader {
+  private readonly write: (bytes: number[]) => Promise<void>;
+  private automaticStatusEnabled = false;
+  private pendingByte: ((value: number | undefined) => void) | null = null;
+  private query: Promise<PrinterStatusReport | null> | null = null;
+  private lastStatus: PrinterStatusReport | null = null;
+  private listener: ((report: PrinterStatusReport) => void) | null = null;
+
+  constructor(write: (bytes: number[]) => Promise<void>) {
+    this.write = write;
+  }
+
+  setListener(listener: ((report: PrinterStatusReport) => void) | null): void {
+    this.listener = listener;
+  }
+
+  getLastStatus(): PrinterStatusReport | null {
+    return this.lastStatus;
+  }
+
+  /** Status query currently on the wire, if any */
+  getActiveQuery(): Promise<PrinterStatusReport | null> | null {
+    return this.query;
+  }
+
+  handleData(bytes: ArrayLike<number>): void {
+    if (!bytes.length) return;
+
+    // Answer to an outstanding DLE EOT request
+    if (this.pendingByte && bytes.length === 1 && isRealtimeStatusByte(bytes[0])) {
+      this.pendingByte(bytes[0]);
+      return;
+    }
+
+    // Unsolicited Automatic Status Back packet (cover opened, paper ran out, ...)
+    const report = parseAutomaticStatusBack(bytes);
+    if (report) {
+      console.log('Printer status changed:', report.state);
+      this.lastStatus = report;
+      this.listener?.(report);
+    }
+  }
+
+  /**
+   * Ask for cover/paper/error state via DLE EOT 2/3/4. Concurrent calls share one query.
+   */
+  queryStatus(): Promise<PrinterStatusReport | null> {
+    if (!this.query) {
+      this.query = this.runQuery().finally(() => {
+        this.query = null;
+      });
+    }
+    return this.query;
+  }
+
+  reset(): void {
+    this.pendingByte?.(undefined);
+    this.automaticStatusEnabled = false;
+    this.lastStatus = null;
+  }
+
+  private async runQuery(): Promise<PrinterStatusReport | null> {
+    try {
+      if (!this.automaticStatusEnabled) {
+        await this.write(ENABLE_AUTOMATIC_STATUS_BACK);
+        this.automaticStatusEnabled = true;
+        // GS a answers with an initial status packet; let it arrive before the real-time requests
+        await new Promise(resolve => setTimeout(resolve, 200));
+      }
+      const offline = await this.requestByte(DLE_EOT_OFFLINE);
+      const error = await this.requestByte(DLE_EOT_ERROR);
+      const paper = await this.requestByte(DLE_EOT_PAPER);
+      const report = parseRealtimeStatus({ offline, error, paper });
+      this.lastStatus = report;
+      return report;
+    } catch (error) {
+      console.warn('Printer status query failed:', error);
+      return this.lastStatus;
+    }
+  }
+
+  private requestByte(command: number[]): Promise<number | undefined> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => finish(undefined), STATUS_RESPONSE_TIMEOUT_MS);
+      const finish = (value: number | undefined) => {
+        clearTimeout(timer);
+        this.pendingByte = null;
+        resolve(value);
+      };
+      this.pendingByte = finish;
+      this.write(command).catch(error => {
+        clearTimeout(timer);
+        this.pendingByte = null;
+        reject(error);
+      });
+    });
+  }
+}
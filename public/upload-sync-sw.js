@@ -0,0 +1,32 @@
+// Background Sync for the photo upload queue, imported into the generated service worker
+// (see workbox.importScripts in vite.config.ts). Uploads need the app's Supabase client, so the
+// worker asks an open window to drain the queue; when none is open the sync fails and the
+// browser retries it later.
+const UPLOAD_SYNC_TAG = 'morobooth-upload';
+const UPLOAD_SYNC_MESSAGE = 'morobooth-upload-sync';
+const UPLOAD_SYNC_TIMEOUT = 3 * 60 * 1000; // browsers stop a sync event after a few minutes
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== UPLOAD_SYNC_TAG) return;
+  event.waitUntil(requestUploadDrain());
+});
+
+async function requestUploadDrain() {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  if (windows.length === 0) {
+    throw new Error('No open window to upload from');
+  }
+  const remaining = await new Promise((resolve, reject) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => reject(new Error('Upload sync timed out')), UPLOAD_SYNC_TIMEOUT);
+    channel.port1.onmessage = (message) => {
+      clearTimeout(timer);
+      resolve(message.data && typeof message.data.remaining === 'number' ? message.data.remaining : 0);
+    };
+    windows[0].postMessage({ type: UPLOAD_SYNC_MESSAGE }, [channel.port2]);
+  });
+  if (remaining > 0) {
+    // Rejecting keeps the sync registered so the browser tries again later
+    throw new Error(`${remaining} photos still waiting for upload`);
+  }
+}
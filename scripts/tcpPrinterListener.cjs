@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+
+// Stand-in for a network receipt printer: accepts raw ESC/POS on port 9100 (or PORT),
+// answers DLE EOT status requests as "ready" and saves every job to ./tcp-print-jobs.
+// Connect to it from the mobile app's "Network printer" field with this machine's LAN IP.
+
+const fs = require('fs');
+const net = require('net');
+const path = require('path');
+
+const port = Number(process.env.PORT || 9100);
+const outDir = path.resolve(process.cwd(), 'tcp-print-jobs');
+
+const DLE = 0x10;
+const EOT = 0x04;
+// Real-time status byte with no error bits set (fixed bits 1 and 4)
+const STATUS_READY = 0x12;
+
+function saveJob(chunks, remote) {
+  const data = Buffer.concat(chunks);
+  // Status polls alone (GS a / DLE EOT) are not print jobs
+  if (data.length < 16) return;
+  fs.mkdirSync(outDir, { recursive: true });
+  const file = path.join(outDir, `job-${Date.now()}.bin`);
+  fs.writeFileSync(file, data);
+  console.log(`[tcpPrinterListener] ${remote}: saved ${data.length} bytes to ${path.relative(process.cwd(), file)}`);
+}
+
+const server = net.createServer((socket) => {
+  const remote = `${socket.remoteAddress}:${socket.remotePort}`;
+  let chunks = [];
+  let idleTimer = null;
+  console.log(`[tcpPrinterListener] ${remote} connected`);
+
+  // The app keeps the connection open between jobs; treat a pause in data as the end of a job
+  const flush = () => {
+    saveJob(chunks, remote);
+    chunks = [];
+  };
+
+  socket.on('data', (data) => {
+    for (let i = 0; i + 2 < data.length; i++) {
+      if (data[i] === DLE && data[i + 1] === EOT && data[i + 2] >= 1 && data[i + 2] <= 4) {
+        socket.write(Buffer.from([STATUS_READY]));
+      }
+    }
+    chunks.push(data);
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(flush, 1000);
+  });
+
+  socket.on('close', () => {
+    clearTimeout(idleTimer);
+    flush();
+    console.log(`[tcpPrinterListener] ${remote} disconnected`);
+  });
+
+  socket.on('error', (error) => {
+    console.warn(`[tcpPrinterListener] ${remote} error:`, error.message);
+  });
+});
+
+server.listen(port, () => {
+  console.log(`[tcpPrinterListener] Listening for raw print jobs on port ${port}`);
+});
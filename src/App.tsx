@@ -1,6 +1,10 @@
 import { useState, useEffect, lazy, Suspense } from 'react';
 import { PermissionPage } from './components/PermissionPage';
 import { TemplateSelector } from './components/TemplateSelector';
+import { EventEndedScreen } from './components/EventEndedScreen';
+import { useEndedSession } from './hooks/useEndedSession';
+import { initSessionScheduler } from './services/sessionSchedulerService';
+import type { Template } from './config/templates';
 import './App.css';
 
 // Lazy load heavy components (route-based code splitting)
@@ -12,17 +16,6 @@ const SessionDetailsPage = lazy(() => import('./components/SessionDetailsPage').
 
 type AppPage = 'permission' | 'template' | 'photobooth' | 'admin' | 'download' | 'session-photos' | 'session-details';
 
-interface Template {
-  id: string;
-  name: string;
-  description: string;
-  width: number; // mm
-  height: number; // mm
-  photoCount: number;
-  layout: 'vertical' | 'horizontal' | 'grid';
-  thermalSize: '58mm' | '80mm';
-}
-
 function App() {
   // Initialize currentPage based on path to prevent wrong initial render
   // CRITICAL: This runs synchronously before any render, so it's the source of truth
@@ -76,6 +69,14 @@ function App() {
                                (initialPath.startsWith('/session/') && (initialPath.includes('/photos') || initialPath.includes('/details'))) ||
                                initialPath === '/admin';
   const [permissionAutoProceed, setPermissionAutoProceed] = useState(!isSpecialPathInitial);
+  const endedSession = useEndedSession();
+
+  // The booth follows the session timetable (admin and guest pages don't)
+  useEffect(() => {
+    if (!isSpecialPathInitial) {
+      initSessionScheduler();
+    }
+  }, [isSpecialPathInitial]);
 
   // Add route detection in useEffect - run immediately on mount
   // This ensures routing is correct even before first render
@@ -388,6 +389,11 @@ function App() {
         />
       )}
       
+      {/* Closed session - blocks choosing a template until another session is active */}
+      {currentPage === 'template' && !isSpecialPath && endedSession && (
+        <EventEndedScreen session={endedSession} />
+      )}
+      
       {/* Photo booth - only if not on special paths */}
       {currentPage === 'photobooth' && selectedTemplate && !isSpecialPath && (
         <Suspense fallback={<LoadingFallback />}>
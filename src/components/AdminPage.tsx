@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { nanoid } from 'nanoid';
 
 declare global {
   interface Window {
@@ -14,14 +15,27 @@ import {
   activateSession,
   type SessionInfo 
 } from '../services/sessionService';
-import { getUnuploadedPhotos, markPhotoAsUploaded } from '../services/photoStorageService';
-import { bulkUploadPhotos, type UploadResult } from '../services/uploadService';
 import { supabase, isSupabaseConfigured } from '../config/supabase';
-import type { ConfigOverride, ConfigHeader, ConfigBody, HeaderMode, PrinterOutputSettings, QRCodeSettings, UploadSettings, PrinterSizeSettings } from '../services/configService';
-import { getConfigOverride, setConfigOverride, getPrinterOutputSettings, setPrinterOutputSettings, resetPrinterOutputSettings, getQRCodeSettings, setQRCodeSettings, resetQRCodeSettings, DEFAULT_QR_SETTINGS, getUploadSettings, setUploadSettings, resetUploadSettings, getPrinterSizeSettings, setPrinterSizeSettings, resetPrinterSizeSettings, getBaseUrlSettings, setBaseUrlSettings, resetBaseUrlSettings } from '../services/configService';
+import type { BrandingFont, ConfigOverride, ConfigHeader, ConfigBody, HeaderMode, PrinterOutputSettings, QRCodeSettings, UploadSettings, PrinterSizeSettings } from '../services/configService';
+import { getConfigOverride, setConfigOverride, normalizeFonts, normalizeTextFonts, getPrinterOutputSettings, setPrinterOutputSettings, resetPrinterOutputSettings, getQRCodeSettings, setQRCodeSettings, resetQRCodeSettings, DEFAULT_QR_SETTINGS, getUploadSettings, setUploadSettings, resetUploadSettings, getPrinterSizeSettings, setPrinterSizeSettings, resetPrinterSizeSettings, getBaseUrlSettings, setBaseUrlSettings, resetBaseUrlSettings, getVirtualPrinterEnabled } from '../services/configService';
 import { getHybridBluetoothPrinterService, HybridBluetoothPrinterService } from '../services/hybridBluetoothPrinterService';
 import { nativeBridge } from '../services/nativeBridgeService';
-import { uploadHeaderImage, deleteHeaderImage } from '../services/headerImageUploadService';
+import { uploadHeaderImage, uploadFontFile, deleteConfigImage } from '../services/headerImageUploadService';
+import { FALLBACK_FONT, getFontFamily, loadBrandingFont } from '../utils/brandingFonts';
+import { PrinterProfilesPanel } from './PrinterProfilesPanel';
+import { PrintQueuePanel } from './PrintQueuePanel';
+import { StorageUsagePanel } from './StorageUsagePanel';
+import { UploadQueuePanel } from './UploadQueuePanel';
+import { BoothsPanel } from './BoothsPanel';
+import { SessionSchedulePanel } from './SessionSchedulePanel';
+import { SessionImportPanel } from './SessionImportPanel';
+import { drainUploadQueue } from '../services/uploadQueueService';
+import { VirtualPrinterPanel } from './VirtualPrinterPanel';
+import { CaptureSettingsPanel } from './CaptureSettingsPanel';
+import { TemplateDesignerPanel } from './TemplateDesignerPanel';
+import { DITHER_ALGORITHMS, type DitherAlgorithm } from '../utils/dithering';
+import { DEFAULT_DATE_TEXT, TEXT_TOKENS } from '../utils/textTokens';
+import { TEXT_SOURCE_LABELS, type TemplateTextSource, type TextAlign, type TextBlockStyle } from '../config/templates';
 
 const SESSIONS_TABLE = 'sessions';
 const DEFAULT_BODY_MAIN = 'Morobooth';
@@ -53,6 +67,8 @@ async function syncConfigToSupabase(config: ConfigOverride, fallbackSessionCode?
         config_header_image_url: headerMode === 'image' ? (config.header.imageUrl ?? '') : null,
         config_body_main_text: bodyMain,
         config_body_sub_text: bodySub,
+        config_fonts: config.fonts ?? [],
+        config_text_fonts: config.textFonts ?? {},
       })
       .eq('session_code', sessionCode);
 
@@ -72,7 +88,7 @@ async function loadConfigFromSupabase(activeSessionCode?: string): Promise<Confi
   try {
     const baseQuery = supabase
       .from(SESSIONS_TABLE)
-      .select('session_code, config_enabled, config_header_mode, config_header_main_text, config_header_sub_text, config_header_image_url, config_body_main_text, config_body_sub_text')
+      .select('session_code, config_enabled, config_header_mode, config_header_main_text, config_header_sub_text, config_header_image_url, config_body_main_text, config_body_sub_text, config_fonts, config_text_fonts')
       .order('created_at', { ascending: false })
       .limit(1);
 
@@ -93,6 +109,7 @@ async function loadConfigFromSupabase(activeSessionCode?: string): Promise<Confi
       const headerSub = row.config_header_sub_text ?? '';
       const bodyMain = row.config_body_main_text ?? DEFAULT_BODY_MAIN;
       const bodySub = row.config_body_sub_text ?? DEFAULT_BODY_SUB;
+      const fonts = normalizeFonts(row.config_fonts);
 
       return {
         enabled: row.config_enabled ?? false,
@@ -106,7 +123,9 @@ async function loadConfigFromSupabase(activeSessionCode?: string): Promise<Confi
         body: {
           mainText: bodyMain,
           subText: bodySub
-        }
+        },
+        fonts,
+        textFonts: normalizeTextFonts(row.config_text_fonts, fonts)
       } as ConfigOverride;
     }
   } catch (error) {
@@ -142,9 +161,6 @@ export const AdminPage = () => {
   const [error, setError] = useState('');
   
   // Upload states
-  const [unuploadedPhotos, setUnuploadedPhotos] = useState<any[]>([]);
-  const [uploading, setUploading] = useState(false);
-  const [uploadResults, setUploadResults] = useState<UploadResult[]>([]);
 
   // Config states
   const [configOverride, setConfigOverrideState] = useState<ConfigOverride>({
@@ -163,6 +179,8 @@ export const AdminPage = () => {
   const [configError, setConfigError] = useState('');
   const [uploadingImage, setUploadingImage] = useState(false);
   const [uploadImageError, setUploadImageError] = useState('');
+  const [uploadingFont, setUploadingFont] = useState(false);
+  const [uploadFontError, setUploadFontError] = useState('');
 
   const updateConfigOverride = useCallback((patch: ConfigOverridePatch) => {
     setConfigOverrideState((prev) => {
@@ -189,7 +207,7 @@ export const AdminPage = () => {
   }, [currentSession?.sessionCode]);
 
   // Tab state
-  const [activeTab, setActiveTab] = useState<'session' | 'upload' | 'config' | 'printer'>('session');
+  const [activeTab, setActiveTab] = useState<'session' | 'templates' | 'upload' | 'config' | 'printer'>('session');
   
   // Bluetooth states
   const [bluetoothPrinter, setBluetoothPrinter] = useState<HybridBluetoothPrinterService | null>(null);
@@ -229,7 +247,8 @@ export const AdminPage = () => {
 
   // Upload settings
   const [uploadSettings, setUploadSettingsState] = useState<UploadSettings>({
-    saveBeforePrint: true
+    saveBeforePrint: true,
+    autoUpload: true
   });
 
   // Base URL settings
@@ -250,18 +269,6 @@ export const AdminPage = () => {
       all.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
       setSessions(all);
       
-      if (current) {
-        try {
-          const unuploaded = await getUnuploadedPhotos();
-          setUnuploadedPhotos(unuploaded);
-        } catch (error) {
-          console.warn('Could not load unuploaded photos:', error);
-          setUnuploadedPhotos([]);
-        }
-      } else {
-        setUnuploadedPhotos([]);
-      }
-
       let remoteConfig: ConfigOverride | null = null;
       if (isSupabaseConfigured()) {
         remoteConfig = await loadConfigFromSupabase(current?.sessionCode);
@@ -329,6 +336,13 @@ export const AdminPage = () => {
     }
   };
 
+  // Register uploaded fonts so the list can show each name in its own face
+  useEffect(() => {
+    (configOverride.fonts ?? []).forEach((font) => {
+      void loadBrandingFont(font);
+    });
+  }, [configOverride.fonts]);
+
   // Initialize native bridge
   useEffect(() => {
     nativeBridge.init();
@@ -540,13 +554,48 @@ export const AdminPage = () => {
     
     // Only delete from Supabase if it's a Supabase URL
     if (imageUrl.includes('supabase.co')) {
-      await deleteHeaderImage(imageUrl);
+      await deleteConfigImage(imageUrl);
     }
     
     updateConfigOverride({ header: { imageUrl: '' } });
     setUploadImageError('');
   };
 
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setUploadingFont(true);
+    setUploadFontError('');
+
+    try {
+      const result = await uploadFontFile(file, currentSession?.sessionCode);
+      if (result.success && result.url) {
+        const font: BrandingFont = { id: nanoid(8), name: file.name.replace(/\.[^.]+$/, ''), url: result.url };
+        updateConfigOverride({ enabled: true, fonts: [...(configOverride.fonts ?? []), font] });
+      } else {
+        setUploadFontError(result.error || 'Failed to upload font');
+      }
+    } catch (error) {
+      console.error('Font upload error:', error);
+      setUploadFontError(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setUploadingFont(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleRemoveFont = async (font: BrandingFont) => {
+    if (!confirm(`Remove font "${font.name}"? Text blocks using it go back to the default font.`)) return;
+    if (font.url.includes('supabase.co')) {
+      await deleteConfigImage(font.url);
+    }
+    const textFonts = Object.fromEntries(
+      Object.entries(configOverride.textFonts ?? {}).filter(([, fontId]) => fontId !== font.id)
+    );
+    updateConfigOverride({ fonts: (configOverride.fonts ?? []).filter((f) => f.id !== font.id), textFonts });
+  };
+
   function handleConfigSave() {
     try {
       if (configOverride.enabled && configOverride.header.mode === 'image' && !configOverride.header.imageUrl) {
@@ -598,61 +647,6 @@ export const AdminPage = () => {
     }
   }
 
-  async function handleUpload() {
-    if (!isSupabaseConfigured()) {
-      setError('Supabase not configured. Please check environment variables.');
-      return;
-    }
-
-    setUploading(true);
-    setError('');
-    setUploadResults([]);
-    
-    try {
-      const results = await bulkUploadPhotos(unuploadedPhotos);
-      
-      // Mark successful uploads with supabasePath
-      let successCount = 0;
-      let failCount = 0;
-      
-      for (const result of results) {
-        if (result.success && result.url) {
-          try {
-            // Save supabasePath if available
-            await markPhotoAsUploaded(result.photoId, result.url, result.path);
-            successCount++;
-          } catch (markError) {
-            // Log error but don't break the flow
-            console.error(`Failed to mark photo ${result.photoId} as uploaded:`, markError);
-            failCount++;
-            // Still count as success for upload, but mark failed for notification
-          }
-        } else {
-          failCount++;
-        }
-      }
-      
-      setUploadResults(results);
-      await loadData(); // Refresh unuploaded list
-      
-      // Show success notification with count
-      if (successCount > 0) {
-        showNotification(
-          `✓ ${successCount} photos uploaded successfully${failCount > 0 ? `, ${failCount} failed` : ''}`,
-          failCount > 0 ? 'info' : 'success'
-        );
-      } else {
-        showNotification('All uploads failed. Please check your connection.', 'error');
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-      setError('Upload failed: ' + errorMessage);
-      showNotification('Upload failed: ' + errorMessage, 'error');
-    } finally {
-      setUploading(false);
-    }
-  }
-
   const handleConnectBluetooth = async () => {
     try {
       setBluetoothError('');
@@ -674,7 +668,7 @@ export const AdminPage = () => {
           }
         }, 500);
       } else {
-        if (!('bluetooth' in navigator)) {
+        if (!getVirtualPrinterEnabled() && !('bluetooth' in navigator)) {
           setBluetoothError('Web Bluetooth not supported');
           showNotification('Web Bluetooth is not supported in this browser', 'error');
           return;
@@ -952,6 +946,21 @@ export const AdminPage = () => {
                 )}
               </div>
 
+              <CaptureSettingsPanel
+                session={currentSession}
+                onSessionUpdated={setCurrentSession}
+                showNotification={showNotification}
+              />
+
+              <SessionSchedulePanel
+                sessions={sessions}
+                currentSession={currentSession}
+                onSessionsChanged={loadData}
+                showNotification={showNotification}
+              />
+
+              <BoothsPanel session={currentSession} showNotification={showNotification} />
+
               {/* Session List Card */}
               <div className="admin-card">
                 <div className="card-header">
@@ -1023,65 +1032,27 @@ export const AdminPage = () => {
                   </button>
                 </div>
               </div>
+
+              <SessionImportPanel onImported={loadData} showNotification={showNotification} />
             </div>
           )}
 
-          {activeTab === 'upload' && (
+          {activeTab === 'templates' && (
             <div className="tab-content">
-              <div className="admin-card">
-                <div className="card-header">
-                  <h2>Upload Photos</h2>
-                </div>
-                {error && error.includes('Supabase') && <div className="error-message">{error}</div>}
-                
-                <div className="upload-stats">
-                  <div className="stat-item">
-                    <span className="stat-number">{unuploadedPhotos.length}</span>
-                    <span className="stat-label">Pending Uploads</span>
-                  </div>
-                  <div className="config-status">
-                    {isSupabaseConfigured() ? (
-                      <span className="success">✓ Supabase Ready</span>
-                    ) : (
-                      <span className="error">✗ Supabase Not Configured</span>
-                    )}
-                  </div>
-                </div>
+              <TemplateDesignerPanel
+                session={currentSession}
+                printerWidth={printerSizeSettings.width}
+                onSessionUpdated={setCurrentSession}
+                showNotification={showNotification}
+              />
+            </div>
+          )}
 
-                {unuploadedPhotos.length > 0 && (
-                  <button 
-                    onClick={handleUpload} 
-                    disabled={uploading || !isSupabaseConfigured()}
-                    className="upload-btn"
-                  >
-                    {uploading ? `Uploading... (${uploadResults.length}/${unuploadedPhotos.length})` : 'Upload All Photos'}
-                  </button>
-                )}
+          {activeTab === 'upload' && (
+            <div className="tab-content">
+              <UploadQueuePanel showNotification={showNotification} />
 
-                {uploadResults.length > 0 && (
-                  <div className="upload-results">
-                    <h3>Upload Results</h3>
-                    <div className="results-summary">
-                      <span className="success-count">
-                        ✓ {uploadResults.filter(r => r.success).length} Success
-                      </span>
-                      <span className="error-count">
-                        ✗ {uploadResults.filter(r => !r.success).length} Failed
-                      </span>
-                    </div>
-                    <div className="results-list">
-                      {uploadResults.slice(0, 5).map(r => (
-                        <div key={r.photoId} className={`result-item ${r.success ? 'success' : 'error'}`}>
-                          {r.photoId}: {r.success ? '✓' : '✗'}
-                        </div>
-                      ))}
-                      {uploadResults.length > 5 && (
-                        <div className="more-results">... and {uploadResults.length - 5} more</div>
-                      )}
-                    </div>
-                  </div>
-                )}
-              </div>
+              <StorageUsagePanel showNotification={showNotification} />
 
               {/* Upload Settings Section */}
               <div className="admin-card" style={{ marginTop: '20px' }}>
@@ -1129,6 +1100,28 @@ export const AdminPage = () => {
                     </div>
                   )}
                 </div>
+                <div className="setting-group" style={{ marginBottom: '16px' }}>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: '12px', cursor: 'pointer' }}>
+                    <input
+                      type="checkbox"
+                      checked={uploadSettings.autoUpload ?? true}
+                      onChange={(e) => {
+                        setUploadSettingsState({
+                          ...uploadSettings,
+                          autoUpload: e.target.checked
+                        });
+                      }}
+                      style={{ width: '20px', height: '20px', cursor: 'pointer' }}
+                    />
+                    <span style={{ fontSize: '16px', fontWeight: '500' }}>
+                      Upload photos automatically
+                    </span>
+                  </label>
+                  <p style={{ margin: '8px 0 0 32px', fontSize: '14px', color: '#666', lineHeight: '1.5' }}>
+                    Jika enabled, foto langsung di-upload di background setelah disimpan dan dicoba ulang otomatis saat gagal atau offline.
+                    Jika disabled, upload hanya lewat tombol "Upload Now".
+                  </p>
+                </div>
                 <div style={{ marginTop: '20px', display: 'flex', gap: '12px' }}>
                   <button
                     onClick={() => {
@@ -1136,6 +1129,7 @@ export const AdminPage = () => {
                         setUploadSettings(uploadSettings);
                         const saved = getUploadSettings();
                         console.log('Upload settings saved successfully:', saved);
+                        void drainUploadQueue();
                         showNotification('Upload settings saved! Changes will apply to next print.', 'success');
                       } catch (error) {
                         console.error('Failed to save upload settings:', error);
@@ -1148,7 +1142,7 @@ export const AdminPage = () => {
                   </button>
                   <button
                     onClick={() => {
-                      const defaults = { saveBeforePrint: true };
+                      const defaults = { saveBeforePrint: true, autoUpload: true };
                       setUploadSettingsState(defaults);
                       resetUploadSettings();
                       showNotification('Upload settings reset to defaults', 'info');
@@ -1491,6 +1485,9 @@ export const AdminPage = () => {
                         value={configOverride.body.subText}
                         onChange={(e) => updateConfigOverride({ body: { subText: e.target.value } })}
                   />
+                      <p className="setting-help">
+                        Tokens are filled in on each print: {TEXT_TOKENS.map((t) => t.token).join(' ')}
+                      </p>
                     </>
                   )}
  
@@ -1530,6 +1527,51 @@ export const AdminPage = () => {
                     </div>
                   )}
 
+                  <div className="font-config">
+                    <label className="field-label">Fonts</label>
+                    <div className="file-input-row">
+                      <label className={`file-upload-btn ${uploadingFont ? 'disabled' : ''}`}>
+                        {uploadingFont ? 'Uploading...' : 'Upload Font (TTF/OTF/WOFF)'}
+                        <input
+                          type="file"
+                          accept=".ttf,.otf,.woff,.woff2,font/ttf,font/otf,font/woff,font/woff2"
+                          disabled={uploadingFont}
+                          onChange={handleFontUpload}
+                        />
+                      </label>
+                    </div>
+                    {uploadFontError && (
+                      <div className="error-message" style={{ marginTop: '8px' }}>
+                        {uploadFontError}
+                      </div>
+                    )}
+                    {(configOverride.fonts ?? []).map((font) => (
+                      <div key={font.id} className="font-row">
+                        <span style={{ fontFamily: `${getFontFamily(font)}, ${FALLBACK_FONT}` }}>{font.name}</span>
+                        <button type="button" className="small-btn" onClick={() => handleRemoveFont(font)}>
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                    {(configOverride.fonts ?? []).length > 0 && (Object.keys(TEXT_SOURCE_LABELS) as TemplateTextSource[]).map((source) => (
+                      <div key={source} className="font-row">
+                        <span>{TEXT_SOURCE_LABELS[source]}</span>
+                        <select
+                          value={configOverride.textFonts?.[source] ?? ''}
+                          onChange={(e) => updateConfigOverride({
+                            textFonts: { ...configOverride.textFonts, [source]: e.target.value || undefined }
+                          })}
+                          className="select-input"
+                        >
+                          <option value="">Default (monospace)</option>
+                          {(configOverride.fonts ?? []).map((font) => (
+                            <option key={font.id} value={font.id}>{font.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+
                   <div className="toggle-row">
                     <button 
                       onClick={() => updateConfigOverride({
@@ -1686,6 +1728,21 @@ export const AdminPage = () => {
                 )}
               </div>
 
+              {/* Virtual Printer / Paper Preview Section */}
+              <VirtualPrinterPanel showNotification={showNotification} />
+
+              {/* Print Queue Section */}
+              <PrintQueuePanel
+                isPrinterConnected={isBluetoothConnected}
+                showNotification={showNotification}
+              />
+
+              {/* Printer Profiles Section */}
+              <PrinterProfilesPanel
+                activeProfileId={isBluetoothConnected ? printerInfo?.profileId : undefined}
+                showNotification={showNotification}
+              />
+
               {/* Printer Size Settings Section */}
               <div className="admin-card" style={{ marginTop: '20px' }}>
                 <div className="card-header">
@@ -1845,7 +1902,7 @@ export const AdminPage = () => {
                   <div className="setting-group">
                     <label className="field-label toggle-label">
                       <span>Enable Dithering</span>
-                      <span className="setting-help">(Error-diffusion for smoother gradients)</span>
+                      <span className="setting-help">(Smoother gradients on paper)</span>
                       <div 
                         className={`toggle-switch ${printerOutputSettings.dithering ?? true ? 'active' : ''}`}
                         onClick={() => setPrinterOutputSettingsState({
@@ -1858,6 +1915,28 @@ export const AdminPage = () => {
                     </label>
                   </div>
 
+                  {(printerOutputSettings.dithering ?? true) && (
+                    <div className="setting-group">
+                      <label className="field-label">
+                        Dither Algorithm
+                        <span className="setting-help">(Used for the print job on both Web Bluetooth and native)</span>
+                      </label>
+                      <select
+                        value={printerOutputSettings.printDitherAlgorithm ?? 'floyd-steinberg'}
+                        onChange={(e) => setPrinterOutputSettingsState({
+                          ...printerOutputSettings,
+                          printDitherAlgorithm: e.target.value as DitherAlgorithm
+                        })}
+                        className="select-input"
+                        style={{ width: '100%', padding: '8px', fontSize: '16px' }}
+                      >
+                        {DITHER_ALGORITHMS.map((algorithm) => (
+                          <option key={algorithm.id} value={algorithm.id}>{algorithm.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
                   {/* Visual Separator */}
                   <div className="settings-separator"></div>
 
@@ -1907,8 +1986,8 @@ export const AdminPage = () => {
                     </div>
                     <div className="setting-group">
                       <label className="field-label toggle-label">
-                        <span>Enable Ordered Dither</span>
-                        <span className="setting-help">(Bayer dithering for preview)</span>
+                        <span>Enable Dither</span>
+                        <span className="setting-help">(Live preview dithering)</span>
                         <div 
                           className={`toggle-switch ${printerOutputSettings.previewDither !== false ? 'active' : ''}`}
                           onClick={() => setPrinterOutputSettingsState({
@@ -1923,6 +2002,27 @@ export const AdminPage = () => {
                         Preview dither runs every 2 frames for performance. Changes apply immediately.
                       </p>
                     </div>
+                    {printerOutputSettings.previewDither !== false && (
+                      <div className="setting-group">
+                        <label className="field-label">
+                          Dither Algorithm
+                          <span className="setting-help">(Ordered and blue-noise modes are fastest for live video)</span>
+                        </label>
+                        <select
+                          value={printerOutputSettings.previewDitherAlgorithm ?? 'bayer-4x4'}
+                          onChange={(e) => setPrinterOutputSettingsState({
+                            ...printerOutputSettings,
+                            previewDitherAlgorithm: e.target.value as DitherAlgorithm
+                          })}
+                          className="select-input"
+                          style={{ width: '100%', padding: '8px', fontSize: '16px' }}
+                        >
+                          {DITHER_ALGORITHMS.map((algorithm) => (
+                            <option key={algorithm.id} value={algorithm.id}>{algorithm.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
                   </div>
 
                   {/* Visual Separator */}
@@ -1933,7 +2033,7 @@ export const AdminPage = () => {
                     <h3>Composition Stage Filters</h3>
                     <div className="setting-group">
                       <label className="field-label toggle-label">
-                        <span>Enable Floyd-Steinberg Dither</span>
+                        <span>Enable Dither</span>
                         <span className="setting-help">(High-quality dithering for final composition)</span>
                         <div 
                           className={`toggle-switch ${printerOutputSettings.compositionDither !== false ? 'active' : ''}`}
@@ -1946,6 +2046,27 @@ export const AdminPage = () => {
                         </div>
                       </label>
                     </div>
+                    {printerOutputSettings.compositionDither !== false && (
+                      <div className="setting-group">
+                        <label className="field-label">
+                          Dither Algorithm
+                          <span className="setting-help">(Error diffusion keeps faces smooth; ordered modes keep text crisp)</span>
+                        </label>
+                        <select
+                          value={printerOutputSettings.compositionDitherAlgorithm ?? 'floyd-steinberg'}
+                          onChange={(e) => setPrinterOutputSettingsState({
+                            ...printerOutputSettings,
+                            compositionDitherAlgorithm: e.target.value as DitherAlgorithm
+                          })}
+                          className="select-input"
+                          style={{ width: '100%', padding: '8px', fontSize: '16px' }}
+                        >
+                          {DITHER_ALGORITHMS.map((algorithm) => (
+                            <option key={algorithm.id} value={algorithm.id}>{algorithm.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
                     {printerOutputSettings.compositionDither !== false && (
                       <div className="setting-group">
                         <label className="field-label">
@@ -1996,9 +2117,90 @@ export const AdminPage = () => {
                         </div>
                       </label>
                       <p className="setting-help note-text">
-                        When enabled, photos will display "MOROBOOTH // YYYY.MM.DD" text below the header.
+                        When enabled, photos will display the date line below the header.
+                      </p>
+                    </div>
+
+                    {printerOutputSettings.showDateText !== false && (
+                      <div className="setting-group">
+                        <label className="field-label">Date Line</label>
+                        <input
+                          type="text"
+                          placeholder={DEFAULT_DATE_TEXT}
+                          value={printerOutputSettings.dateText ?? DEFAULT_DATE_TEXT}
+                          onChange={(e) => setPrinterOutputSettingsState({
+                            ...printerOutputSettings,
+                            dateText: e.target.value
+                          })}
+                        />
+                      </div>
+                    )}
+
+                    <div className="setting-group">
+                      <label className="field-label">Text Tokens</label>
+                      <ul className="setting-help">
+                        {TEXT_TOKENS.map((t) => (
+                          <li key={t.token}><code>{t.token}</code> - {t.description}</li>
+                        ))}
+                      </ul>
+                      <p className="setting-help note-text">
+                        Number and code tokens stay empty on the saved download copy, which is made before the photo is numbered.
                       </p>
                     </div>
+
+                    <div className="setting-group">
+                      <label className="field-label">Text Block Style</label>
+                      <span className="setting-help">(Overrides the template; leave size empty to keep the template's)</span>
+                      {(Object.keys(TEXT_SOURCE_LABELS) as TemplateTextSource[]).map((source) => {
+                        const style = printerOutputSettings.textStyles?.[source] ?? {};
+                        const updateStyle = (patch: TextBlockStyle) => {
+                          const next: TextBlockStyle = { ...style, ...patch };
+                          (Object.keys(next) as (keyof TextBlockStyle)[]).forEach((key) => {
+                            if (next[key] === undefined) delete next[key];
+                          });
+                          setPrinterOutputSettingsState({
+                            ...printerOutputSettings,
+                            textStyles: { ...printerOutputSettings.textStyles, [source]: next }
+                          });
+                        };
+                        return (
+                          <div key={source} className="text-style-row">
+                            <span className="text-style-label">{TEXT_SOURCE_LABELS[source]}</span>
+                            <input
+                              type="number"
+                              min="0.5"
+                              step="0.25"
+                              placeholder="mm"
+                              value={style.fontSize ?? ''}
+                              onChange={(e) => {
+                                const fontSize = parseFloat(e.target.value);
+                                updateStyle({ fontSize: Number.isFinite(fontSize) && fontSize > 0 ? fontSize : undefined });
+                              }}
+                              className="number-input"
+                            />
+                            <select
+                              value={style.align ?? ''}
+                              onChange={(e) => updateStyle({ align: (e.target.value || undefined) as TextAlign | undefined })}
+                              className="select-input"
+                            >
+                              <option value="">Template align</option>
+                              <option value="left">Left</option>
+                              <option value="center">Centre</option>
+                              <option value="right">Right</option>
+                            </select>
+                            <select
+                              value={style.wrap === undefined ? '' : style.wrap ? 'wrap' : 'single'}
+                              onChange={(e) => updateStyle({ wrap: e.target.value ? e.target.value === 'wrap' : undefined })}
+                              className="select-input"
+                            >
+                              <option value="">Template wrap</option>
+                              <option value="single">One line</option>
+                              <option value="wrap">Wrap</option>
+                            </select>
+                          </div>
+                        );
+                      })}
+                    </div>
                   </div>
 
                   {/* Visual Separator */}
@@ -2032,12 +2234,17 @@ export const AdminPage = () => {
                           gamma: 1.25,
                           dithering: true,
                           sharpen: 0.45,
+                          printDitherAlgorithm: 'floyd-steinberg' as DitherAlgorithm,
                           captureGrayscale: true,
                           previewGrayscale: true,
                           previewDither: true,
+                          previewDitherAlgorithm: 'bayer-4x4' as DitherAlgorithm,
                           compositionDither: true,
                           compositionDitherThreshold: 128,
-                          showDateText: true
+                          compositionDitherAlgorithm: 'floyd-steinberg' as DitherAlgorithm,
+                          showDateText: true,
+                          dateText: DEFAULT_DATE_TEXT,
+                          textStyles: {}
                         };
                         setPrinterOutputSettingsState(defaults);
                         resetPrinterOutputSettings();
@@ -2063,6 +2270,13 @@ export const AdminPage = () => {
             <span className="nav-icon">📷</span>
             <span className="nav-label">Session</span>
           </button>
+          <button 
+            className={`nav-btn ${activeTab === 'templates' ? 'active' : ''}`}
+            onClick={() => setActiveTab('templates')}
+          >
+            <span className="nav-icon">🧩</span>
+            <span className="nav-label">Templates</span>
+          </button>
           <button 
             className={`nav-btn ${activeTab === 'upload' ? 'active' : ''}`}
             onClick={() => setActiveTab('upload')}
@@ -0,0 +1,140 @@
+import { useState, useEffect, useCallback } from 'react';
+import { isSupabaseConfigured } from '../config/supabase';
+import type { SessionInfo } from '../services/sessionService';
+import {
+  getBoothIdentity,
+  getSessionBooths,
+  isBoothOnline,
+  registerBooth,
+  setBoothName,
+  type BoothInfo
+} from '../services/boothService';
+
+interface BoothsPanelProps {
+  session: SessionInfo | null;
+  showNotification: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+function formatLastSeen(iso: string): string {
+  const seconds = Math.round((Date.now() - Date.parse(iso)) / 1000);
+  if (!Number.isFinite(seconds)) return 'never';
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min ago`;
+  return new Date(iso).toLocaleString();
+}
+
+export const BoothsPanel = ({ session, showNotification }: BoothsPanelProps) => {
+  const [identity, setIdentity] = useState(getBoothIdentity);
+  const [nameInput, setNameInput] = useState(identity.boothName);
+  const [booths, setBooths] = useState<BoothInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const sessionCode = session?.sessionCode;
+
+  const refresh = useCallback(async () => {
+    if (!sessionCode) return;
+    setLoading(true);
+    setError('');
+    try {
+      await registerBooth(sessionCode);
+      setBooths(await getSessionBooths(sessionCode));
+    } catch (err) {
+      console.error('[BoothsPanel] Failed to load booths:', err);
+      setError('Failed to load booths');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionCode]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const handleSaveName = async () => {
+    try {
+      const updated = await setBoothName(nameInput);
+      setIdentity(updated);
+      setNameInput(updated.boothName);
+      showNotification(`Booth name saved: ${updated.boothName}`, 'success');
+      await refresh();
+    } catch (err) {
+      showNotification('Failed to save booth name: ' + (err instanceof Error ? err.message : 'Unknown error'), 'error');
+    }
+  };
+
+  return (
+    <div className="admin-card">
+      <div className="card-header">
+        <h2>Booths</h2>
+      </div>
+      <p className="settings-description">
+        Every tablet running this session appears here. Photo numbers are handed out by the server, so booths
+        sharing a session never print the same number (photos taken offline use this booth's own count).
+      </p>
+
+      <div className="create-form">
+        <input
+          type="text"
+          placeholder="Booth name (e.g., Entrance)"
+          value={nameInput}
+          onChange={(e) => setNameInput(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && handleSaveName()}
+        />
+        <button onClick={handleSaveName} className="primary-btn" disabled={!nameInput.trim()}>
+          Save Booth Name
+        </button>
+      </div>
+      <p className="settings-description">Device ID: <code>{identity.deviceId}</code></p>
+
+      {!session ? (
+        <div className="no-data">
+          <p>No active session</p>
+        </div>
+      ) : !isSupabaseConfigured() ? (
+        <div className="no-data">
+          <p>Supabase is not configured, booths can only be listed online</p>
+        </div>
+      ) : error ? (
+        <div className="error-message">{error}</div>
+      ) : booths.length === 0 ? (
+        <div className="no-data">
+          <p>{loading ? 'Loading booths...' : 'No booths registered yet'}</p>
+        </div>
+      ) : (
+        <div className="sessions-list">
+          {booths.map((booth) => {
+            const online = isBoothOnline(booth);
+            return (
+              <div key={booth.deviceId} className={`session-item ${booth.deviceId === identity.deviceId ? 'active-session' : ''}`}>
+                <div className="session-info">
+                  <div className="session-header">
+                    <div className="session-code">{booth.boothName}</div>
+                    <div className={`session-status ${online ? 'active' : 'inactive'}`}>
+                      {online ? '🟢 ONLINE' : '⚪ OFFLINE'}
+                    </div>
+                  </div>
+                  <div className="session-event">
+                    {booth.deviceId === identity.deviceId ? 'This booth · ' : ''}
+                    {booth.deviceId.slice(0, 8)}
+                  </div>
+                </div>
+                <div className="session-stats">
+                  <span className="photo-count">{booth.photoCount} photos</span>
+                  <span className="session-date">Last seen {formatLastSeen(booth.lastSeenAt)}</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {session && isSupabaseConfigured() && (
+        <div style={{ marginTop: '20px' }}>
+          <button onClick={refresh} className="secondary-btn" disabled={loading}>
+            {loading ? 'Refreshing...' : 'Refresh'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import {
+  getCaptureSettings,
+  getSessionTemplates,
+  updateSessionCaptureSettings,
+  type CaptureSettings,
+  type SessionInfo
+} from '../services/sessionService';
+
+interface CaptureSettingsPanelProps {
+  session: SessionInfo | null;
+  onSessionUpdated: (session: SessionInfo) => void;
+  showNotification: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+export const CaptureSettingsPanel = ({ session, onSessionUpdated, showNotification }: CaptureSettingsPanelProps) => {
+  const templates = getSessionTemplates(session);
+  const [templateId, setTemplateId] = useState(templates[0].id);
+  const [draft, setDraft] = useState<CaptureSettings>(() => getCaptureSettings(session, templateId));
+  const [saving, setSaving] = useState(false);
+  const template = templates.find((t) => t.id === templateId) ?? templates[0];
+  // A motion template records one burst, so it has a single countdown and prompt
+  const shotCount = template.captureMode === 'motion' ? 1 : template.layout.cells.length;
+
+  // Reload the form when switching template or session
+  useEffect(() => {
+    setDraft(getCaptureSettings(session, templateId));
+  }, [session, templateId]);
+
+  const updateDraft = (patch: Partial<CaptureSettings>) => {
+    setDraft((prev) => ({ ...prev, ...patch }));
+  };
+
+  const updatePrompt = (index: number, value: string) => {
+    const posePrompts = Array.from({ length: shotCount }, (_, i) => draft.posePrompts[i] ?? '');
+    posePrompts[index] = value;
+    updateDraft({ posePrompts });
+  };
+
+  const handleSave = async () => {
+    if (!session) return;
+    setSaving(true);
+    try {
+      const updated = await updateSessionCaptureSettings(session.sessionCode, templateId, draft);
+      onSessionUpdated(updated);
+      showNotification(`Capture settings saved for ${template.name}`, 'success');
+    } catch (error) {
+      console.error('Failed to save capture settings:', error);
+      showNotification(error instanceof Error ? error.message : 'Failed to save capture settings', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="admin-card">
+      <div className="card-header">
+        <h2>Capture Timing</h2>
+      </div>
+      {!session ? (
+        <div className="no-session">
+          <p>No active session</p>
+          <p className="subtitle">Capture timing is stored with the session</p>
+        </div>
+      ) : (
+        <div className="printer-output-settings">
+          <p className="settings-description">
+            Countdowns, pose prompts and pacing for each layout in {session.eventName}.
+          </p>
+
+          <div className="setting-group">
+            <label className="field-label">Template</label>
+            <select
+              value={templateId}
+              onChange={(e) => setTemplateId(e.target.value)}
+              className="select-input"
+            >
+              {templates.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name} ({t.captureMode === 'motion' ? 'GIF' : `${t.layout.cells.length} photo${t.layout.cells.length !== 1 ? 's' : ''}`})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="setting-group" style={{ display: 'flex', gap: '12px' }}>
+            <div style={{ flex: 1 }}>
+              <label className="field-label">
+                First Countdown
+                <span className="setting-help">(seconds)</span>
+              </label>
+              <input
+                type="number"
+                min="0"
+                max="10"
+                value={draft.countdownSeconds}
+                onChange={(e) => updateDraft({ countdownSeconds: parseInt(e.target.value) || 0 })}
+                className="number-input"
+              />
+            </div>
+            {shotCount > 1 && (
+              <div style={{ flex: 1 }}>
+                <label className="field-label">
+                  Between Shots
+                  <span className="setting-help">(seconds)</span>
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="10"
+                  value={draft.shotCountdownSeconds}
+                  onChange={(e) => updateDraft({ shotCountdownSeconds: parseInt(e.target.value) || 0 })}
+                  className="number-input"
+                />
+              </div>
+            )}
+          </div>
+
+          {shotCount > 1 && (
+            <div className="setting-group">
+              <label className="field-label toggle-label">
+                <span>Press to Take Next</span>
+                <span className="setting-help">(guests press NEXT PHOTO before each countdown)</span>
+                <div
+                  className={`toggle-switch ${draft.manualAdvance ? 'active' : ''}`}
+                  onClick={() => updateDraft({ manualAdvance: !draft.manualAdvance })}
+                >
+                  <div className="toggle-slider"></div>
+                </div>
+              </label>
+            </div>
+          )}
+
+          <div className="setting-group">
+            <label className="field-label">
+              Pose Prompts
+              <span className="setting-help">(shown during each countdown, optional)</span>
+            </label>
+            {Array.from({ length: shotCount }, (_, i) => (
+              <input
+                key={i}
+                type="text"
+                value={draft.posePrompts[i] ?? ''}
+                placeholder={`Photo ${i + 1}, e.g. "Silly face!"`}
+                onChange={(e) => updatePrompt(i, e.target.value)}
+                style={{ marginBottom: '8px' }}
+              />
+            ))}
+          </div>
+
+          <button onClick={handleSave} className="primary-btn" disabled={saving}>
+            {saving ? 'Saving...' : 'Save Capture Timing'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
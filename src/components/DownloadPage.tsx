@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { getPhotoById } from '../services/photoStorageService';
+import { getPhotoById, type PhotoFiles, type PhotoRecord } from '../services/photoStorageService';
 import { getFreshSignedUrl } from '../services/uploadService';
 import { getSessionByCode, getDefaultSessionSettings } from '../services/sessionService';
 import { supabase, isSupabaseConfigured } from '../config/supabase';
@@ -15,15 +15,38 @@ interface DownloadPageProps {
   photoId: string;
 }
 
+// Motion template photos: the printed strip plus the animation the guest actually wants
+interface MotionUrls {
+  gifUrl: string;
+  boomerangUrl: string;
+}
+
+const REMOVED_MESSAGE = 'This photo has been removed by the event organiser.';
+
+// Hidden or deleted by the organiser, or its download link was revoked (photoModerationService)
+function isRemovedPhotoRow(row: { moderation_status?: string | null; token_revoked_at?: string | null; access_token?: string | null }): boolean {
+  return !!row.moderation_status || (!!row.token_revoked_at && !row.access_token);
+}
+
+async function getMotionSignedUrls(gifPath: string, boomerangPath: string): Promise<MotionUrls | null> {
+  const [gifUrl, boomerangUrl] = await Promise.all([getFreshSignedUrl(gifPath), getFreshSignedUrl(boomerangPath)]);
+  return gifUrl && boomerangUrl ? { gifUrl, boomerangUrl } : null;
+}
+
 export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
+  const [removed, setRemoved] = useState(false);
   const [downloadUrl, setDownloadUrl] = useState<string>('');
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [isLocalOnly, setIsLocalOnly] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [signedUrlCache, setSignedUrlCache] = useState<{ url: string; expiry: number } | null>(null);
+  const [colorUrl, setColorUrl] = useState<string>(''); // Colour copy; downloadUrl is the print version
+  const [motionUrls, setMotionUrls] = useState<MotionUrls | null>(null);
+  const [motionVariant, setMotionVariant] = useState<'gif' | 'boomerang'>('boomerang');
   const isLoadingRef = useRef(false); // Guard to prevent concurrent loads
+  const objectUrlsRef = useRef<string[]>([]); // Object URLs for this device's local copies, revoked on unmount
 
   // Extract token from URL query params
   const urlParams = new URLSearchParams(window.location.search);
@@ -66,7 +89,10 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
           
           if (!response.ok) {
             // Handle different error statuses
-            if (response.status === 401) {
+            if (response.status === 410 || data.removed) {
+              setRemoved(true);
+              setError(REMOVED_MESSAGE);
+            } else if (response.status === 401) {
               setError('Invalid download link. Please check the QR code and try again.');
             } else if (response.status === 403) {
               setError('Download link has expired.');
@@ -86,6 +112,8 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
             const cacheExpiry = Date.now() + (data.expiresIn || 3600) * 1000;
             setSignedUrlCache({ url: data.signedUrl, expiry: cacheExpiry });
             setDownloadUrl(data.signedUrl);
+            setColorUrl(data.colorUrl ?? '');
+            setMotionUrls(data.motion ?? null);
             setLoading(false);
             console.log('[DownloadPage] ✓ Photo validated and signed URL received from Edge Function');
             return;
@@ -110,14 +138,27 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
           // Query database for photo by UUID
           const { data: photoData, error: photoError } = await supabase
             .from('photos')
-            .select('photo_id, session_code, photo_number, timestamp, uploaded, storage_path, access_token, legacy_photo_id')
+            .select('photo_id, session_code, photo_number, timestamp, uploaded, storage_path, access_token, legacy_photo_id, color_path, motion_path, boomerang_path, moderation_status, token_revoked_at')
             .eq('photo_id', photoId)
             .single();
           
           if (photoError || !photoData) {
             console.error('[DownloadPage] Photo not found in database:', photoError);
             // Fall through to legacy logic
+          } else if (isRemovedPhotoRow(photoData)) {
+            console.warn('[DownloadPage] Photo removed by the organiser');
+            setRemoved(true);
+            setError(REMOVED_MESSAGE);
+            setLoading(false);
+            return;
           } else if (photoData.uploaded) {
+            if (photoData.color_path) {
+              setColorUrl((await getFreshSignedUrl(photoData.color_path)) ?? '');
+            }
+            if (photoData.motion_path && photoData.boomerang_path) {
+              setMotionUrls(await getMotionSignedUrls(photoData.motion_path, photoData.boomerang_path));
+            }
+
             // Photo exists and is uploaded, generate signed URL
             // Use storage_path if available, otherwise construct from legacy_photo_id
             let storagePath = photoData.storage_path;
@@ -192,7 +233,8 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
       }
       
       // Step 3: Legacy format or no token - use existing logic (backward compatibility)
-      let record = null;
+      let record: PhotoRecord | null = null;
+      let localFiles: PhotoFiles | undefined; // Only when the photo was taken on this device
       let sessionCode = '';
       
       if (isSupabaseConfigured() && supabase && isOnline) {
@@ -294,6 +336,7 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
         const localRecord = await getPhotoById(photoId);
         if (localRecord) {
           record = localRecord;
+          localFiles = localRecord.files;
           sessionCode = localRecord.sessionCode;
           console.log('[DownloadPage] Photo found in IndexedDB');
         }
@@ -305,10 +348,18 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
         try {
           const { data: photoData, error: photoError } = await supabase
             .from('photos')
-            .select('photo_id, session_code, photo_number, timestamp, uploaded, storage_path, legacy_photo_id')
+            .select('photo_id, session_code, photo_number, timestamp, uploaded, storage_path, legacy_photo_id, access_token, moderation_status, token_revoked_at')
             .or(`photo_id.eq.${photoId},legacy_photo_id.eq.${photoId}`)
             .single();
           
+          if (!photoError && photoData && isRemovedPhotoRow(photoData)) {
+            console.warn('[DownloadPage] Photo removed by the organiser (retry)');
+            setRemoved(true);
+            setError(REMOVED_MESSAGE);
+            setLoading(false);
+            return;
+          }
+
           if (!photoError && photoData && photoData.uploaded) {
             // Found in database, generate signed URL
             // Use storage_path if available, otherwise construct from legacy_photo_id
@@ -369,6 +420,14 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
         setLoading(false);
         return;
       }
+
+      // This device's copy of a photo the organiser hid or revoked
+      if (record.moderationStatus || record.tokenRevokedAt) {
+        setRemoved(true);
+        setError(REMOVED_MESSAGE);
+        setLoading(false);
+        return;
+      }
       
       // Use sessionCode from record if we got it
       if (!sessionCode && record.sessionCode) {
@@ -380,7 +439,7 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
         sessionCode: sessionCode || record.sessionCode,
         uploaded: record.uploaded,
         supabasePath: record.supabasePath,
-        hasImageData: !!record.imageDataURL
+        hasImageData: !!record.imageDataURL || !!localFiles
       });
 
       // Step 2: Validate expired time from session settings
@@ -437,6 +496,29 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
 
         // Photo record loaded successfully
 
+      const toLocalURL = (blob: Blob | undefined): string => {
+        if (!blob) return '';
+        const url = URL.createObjectURL(blob);
+        objectUrlsRef.current.push(url);
+        return url;
+      };
+      const localImageURL = localFiles ? toLocalURL(localFiles.image) : record.imageDataURL;
+
+      if (record.colorPath) {
+        // Prefer the uploaded copy; this device may still hold the original
+        const remoteColor = record.uploaded && isOnline ? await getFreshSignedUrl(record.colorPath) : null;
+        setColorUrl(remoteColor ?? toLocalURL(localFiles?.color));
+      }
+      if (record.motion) {
+        const remoteMotion = record.uploaded && isOnline
+          ? await getMotionSignedUrls(record.motion.gifPath, record.motion.boomerangPath)
+          : null;
+        const localMotion = localFiles?.gif && localFiles.boomerang
+          ? { gifUrl: toLocalURL(localFiles.gif), boomerangUrl: toLocalURL(localFiles.boomerang) }
+          : null;
+        setMotionUrls(remoteMotion ?? localMotion);
+      }
+
       // Step 3: Check if photo is uploaded and has supabasePath
       // CRITICAL: If we already have signed URL in cache (from step 1), use it immediately after expired check
       if (signedUrlCache && signedUrlCache.expiry > Date.now() && signedUrlCache.url && record.uploaded) {
@@ -482,9 +564,9 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
         }
         
         // Offline or failed to get signed URL - fallback to local if available
-        if (record.imageDataURL) {
+        if (localImageURL) {
           console.log('[DownloadPage] Using local image data');
-          setDownloadUrl(record.imageDataURL);
+          setDownloadUrl(localImageURL);
           setIsLocalOnly(true);
           setLoading(false);
           return;
@@ -527,8 +609,8 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
       }
 
       // Step 4: Photo not uploaded or no supabasePath - use local storage
-      if (record.imageDataURL) {
-        setDownloadUrl(record.imageDataURL);
+      if (localImageURL) {
+        setDownloadUrl(localImageURL);
         setIsLocalOnly(true);
         
         // If online and not uploaded, trigger on-demand upload
@@ -566,6 +648,11 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
     }
   }, [photoId, isOnline]); // Dependencies: photoId and isOnline. signedUrlCache is only read, not used as input
 
+  useEffect(() => () => {
+    objectUrlsRef.current.forEach((url) => URL.revokeObjectURL(url));
+    objectUrlsRef.current = [];
+  }, []);
+
   useEffect(() => {
     // Monitor online/offline status
     const handleOnline = () => setIsOnline(true);
@@ -611,6 +698,14 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
             setDownloadUrl(freshUrl);
             setIsLocalOnly(false);
           }
+          if (photo.colorPath) {
+            const remoteColor = await getFreshSignedUrl(photo.colorPath);
+            if (remoteColor) setColorUrl(remoteColor);
+          }
+          if (photo.motion) {
+            const remoteMotion = await getMotionSignedUrls(photo.motion.gifPath, photo.motion.boomerangPath);
+            if (remoteMotion) setMotionUrls(remoteMotion);
+          }
         }
       }
     } catch (err) {
@@ -622,11 +717,28 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
 
   async function handleDownload() {
     if (!downloadUrl) return;
-    
+    await downloadFile(downloadUrl, `${photoId}.png`);
+  }
+
+  async function handleColorDownload() {
+    if (!colorUrl) return;
+    await downloadFile(colorUrl, `${photoId}-color.jpg`);
+  }
+
+  async function handleMotionDownload() {
+    if (!motionUrls) return;
+    if (motionVariant === 'boomerang') {
+      await downloadFile(motionUrls.boomerangUrl, `${photoId}-boomerang.gif`);
+    } else {
+      await downloadFile(motionUrls.gifUrl, `${photoId}.gif`);
+    }
+  }
+
+  async function downloadFile(url: string, filename: string) {
     try {
       // For cross-origin URLs (like Supabase signed URLs), we need to fetch as blob first
       // This ensures the download actually triggers instead of opening in a new tab
-      const response = await fetch(downloadUrl);
+      const response = await fetch(url);
       if (!response.ok) {
         throw new Error(`Failed to fetch photo: ${response.statusText}`);
       }
@@ -637,7 +749,7 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
       // Create download link
       const link = document.createElement('a');
       link.href = blobUrl;
-      link.download = `${photoId}.png`;
+      link.download = filename;
       document.body.appendChild(link);
       link.click();
       
@@ -648,8 +760,8 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
       console.error('[DownloadPage] Download failed:', err);
       // Fallback: try direct download (may open in new tab for cross-origin)
       const link = document.createElement('a');
-      link.href = downloadUrl;
-      link.download = `${photoId}.png`;
+      link.href = url;
+      link.download = filename;
       link.target = '_blank'; // Open in new tab as fallback
       document.body.appendChild(link);
       link.click();
@@ -675,7 +787,7 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
     return (
       <div className="download-page">
         <div className="error-container">
-          <h1>Download Failed</h1>
+          <h1>{removed ? 'Photo Removed' : 'Download Failed'}</h1>
           <div className="error-message">
             <p style={{ fontSize: '18px', marginBottom: '16px', fontWeight: 600 }}>{error}</p>
           </div>
@@ -697,13 +809,15 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
             </div>
           )}
           <div style={{ marginTop: '24px' }}>
-            <button 
-              onClick={() => window.location.reload()} 
-              className="download-btn"
-              style={{ marginRight: '12px' }}
-            >
-              Retry
-            </button>
+            {!removed && (
+              <button 
+                onClick={() => window.location.reload()} 
+                className="download-btn"
+                style={{ marginRight: '12px' }}
+              >
+                Retry
+              </button>
+            )}
             <button 
               onClick={() => window.location.href = '/'} 
               className="secondary-btn"
@@ -720,7 +834,31 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
     <div className="download-page">
       <div className="download-container">
         <h1>Download Your Photo</h1>
-        <img src={downloadUrl} alt="Photo" className="preview-image" />
+        {motionUrls ? (
+          <>
+            <img
+              src={motionVariant === 'boomerang' ? motionUrls.boomerangUrl : motionUrls.gifUrl}
+              alt="Animated photo"
+              className="preview-image"
+            />
+            <div className="motion-variant-toggle" style={{ display: 'flex', gap: '8px', justifyContent: 'center', marginBottom: '12px' }}>
+              <button
+                onClick={() => setMotionVariant('boomerang')}
+                className={motionVariant === 'boomerang' ? 'download-btn' : 'secondary-btn'}
+              >
+                Boomerang
+              </button>
+              <button
+                onClick={() => setMotionVariant('gif')}
+                className={motionVariant === 'gif' ? 'download-btn' : 'secondary-btn'}
+              >
+                Loop
+              </button>
+            </div>
+          </>
+        ) : (
+          <img src={colorUrl || downloadUrl} alt="Photo" className="preview-image" />
+        )}
         <p className="photo-id">Photo ID: {photoId}</p>
         
         {isLocalOnly && (
@@ -741,8 +879,18 @@ export const DownloadPage: React.FC<DownloadPageProps> = ({ photoId }) => {
           </div>
         )}
         
+        {motionUrls && (
+          <button onClick={handleMotionDownload} className="download-btn">
+            Download GIF
+          </button>
+        )}
+        {colorUrl && (
+          <button onClick={handleColorDownload} className="download-btn">
+            Download Colour Photo
+          </button>
+        )}
         <button onClick={handleDownload} className="download-btn" disabled={!downloadUrl}>
-          Download Photo
+          {colorUrl || motionUrls ? 'Download Print Version' : 'Download Photo'}
         </button>
         
         <p className="expiry-notice">
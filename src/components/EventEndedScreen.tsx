@@ -0,0 +1,32 @@
+import React, { useRef } from 'react';
+import { getEventEndedScreen, type SessionInfo } from '../services/sessionService';
+
+interface EventEndedScreenProps {
+  session: SessionInfo;
+}
+
+// Covers the booth while the current session is closed; four taps on the title open the admin
+export const EventEndedScreen: React.FC<EventEndedScreenProps> = ({ session }) => {
+  const { title, message } = getEventEndedScreen(session);
+  const tapsRef = useRef({ count: 0, last: 0 });
+
+  const handleTitleTap = () => {
+    const now = Date.now();
+    const taps = tapsRef.current;
+    taps.count = now - taps.last < 1500 ? taps.count + 1 : 1;
+    taps.last = now;
+    if (taps.count >= 4) {
+      window.location.href = '/admin';
+    }
+  };
+
+  return (
+    <div id="event-ended-screen">
+      <div className="event-ended-content">
+        <h1 onClick={handleTitleTap}>{title}</h1>
+        {message && <p className="event-ended-message">{message}</p>}
+        <p className="event-ended-event">{session.eventName}</p>
+      </div>
+    </div>
+  );
+};
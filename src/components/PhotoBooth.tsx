@@ -1,36 +1,35 @@
 import p5 from 'p5';
 import { useRef, forwardRef, useImperativeHandle, useEffect } from 'react';
 import Sketch from 'react-p5';
-import { orderedDither } from '../utils/dithering';
+import { ditherGraphics } from '../utils/dithering';
 import { useAudio } from '../hooks/useAudio';
 import { getPrinterOutputSettings } from '../services/configService';
+import type { CaptureSettings } from '../services/sessionService';
+import type { Template } from '../config/templates';
+import type { FrameRect } from '../utils/templateLayout';
+import { encodeMotionClip, pickKeyframeIndexes, type MotionClip, type MotionFrame } from '../utils/motionEncoder';
 export type AppState = 'PREVIEW' | 'COUNTDOWN' | 'CAPTURING' | 'REVIEW' | 'COMPOSING';
 
-interface Template {
-  id: string;
-  name: string;
-  description: string;
-  width: number; // mm
-  height: number; // mm
-  photoCount: number;
-  layout: 'vertical' | 'horizontal' | 'grid';
-  thermalSize: '58mm' | '80mm';
-}
-
 interface PhotoBoothProps {
   state: AppState;
   countdownText: string;
   template: Template;
+  captureSettings: CaptureSettings;
+  selectedFrame?: number | null; // Highlighted in REVIEW while the guest decides on a retake
   onStateChange: (newState: AppState) => void;
   onFramesUpdate: (frames: p5.Image[]) => void;
   onFinalCompositeUpdate: (composite: p5.Graphics | null) => void;
   onCountdownTextUpdate: (text: string) => void;
   onCanvasResize: (width: number, height: number) => void;
   onCanvasModeChange: (isReviewMode: boolean) => void;
+  onAwaitingNextShot: (nextShot: number | null) => void; // Manual mode: shot number waiting for takeNextShot()
 }
 
 export interface PhotoBoothRef {
   startCountdown: (seconds: number) => void;
+  takeNextShot: () => void;
+  retakeFrame: (frameIndex: number, countdownSeconds: number) => void;
+  getFrameIndexAt: (clientX: number, clientY: number) => number | null;
   resetToPreview: () => void;
   downloadComposite: () => void;
   getFinalCompositeDataURL: () => string | null;
@@ -38,37 +37,59 @@ export interface PhotoBoothRef {
   setPhotoIdForPrint: (photoId: string | null) => void;
   getP5Instance: () => p5 | null;
   getFrames: () => p5.Image[];
+  getMotionClip: () => MotionClip | null;
+  getColorCompositeDataURL: () => string | null;
 }
 
 // Default canvas size (fallback)
 const DEFAULT_PREVIEW_WIDTH = 500;
 const DEFAULT_PREVIEW_HEIGHT = 375;
-const CAPTURE_INTERVAL = 2500; // 2.5 seconds
 const BEEP_INTERVAL = 800; // ms
 const LOG_INTERVAL = 500; // ms
 const MAX_RETRIES = 3;
 const CAMERA_RETRY_DELAY = 2000; // ms
 const SNAP_MESSAGE_DURATION = 500; // ms
 const COMPOSE_DELAY = 100; // ms
+// Motion templates: one burst, encoded as a GIF for download; photoCount keyframes go to the print
+const MOTION_FRAME_COUNT = 16;
+const MOTION_FRAME_INTERVAL = 100; // ms between burst frames
+const MOTION_FRAME_SIZE = 320; // px, longest side of the GIF
+const MOTION_RECORDING_TEXT = 'RECORDING';
+// Colour originals for the guest download, read straight from the camera stream
+const ORIGINAL_MAX_SIZE = 1080; // px
+const COLOR_COMPOSITE_SCALE = 2; // download copy at twice the print resolution
+const COLOR_JPEG_QUALITY = 0.92;
 
 export const PhotoBooth = forwardRef<PhotoBoothRef, PhotoBoothProps>(({
   state,
   countdownText,
   template,
+  captureSettings,
+  selectedFrame = null,
   onStateChange,
   onFramesUpdate,
   onFinalCompositeUpdate,
   onCountdownTextUpdate,
   onCanvasResize,
-  onCanvasModeChange
+  onCanvasModeChange,
+  onAwaitingNextShot
 }, ref) => {
   const videoRef = useRef<p5.Element | null>(null);
   const pgPreviewRef = useRef<p5.Graphics | null>(null);
   const framesRef = useRef<p5.Image[]>([]);
+  const colorFramesRef = useRef<p5.Graphics[]>([]); // Untouched colour originals, same order as framesRef
   const finalCompositeRef = useRef<p5.Graphics | null>(null);
   const finalCompositeHighResRef = useRef<p5.Graphics | null>(null);
+  const colorCompositeRef = useRef<p5.Graphics | null>(null);
   const currentPhotoIdRef = useRef<string | null>(null);
   const lastShotAtRef = useRef<number>(0);
+  const nextShotAtRef = useRef<number>(0);
+  const awaitingNextShotRef = useRef<boolean>(false);
+  const retakeIndexRef = useRef<number | null>(null);
+  const reviewFrameRectsRef = useRef<FrameRect[]>([]);
+  const canvasElRef = useRef<HTMLCanvasElement | null>(null);
+  const motionFramesRef = useRef<MotionFrame[]>([]);
+  const motionClipRef = useRef<MotionClip | null>(null);
   const { initializeAudio, playCountdownBeep, playCaptureSound } = useAudio();
   const countdownEndAtRef = useRef<number>(0);
   const lastBeepTimeRef = useRef<number>(0);
@@ -77,6 +98,7 @@ export const PhotoBooth = forwardRef<PhotoBoothRef, PhotoBoothProps>(({
   const retryCountRef = useRef<number>(0);
   const cameraReadyRef = useRef<boolean>(false);
   const shotsNeeded = template.photoCount;
+  const isMotion = template.captureMode === 'motion';
   const canvasSizeRef = useRef<{ width: number; height: number }>({ 
     width: DEFAULT_PREVIEW_WIDTH, 
     height: DEFAULT_PREVIEW_HEIGHT 
@@ -138,6 +160,7 @@ export const PhotoBooth = forwardRef<PhotoBoothRef, PhotoBoothProps>(({
     // Create canvas with calculated size
     const canvas = p.createCanvas(canvasSize.width, canvasSize.height);
     canvas.parent(canvasParentRef);
+    canvasElRef.current = canvas.elt as HTMLCanvasElement;
     canvas.elt.setAttribute('willReadFrequently', 'true');
     p.pixelDensity(1);
     
@@ -148,10 +171,17 @@ export const PhotoBooth = forwardRef<PhotoBoothRef, PhotoBoothProps>(({
 
     // Reset state to ensure clean start
     framesRef.current = [];
+    colorFramesRef.current = [];
+    motionFramesRef.current = [];
+    motionClipRef.current = null;
     finalCompositeRef.current = null;
     finalCompositeHighResRef.current = null;
+    colorCompositeRef.current = null;
     currentPhotoIdRef.current = null;
     lastShotAtRef.current = 0;
+    nextShotAtRef.current = 0;
+    awaitingNextShotRef.current = false;
+    retakeIndexRef.current = null;
     countdownEndAtRef.current = 0;
     lastBeepTimeRef.current = 0;
     lastLogTimeRef.current = 0;
@@ -279,7 +309,7 @@ export const PhotoBooth = forwardRef<PhotoBoothRef, PhotoBoothProps>(({
       
       // 3. Bayer dithering for fast preview (only every few frames for performance)
       if (settings.previewDither !== false && p.frameCount % 2 === 0) { // Only dither every other frame
-        orderedDither(pgPreview);
+        ditherGraphics(pgPreview, settings.previewDitherAlgorithm ?? 'bayer-4x4');
       }
       
       // Warning for inconsistent settings (only log once per frame cycle)
@@ -298,7 +328,7 @@ export const PhotoBooth = forwardRef<PhotoBoothRef, PhotoBoothProps>(({
         p.textAlign(p.CENTER, p.CENTER);
         
         // Adjust font size based on text length
-        if (countdownText.includes('SNAP')) {
+        if (countdownText.includes('SNAP') || countdownText === MOTION_RECORDING_TEXT) {
           p.textSize(80); // Much smaller for "SNAP 1/3" text
         } else {
           p.textSize(150); // Smaller for countdown numbers
@@ -308,9 +338,20 @@ export const PhotoBooth = forwardRef<PhotoBoothRef, PhotoBoothProps>(({
         const centerY = p.height * 0.5; // 50% from top (more centered)
         
         p.text(countdownText, centerX, centerY);
+
+        // Pose prompt for the upcoming shot
+        // A motion burst is a single pose
+        const promptIndex = isMotion ? 0 : retakeIndexRef.current ?? Math.min(framesRef.current.length, shotsNeeded - 1);
+        const prompt = captureSettings.posePrompts[promptIndex];
+        if (prompt) {
+          p.strokeWeight(5);
+          p.textSize(36);
+          p.text(prompt, p.width * 0.05, p.height * 0.08, p.width * 0.9, p.height * 0.25);
+        }
         
         // Draw progress indicator during capture
-        if (state === 'CAPTURING' && framesRef.current.length > 0) {
+        const capturedCount = isMotion ? motionFramesRef.current.length : framesRef.current.length;
+        if (state === 'CAPTURING' && capturedCount > 0 && retakeIndexRef.current === null) {
           const progressY = p.height * 0.7; // 70% from top
           const barWidth = p.width * 0.6; // 60% of canvas width
           const barHeight = 20;
@@ -322,17 +363,19 @@ export const PhotoBooth = forwardRef<PhotoBoothRef, PhotoBoothProps>(({
           p.rect(barX, progressY, barWidth, barHeight);
           
           // Progress bar
-          const progress = framesRef.current.length / shotsNeeded;
+          const progress = capturedCount / (isMotion ? MOTION_FRAME_COUNT : shotsNeeded);
           p.fill(255);
           p.rect(barX, progressY, barWidth * progress, barHeight);
           
           // Progress text
-          p.fill(0);
-          p.stroke(255);
-          p.strokeWeight(2);
-          p.textSize(16);
-          p.textAlign(p.CENTER, p.CENTER);
-          p.text(`${framesRef.current.length + 1}/${shotsNeeded}`, centerX, progressY + barHeight + 25);
+          if (!isMotion) {
+            p.fill(0);
+            p.stroke(255);
+            p.strokeWeight(2);
+            p.textSize(16);
+            p.textAlign(p.CENTER, p.CENTER);
+            p.text(`${framesRef.current.length + 1}/${shotsNeeded}`, centerX, progressY + barHeight + 25);
+          }
         }
       }
 
@@ -341,7 +384,11 @@ export const PhotoBooth = forwardRef<PhotoBoothRef, PhotoBoothProps>(({
         handleCountdown(p);
       }
       if (state === 'CAPTURING') {
-        autoCaptureLoop(p);
+        if (isMotion) {
+          motionCaptureLoop(p);
+        } else {
+          autoCaptureLoop(p);
+        }
       }
     } else if (state === 'REVIEW') {
       // Show final composite with same size and positioning as preview
@@ -349,6 +396,16 @@ export const PhotoBooth = forwardRef<PhotoBoothRef, PhotoBoothProps>(({
       if (finalCompositeRef.current) {
         p.image(finalCompositeRef.current, 0, 0, p.width, p.height);
       }
+
+      const selectedRect = selectedFrame !== null ? reviewFrameRectsRef.current[selectedFrame] : undefined;
+      if (selectedRect) {
+        p.push();
+        p.noFill();
+        p.stroke(255, 60, 60);
+        p.strokeWeight(6);
+        p.rect(selectedRect.x, selectedRect.y, selectedRect.width, selectedRect.height);
+        p.pop();
+      }
     }
   };
 
@@ -356,7 +413,7 @@ export const PhotoBooth = forwardRef<PhotoBoothRef, PhotoBoothProps>(({
     const timeLeft = Math.ceil((countdownEndAtRef.current - p.millis()) / 1000);
     
     if (timeLeft > 0) {
-      // Always show 3, 2, 1 countdown regardless of photo count
+      // Countdown length comes from the template's capture settings
       onCountdownTextUpdate(timeLeft.toString());
       
       // Play beep sound only once per countdown number
@@ -370,14 +427,174 @@ export const PhotoBooth = forwardRef<PhotoBoothRef, PhotoBoothProps>(({
       onCountdownTextUpdate('SMILE!');
       onStateChange('CAPTURING');
       lastShotAtRef.current = 0;
+      nextShotAtRef.current = 0;
+      if (retakeIndexRef.current !== null) {
+        // Retaking one frame keeps the others
+        console.log('CAPTURING state set, retaking frame', retakeIndexRef.current + 1);
+        return;
+      }
       framesRef.current = [];
+      clearColorFrames();
+      motionFramesRef.current = [];
+      motionClipRef.current = null;
       onFramesUpdate([]);
       console.log('CAPTURING state set, frames cleared');
     }
   };
 
+  /**
+   * After a shot: count down to the next one, or wait for takeNextShot() in manual mode.
+   */
+  const scheduleNextShot = (p: p5) => {
+    if (captureSettings.manualAdvance) {
+      awaitingNextShotRef.current = true;
+      onAwaitingNextShot(framesRef.current.length + 1);
+      return;
+    }
+    // Leave the SNAP message up before the countdown starts
+    nextShotAtRef.current = p.millis() + SNAP_MESSAGE_DURATION + captureSettings.shotCountdownSeconds * 1000;
+  };
+
+  const handleShotCountdown = (p: p5): boolean => {
+    const now = p.millis();
+    const remaining = nextShotAtRef.current - now;
+    if (remaining <= 0) {
+      return false;
+    }
+    if (remaining <= captureSettings.shotCountdownSeconds * 1000) {
+      onCountdownTextUpdate(Math.ceil(remaining / 1000).toString());
+      if (now - lastBeepTimeRef.current > BEEP_INTERVAL) {
+        playCountdownBeep();
+        lastBeepTimeRef.current = now;
+      }
+    }
+    return true;
+  };
+
+  /**
+   * Grab the current video frame, mirrored like the preview, in colour.
+   */
+  const captureMirroredShot = (p: p5): p5.Image => {
+    const video = videoRef.current as p5.Element;
+
+    // Capture raw image from video using consistent size
+    const rawShot = p.createImage(canvasSizeRef.current.width, canvasSizeRef.current.height);
+    rawShot.copy(
+      video, 
+      0, 0, 
+      canvasSizeRef.current.width, 
+      canvasSizeRef.current.height, 
+      0, 0, 
+      canvasSizeRef.current.width, 
+      canvasSizeRef.current.height
+    );
+    
+    // Mirror the captured image (like preview) using a temporary graphics buffer
+    const mirroredShot = p.createGraphics(canvasSizeRef.current.width, canvasSizeRef.current.height);
+    mirroredShot.push();
+    mirroredShot.translate(canvasSizeRef.current.width, 0);
+    mirroredShot.scale(-1, 1);
+    mirroredShot.image(rawShot, 0, 0);
+    mirroredShot.pop();
+    
+    // Convert graphics to image
+    const mirroredImage = p.createImage(canvasSizeRef.current.width, canvasSizeRef.current.height);
+    mirroredImage.copy(mirroredShot, 0, 0, canvasSizeRef.current.width, canvasSizeRef.current.height, 0, 0, canvasSizeRef.current.width, canvasSizeRef.current.height);
+    mirroredShot.remove();
+    return mirroredImage;
+  };
+
+  /**
+   * Full-colour copy of the current video frame for the download version, at up to the
+   * camera's own resolution. Mirrored and stretched to a square exactly like the preview.
+   */
+  const captureColorOriginal = (p: p5): p5.Graphics => {
+    const videoEl = (videoRef.current as p5.Element).elt as HTMLVideoElement;
+    const size = Math.min(
+      ORIGINAL_MAX_SIZE,
+      Math.max(canvasSizeRef.current.width, Math.min(videoEl.videoWidth, videoEl.videoHeight))
+    );
+    const original = p.createGraphics(size, size);
+    original.pixelDensity(1);
+    const ctx = original.drawingContext as CanvasRenderingContext2D;
+    ctx.save();
+    ctx.translate(size, 0);
+    ctx.scale(-1, 1);
+    ctx.drawImage(videoEl, 0, 0, size, size);
+    ctx.restore();
+    return original;
+  };
+
+  const clearColorFrames = () => {
+    colorFramesRef.current.forEach((frame) => frame.remove());
+    colorFramesRef.current = [];
+    colorCompositeRef.current?.remove();
+    colorCompositeRef.current = null;
+  };
+
+  // Convert to grayscale based on settings
+  const applyCaptureGrayscale = (p: p5, image: p5.Image) => {
+    const settings = getPrinterOutputSettings();
+    if (settings.captureGrayscale !== false) {
+      image.filter(p.GRAY);
+    }
+  };
+
+  const toMotionFrame = (p: p5, shot: p5.Image): MotionFrame => {
+    const scale = Math.min(1, MOTION_FRAME_SIZE / Math.max(shot.width, shot.height));
+    const width = Math.round(shot.width * scale);
+    const height = Math.round(shot.height * scale);
+    const small = p.createImage(width, height);
+    small.copy(shot, 0, 0, shot.width, shot.height, 0, 0, width, height);
+    small.loadPixels();
+    return { data: new Uint8ClampedArray(small.pixels), width, height };
+  };
+
+  /**
+   * Motion templates: record MOTION_FRAME_COUNT colour frames for the GIF and keep
+   * photoCount evenly spaced keyframes as the print frames.
+   */
+  const motionCaptureLoop = (p: p5) => {
+    if (state !== 'CAPTURING' || motionFramesRef.current.length >= MOTION_FRAME_COUNT) {
+      return;
+    }
+    if (lastShotAtRef.current && p.millis() - lastShotAtRef.current < MOTION_FRAME_INTERVAL) {
+      return;
+    }
+    if (!videoRef.current || (videoRef.current.elt as HTMLVideoElement).readyState < 3) {
+      return;
+    }
+
+    const frameIndex = motionFramesRef.current.length;
+    if (frameIndex === 0) {
+      console.log('MotionCapture: Starting burst');
+      playCaptureSound();
+      onCountdownTextUpdate(MOTION_RECORDING_TEXT);
+    }
+
+    const shot = captureMirroredShot(p);
+    motionFramesRef.current.push(toMotionFrame(p, shot));
+    if (pickKeyframeIndexes(MOTION_FRAME_COUNT, shotsNeeded).includes(frameIndex)) {
+      colorFramesRef.current.push(captureColorOriginal(p));
+      applyCaptureGrayscale(p, shot);
+      framesRef.current.push(shot);
+      onFramesUpdate([...framesRef.current]);
+    }
+    lastShotAtRef.current = p.millis();
+
+    if (motionFramesRef.current.length === MOTION_FRAME_COUNT) {
+      console.log('MotionCapture: Burst complete, switching to COMPOSING');
+      onStateChange('COMPOSING');
+      onCountdownTextUpdate('Merging...');
+      setTimeout(() => composeResult(p), COMPOSE_DELAY);
+    }
+  };
+
   const autoCaptureLoop = (p: p5) => {
-    if (state !== 'CAPTURING') {
+    if (state !== 'CAPTURING' || awaitingNextShotRef.current) {
+      return;
+    }
+    if (handleShotCountdown(p)) {
       return;
     }
     
@@ -390,67 +607,51 @@ export const PhotoBooth = forwardRef<PhotoBoothRef, PhotoBoothProps>(({
         framesLength: framesRef.current.length,
         shotsNeeded,
         timeSinceLastShot,
-        interval: CAPTURE_INTERVAL,
+        manualAdvance: captureSettings.manualAdvance,
         lastShotAt: lastShotAtRef.current
       });
       lastLogTimeRef.current = now;
     }
 
-    if (framesRef.current.length < shotsNeeded && 
-        (p.millis() - lastShotAtRef.current > CAPTURE_INTERVAL || lastShotAtRef.current === 0)) {
+    if (framesRef.current.length < shotsNeeded || retakeIndexRef.current !== null) {
       
       if (videoRef.current && (videoRef.current.elt as HTMLVideoElement).readyState >= 3) {
         console.log('AutoCaptureLoop: Starting photo capture');
         
-        // Capture raw image from video using consistent size
-        const rawShot = p.createImage(canvasSizeRef.current.width, canvasSizeRef.current.height);
-        rawShot.copy(
-          videoRef.current, 
-          0, 0, 
-          canvasSizeRef.current.width, 
-          canvasSizeRef.current.height, 
-          0, 0, 
-          canvasSizeRef.current.width, 
-          canvasSizeRef.current.height
-        );
-        
-        // Mirror the captured image (like preview) using a temporary graphics buffer
-        const mirroredShot = p.createGraphics(canvasSizeRef.current.width, canvasSizeRef.current.height);
-        mirroredShot.push();
-        mirroredShot.translate(canvasSizeRef.current.width, 0);
-        mirroredShot.scale(-1, 1);
-        mirroredShot.image(rawShot, 0, 0);
-        mirroredShot.pop();
-        
-        // Convert graphics to image
-        const mirroredImage = p.createImage(canvasSizeRef.current.width, canvasSizeRef.current.height);
-        mirroredImage.copy(mirroredShot, 0, 0, canvasSizeRef.current.width, canvasSizeRef.current.height, 0, 0, canvasSizeRef.current.width, canvasSizeRef.current.height);
+        const mirroredImage = captureMirroredShot(p);
+        const colorOriginal = captureColorOriginal(p);
+        applyCaptureGrayscale(p, mirroredImage);
         
-        // Convert to grayscale based on settings
-        const settings = getPrinterOutputSettings();
-        if (settings.captureGrayscale !== false) {
-        mirroredImage.filter(p.GRAY);
+        const retakeIndex = retakeIndexRef.current;
+        if (retakeIndex !== null) {
+          framesRef.current[retakeIndex] = mirroredImage;
+          colorFramesRef.current[retakeIndex]?.remove();
+          colorFramesRef.current[retakeIndex] = colorOriginal;
+          retakeIndexRef.current = null;
+        } else {
+          framesRef.current.push(mirroredImage);
+          colorFramesRef.current.push(colorOriginal);
         }
-        
-        framesRef.current.push(mirroredImage);
         lastShotAtRef.current = p.millis();
         onFramesUpdate([...framesRef.current]);
         
-        console.log(`Foto ${framesRef.current.length} diambil.`);
+        console.log(`Foto ${retakeIndex !== null ? retakeIndex + 1 : framesRef.current.length} diambil.`);
 
         // Play capture sound
         playCaptureSound();
 
-        onCountdownTextUpdate(`SNAP ${framesRef.current.length + 1}/${shotsNeeded}`);
+        onCountdownTextUpdate(retakeIndex !== null ? 'SNAP!' : `SNAP ${framesRef.current.length + 1}/${shotsNeeded}`);
         setTimeout(() => {
           if (state === 'CAPTURING') onCountdownTextUpdate('');
         }, SNAP_MESSAGE_DURATION);
 
-        if (framesRef.current.length === shotsNeeded) {
+        if (retakeIndex !== null || framesRef.current.length === shotsNeeded) {
           console.log('AutoCaptureLoop: All photos captured, switching to COMPOSING');
           onStateChange('COMPOSING');
           onCountdownTextUpdate('Merging...');
           setTimeout(() => composeResult(p), COMPOSE_DELAY);
+        } else {
+          scheduleNextShot(p);
         }
         
         console.log('AutoCaptureLoop: Capture complete');
@@ -491,21 +692,63 @@ export const PhotoBooth = forwardRef<PhotoBoothRef, PhotoBoothProps>(({
     };
 
     importWithRetry()
-      .then(async ({ composeResultForReview, composeResult: composeResultHighRes }) => {
+      .then(async ({ composeResultForReview, composeResult: composeResultHighRes, getReviewFrameRects }) => {
         try {
+          // Dithering runs in the image worker; the review and print composites are each half the bar
+          const showProgress = (phase: number) => (fraction: number) => {
+            onCountdownTextUpdate(`Merging... ${Math.round(((phase + fraction) / 2) * 100)}%`);
+          };
+
           console.log('[COMPOSE] Starting review composite...');
           // Create review version with same canvas size as preview to maintain consistent positioning
-          const compositeReview = await composeResultForReview(p, framesRef.current, template, canvasSizeRef.current.width, canvasSizeRef.current.height);
+          const compositeReview = await composeResultForReview(
+            p,
+            framesRef.current,
+            template,
+            canvasSizeRef.current.width,
+            canvasSizeRef.current.height,
+            showProgress(0)
+          );
           finalCompositeRef.current = compositeReview;
+          reviewFrameRectsRef.current = getReviewFrameRects(template, canvasSizeRef.current.width, canvasSizeRef.current.height);
           onFinalCompositeUpdate(compositeReview);
           console.log('[COMPOSE] ✓ Review composite complete');
 
           console.log('[COMPOSE] Starting high-res composite...');
           // Create high-res version (for download/print)
-          const compositeHighRes = await composeResultHighRes(p, framesRef.current, template);
+          const compositeHighRes = await composeResultHighRes(p, framesRef.current, template, undefined, {
+            onProgress: showProgress(1)
+          });
           finalCompositeHighResRef.current = compositeHighRes;
           console.log('[COMPOSE] ✓ High-res composite complete');
 
+          // Colour download copy; the dithered strip above is only for printing
+          if (colorFramesRef.current.length === framesRef.current.length) {
+            try {
+              colorCompositeRef.current?.remove();
+              colorCompositeRef.current = await composeResultHighRes(p, colorFramesRef.current, template, undefined, {
+                color: true,
+                scale: COLOR_COMPOSITE_SCALE
+              });
+              console.log('[COMPOSE] ✓ Colour composite complete');
+            } catch (error) {
+              console.error('[COMPOSE] Colour composite failed (download falls back to the print version):', error);
+              colorCompositeRef.current = null;
+            }
+          }
+
+          if (isMotion && motionFramesRef.current.length > 0) {
+            // The keyframe strip still prints if encoding fails; only the animation is lost
+            onCountdownTextUpdate('Making GIF...');
+            try {
+              motionClipRef.current = await encodeMotionClip(motionFramesRef.current, MOTION_FRAME_INTERVAL);
+              console.log('[COMPOSE] ✓ GIF encoding complete');
+            } catch (error) {
+              console.error('[COMPOSE] GIF encoding failed:', error);
+              motionClipRef.current = null;
+            }
+          }
+
           // Note: Photo will be saved when user clicks print button
           // Reset photoId ref (will be set when saved)
           currentPhotoIdRef.current = null;
@@ -595,26 +838,75 @@ export const PhotoBooth = forwardRef<PhotoBoothRef, PhotoBoothProps>(({
     cameraReadyRef.current = false;
   }, [template.id]);
 
+  const beginCountdown = (seconds: number) => {
+    if (p5InstanceRef.current) {
+      countdownEndAtRef.current = p5InstanceRef.current.millis() + seconds * 1000;
+      onCountdownTextUpdate(seconds.toString());
+      onStateChange('COUNTDOWN');
+    }
+  };
+
   useImperativeHandle(ref, () => ({
     startCountdown: (seconds: number) => {
-      if (p5InstanceRef.current) {
-        countdownEndAtRef.current = p5InstanceRef.current.millis() + seconds * 1000;
-        onCountdownTextUpdate(seconds.toString());
-        onStateChange('COUNTDOWN');
+      retakeIndexRef.current = null;
+      beginCountdown(seconds);
+    },
+    retakeFrame: (frameIndex: number, countdownSeconds: number) => {
+      // Keyframes of a motion burst can't be retaken on their own
+      if (!p5InstanceRef.current || isMotion || frameIndex < 0 || frameIndex >= framesRef.current.length) {
+        return;
+      }
+      console.log('Retaking frame', frameIndex + 1);
+      retakeIndexRef.current = frameIndex;
+      finalCompositeRef.current = null;
+      finalCompositeHighResRef.current = null;
+      colorCompositeRef.current?.remove();
+      colorCompositeRef.current = null;
+      currentPhotoIdRef.current = null;
+      onFinalCompositeUpdate(null);
+      onCanvasModeChange(false);
+      beginCountdown(countdownSeconds);
+    },
+    getFrameIndexAt: (clientX: number, clientY: number) => {
+      const canvasEl = canvasElRef.current;
+      if (!canvasEl || state !== 'REVIEW') return null;
+      const bounds = canvasEl.getBoundingClientRect();
+      if (bounds.width === 0 || bounds.height === 0) return null;
+      // Client coordinates -> canvas pixels (the canvas may be scaled by CSS)
+      const x = (clientX - bounds.left) * (canvasEl.width / bounds.width);
+      const y = (clientY - bounds.top) * (canvasEl.height / bounds.height);
+      const index = reviewFrameRectsRef.current.findIndex(
+        (rect) => x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height
+      );
+      return index >= 0 ? index : null;
+    },
+    takeNextShot: () => {
+      if (p5InstanceRef.current && awaitingNextShotRef.current) {
+        awaitingNextShotRef.current = false;
+        onAwaitingNextShot(null);
+        nextShotAtRef.current = p5InstanceRef.current.millis() + captureSettings.shotCountdownSeconds * 1000;
       }
     },
     resetToPreview: () => {
       if (p5InstanceRef.current) {
         framesRef.current = [];
+        clearColorFrames();
+        motionFramesRef.current = [];
+        motionClipRef.current = null;
         finalCompositeRef.current = null;
         finalCompositeHighResRef.current = null;
         currentPhotoIdRef.current = null;
         lastShotAtRef.current = 0;
+        nextShotAtRef.current = 0;
+        awaitingNextShotRef.current = false;
+        retakeIndexRef.current = null;
+        reviewFrameRectsRef.current = [];
         countdownEndAtRef.current = 0;
         lastBeepTimeRef.current = 0;
         lastLogTimeRef.current = 0;
 
         onFramesUpdate([]);
+        onAwaitingNextShot(null);
         onFinalCompositeUpdate(null);
         
         p5InstanceRef.current.resizeCanvas(canvasSizeRef.current.width, canvasSizeRef.current.height);
@@ -650,7 +942,13 @@ export const PhotoBooth = forwardRef<PhotoBoothRef, PhotoBoothProps>(({
       currentPhotoIdRef.current = photoId;
     },
     getP5Instance: () => p5InstanceRef.current,
-    getFrames: () => framesRef.current
+    getFrames: () => framesRef.current,
+    getMotionClip: () => motionClipRef.current,
+    getColorCompositeDataURL: () => {
+      if (!colorCompositeRef.current) return null;
+      const { canvas } = colorCompositeRef.current as unknown as { canvas: HTMLCanvasElement };
+      return canvas.toDataURL('image/jpeg', COLOR_JPEG_QUALITY);
+    }
   }));
 
   return (
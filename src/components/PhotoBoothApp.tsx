@@ -4,21 +4,25 @@ import { PhotoBooth, type PhotoBoothRef, type AppState } from './PhotoBooth';
 import { Controls } from './Controls';
 import { PreviewModal } from './PreviewModal';
 import { useWakeLock } from '../hooks/useWakeLock';
+import { useEndedSession } from '../hooks/useEndedSession';
+import { EventEndedScreen } from './EventEndedScreen';
 import { generateQRCodeDataURL, getDownloadURL } from '../utils/qrCodeGenerator';
+import { getPhotoTextTokens, type TextTokenContext } from '../utils/textTokens';
 import { getHybridBluetoothPrinterService, type HybridBluetoothPrinterService } from '../services/hybridBluetoothPrinterService';
 import { nativeBridge } from '../services/nativeBridgeService';
-import { getPrinterSizeSettings } from '../services/configService';
-
-interface Template {
-  id: string;
-  name: string;
-  description: string;
-  width: number; // mm
-  height: number; // mm
-  photoCount: number;
-  layout: 'vertical' | 'horizontal' | 'grid';
-  thermalSize: '58mm' | '80mm';
-}
+import { getPrinterSizeSettings, loadConfig } from '../services/configService';
+import { preloadBrandingFonts } from '../utils/brandingFonts';
+import { enqueuePrintJob, initPrintQueue } from '../services/printQueueService';
+import type { PhotoCaptureInfo, PhotoDownloads } from '../services/photoStorageService';
+import type { Template } from '../config/templates';
+import {
+  getCaptureSettings,
+  getCurrentSession,
+  getDefaultCaptureSettings,
+  getMaxFrameRetakes,
+  type CaptureSettings
+} from '../services/sessionService';
+import { canPrintWithStatus, PRINTER_STATUS_MESSAGES, type PrinterStatusReport } from '../shared/printerStatus';
 
 interface PhotoBoothAppProps {
   template: Template;
@@ -53,6 +57,12 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
   const [isNativeApp, setIsNativeApp] = useState<boolean>(false);
   const [appState, setAppState] = useState<AppState>('PREVIEW');
   const [countdownText, setCountdownText] = useState('');
+  const [captureSettings, setCaptureSettings] = useState<CaptureSettings>(() => getDefaultCaptureSettings());
+  const [awaitingNextShot, setAwaitingNextShot] = useState<number | null>(null);
+  const [maxFrameRetakes, setMaxFrameRetakes] = useState(0);
+  const [frameRetakesUsed, setFrameRetakesUsed] = useState(0);
+  const captureCompletedAtRef = useRef<string | null>(null);
+  const [selectedFrame, setSelectedFrame] = useState<number | null>(null);
   const [, setFrames] = useState<p5.Image[]>([]);
   const [, setFinalComposite] = useState<p5.Graphics | null>(null);
   const [, setCanvasSize] = useState({ width: 640, height: 480 });
@@ -61,10 +71,13 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
   const [highResImageDataURL, setHighResImageDataURL] = useState<string | null>(null);
   const [bluetoothPrinter, setBluetoothPrinter] = useState<HybridBluetoothPrinterService | null>(null);
   const [isBluetoothConnected, setIsBluetoothConnected] = useState(false);
+  const [printerStatus, setPrinterStatus] = useState<PrinterStatusReport | null>(null);
   const [notification, setNotification] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const [isPrinting, setIsPrinting] = useState(false);
   const saveLockRef = useRef(false);
   const printLockRef = useRef(false); // Synchronous guard for concurrent print prevention
+  // Closed session: guests finishing a strip can still print it, new captures are blocked
+  const endedSession = useEndedSession();
 
   // Helper untuk show notification (ganti alert)
   const showNotification = (message: string, type: 'success' | 'error' = 'error') => {
@@ -96,12 +109,14 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
     
     if (currentPhotoId) {
       try {
-        // Try to fetch access token from IndexedDB
+        // Try to fetch access token (and the number/id printed through text tokens) from IndexedDB
         let accessToken: string | undefined;
+        let tokens: TextTokenContext | undefined;
         try {
           const { getPhotoById } = await import('../services/photoStorageService');
           const photoRecord = await getPhotoById(currentPhotoId);
           accessToken = photoRecord?.accessToken;
+          tokens = getPhotoTextTokens(photoRecord);
         } catch (err) {
           console.warn('[COMPOSE_IMAGE_FOR_PRINT] Could not fetch access token:', err);
         }
@@ -213,13 +228,14 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
         // Check if we have valid frames for normal composition
         const hasValidFramesForCompose = p5Instance && frames && frames.length > 0 && frames.length === template.photoCount;
         
-        if (hasValidFramesForCompose) {
+        if (p5Instance && hasValidFramesForCompose) {
           try {
           const printComposite = await composeResult(
             p5Instance,
             frames,
             template,
-            qrCodeDataURL
+            qrCodeDataURL,
+            { tokens }
           );
             // Fix: Validate printComposite before accessing .canvas
             if (!printComposite || !printComposite.canvas || typeof printComposite.canvas.toDataURL !== 'function') {
@@ -535,6 +551,11 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
     const printerInstance = getHybridBluetoothPrinterService();
     setBluetoothPrinter(printerInstance);
     
+    // Resume any print jobs left over from before a reload
+    initPrintQueue().catch((error) => {
+      console.error('PhotoBoothApp: Failed to initialize print queue:', error);
+    });
+    
     // Request initial printer status from native
     if (nativeBridge.isNativeApp() && nativeBridge.hasNativeBluetooth()) {
       console.log('PhotoBoothApp: Requesting initial printer status from native...');
@@ -549,6 +570,7 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
         console.log('PhotoBoothApp: Bluetooth already connected on mount');
       }
     }
+    setPrinterStatus(printerInstance.getPrinterStatus());
     
     // Listen for Bluetooth status changes
     const statusHandler = (event: CustomEvent<{ connected: boolean; info?: unknown }>) => {
@@ -561,11 +583,19 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
       }
     };
     window.addEventListener('bluetoothStatusChange', statusHandler as EventListener);
+
+    // Paper / cover status from printers that report it
+    const printerStatusHandler = (event: CustomEvent<{ status: PrinterStatusReport | null }>) => {
+      console.log('PhotoBoothApp: Printer status:', event.detail.status?.state ?? 'none');
+      setPrinterStatus(event.detail.status);
+    };
+    window.addEventListener('printerStatusChange', printerStatusHandler as EventListener);
     
     return () => {
       window.clearInterval(confirmationTimer);
       window.clearTimeout(confirmationTimeout);
       window.removeEventListener('bluetoothStatusChange', statusHandler as EventListener);
+      window.removeEventListener('printerStatusChange', printerStatusHandler as EventListener);
     };
   }, [detectNativeEnvironment]);
 
@@ -578,12 +608,97 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
     };
   }, [requestWakeLock, releaseWakeLock]);
 
+  // Branding fonts are fetched now (and kept by the service worker) rather than at the first print
+  useEffect(() => {
+    loadConfig()
+      .then(preloadBrandingFonts)
+      .catch((error) => console.warn('Failed to preload branding fonts:', error));
+  }, []);
+
+  // Photos are kept on the device until uploaded; warn the operator before storage runs out
+  useEffect(() => {
+    import('../services/photoStorageService')
+      .then(({ requestPersistentStorage }) => requestPersistentStorage())
+      .catch((error) => console.warn('Failed to request persistent storage:', error));
+    const storageLowHandler = () => {
+      setNotification({ message: 'Storage almost full. Upload photos in the Admin Panel.', type: 'error' });
+      window.setTimeout(() => setNotification(null), 4000);
+    };
+    window.addEventListener('photoStorageLow', storageLowHandler);
+    return () => window.removeEventListener('photoStorageLow', storageLowHandler);
+  }, []);
+
+  // Offline photos are numbered from this booth's own count, which other booths can't see
+  useEffect(() => {
+    const provisionalHandler = (event: Event) => {
+      const { photoNumber } = (event as CustomEvent<{ photoNumber: number }>).detail;
+      setNotification({ message: `Offline: photo #${photoNumber} may share its number with another booth.`, type: 'error' });
+      window.setTimeout(() => setNotification(null), 4000);
+    };
+    window.addEventListener('photoNumberProvisional', provisionalHandler);
+    return () => window.removeEventListener('photoNumberProvisional', provisionalHandler);
+  }, []);
+
+  // Saved photos upload in the background while the booth is running
+  useEffect(() => {
+    import('../services/uploadQueueService')
+      .then(({ initUploadQueue }) => initUploadQueue())
+      .catch((error) => console.warn('Failed to start upload queue:', error));
+  }, []);
+
+  // Keep this booth listed (with last-seen time) on the active session
+  useEffect(() => {
+    import('../services/boothService')
+      .then(({ initBoothHeartbeat }) => initBoothHeartbeat())
+      .catch((error) => console.warn('Failed to start booth heartbeat:', error));
+  }, []);
+
+  // Countdown / cadence configured for this template in the active session
+  useEffect(() => {
+    let cancelled = false;
+    getCurrentSession()
+      .then((session) => {
+        if (cancelled) return;
+        setCaptureSettings(getCaptureSettings(session, template.id));
+        setMaxFrameRetakes(getMaxFrameRetakes(session));
+      })
+      .catch((error) => console.warn('Failed to load capture settings, using defaults:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [template.id]);
+
+  // A session that can't be printed shouldn't start: block capture until the operator fixes the printer
+  const isPrinterBlocked =
+    isBluetoothConnected && printerStatus !== null && !canPrintWithStatus(printerStatus.state);
+
   const handleStart = () => {
+    if (endedSession) return;
+    if (isPrinterBlocked && printerStatus) {
+      showNotification(PRINTER_STATUS_MESSAGES[printerStatus.state]);
+      return;
+    }
     if (photoBoothRef.current) {
-      photoBoothRef.current.startCountdown(3);
+      setFrameRetakesUsed(0);
+      photoBoothRef.current.startCountdown(captureSettings.countdownSeconds);
     }
   };
 
+  const frameRetakesLeft = Math.max(0, maxFrameRetakes - frameRetakesUsed);
+  // Motion keyframes come from one burst, so only whole-strip retakes apply
+  const canRetakeFrames = template.photoCount > 1 && template.captureMode !== 'motion' && frameRetakesLeft > 0;
+
+  const handleRetakeFrame = () => {
+    if (selectedFrame === null || frameRetakesLeft === 0 || !photoBoothRef.current) return;
+    setFrameRetakesUsed((used) => used + 1);
+    setSelectedFrame(null);
+    photoBoothRef.current.retakeFrame(selectedFrame, captureSettings.countdownSeconds);
+  };
+
+  const handleNextShot = () => {
+    photoBoothRef.current?.takeNextShot();
+  };
+
   const handleRetake = () => {
     // Clear photoId when retaking to ensure fresh capture
     if (photoBoothRef.current?.setPhotoIdForPrint) {
@@ -592,7 +707,24 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
     onBackToTemplate();
   };
 
-  const handleCanvasClick = async () => {
+  const handleCanvasClick = async (event?: React.MouseEvent) => {
+    // Tapping a photo selects it for a single-photo retake; once saved or printed the strip is final
+    if (
+      event &&
+      appState === 'REVIEW' &&
+      canRetakeFrames &&
+      !isPrinting &&
+      !photoBoothRef.current?.getPhotoIdForPrint()
+    ) {
+      const frameIndex = photoBoothRef.current?.getFrameIndexAt(event.clientX, event.clientY) ?? null;
+      if (frameIndex !== null) {
+        // Tapping the selected photo again deselects it
+        setSelectedFrame(frameIndex === selectedFrame ? null : frameIndex);
+        return;
+      }
+    }
+    setSelectedFrame(null);
+
     if (appState === 'REVIEW' && photoBoothRef.current) {
       // Fix: Helper function to reduce code duplication
       const fallbackToHighRes = () => {
@@ -605,12 +737,14 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
       
       const photoId = photoBoothRef.current.getPhotoIdForPrint?.();
       if (photoId) {
-        // Try to fetch access token from IndexedDB
+        // Try to fetch access token (and the number/id printed through text tokens) from IndexedDB
         let accessToken: string | undefined;
+        let tokens: TextTokenContext | undefined;
         try {
           const { getPhotoById } = await import('../services/photoStorageService');
           const photoRecord = await getPhotoById(photoId);
           accessToken = photoRecord?.accessToken;
+          tokens = getPhotoTextTokens(photoRecord);
         } catch (err) {
           console.warn('[handleCanvasClick] Could not fetch access token:', err);
         }
@@ -648,7 +782,8 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
               p5Instance,
               frames,
               template,
-              qrCodeDataURL
+              qrCodeDataURL,
+              { tokens }
             );
             
               // Fix: Re-check after await
@@ -706,6 +841,19 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
     setHighResImageDataURL(null);
   };
 
+  // Colour copy and animation saved with the strip for the download page
+  const getPhotoDownloads = (): PhotoDownloads => ({
+    colorImageDataURL: photoBoothRef.current?.getColorCompositeDataURL() ?? undefined,
+    motionClip: photoBoothRef.current?.getMotionClip() ?? undefined
+  });
+
+  const getCaptureInfo = (): PhotoCaptureInfo => ({
+    templateId: template.id,
+    templateName: template.name,
+    capturedAt: captureCompletedAtRef.current ?? new Date().toISOString(),
+    frameRetakes: frameRetakesUsed
+  });
+
   const handleDownload = () => {
     console.log('Download button clicked');
     if (photoBoothRef.current) {
@@ -799,7 +947,7 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
                 let photoRecord;
                 try {
                   console.log('[HANDLE_PRINT] Calling savePhotoLocally...');
-                  photoRecord = await savePhotoLocally(highResDataURL);
+                  photoRecord = await savePhotoLocally(highResDataURL, getPhotoDownloads(), getCaptureInfo());
                   photoId = photoRecord.id;
                   console.log('[HANDLE_PRINT] ✓ Photo saved locally successfully');
                   console.log('[HANDLE_PRINT] Photo ID:', photoId);
@@ -878,7 +1026,7 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
           console.log('[HANDLE_PRINT] No photoId found, saving temporarily for QR code generation');
           try {
             const { savePhotoLocally } = await import('../services/photoStorageService');
-            const photoRecord = await savePhotoLocally(highResDataURL);
+            const photoRecord = await savePhotoLocally(highResDataURL, getPhotoDownloads(), getCaptureInfo());
             photoId = photoRecord.id;
             
             // Store photoId temporarily (will be used for QR code)
@@ -929,8 +1077,9 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
         console.log('[HANDLE_PRINT] Using width from settings:', printWidth, `(${settings.thermalSize})`);
       }
       
-      await bluetoothPrinter.printImage(printDataURL, printWidth);
-      console.log('[HANDLE_PRINT] Print command sent');
+      // Queue the job (persisted in IndexedDB) so it survives a dropped printer link
+      const job = await enqueuePrintJob(printDataURL, printWidth, photoId);
+      console.log('[HANDLE_PRINT] Print job queued:', job.id);
       if (photoId) {
         if (saveBeforePrint) {
           console.log('[HANDLE_PRINT] Photo ID:', photoId, '- Status: PENDING UPLOAD');
@@ -940,7 +1089,7 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
       } else {
         console.log('[HANDLE_PRINT] Photo printed directly without QR code (no photoId available)');
       }
-      // Note: Actual print result will come via PRINT_SUCCESS event
+      // Note: The queue prints the job and retries it after a reconnect
       
     } catch (error) {
       console.error('Print failed:', error);
@@ -963,6 +1112,7 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
     
     // Release wake lock when in review mode
     if (newState === 'REVIEW') {
+      captureCompletedAtRef.current = new Date().toISOString();
       releaseWakeLock();
     }
   };
@@ -1016,6 +1166,15 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
           </button>
         </div>
       )}
+      {isBluetoothConnected && printerStatus && printerStatus.state !== 'ready' && printerStatus.state !== 'unknown' && (
+        <div
+          className={`printer-status-alert ${isPrinterBlocked ? 'printer-status-alert-error' : 'printer-status-alert-warning'}`}
+          role="alert"
+        >
+          🖨️ {PRINTER_STATUS_MESSAGES[printerStatus.state]}
+        </div>
+      )}
+      {endedSession && appState === 'PREVIEW' && <EventEndedScreen session={endedSession} />}
       {/* Capture Content - Same structure as template selector */}
       <div className="capture-content">
         {/* Header */}
@@ -1030,12 +1189,15 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
               state={appState}
               countdownText={countdownText}
               template={template}
+              captureSettings={captureSettings}
+              selectedFrame={selectedFrame}
               onStateChange={handleStateChange}
               onFramesUpdate={handleFramesUpdate}
               onFinalCompositeUpdate={handleFinalCompositeUpdate}
               onCountdownTextUpdate={handleCountdownTextUpdate}
               onCanvasResize={handleCanvasResize}
               onCanvasModeChange={handleCanvasModeChange}
+              onAwaitingNextShot={setAwaitingNextShot}
             />
             {/* Dynamic Overlay Mask based on template */}
             {appState === 'PREVIEW' && (
@@ -1047,15 +1209,48 @@ export const PhotoBoothApp: React.FC<PhotoBoothAppProps> = ({ template, onBackTo
         {/* Footer Button */}
         {appState === 'PREVIEW' && (
           <div id="ui-overlay">
-            <button className="capture-start-button" onClick={handleStart}>
+            <button className="capture-start-button" onClick={handleStart} disabled={isPrinterBlocked}>
               START
             </button>
-            <p className="capture-instruction">Press START when ready</p>
+            <p className="capture-instruction">
+              {isPrinterBlocked ? 'Waiting for the printer…' : 'Press START when ready'}
+            </p>
           </div>
         )}
-        {appState === 'REVIEW' && (
+        {appState === 'CAPTURING' && awaitingNextShot !== null && (
+          <div id="ui-overlay">
+            <button className="capture-start-button" onClick={handleNextShot}>
+              NEXT PHOTO
+            </button>
+            <p className="capture-instruction">
+              Press when ready for photo {awaitingNextShot}/{template.photoCount}
+            </p>
+          </div>
+        )}
+        {appState === 'REVIEW' && selectedFrame !== null && (
+          <>
+            <p className="review-tap-hint">
+              RETAKE PHOTO {selectedFrame + 1}? ({frameRetakesLeft} retake{frameRetakesLeft !== 1 ? 's' : ''} left)
+            </p>
+            <div id="ui-overlay">
+              <div className="controls">
+                <div className="button-row">
+                  <button className="retake-button" onClick={handleRetakeFrame}>
+                    RETAKE PHOTO {selectedFrame + 1}
+                  </button>
+                  <button className="download-button" onClick={() => handleCanvasClick()}>
+                    PREVIEW
+                  </button>
+                </div>
+              </div>
+            </div>
+          </>
+        )}
+        {appState === 'REVIEW' && selectedFrame === null && (
           <>
-            <p className="review-tap-hint">TAP TO PREVIEW</p>
+            <p className="review-tap-hint">
+              {canRetakeFrames ? 'TAP A PHOTO TO RETAKE IT' : 'TAP TO PREVIEW'}
+            </p>
             <div id="ui-overlay">
               <Controls
                 state={appState}
@@ -0,0 +1,146 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getPrintJobs,
+  cancelPrintJob,
+  reprintPrintJob,
+  movePrintJob,
+  clearFinishedPrintJobs,
+  initPrintQueue,
+  processPrintQueue,
+  MAX_PRINT_ATTEMPTS,
+  type PrintJob,
+  type PrintJobState
+} from '../services/printQueueService';
+
+interface PrintQueuePanelProps {
+  isPrinterConnected: boolean;
+  showNotification: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+const STATE_LABEL: Record<PrintJobState, string> = {
+  queued: '⏳ QUEUED',
+  sending: '🖨️ PRINTING',
+  done: '✅ DONE',
+  failed: '❌ FAILED'
+};
+
+export const PrintQueuePanel = ({ isPrinterConnected, showNotification }: PrintQueuePanelProps) => {
+  const [jobs, setJobs] = useState<PrintJob[]>([]);
+
+  const refresh = useCallback(() => {
+    getPrintJobs()
+      .then(setJobs)
+      .catch((error) => console.error('Failed to load print queue:', error));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    initPrintQueue().catch((error) => console.error('Failed to initialize print queue:', error));
+    window.addEventListener('printQueueChanged', refresh);
+    return () => window.removeEventListener('printQueueChanged', refresh);
+  }, [refresh]);
+
+  const runAction = async (action: () => Promise<void>, successMessage?: string) => {
+    try {
+      await action();
+      if (successMessage) showNotification(successMessage, 'success');
+    } catch (error) {
+      showNotification(error instanceof Error ? error.message : 'Print queue action failed', 'error');
+    }
+  };
+
+  const handleCancel = (job: PrintJob) => {
+    if (job.state === 'queued' && !confirm('Cancel this print job?')) return;
+    runAction(() => cancelPrintJob(job.id), job.state === 'queued' ? 'Print job cancelled' : undefined);
+  };
+
+  const queued = jobs.filter((job) => job.state === 'queued');
+  const hasFinished = jobs.some((job) => job.state === 'done');
+
+  return (
+    <div className="admin-card" style={{ marginTop: '20px' }}>
+      <div className="card-header">
+        <h2>Print Queue</h2>
+      </div>
+      <p className="settings-description">
+        Prints are queued and sent one at a time. Jobs interrupted by a disconnect resume when the printer reconnects
+        (up to {MAX_PRINT_ATTEMPTS} attempts per job).
+      </p>
+
+      {jobs.length === 0 ? (
+        <p className="settings-description">No print jobs.</p>
+      ) : (
+        <div className="sessions-list">
+          {jobs.map((job) => {
+            const queueIndex = queued.findIndex((q) => q.id === job.id);
+            return (
+              <div key={job.id} className={`session-item ${job.state === 'sending' ? 'active-session' : ''}`}>
+                <div className="session-info">
+                  <div className="session-header">
+                    <div className="session-code">{job.photoId ?? 'Unsaved photo'}</div>
+                    <div className={`session-status ${job.state === 'sending' ? 'active' : 'inactive'}`}>
+                      {STATE_LABEL[job.state]}
+                    </div>
+                  </div>
+                  <div className="session-event">
+                    {new Date(job.createdAt).toLocaleTimeString()} · {job.width}px · attempt {job.attempts}/{MAX_PRINT_ATTEMPTS}
+                  </div>
+                  {job.lastError && job.state !== 'done' && (
+                    <div className="session-date">Last error: {job.lastError}</div>
+                  )}
+                </div>
+                <div className="session-actions">
+                  {job.state === 'queued' && (
+                    <>
+                      <button
+                        onClick={() => runAction(() => movePrintJob(job.id, 'up'))}
+                        className="small-btn"
+                        disabled={queueIndex <= 0}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => runAction(() => movePrintJob(job.id, 'down'))}
+                        className="small-btn"
+                        disabled={queueIndex === queued.length - 1}
+                      >
+                        ↓
+                      </button>
+                    </>
+                  )}
+                  {(job.state === 'done' || job.state === 'failed') && (
+                    <button onClick={() => runAction(() => reprintPrintJob(job.id), 'Print job re-queued')} className="small-btn">
+                      Reprint
+                    </button>
+                  )}
+                  {job.state !== 'sending' && (
+                    <button onClick={() => handleCancel(job)} className="danger-btn">
+                      {job.state === 'queued' ? 'Cancel' : 'Remove'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div style={{ marginTop: '20px', display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
+        <button
+          onClick={() => void processPrintQueue()}
+          className="primary-btn"
+          disabled={!isPrinterConnected || queued.length === 0}
+        >
+          Resume Queue
+        </button>
+        <button
+          onClick={() => runAction(clearFinishedPrintJobs, 'Finished jobs cleared')}
+          className="secondary-btn"
+          disabled={!hasFinished}
+        >
+          Clear Finished
+        </button>
+      </div>
+    </div>
+  );
+};
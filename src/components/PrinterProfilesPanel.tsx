@@ -0,0 +1,493 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  getPrinterProfiles,
+  savePrinterProfile,
+  deletePrinterProfile,
+  clonePrinterProfile,
+  exportPrinterProfiles,
+  importPrinterProfiles,
+  normalizePrinterProfile,
+  getFallbackPrinterProfile,
+  type PrinterProfile
+} from '../services/printerProfileService';
+
+interface PrinterProfilesPanelProps {
+  activeProfileId?: string;
+  showNotification: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+// Form state keeps list fields as comma/newline separated text for editing
+interface ProfileDraft extends Omit<PrinterProfile, 'namePatterns' | 'namePrefixes' | 'serviceUUIDs'> {
+  namePatterns: string;
+  namePrefixes: string;
+  serviceUUIDs: string;
+}
+
+const toDraft = (profile: PrinterProfile): ProfileDraft => ({
+  ...profile,
+  namePatterns: profile.namePatterns.join(', '),
+  namePrefixes: profile.namePrefixes.join(', '),
+  serviceUUIDs: profile.serviceUUIDs.join('\n')
+});
+
+const splitList = (value: string): string[] =>
+  value.split(/[,\n]/).map((v) => v.trim()).filter(Boolean);
+
+const downloadJson = (json: string, filename: string) => {
+  const blob = new Blob([json], { type: 'application/json' });
+  const blobUrl = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = blobUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(blobUrl);
+};
+
+export const PrinterProfilesPanel = ({ activeProfileId, showNotification }: PrinterProfilesPanelProps) => {
+  const [profiles, setProfiles] = useState<PrinterProfile[]>(() => getPrinterProfiles());
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const refresh = () => setProfiles(getPrinterProfiles());
+    window.addEventListener('printerProfilesChanged', refresh);
+    window.addEventListener('storage', refresh);
+    return () => {
+      window.removeEventListener('printerProfilesChanged', refresh);
+      window.removeEventListener('storage', refresh);
+    };
+  }, []);
+
+  const handleNew = () => {
+    // Start from the generic 58mm defaults
+    setDraft(toDraft({
+      ...getFallbackPrinterProfile('58mm'),
+      id: '',
+      name: '',
+      builtIn: false,
+      namePatterns: [],
+      namePrefixes: []
+    }));
+  };
+
+  const handleClone = (id: string) => {
+    try {
+      const clone = clonePrinterProfile(id);
+      setDraft(toDraft(clone));
+      showNotification(`Cloned as "${clone.name}"`, 'success');
+    } catch (error) {
+      showNotification(error instanceof Error ? error.message : 'Failed to clone profile', 'error');
+    }
+  };
+
+  const handleDelete = (profile: PrinterProfile) => {
+    if (!confirm(`Delete printer profile "${profile.name}"?`)) return;
+    deletePrinterProfile(profile.id);
+    if (draft?.id === profile.id) setDraft(null);
+    showNotification('Printer profile deleted', 'info');
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    try {
+      const profile = normalizePrinterProfile({
+        ...draft,
+        id: draft.id || undefined,
+        namePatterns: splitList(draft.namePatterns),
+        namePrefixes: splitList(draft.namePrefixes),
+        serviceUUIDs: splitList(draft.serviceUUIDs)
+      });
+      const saved = savePrinterProfile(profile);
+      setDraft(null);
+      showNotification(`Printer profile saved: ${saved.name}`, 'success');
+    } catch (error) {
+      showNotification(error instanceof Error ? error.message : 'Failed to save profile', 'error');
+    }
+  };
+
+  const handleExport = (id?: string) => {
+    const json = exportPrinterProfiles(id ? [id] : undefined);
+    downloadJson(json, id ? `printer-profile-${id}.json` : 'printer-profiles.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = importPrinterProfiles(await file.text());
+      showNotification(`Imported ${count} printer profile${count !== 1 ? 's' : ''}`, 'success');
+    } catch (error) {
+      console.error('Printer profile import failed:', error);
+      showNotification('Import failed: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+    }
+  };
+
+  const updateDraft = (patch: Partial<ProfileDraft>) => {
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  return (
+    <div className="admin-card" style={{ marginTop: '20px' }}>
+      <div className="card-header">
+        <h2>Printer Profiles</h2>
+      </div>
+      <p className="settings-description">
+        Profiles are matched against the Bluetooth device name. Custom profiles take priority over built-in ones.
+      </p>
+
+      <div className="sessions-list">
+        {profiles.map((profile) => {
+          const isActive = profile.id === activeProfileId;
+          return (
+            <div key={profile.id} className={`session-item ${isActive ? 'active-session' : ''}`}>
+              <div className="session-info">
+                <div className="session-header">
+                  <div className="session-code">{profile.name}</div>
+                  <div className={`session-status ${isActive ? 'active' : 'inactive'}`}>
+                    {isActive ? '🟢 IN USE' : profile.builtIn ? 'BUILT-IN' : 'CUSTOM'}
+                  </div>
+                </div>
+                <div className="session-event">
+                  {profile.width}px · {profile.dpi} dpi · {profile.imageMode} · chunk {profile.chunkSize}B
+                  {profile.namePatterns.length > 0 && ` · matches: ${profile.namePatterns.join(', ')}`}
+                </div>
+              </div>
+              <div className="session-actions">
+                {!profile.builtIn && (
+                  <button onClick={() => setDraft(toDraft(profile))} className="small-btn">
+                    Edit
+                  </button>
+                )}
+                <button onClick={() => handleClone(profile.id)} className="small-btn">
+                  Clone
+                </button>
+                <button onClick={() => handleExport(profile.id)} className="small-btn">
+                  Export
+                </button>
+                {!profile.builtIn && (
+                  <button onClick={() => handleDelete(profile)} className="danger-btn">
+                    Delete
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div style={{ marginTop: '20px', display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
+        <button onClick={handleNew} className="primary-btn">
+          New Profile
+        </button>
+        <button onClick={() => importInputRef.current?.click()} className="secondary-btn">
+          Import JSON
+        </button>
+        <button onClick={() => handleExport()} className="secondary-btn">
+          Export All
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImport}
+          style={{ display: 'none' }}
+        />
+      </div>
+
+      {draft && (
+        <div className="printer-output-settings" style={{ marginTop: '20px' }}>
+          <div className="settings-separator"></div>
+          <div className="filter-section">
+            <h3>{draft.id ? `Edit: ${draft.name}` : 'New Profile'}</h3>
+
+            <div className="setting-group">
+              <label className="field-label">Name</label>
+              <input
+                type="text"
+                value={draft.name}
+                placeholder="e.g. MTP-II 58mm"
+                onChange={(e) => updateDraft({ name: e.target.value })}
+              />
+            </div>
+
+            <div className="setting-group" style={{ display: 'flex', gap: '12px' }}>
+              <div style={{ flex: 1 }}>
+                <label className="field-label">
+                  Width
+                  <span className="setting-help">(dots: 384 = 58mm, 576 = 80mm)</span>
+                </label>
+                <input
+                  type="number"
+                  min="8"
+                  max="2048"
+                  value={draft.width}
+                  onChange={(e) => updateDraft({ width: parseInt(e.target.value) || 0 })}
+                  className="number-input"
+                />
+              </div>
+              <div style={{ flex: 1 }}>
+                <label className="field-label">DPI</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={draft.dpi}
+                  onChange={(e) => updateDraft({ dpi: parseInt(e.target.value) || 0 })}
+                  className="number-input"
+                />
+              </div>
+            </div>
+
+            <div className="setting-group">
+              <label className="field-label">
+                Name Patterns
+                <span className="setting-help">(comma separated, case-insensitive, matched anywhere in the device name)</span>
+              </label>
+              <input
+                type="text"
+                value={draft.namePatterns}
+                placeholder="mtp, mpt-ii"
+                onChange={(e) => updateDraft({ namePatterns: e.target.value })}
+              />
+            </div>
+
+            <div className="setting-group">
+              <label className="field-label">
+                Chooser Name Prefixes
+                <span className="setting-help">(comma separated, case-sensitive, shown in the browser Bluetooth picker)</span>
+              </label>
+              <input
+                type="text"
+                value={draft.namePrefixes}
+                placeholder="MTP"
+                onChange={(e) => updateDraft({ namePrefixes: e.target.value })}
+              />
+            </div>
+
+            <div className="setting-group">
+              <label className="field-label">
+                Service UUIDs
+                <span className="setting-help">(one per line, tried in order)</span>
+              </label>
+              <textarea
+                rows={3}
+                value={draft.serviceUUIDs}
+                onChange={(e) => updateDraft({ serviceUUIDs: e.target.value })}
+                style={{ fontFamily: 'monospace' }}
+              />
+            </div>
+
+            <div className="setting-group">
+              <label className="field-label">
+                Characteristic UUID
+                <span className="setting-help">(optional, empty = first writable characteristic)</span>
+              </label>
+              <input
+                type="text"
+                value={draft.characteristicUUID ?? ''}
+                onChange={(e) => updateDraft({ characteristicUUID: e.target.value })}
+                style={{ fontFamily: 'monospace' }}
+              />
+            </div>
+
+            <div className="setting-group" style={{ display: 'flex', gap: '12px' }}>
+              <div style={{ flex: 1 }}>
+                <label className="field-label">
+                  Chunk Size
+                  <span className="setting-help">(bytes per write)</span>
+                </label>
+                <input
+                  type="number"
+                  min="20"
+                  max="512"
+                  value={draft.chunkSize}
+                  onChange={(e) => updateDraft({ chunkSize: parseInt(e.target.value) || 0 })}
+                  className="number-input"
+                />
+              </div>
+              <div style={{ flex: 1 }}>
+                <label className="field-label">
+                  Chunk Delay
+                  <span className="setting-help">(ms)</span>
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="500"
+                  value={draft.chunkDelayMs}
+                  onChange={(e) => updateDraft({ chunkDelayMs: parseInt(e.target.value) || 0 })}
+                  className="number-input"
+                />
+              </div>
+            </div>
+
+            <div className="setting-group" style={{ display: 'flex', gap: '12px' }}>
+              <div style={{ flex: 1 }}>
+                <label className="field-label">
+                  Image Mode
+                  <span className="setting-help">(raster = GS v 0, column = ESC *)</span>
+                </label>
+                <select
+                  value={draft.imageMode}
+                  onChange={(e) => updateDraft({ imageMode: e.target.value as PrinterProfile['imageMode'] })}
+                  className="select-input"
+                >
+                  <option value="raster">Raster (GS v 0)</option>
+                  <option value="column">Column (ESC *)</option>
+                </select>
+              </div>
+              <div style={{ flex: 1 }}>
+                <label className="field-label">Alignment</label>
+                <select
+                  value={draft.alignment}
+                  onChange={(e) => updateDraft({ alignment: e.target.value as PrinterProfile['alignment'] })}
+                  className="select-input"
+                >
+                  <option value="left">Left</option>
+                  <option value="center">Center</option>
+                  <option value="right">Right</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="setting-group" style={{ display: 'flex', gap: '12px' }}>
+              <div style={{ flex: 1 }}>
+                <label className="field-label">
+                  Feed Lines
+                  <span className="setting-help">(after image)</span>
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="20"
+                  value={draft.feedLines}
+                  onChange={(e) => updateDraft({ feedLines: parseInt(e.target.value) || 0 })}
+                  className="number-input"
+                />
+              </div>
+              <div style={{ flex: 1 }}>
+                <label className="field-label">Cut</label>
+                <select
+                  value={draft.cutMode}
+                  onChange={(e) => updateDraft({ cutMode: e.target.value as PrinterProfile['cutMode'] })}
+                  className="select-input"
+                >
+                  <option value="full">Full cut</option>
+                  <option value="partial">Partial cut</option>
+                  <option value="none">No cut</option>
+                </select>
+              </div>
+            </div>
+
+            <div className="setting-group">
+              <label className="field-label toggle-label">
+                <span>Set Print Density</span>
+                <span className="setting-help">(GS ( K, ignored by some printers)</span>
+                <div
+                  className={`toggle-switch ${draft.density !== null ? 'active' : ''}`}
+                  onClick={() => updateDraft({ density: draft.density === null ? 0 : null })}
+                >
+                  <div className="toggle-slider"></div>
+                </div>
+              </label>
+              {draft.density !== null && (
+                <>
+                  <label className="field-label">Density: {draft.density}</label>
+                  <input
+                    type="range"
+                    min="-6"
+                    max="6"
+                    value={draft.density}
+                    onChange={(e) => updateDraft({ density: parseInt(e.target.value) })}
+                    className="slider-input"
+                  />
+                  <div className="slider-labels">
+                    <span>Lighter</span>
+                    <span>Darker</span>
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="setting-group">
+              <label className="field-label toggle-label">
+                <span>Status Reporting</span>
+                <span className="setting-help">(DLE EOT paper / cover checks, needs a notify characteristic)</span>
+                <div
+                  className={`toggle-switch ${draft.supportsStatus ? 'active' : ''}`}
+                  onClick={() => updateDraft({ supportsStatus: !draft.supportsStatus })}
+                >
+                  <div className="toggle-slider"></div>
+                </div>
+              </label>
+            </div>
+
+            <div className="setting-group">
+              <label className="field-label">
+                Default Threshold: {draft.threshold}
+                <span className="setting-help">(used until printer output settings are saved)</span>
+              </label>
+              <input
+                type="range"
+                min="0"
+                max="255"
+                value={draft.threshold}
+                onChange={(e) => updateDraft({ threshold: parseInt(e.target.value) })}
+                className="slider-input"
+              />
+            </div>
+
+            <div className="setting-group">
+              <label className="field-label">Default Gamma: {draft.gamma.toFixed(2)}</label>
+              <input
+                type="range"
+                min="0.5"
+                max="2.5"
+                step="0.05"
+                value={draft.gamma}
+                onChange={(e) => updateDraft({ gamma: parseFloat(e.target.value) })}
+                className="slider-input"
+              />
+            </div>
+
+            <div className="setting-group">
+              <label className="field-label">Default Sharpen: {draft.sharpen.toFixed(2)}</label>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.05"
+                value={draft.sharpen}
+                onChange={(e) => updateDraft({ sharpen: parseFloat(e.target.value) })}
+                className="slider-input"
+              />
+            </div>
+
+            <div className="setting-group">
+              <label className="field-label toggle-label">
+                <span>Default Dithering</span>
+                <div
+                  className={`toggle-switch ${draft.dithering ? 'active' : ''}`}
+                  onClick={() => updateDraft({ dithering: !draft.dithering })}
+                >
+                  <div className="toggle-slider"></div>
+                </div>
+              </label>
+            </div>
+
+            <div style={{ display: 'flex', gap: '10px' }}>
+              <button onClick={handleSave} className="primary-btn">
+                Save Profile
+              </button>
+              <button onClick={() => setDraft(null)} className="secondary-btn">
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  loadSessionAnalytics,
+  analyticsSummaryToCsv,
+  analyticsPhotosToCsv,
+  type DurationStats,
+  type SessionAnalytics
+} from '../services/sessionAnalyticsService';
+
+interface SessionAnalyticsPanelProps {
+  sessionCode: string;
+}
+
+function formatPercent(ratio: number | null): string {
+  return ratio === null ? '—' : `${Math.round(ratio * 100)}%`;
+}
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) return '—';
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.round((seconds % 3600) / 60)}m`;
+}
+
+function describeDuration(stats: DurationStats): string {
+  if (stats.count === 0) return '—';
+  return `${formatDuration(stats.medianSeconds)} median · ${formatDuration(stats.averageSeconds)} avg`;
+}
+
+function downloadCsv(csv: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export const SessionAnalyticsPanel = ({ sessionCode }: SessionAnalyticsPanelProps) => {
+  const [analytics, setAnalytics] = useState<SessionAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const refresh = useCallback(() => {
+    setLoading(true);
+    setError('');
+    loadSessionAnalytics(sessionCode)
+      .then(setAnalytics)
+      .catch((err) => {
+        console.error('[SessionAnalytics] Failed to load analytics:', err);
+        setError('Failed to load analytics');
+      })
+      .finally(() => setLoading(false));
+  }, [sessionCode]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  if (!analytics) {
+    return (
+      <div className="admin-card">
+        <div className="card-header">
+          <h2>Analytics</h2>
+        </div>
+        {error ? <div className="error-message">{error}</div> : <p className="settings-description">Loading analytics...</p>}
+      </div>
+    );
+  }
+
+  const maxHourly = Math.max(1, ...analytics.hourly.map((entry) => entry.count));
+  const maxTemplate = Math.max(1, ...analytics.templates.map((template) => template.count));
+
+  return (
+    <div className="admin-card">
+      <div className="card-header">
+        <h2>Analytics</h2>
+      </div>
+      <p className="settings-description">
+        Retakes, print and upload timings are recorded by this booth ({analytics.photosWithCaptureInfo} of{' '}
+        {analytics.totalPhotos} photos). Downloads come from the download page access log.
+      </p>
+
+      <div className="upload-stats">
+        <div className="stat-item">
+          <span className="stat-number">{analytics.totalPhotos}</span>
+          <span className="stat-label">Photos</span>
+        </div>
+        <div className="stat-item">
+          <span className="stat-number">{formatPercent(analytics.retakes.rate)}</span>
+          <span className="stat-label">Strips With A Retake</span>
+        </div>
+        <div className="stat-item">
+          <span className="stat-number">{formatPercent(analytics.prints.successRate)}</span>
+          <span className="stat-label">Print Success</span>
+        </div>
+        <div className="stat-item">
+          <span className="stat-number">{analytics.downloads ? analytics.downloads.downloads : '—'}</span>
+          <span className="stat-label">Downloads</span>
+        </div>
+      </div>
+
+      <div className="info-grid">
+        <div className="info-row">
+          <span className="label">Single-photo retakes:</span>
+          <span className="value">{analytics.retakes.total} ({analytics.retakes.photosWithRetake} strips)</span>
+        </div>
+        <div className="info-row">
+          <span className="label">Prints:</span>
+          <span className="value">{analytics.prints.printed} printed, {analytics.prints.failed} failed</span>
+        </div>
+        <div className="info-row">
+          <span className="label">Capture to print:</span>
+          <span className="value">{describeDuration(analytics.captureToPrint)}</span>
+        </div>
+        <div className="info-row">
+          <span className="label">Upload lag:</span>
+          <span className="value">
+            {describeDuration(analytics.uploadLag)}
+            {analytics.pendingUploads > 0 ? ` · ${analytics.pendingUploads} pending` : ''}
+          </span>
+        </div>
+        <div className="info-row">
+          <span className="label">Downloads:</span>
+          <span className="value">
+            {analytics.downloads
+              ? `${analytics.downloads.photosDownloaded} photos by ${analytics.downloads.uniqueIps} unique IPs`
+              : 'Access log unavailable'}
+          </span>
+        </div>
+      </div>
+
+      {analytics.hourly.length > 0 && (
+        <>
+          <h3 className="analytics-heading">Photos per hour</h3>
+          <div className="analytics-hourly">
+            {analytics.hourly.map((entry) => (
+              <div key={entry.hour} className="analytics-hour" title={`${entry.count} photos`}>
+                <span className="analytics-hour-count">{entry.count || ''}</span>
+                <div className="analytics-hour-bar" style={{ height: `${(entry.count / maxHourly) * 100}%` }} />
+                <span className="analytics-hour-label">
+                  {new Date(entry.hour).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      {analytics.templates.length > 0 && (
+        <>
+          <h3 className="analytics-heading">Templates</h3>
+          <div className="analytics-templates">
+            {analytics.templates.map((template) => (
+              <div key={template.templateId} className="analytics-template-row">
+                <span className="analytics-template-name">{template.name}</span>
+                <div className="storage-meter analytics-template-meter">
+                  <div className="storage-meter-fill" style={{ width: `${(template.count / maxTemplate) * 100}%` }} />
+                </div>
+                <span className="analytics-template-count">{template.count}</span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div style={{ marginTop: '20px', display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
+        <button
+          onClick={() => downloadCsv(analyticsSummaryToCsv(analytics), `morobooth-${sessionCode}-summary.csv`)}
+          className="secondary-btn"
+        >
+          Export Summary CSV
+        </button>
+        <button
+          onClick={() => downloadCsv(analyticsPhotosToCsv(analytics), `morobooth-${sessionCode}-photos.csv`)}
+          className="secondary-btn"
+        >
+          Export Photos CSV
+        </button>
+        <button onClick={refresh} className="secondary-btn" disabled={loading}>
+          {loading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+    </div>
+  );
+};
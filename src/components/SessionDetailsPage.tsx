@@ -1,6 +1,8 @@
 import { useState, useEffect } from 'react';
 import { getSessionByCode, updateSessionSettings, getDefaultSessionSettings, type SessionInfo, type SessionSettings } from '../services/sessionService';
 import { getPhotosBySession, type PhotoRecord } from '../services/photoStorageService';
+import { exportSessionArchive } from '../services/sessionArchiveService';
+import { SessionAnalyticsPanel } from './SessionAnalyticsPanel';
 
 interface SessionDetailsPageProps {
   sessionCode: string;
@@ -12,6 +14,7 @@ export const SessionDetailsPage: React.FC<SessionDetailsPageProps> = ({ sessionC
   const [photos, setPhotos] = useState<PhotoRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [exportProgress, setExportProgress] = useState<string | null>(null);
   const [error, setError] = useState('');
   const [stats, setStats] = useState({
     totalPhotos: 0,
@@ -242,6 +245,28 @@ export const SessionDetailsPage: React.FC<SessionDetailsPageProps> = ({ sessionC
     }
   }
 
+  async function handleExport() {
+    setExportProgress('Preparing...');
+    setError('');
+    try {
+      const result = await exportSessionArchive(sessionCode, (done, total) => setExportProgress(`${done}/${total}`));
+      const url = URL.createObjectURL(result.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = result.fileName;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+      if (result.missingFiles > 0) {
+        alert(`Exported ${result.photos} photos. ${result.missingFiles} photos had no image on this device or in storage and were exported without it.`);
+      }
+    } catch (err) {
+      console.error('Error exporting session:', err);
+      setError('Failed to export session: ' + (err instanceof Error ? err.message : 'Unknown error'));
+    } finally {
+      setExportProgress(null);
+    }
+  }
+
   function handleBack() {
     window.location.href = '/admin';
   }
@@ -371,6 +396,8 @@ export const SessionDetailsPage: React.FC<SessionDetailsPageProps> = ({ sessionC
             </div>
           </div>
 
+          <SessionAnalyticsPanel sessionCode={sessionCode} />
+
           {/* Settings Section */}
           <div className="session-details-settings-section">
             {/* Expired Settings */}
@@ -522,6 +549,29 @@ export const SessionDetailsPage: React.FC<SessionDetailsPageProps> = ({ sessionC
                       : 'No limit on number of photos'}
                   </p>
                 </div>
+
+                <div className="setting-group">
+                  <label className="field-label">
+                    Single Photo Retakes
+                    <span className="setting-help-inline">(per guest, 0 to disable)</span>
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="10"
+                    value={settings.maxFrameRetakes ?? 2}
+                    onChange={(e) => setSettings({
+                      ...settings,
+                      maxFrameRetakes: Math.max(0, parseInt(e.target.value) || 0)
+                    })}
+                    className="text-input"
+                  />
+                  <p className="setting-help">
+                    {settings.maxFrameRetakes === 0
+                      ? 'Guests can only retake the whole strip'
+                      : 'Guests can tap a photo on the review screen to retake just that one'}
+                  </p>
+                </div>
               </div>
             </div>
           </div>
@@ -549,6 +599,13 @@ export const SessionDetailsPage: React.FC<SessionDetailsPageProps> = ({ sessionC
                 >
                   View Photos List
                 </button>
+                <button
+                  onClick={handleExport}
+                  className="secondary-btn"
+                  disabled={exportProgress !== null}
+                >
+                  {exportProgress !== null ? `Exporting... ${exportProgress}` : 'Export ZIP'}
+                </button>
               </div>
               {error && <div className="error-message" style={{ marginTop: '16px' }}>{error}</div>}
             </div>
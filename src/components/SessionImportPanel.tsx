@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { readSessionArchive, importSessionArchive } from '../services/sessionArchiveService';
+
+interface SessionImportPanelProps {
+  onImported: () => void;
+  showNotification: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+export const SessionImportPanel = ({ onImported, showNotification }: SessionImportPanelProps) => {
+  const [importing, setImporting] = useState(false);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const archive = await readSessionArchive(file);
+      const { session, photos, branding } = archive.manifest;
+      if (!confirm(`Import "${session.eventName}" (${session.sessionCode}) with ${photos.length} photos?`)) return;
+      const applyBranding = branding !== null && confirm("Also use this event's branding (header, text, fonts) on this booth?");
+
+      const result = await importSessionArchive(archive, { applyBranding });
+      showNotification(
+        `✓ ${result.session.sessionCode} imported: ${result.photosRestored} photos restored` +
+          (result.photosSkipped > 0 ? `, ${result.photosSkipped} skipped` : '') +
+          (result.brandingApplied ? ', branding applied' : ''),
+        'success'
+      );
+      onImported();
+    } catch (error) {
+      console.error('Session import failed:', error);
+      showNotification('Import failed: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="admin-card">
+      <div className="card-header">
+        <h2>Import Session</h2>
+      </div>
+      <p className="settings-description">
+        Restore an event exported from another booth (Session Details → Export ZIP). Photos keep their QR download
+        links; photos that were not uploaded yet are uploaded from this booth. Photos already on this device are kept.
+      </p>
+      <div className="file-input-row">
+        <label className={`file-upload-btn ${importing ? 'disabled' : ''}`}>
+          {importing ? 'Importing...' : 'Choose Session ZIP'}
+          <input type="file" accept=".zip,application/zip" disabled={importing} onChange={handleFile} />
+        </label>
+      </div>
+    </div>
+  );
+};
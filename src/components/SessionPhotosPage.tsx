@@ -4,11 +4,35 @@ import { generateQRCodeDataURL, getDownloadURL } from '../utils/qrCodeGenerator'
 import { supabase, isSupabaseConfigured } from '../config/supabase';
 import { getFreshSignedUrl } from '../services/uploadService';
 import { getSessionByCode, getDefaultSessionSettings } from '../services/sessionService';
+import {
+  deletePhoto,
+  getModerationLog,
+  getSignedInOrganiser,
+  hidePhoto,
+  revokePhotoAccess,
+  signInOrganiser,
+  signOutOrganiser,
+  unhidePhoto,
+  type ModerationAction,
+  type ModerationLogEntry
+} from '../services/photoModerationService';
 
 interface SessionPhotosPageProps {
   sessionCode: string;
 }
 
+const MODERATION_LABELS: Record<ModerationAction, string> = {
+  hide: 'Hidden',
+  unhide: 'Unhidden',
+  revoke: 'Link revoked',
+  delete: 'Deleted'
+};
+
+// Guests can't download the photo any more (validate-download answers "removed")
+function isPhotoRemoved(photo: PhotoRecord): boolean {
+  return photo.moderationStatus === 'hidden' || !!photo.tokenRevokedAt;
+}
+
 export const SessionPhotosPage: React.FC<SessionPhotosPageProps> = ({ sessionCode }) => {
   const [photos, setPhotos] = useState<PhotoRecord[]>([]);
   const [allPhotos, setAllPhotos] = useState<PhotoRecord[]>([]);
@@ -21,6 +45,12 @@ export const SessionPhotosPage: React.FC<SessionPhotosPageProps> = ({ sessionCod
   const [searchQuery, setSearchQuery] = useState('');
   const [expiredHours, setExpiredHours] = useState(24); // Default expired hours
   const [enableExpiredCheck, setEnableExpiredCheck] = useState(true);
+  const [moderating, setModerating] = useState(false);
+  const [moderationLog, setModerationLog] = useState<ModerationLogEntry[]>([]);
+  const [organiser, setOrganiser] = useState<string | null>(null);
+  const [organiserEmail, setOrganiserEmail] = useState('');
+  const [organiserPassword, setOrganiserPassword] = useState('');
+  const [organiserError, setOrganiserError] = useState('');
   const itemsPerPage = 5;
 
   useEffect(() => {
@@ -28,6 +58,10 @@ export const SessionPhotosPage: React.FC<SessionPhotosPageProps> = ({ sessionCod
     loadPhotos();
   }, [sessionCode]);
 
+  useEffect(() => {
+    getSignedInOrganiser().then(setOrganiser).catch(() => setOrganiser(null));
+  }, []);
+
   async function loadSessionSettings() {
     try {
       const session = await getSessionByCode(sessionCode);
@@ -249,6 +283,112 @@ export const SessionPhotosPage: React.FC<SessionPhotosPageProps> = ({ sessionCod
     setSelectedPhoto(null);
   }
 
+  async function loadModerationLog(photoId: string) {
+    try {
+      setModerationLog(await getModerationLog(photoId));
+    } catch (err) {
+      console.error(`[SessionPhotosPage] Failed to load moderation log for ${photoId}:`, err);
+      setModerationLog([]);
+    }
+  }
+
+  function applyPhotoChanges(photoId: string, changes: Partial<PhotoRecord>) {
+    setPhotos(prev => prev.map(p => (p.id === photoId ? { ...p, ...changes } : p)));
+    setSelectedPhoto(prev => (prev && prev.id === photoId ? { ...prev, ...changes } : prev));
+  }
+
+  function askModerationReason(action: ModerationAction, photo: PhotoRecord): string | null {
+    const name = `photo #${photo.photoNumber}`;
+    switch (action) {
+      case 'hide':
+        return prompt(`Hide ${name}? Guests will no longer be able to download it.\n\nReason (optional):`, '');
+      case 'unhide':
+        return confirm(`Show ${name} again? Guests can download it with their link.`) ? '' : null;
+      case 'revoke':
+        return prompt(`Revoke the download link of ${name}? Printed QR codes and shared links stop working, and no new link is issued.\n\nReason (optional):`, '');
+      case 'delete':
+        return prompt(`Delete ${name} from this device and from cloud storage? This cannot be undone.\n\nReason (optional):`, '');
+    }
+  }
+
+  async function handleModeration(action: ModerationAction) {
+    const photo = selectedPhoto;
+    if (!photo || moderating) return;
+    const reason = askModerationReason(action, photo);
+    if (reason === null) return;
+
+    setModerating(true);
+    try {
+      const now = new Date().toISOString();
+      if (action === 'hide') {
+        await hidePhoto(photo, reason);
+        applyPhotoChanges(photo.id, { moderationStatus: 'hidden', moderatedAt: now });
+      } else if (action === 'unhide') {
+        await unhidePhoto(photo, reason);
+        applyPhotoChanges(photo.id, { moderationStatus: undefined, moderatedAt: now });
+      } else if (action === 'revoke') {
+        await revokePhotoAccess(photo, reason);
+        applyPhotoChanges(photo.id, { accessToken: undefined, tokenRevokedAt: now });
+        setDownloadUrls(prev => ({ ...prev, [photo.id]: getDownloadURL(photo.id) }));
+        setQrCodes(prev => {
+          const next = { ...prev };
+          delete next[photo.id];
+          return next;
+        });
+      } else {
+        await deletePhoto(photo, reason);
+        setPhotos(prev => prev.filter(p => p.id !== photo.id));
+        setAllPhotos(prev => prev.filter(p => p.id !== photo.id));
+        setSelectedPhoto(null);
+        alert(`Photo #${photo.photoNumber} deleted`);
+        return;
+      }
+      await loadModerationLog(photo.id);
+    } catch (err) {
+      console.error(`[SessionPhotosPage] Moderation "${action}" failed for ${photo.id}:`, err);
+      alert(err instanceof Error ? err.message : 'Moderation failed. Please try again.');
+      // The action may have been partly applied; show what is stored now
+      setSelectedPhoto(null);
+      await loadPhotos();
+    } finally {
+      setModerating(false);
+    }
+  }
+
+  async function handleOrganiserSignIn(event: React.FormEvent) {
+    event.preventDefault();
+    if (moderating) return;
+    setModerating(true);
+    setOrganiserError('');
+    try {
+      setOrganiser(await signInOrganiser(organiserEmail, organiserPassword));
+      setOrganiserPassword('');
+    } catch (err) {
+      setOrganiserError(err instanceof Error ? err.message : 'Sign in failed');
+    } finally {
+      setModerating(false);
+    }
+  }
+
+  async function handleOrganiserSignOut() {
+    try {
+      await signOutOrganiser();
+    } catch (err) {
+      console.warn('[SessionPhotosPage] Sign out failed:', err);
+    }
+    setOrganiser(null);
+  }
+
+  // Moderation history of the photo shown in the detail modal
+  useEffect(() => {
+    if (selectedPhoto) {
+      loadModerationLog(selectedPhoto.id);
+    } else {
+      setModerationLog([]);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedPhoto?.id]);
+
   // Filter photos based on search query
   const filteredPhotos = photos.filter(photo => {
     if (!searchQuery.trim()) return true;
@@ -507,7 +647,11 @@ export const SessionPhotosPage: React.FC<SessionPhotosPageProps> = ({ sessionCod
                     </div>
                     <div className="photo-list-meta">
                       <span className="photo-list-time">{photoTime.toLocaleString()}</span>
-                      {isExpired ? (
+                      {photo.moderationStatus === 'hidden' ? (
+                        <span className="moderation-badge">Hidden</span>
+                      ) : photo.tokenRevokedAt ? (
+                        <span className="moderation-badge">Link revoked</span>
+                      ) : isExpired ? (
                         <span className="expired-badge">⚠️ Expired</span>
                       ) : (
                         <span className="valid-badge">✓ Valid</span>
@@ -622,7 +766,7 @@ export const SessionPhotosPage: React.FC<SessionPhotosPageProps> = ({ sessionCod
                       )}
                     </div>
                     
-                    {qrCodes[selectedPhoto.id] && (
+                    {qrCodes[selectedPhoto.id] && !isPhotoRemoved(selectedPhoto) && (
                       <div className="photo-detail-qr">
                         <h3>QR Code</h3>
                         <img 
@@ -633,7 +777,7 @@ export const SessionPhotosPage: React.FC<SessionPhotosPageProps> = ({ sessionCod
                       </div>
                     )}
                     
-                    {downloadUrls[selectedPhoto.id] && (
+                    {downloadUrls[selectedPhoto.id] && !isPhotoRemoved(selectedPhoto) && (
                       <div className="photo-detail-actions">
                         <a 
                           href={downloadUrls[selectedPhoto.id]} 
@@ -667,6 +811,93 @@ export const SessionPhotosPage: React.FC<SessionPhotosPageProps> = ({ sessionCod
                           <span className="photo-detail-value">{selectedPhoto.supabasePath}</span>
                         </div>
                       )}
+                      {selectedPhoto.moderationStatus === 'hidden' && (
+                        <div className="photo-detail-info-row">
+                          <span className="photo-detail-label">Hidden:</span>
+                          <span className="photo-detail-value">
+                            {selectedPhoto.moderatedAt ? new Date(selectedPhoto.moderatedAt).toLocaleString() : 'Yes'}
+                          </span>
+                        </div>
+                      )}
+                      {selectedPhoto.tokenRevokedAt && (
+                        <div className="photo-detail-info-row">
+                          <span className="photo-detail-label">Link Revoked:</span>
+                          <span className="photo-detail-value">{new Date(selectedPhoto.tokenRevokedAt).toLocaleString()}</span>
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="photo-moderation">
+                      <h3>Moderation</h3>
+                      {organiser ? (
+                        <>
+                          <p className="photo-moderation-organiser">
+                            Signed in as {organiser}
+                            {' · '}
+                            <button type="button" className="photo-moderation-signout" onClick={handleOrganiserSignOut}>
+                              Sign out
+                            </button>
+                          </p>
+                          <div className="photo-moderation-actions">
+                            {selectedPhoto.moderationStatus === 'hidden' ? (
+                              <button onClick={() => handleModeration('unhide')} className="secondary-btn" disabled={moderating}>
+                                Unhide
+                              </button>
+                            ) : (
+                              <button onClick={() => handleModeration('hide')} className="secondary-btn" disabled={moderating}>
+                                Hide
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleModeration('revoke')}
+                              className="secondary-btn"
+                              disabled={moderating || !!selectedPhoto.tokenRevokedAt}
+                            >
+                              Revoke Link
+                            </button>
+                            <button onClick={() => handleModeration('delete')} className="danger-btn" disabled={moderating}>
+                              Delete
+                            </button>
+                          </div>
+                        </>
+                      ) : (
+                        <form className="photo-moderation-signin" onSubmit={handleOrganiserSignIn}>
+                          <p>Sign in with an organiser account to hide, revoke or delete photos.</p>
+                          <input
+                            type="email"
+                            placeholder="Email"
+                            autoComplete="username"
+                            value={organiserEmail}
+                            onChange={(e) => setOrganiserEmail(e.target.value)}
+                            required
+                          />
+                          <input
+                            type="password"
+                            placeholder="Password"
+                            autoComplete="current-password"
+                            value={organiserPassword}
+                            onChange={(e) => setOrganiserPassword(e.target.value)}
+                            required
+                          />
+                          <button type="submit" className="secondary-btn" disabled={moderating}>
+                            {moderating ? 'Signing in...' : 'Sign In'}
+                          </button>
+                          {organiserError && <p className="photo-moderation-error">{organiserError}</p>}
+                        </form>
+                      )}
+                      {moderationLog.length > 0 && (
+                        <ul className="photo-moderation-log">
+                          {moderationLog.map((entry) => (
+                            <li key={entry.id}>
+                              <strong>{MODERATION_LABELS[entry.action]}</strong>
+                              {' · '}{new Date(entry.createdAt).toLocaleString()}
+                              {entry.actorName && ` · ${entry.actorName}`}
+                              {entry.actorEmail && ` · ${entry.actorEmail}`}
+                              {entry.reason && <span className="photo-moderation-reason">{entry.reason}</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,257 @@
+import { useState, useEffect } from 'react';
+import {
+  closeSession,
+  getEventEndedScreen,
+  isSessionClosed,
+  updateSessionSchedule,
+  type SessionInfo
+} from '../services/sessionService';
+import { getScheduleTimeline } from '../services/sessionSchedulerService';
+
+interface SessionSchedulePanelProps {
+  sessions: SessionInfo[];
+  currentSession: SessionInfo | null;
+  onSessionsChanged: () => void;
+  showNotification: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+interface ScheduleDraft {
+  startsAt: string; // datetime-local value
+  endsAt: string;
+  endedTitle: string;
+  endedMessage: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MARKS = [0, 6, 12, 18, 24];
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function toDateInput(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function toDateTimeInput(iso?: string): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return `${toDateInput(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function fromDateTimeInput(value: string): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
+function formatTime(ms: number): string {
+  return new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function draftFor(session: SessionInfo | undefined): ScheduleDraft {
+  const endedScreen = getEventEndedScreen(session ?? null);
+  return {
+    startsAt: toDateTimeInput(session?.startsAt),
+    endsAt: toDateTimeInput(session?.endsAt),
+    endedTitle: endedScreen.title,
+    endedMessage: endedScreen.message
+  };
+}
+
+export const SessionSchedulePanel = ({ sessions, currentSession, onSessionsChanged, showNotification }: SessionSchedulePanelProps) => {
+  const [day, setDay] = useState(() => toDateInput(new Date()));
+  const [sessionCode, setSessionCode] = useState(currentSession?.sessionCode ?? sessions[0]?.sessionCode ?? '');
+  const session = sessions.find((s) => s.sessionCode === sessionCode);
+  const [draft, setDraft] = useState<ScheduleDraft>(() => draftFor(session));
+  const [saving, setSaving] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!sessionCode && (currentSession || sessions.length > 0)) {
+      setSessionCode(currentSession?.sessionCode ?? sessions[0].sessionCode);
+    }
+  }, [sessionCode, currentSession, sessions]);
+
+  // Reload the form when switching session or after a save refreshed the list
+  useEffect(() => {
+    setDraft(draftFor(session));
+  }, [session]);
+
+  // Keep the "now" marker and running/closed states moving
+  useEffect(() => {
+    const interval = window.setInterval(() => setNow(Date.now()), 60_000);
+    return () => window.clearInterval(interval);
+  }, []);
+
+  const dayStart = new Date(`${day}T00:00`).getTime();
+  const timeline = getScheduleTimeline(sessions, new Date(dayStart), now);
+  const position = (ms: number) => `${((ms - dayStart) / DAY_MS) * 100}%`;
+
+  const updateDraft = (patch: Partial<ScheduleDraft>) => {
+    setDraft((prev) => ({ ...prev, ...patch }));
+  };
+
+  const handleSave = async () => {
+    if (!session) return;
+    setSaving(true);
+    try {
+      await updateSessionSchedule(session.sessionCode, {
+        startsAt: fromDateTimeInput(draft.startsAt),
+        endsAt: fromDateTimeInput(draft.endsAt),
+        endedScreen: { title: draft.endedTitle, message: draft.endedMessage }
+      });
+      showNotification(`Schedule saved for ${session.eventName}`, 'success');
+      onSessionsChanged();
+    } catch (error) {
+      console.error('Failed to save session schedule:', error);
+      showNotification(error instanceof Error ? error.message : 'Failed to save schedule', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCloseNow = async () => {
+    if (!session || !confirm(`Close "${session.eventName}" now? The booth will show the event ended screen.`)) return;
+    try {
+      await closeSession(session.sessionCode);
+      showNotification(`${session.sessionCode} closed`, 'success');
+      onSessionsChanged();
+    } catch (error) {
+      console.error('Failed to close session:', error);
+      showNotification('Failed to close session', 'error');
+    }
+  };
+
+  const handleReopen = async () => {
+    if (!session) return;
+    try {
+      // A past end time would close it again straight away
+      const endsAt = session.endsAt && Date.parse(session.endsAt) > Date.now() ? session.endsAt : undefined;
+      await updateSessionSchedule(session.sessionCode, { startsAt: session.startsAt, endsAt });
+      showNotification(`${session.sessionCode} reopened`, 'success');
+      onSessionsChanged();
+    } catch (error) {
+      console.error('Failed to reopen session:', error);
+      showNotification('Failed to reopen session', 'error');
+    }
+  };
+
+  return (
+    <div className="admin-card">
+      <div className="card-header">
+        <h2>Schedule</h2>
+      </div>
+      <p className="settings-description">
+        Sessions with a start time are activated on this booth when it arrives, and closed at their end time.
+        A closed session shows the event ended screen instead of the camera.
+      </p>
+
+      <div className="setting-group">
+        <label className="field-label">Day</label>
+        <input type="date" value={day} onChange={(e) => e.target.value && setDay(e.target.value)} className="text-input" />
+      </div>
+
+      {timeline.length === 0 ? (
+        <div className="no-data">
+          <p>No sessions scheduled on this day</p>
+        </div>
+      ) : (
+        <>
+          <div className="schedule-timeline">
+            {timeline.map((entry) => (
+              <div key={entry.session.sessionCode} className="schedule-row">
+                <div
+                  className={`schedule-block ${entry.state} ${entry.openEnded ? 'open-ended' : ''}`}
+                  style={{ left: position(entry.start), width: `calc(${position(entry.end)} - ${position(entry.start)})` }}
+                  title={`${entry.session.eventName}: ${formatTime(entry.start)} – ${entry.openEnded ? 'open' : formatTime(entry.end)}`}
+                  onClick={() => setSessionCode(entry.session.sessionCode)}
+                >
+                  {formatTime(entry.start)} {entry.session.eventName}
+                </div>
+              </div>
+            ))}
+            {now >= dayStart && now < dayStart + DAY_MS && <div className="schedule-now" style={{ left: position(now) }} />}
+          </div>
+          <div className="schedule-hours">
+            {HOUR_MARKS.map((hour) => (
+              <span key={hour}>{pad(hour)}:00</span>
+            ))}
+          </div>
+        </>
+      )}
+
+      {sessions.length > 0 && (
+        <div className="printer-output-settings" style={{ marginTop: '20px' }}>
+          <div className="setting-group">
+            <label className="field-label">Session</label>
+            <select value={sessionCode} onChange={(e) => setSessionCode(e.target.value)} className="select-input">
+              {sessions.map((s) => (
+                <option key={s.sessionCode} value={s.sessionCode}>
+                  {s.eventName} ({s.sessionCode}){isSessionClosed(s, now) ? ' – closed' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="setting-group" style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
+            <div style={{ flex: 1 }}>
+              <label className="field-label">Starts</label>
+              <input
+                type="datetime-local"
+                value={draft.startsAt}
+                onChange={(e) => updateDraft({ startsAt: e.target.value })}
+                className="text-input"
+              />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label className="field-label">Ends</label>
+              <input
+                type="datetime-local"
+                value={draft.endsAt}
+                onChange={(e) => updateDraft({ endsAt: e.target.value })}
+                className="text-input"
+              />
+            </div>
+          </div>
+
+          <div className="setting-group">
+            <label className="field-label">Event Ended Title</label>
+            <input
+              type="text"
+              value={draft.endedTitle}
+              onChange={(e) => updateDraft({ endedTitle: e.target.value })}
+              className="text-input"
+            />
+          </div>
+          <div className="setting-group">
+            <label className="field-label">Event Ended Message</label>
+            <textarea
+              value={draft.endedMessage}
+              onChange={(e) => updateDraft({ endedMessage: e.target.value })}
+              className="text-input"
+              rows={3}
+            />
+          </div>
+
+          {session?.closedAt && (
+            <p className="settings-description">Closed at {new Date(session.closedAt).toLocaleString()}</p>
+          )}
+
+          <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
+            <button onClick={handleSave} className="primary-btn" disabled={saving || !session}>
+              {saving ? 'Saving...' : 'Save Schedule'}
+            </button>
+            {session && (isSessionClosed(session, now) ? (
+              <button onClick={handleReopen} className="secondary-btn">
+                Reopen Session
+              </button>
+            ) : (
+              <button onClick={handleCloseNow} className="danger-btn">
+                Close Now
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
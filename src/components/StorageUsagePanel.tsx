@@ -0,0 +1,124 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getStorageUsage,
+  evictUploadedPhotos,
+  requestPersistentStorage,
+  STORAGE_EVICT_RATIO,
+  STORAGE_WARN_RATIO,
+  type StorageUsage
+} from '../services/photoStorageService';
+
+interface StorageUsagePanelProps {
+  showNotification: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+export const StorageUsagePanel = ({ showNotification }: StorageUsagePanelProps) => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [freeing, setFreeing] = useState(false);
+
+  const refresh = useCallback(() => {
+    getStorageUsage()
+      .then(setUsage)
+      .catch((error) => console.error('Failed to load storage usage:', error));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    window.addEventListener('photoStorageChanged', refresh);
+    return () => window.removeEventListener('photoStorageChanged', refresh);
+  }, [refresh]);
+
+  const handleFreeSpace = async () => {
+    if (!confirm('Remove the local copies of all uploaded photos? They stay downloadable from Supabase.')) return;
+    setFreeing(true);
+    try {
+      const { photos, bytes } = await evictUploadedPhotos();
+      showNotification(photos > 0 ? `Freed ${formatBytes(bytes)} from ${photos} photos` : 'No uploaded photos to remove', 'success');
+      refresh();
+    } catch (error) {
+      showNotification(error instanceof Error ? error.message : 'Failed to free storage', 'error');
+    } finally {
+      setFreeing(false);
+    }
+  };
+
+  const handlePersist = async () => {
+    const granted = await requestPersistentStorage();
+    showNotification(granted ? 'Storage marked as persistent' : 'The browser declined persistent storage', granted ? 'success' : 'info');
+    refresh();
+  };
+
+  const percent = usage?.ratio !== null && usage?.ratio !== undefined ? Math.round(usage.ratio * 100) : null;
+  const isLow = usage?.ratio !== null && usage?.ratio !== undefined && usage.ratio >= STORAGE_WARN_RATIO;
+
+  return (
+    <div className="admin-card" style={{ marginTop: '20px' }}>
+      <div className="card-header">
+        <h2>Device Storage</h2>
+      </div>
+      <p className="settings-description">
+        Photos are kept on this device until they are uploaded. Above {Math.round(STORAGE_EVICT_RATIO * 100)}% of the
+        browser quota, local copies of uploaded photos are removed automatically, oldest first. Photos waiting for
+        upload are never removed.
+      </p>
+
+      {!usage ? (
+        <p className="settings-description">Loading storage usage...</p>
+      ) : (
+        <>
+          <div className="upload-stats">
+            <div className="stat-item">
+              <span className="stat-number">{percent !== null ? `${percent}%` : '—'}</span>
+              <span className="stat-label">
+                {usage.usage !== null && usage.quota !== null
+                  ? `${formatBytes(usage.usage)} of ${formatBytes(usage.quota)}`
+                  : 'Quota unknown'}
+              </span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-number">{usage.localPhotos}</span>
+              <span className="stat-label">Photos on device ({formatBytes(usage.localBytes)})</span>
+            </div>
+            <div className="stat-item">
+              <span className="stat-number">{usage.pendingPhotos}</span>
+              <span className="stat-label">Waiting for upload</span>
+            </div>
+          </div>
+
+          {percent !== null && (
+            <div className="storage-meter">
+              <div className={`storage-meter-fill ${isLow ? 'low' : ''}`} style={{ width: `${Math.min(100, percent)}%` }} />
+            </div>
+          )}
+
+          {isLow && (
+            <div className="error-message">
+              Storage is almost full. Upload pending photos so their local copies can be removed.
+            </div>
+          )}
+
+          <div style={{ marginTop: '20px', display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
+            <button
+              onClick={handleFreeSpace}
+              className="secondary-btn"
+              disabled={freeing || usage.evictableBytes === 0}
+            >
+              {freeing ? 'Freeing...' : `Remove Uploaded Copies (${formatBytes(usage.evictableBytes)})`}
+            </button>
+            {!usage.persisted && (
+              <button onClick={handlePersist} className="secondary-btn">
+                Keep Storage Persistent
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,1001 @@
+import { useState, useEffect, useMemo, useRef, type ChangeEvent, type PointerEvent as ReactPointerEvent } from 'react';
+import { nanoid } from 'nanoid';
+import {
+  BASE_TEMPLATES,
+  DEFAULT_OVERLAY_THERMAL,
+  TEXT_SOURCE_LABELS,
+  applyTextStyles,
+  type OverlayCorner,
+  type OverlayPlacement,
+  type TemplateDefinition,
+  type TemplateLayout,
+  type TemplateOverlay,
+  type TemplateRect,
+  type TemplateTextSource,
+  type TextAlign
+} from '../config/templates';
+import { deleteSessionTemplate, saveSessionTemplate, type SessionInfo } from '../services/sessionService';
+import { DEFAULT_PRINTER_OUTPUT, getPrinterOutputSettings } from '../services/configService';
+import { uploadOverlayImage } from '../services/headerImageUploadService';
+import { loadConfig, type Config } from '../utils/config';
+import { DITHER_ALGORITHMS, ditherImageData, ditherOverlayData, type DitherAlgorithm } from '../utils/dithering';
+import { PX_PER_MM, layoutTextLines, resolveLayout } from '../utils/templateLayout';
+import { expandTextTokens, type TextTokenContext } from '../utils/textTokens';
+import { FALLBACK_FONT, resolveTextFonts } from '../utils/brandingFonts';
+
+interface TemplateDesignerPanelProps {
+  session: SessionInfo | null;
+  printerWidth: number; // mm, from PrinterSizeSettings
+  onSessionUpdated: (session: SessionInfo) => void;
+  showNotification: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+// 'cell:0', 'text:1', 'logo' or 'qr'
+type ElementKey = string;
+
+interface DragState {
+  key: ElementKey;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  rect: TemplateRect;
+}
+
+const EDITOR_WIDTH = 280; // px on screen
+const SNAP_MM = 0.5;
+const MIN_SIZE_MM = 2;
+const MAX_CELLS = 8;
+const PREVIEW_DEBOUNCE_MS = 200;
+const NEW_TEMPLATE = '';
+
+const TEXT_ALIGN_LABELS: Record<TextAlign, string> = {
+  left: 'Left',
+  center: 'Centre',
+  right: 'Right'
+};
+
+const OVERLAY_TYPE_LABELS: Record<OverlayPlacement['type'], string> = {
+  frame: 'Full frame',
+  sticker: 'Sticker on a photo',
+  corner: 'Corner logo'
+};
+
+const CORNER_LABELS: Record<OverlayCorner, string> = {
+  'top-left': 'Top left',
+  'top-right': 'Top right',
+  'bottom-left': 'Bottom left',
+  'bottom-right': 'Bottom right'
+};
+
+const snap = (mm: number) => Math.round(mm / SNAP_MM) * SNAP_MM;
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+function scaleLayout(layout: TemplateLayout, factor: number): TemplateLayout {
+  const scaleRect = <T extends TemplateRect>(r: T): T => ({
+    ...r,
+    x: snap(r.x * factor),
+    y: snap(r.y * factor),
+    width: snap(r.width * factor),
+    height: snap(r.height * factor)
+  });
+  return {
+    ...layout,
+    width: layout.width * factor,
+    height: snap(layout.height * factor),
+    margins: {
+      top: layout.margins.top * factor,
+      right: layout.margins.right * factor,
+      bottom: layout.margins.bottom * factor,
+      left: layout.margins.left * factor
+    },
+    cells: layout.cells.map(scaleRect),
+    texts: layout.texts.map((t) => ({ ...scaleRect(t), fontSize: t.fontSize * factor })),
+    logo: layout.logo ? scaleRect(layout.logo) : undefined,
+    qr: layout.qr ? scaleRect(layout.qr) : undefined
+  };
+}
+
+/**
+ * A new designer template: a copy of a built-in, or one full-width photo.
+ */
+function createDraft(baseId: string, printerWidth: number): TemplateDefinition {
+  const base = BASE_TEMPLATES.find((t) => t.id === baseId);
+  if (base) {
+    return {
+      id: `custom-${nanoid(8)}`,
+      name: `${base.name} (copy)`,
+      description: base.description,
+      captureMode: base.captureMode,
+      layout: scaleLayout(structuredClone(base.layout), printerWidth / base.layout.width)
+    };
+  }
+  const margin = 1.5;
+  const cellSize = printerWidth - margin * 2;
+  return {
+    id: `custom-${nanoid(8)}`,
+    name: 'New Template',
+    description: '',
+    layout: {
+      width: printerWidth,
+      height: snap(cellSize + margin * 2),
+      margins: { top: margin, right: margin, bottom: margin, left: margin },
+      cells: [{ x: margin, y: margin, width: cellSize, height: cellSize }],
+      texts: [],
+      collapseEmpty: true
+    }
+  };
+}
+
+function getElementRect(layout: TemplateLayout, key: ElementKey): TemplateRect | undefined {
+  const [kind, index] = key.split(':');
+  if (kind === 'cell') return layout.cells[Number(index)];
+  if (kind === 'text') return layout.texts[Number(index)];
+  if (kind === 'logo') return layout.logo;
+  if (kind === 'qr') return layout.qr;
+  return undefined;
+}
+
+function setElementRect(layout: TemplateLayout, key: ElementKey, rect: Partial<TemplateRect>): TemplateLayout {
+  const [kind, index] = key.split(':');
+  const i = Number(index);
+  if (kind === 'cell') {
+    return { ...layout, cells: layout.cells.map((c, n) => (n === i ? { ...c, ...rect } : c)) };
+  }
+  if (kind === 'text') {
+    return { ...layout, texts: layout.texts.map((t, n) => (n === i ? { ...t, ...rect } : t)) };
+  }
+  if (kind === 'logo' && layout.logo) return { ...layout, logo: { ...layout.logo, ...rect } };
+  if (kind === 'qr' && layout.qr) return { ...layout, qr: { ...layout.qr, ...rect } };
+  return layout;
+}
+
+/**
+ * Starting placement for new or retyped artwork, keeping the image's aspect ratio.
+ */
+function defaultPlacement(type: OverlayPlacement['type'], layout: TemplateLayout, aspectRatio: number): OverlayPlacement {
+  if (type === 'frame') return { type };
+  if (type === 'sticker') {
+    const cell = layout.cells[0];
+    const width = snap(cell.width * 0.4);
+    const height = snap(width / aspectRatio);
+    return { type, cellIndex: 0, rect: { x: snap(cell.width - width - 1), y: snap(cell.height - height - 1), width, height } };
+  }
+  const width = snap(layout.width * 0.25);
+  return { type, corner: 'bottom-right', width, height: snap(width / aspectRatio) };
+}
+
+/**
+ * Print-resolution preview: grey photo placeholders dithered with the composition settings,
+ * then text, logo and QR placeholders on top - the same order composeResult draws in.
+ */
+function drawPreview(
+  canvas: HTMLCanvasElement,
+  layout: TemplateLayout,
+  printerWidth: number,
+  config: Config | null,
+  overlayImages: Record<string, HTMLImageElement>,
+  tokens: TextTokenContext,
+  textFonts: Partial<Record<TemplateTextSource, string>>
+) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const settings = getPrinterOutputSettings();
+  const hasLogo = config?.header.mode === 'image' && !!config.header.imageUrl;
+  const resolved = resolveLayout(applyTextStyles(layout, settings.textStyles), printerWidth * PX_PER_MM, {
+    texts: {
+      'header-main': hasLogo ? '' : config?.header.mainText,
+      'header-sub': hasLogo ? '' : config?.header.subText,
+      'body-main': config?.body.mainText,
+      'body-sub': config?.body.subText,
+      date: settings.showDateText !== false ? settings.dateText ?? DEFAULT_PRINTER_OUTPUT.dateText : ''
+    },
+    formatText: (text) => expandTextTokens(text, tokens),
+    hasLogo,
+    hasQr: true
+  });
+
+  canvas.width = resolved.width;
+  canvas.height = Math.max(1, resolved.height);
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  for (const cell of resolved.cells) {
+    ctx.save();
+    ctx.translate(cell.x + cell.width / 2, cell.y + cell.height / 2);
+    ctx.rotate((cell.rotation * Math.PI) / 180);
+    const gradient = ctx.createLinearGradient(-cell.width / 2, -cell.height / 2, cell.width / 2, cell.height / 2);
+    gradient.addColorStop(0, '#e0e0e0');
+    gradient.addColorStop(1, '#404040');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(-cell.width / 2, -cell.height / 2, cell.width, cell.height);
+    ctx.fillStyle = '#999';
+    ctx.beginPath();
+    ctx.arc(0, -cell.height * 0.08, Math.min(cell.width, cell.height) * 0.18, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  }
+  if (settings.compositionDither !== false) {
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    ditherImageData(
+      image,
+      settings.compositionDitherAlgorithm ?? 'floyd-steinberg',
+      Math.max(0, Math.min(255, settings.compositionDitherThreshold ?? 128))
+    );
+    ctx.putImageData(image, 0, 0);
+  }
+
+  ctx.fillStyle = '#000';
+  ctx.strokeStyle = '#000';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  if (resolved.logo) {
+    const { x, y, width, height } = resolved.logo;
+    ctx.lineWidth = 4;
+    ctx.strokeRect(x + 2, y + 2, width - 4, height - 4);
+    ctx.font = `${Math.round(height * 0.3)}px monospace`;
+    ctx.fillText('LOGO', x + width / 2, y + height / 2);
+  }
+  for (const block of resolved.texts) {
+    ctx.font = `${block.fontSize}px ${textFonts[block.source] ?? FALLBACK_FONT}`;
+    ctx.textAlign = block.align;
+    for (const line of layoutTextLines(block, (text) => ctx.measureText(text).width)) {
+      ctx.fillText(line.text, line.x, line.y);
+    }
+  }
+  ctx.textAlign = 'center';
+  for (const overlay of resolved.overlays) {
+    const img = overlayImages[overlay.imageUrl];
+    if (!img) continue;
+    const art = document.createElement('canvas');
+    art.width = Math.max(1, Math.round(overlay.width));
+    art.height = Math.max(1, Math.round(overlay.height));
+    const artCtx = art.getContext('2d');
+    if (!artCtx) continue;
+    artCtx.drawImage(img, 0, 0, art.width, art.height);
+    try {
+      const image = artCtx.getImageData(0, 0, art.width, art.height);
+      ditherOverlayData(image, overlay.thermal.algorithm, overlay.thermal.threshold);
+      artCtx.putImageData(image, 0, 0);
+    } catch (error) {
+      // Image host without CORS headers: show the artwork unprocessed
+      console.warn('Template designer: overlay preview not processed:', error);
+    }
+    ctx.drawImage(art, overlay.x, overlay.y, overlay.width, overlay.height);
+  }
+  if (resolved.qr) {
+    const { code, caption } = resolved.qr;
+    const modules = 21;
+    const moduleSize = code.width / modules;
+    for (let row = 0; row < modules; row++) {
+      for (let col = 0; col < modules; col++) {
+        // Finder squares in three corners, a fixed pseudo-random fill elsewhere
+        const finder = (r: number, c: number) => r < 7 && c < 7 && (r % 6 === 0 || c % 6 === 0 || (r > 1 && r < 5 && c > 1 && c < 5));
+        const dark = finder(row, col) || finder(row, modules - 1 - col) || finder(modules - 1 - row, col)
+          || (row > 7 && col > 7 && (row * 7 + col * 13) % 5 < 2);
+        if (dark) ctx.fillRect(code.x + col * moduleSize, code.y + row * moduleSize, moduleSize, moduleSize);
+      }
+    }
+    ctx.textBaseline = 'top';
+    ctx.font = '18px monospace';
+    ctx.fillText('Scan untuk download', caption.x + caption.width / 2, caption.y + 4);
+    ctx.font = '14px monospace';
+    ctx.fillText('(Valid 24 jam)', caption.x + caption.width / 2, caption.y + 28);
+  }
+}
+
+export const TemplateDesignerPanel = ({ session, printerWidth, onSessionUpdated, showNotification }: TemplateDesignerPanelProps) => {
+  const [editingId, setEditingId] = useState<string>(NEW_TEMPLATE);
+  const [startFrom, setStartFrom] = useState<string>(BASE_TEMPLATES[0].id);
+  const [draft, setDraft] = useState<TemplateDefinition>(() => createDraft(BASE_TEMPLATES[0].id, printerWidth));
+  const [selected, setSelected] = useState<ElementKey | null>(null);
+  const [config, setConfig] = useState<Config | null>(null);
+  const [textFonts, setTextFonts] = useState<Partial<Record<TemplateTextSource, string>>>({});
+  const [saving, setSaving] = useState(false);
+  const [overlayImages, setOverlayImages] = useState<Record<string, HTMLImageElement>>({});
+  const [newOverlayType, setNewOverlayType] = useState<OverlayPlacement['type']>('frame');
+  const [uploadingOverlay, setUploadingOverlay] = useState(false);
+  const dragRef = useRef<DragState | null>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+
+  const customTemplates = session?.customTemplates ?? [];
+  const layout = draft.layout;
+  const pxPerMm = EDITOR_WIDTH / layout.width;
+  const selectedRect = selected ? getElementRect(layout, selected) : undefined;
+  const overlays = layout.overlays ?? [];
+  const overlayUrls = overlays.map((o) => o.imageUrl).join('\n');
+  const textStyles = getPrinterOutputSettings().textStyles ?? {};
+  // Sample values for the next photo in this session
+  const previewTokens = useMemo<TextTokenContext>(() => ({
+    eventName: session?.eventName,
+    sessionCode: session?.sessionCode,
+    photoNumber: (session?.photoCount ?? 0) + 1,
+    photoId: 'a1b2c3d4-preview'
+  }), [session?.eventName, session?.sessionCode, session?.photoCount]);
+
+  useEffect(() => {
+    loadConfig()
+      .then(async (loaded) => {
+        setTextFonts(await resolveTextFonts(loaded));
+        setConfig(loaded);
+      })
+      .catch((error) => console.warn('Template designer: failed to load config for preview:', error));
+  }, []);
+
+  // Overlay artwork for the preview (CORS so the thermal pass can read the pixels)
+  useEffect(() => {
+    const urls = overlayUrls ? overlayUrls.split('\n') : [];
+    urls.filter((url) => !overlayImages[url]).forEach((url) => {
+      const img = new Image();
+      img.crossOrigin = 'anonymous';
+      img.onload = () => setOverlayImages((prev) => ({ ...prev, [url]: img }));
+      img.onerror = () => console.warn('Template designer: failed to load overlay:', url);
+      img.src = url;
+    });
+  }, [overlayUrls, overlayImages]);
+
+  // Live preview, debounced while dragging
+  useEffect(() => {
+    const timer = window.setTimeout(() => {
+      if (previewRef.current) {
+        drawPreview(previewRef.current, layout, printerWidth, config, overlayImages, previewTokens, textFonts);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [layout, printerWidth, config, overlayImages, previewTokens, textFonts]);
+
+  const updateLayout = (update: (layout: TemplateLayout) => TemplateLayout) => {
+    setDraft((prev) => ({ ...prev, layout: update(prev.layout) }));
+  };
+
+  const handleEditSelect = (id: string) => {
+    setEditingId(id);
+    setSelected(null);
+    const existing = customTemplates.find((t) => t.id === id);
+    setDraft(existing ? structuredClone(existing) : createDraft(startFrom, printerWidth));
+  };
+
+  const handleStartFrom = (baseId: string) => {
+    setStartFrom(baseId);
+    setSelected(null);
+    setDraft(createDraft(baseId, printerWidth));
+  };
+
+  const startDrag = (e: ReactPointerEvent<HTMLDivElement>, key: ElementKey, mode: DragState['mode']) => {
+    const rect = getElementRect(layout, key);
+    if (!rect) return;
+    e.stopPropagation();
+    e.preventDefault();
+    setSelected(key);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { key, mode, startX: e.clientX, startY: e.clientY, rect };
+  };
+
+  const handlePointerMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = (e.clientX - drag.startX) / pxPerMm;
+    const dy = (e.clientY - drag.startY) / pxPerMm;
+    const { rect } = drag;
+    updateLayout((current) => setElementRect(current, drag.key, drag.mode === 'move'
+      ? {
+          x: clamp(snap(rect.x + dx), 0, current.width - rect.width),
+          y: clamp(snap(rect.y + dy), 0, current.height - rect.height)
+        }
+      : {
+          width: clamp(snap(rect.width + dx), MIN_SIZE_MM, current.width - rect.x),
+          height: clamp(snap(rect.height + dy), MIN_SIZE_MM, current.height - rect.y)
+        }));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const updateSelectedRect = (field: keyof TemplateRect, value: number) => {
+    if (!selected || !Number.isFinite(value)) return;
+    updateLayout((current) => setElementRect(current, selected, { [field]: Math.max(field === 'x' || field === 'y' ? 0 : MIN_SIZE_MM, value) }));
+  };
+
+  const addCell = () => {
+    if (layout.cells.length >= MAX_CELLS) {
+      showNotification(`A template can have up to ${MAX_CELLS} photos`, 'error');
+      return;
+    }
+    const size = snap(Math.min(layout.width / 2, layout.height / 2));
+    updateLayout((current) => ({ ...current, cells: [...current.cells, { x: 0, y: 0, width: size, height: size }] }));
+    setSelected(`cell:${layout.cells.length}`);
+  };
+
+  const addText = () => {
+    const margin = layout.margins.left;
+    updateLayout((current) => ({
+      ...current,
+      texts: [...current.texts, { source: 'static', text: 'Text', x: margin, y: 0, width: current.width - margin * 2, height: 4, fontSize: 2.5 }]
+    }));
+    setSelected(`text:${layout.texts.length}`);
+  };
+
+  const toggleSlot = (kind: 'logo' | 'qr') => {
+    if (layout[kind]) {
+      updateLayout((current) => ({ ...current, [kind]: undefined }));
+      if (selected === kind) setSelected(null);
+      return;
+    }
+    const slot: TemplateRect = kind === 'logo'
+      ? { x: layout.margins.left, y: 0, width: layout.width - layout.margins.left - layout.margins.right, height: snap(layout.width * 0.2) }
+      : { x: snap(layout.width * 0.15), y: 0, width: snap(layout.width * 0.7), height: snap(layout.width * 0.75) };
+    updateLayout((current) => ({ ...current, [kind]: slot }));
+    setSelected(kind);
+  };
+
+  const removeSelected = () => {
+    if (!selected) return;
+    const [kind, index] = selected.split(':');
+    if (kind === 'cell' && layout.cells.length <= 1) {
+      showNotification('A template needs at least one photo', 'error');
+      return;
+    }
+    updateLayout((current) => {
+      if (kind === 'cell') return { ...current, cells: current.cells.filter((_, i) => i !== Number(index)) };
+      if (kind === 'text') return { ...current, texts: current.texts.filter((_, i) => i !== Number(index)) };
+      return { ...current, [kind]: undefined };
+    });
+    setSelected(null);
+  };
+
+  const aspectRatioOf = (url: string) => {
+    const img = overlayImages[url];
+    return img && img.naturalHeight > 0 ? img.naturalWidth / img.naturalHeight : 1;
+  };
+
+  const updateOverlay = (index: number, patch: Partial<TemplateOverlay>) => {
+    updateLayout((current) => ({
+      ...current,
+      overlays: (current.overlays ?? []).map((o, i) => (i === index ? { ...o, ...patch } : o))
+    }));
+  };
+
+  const handleOverlayUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !session) return;
+    setUploadingOverlay(true);
+    try {
+      const result = await uploadOverlayImage(file, session.sessionCode);
+      if (!result.success || !result.url) {
+        showNotification(result.error || 'Failed to upload overlay', 'error');
+        return;
+      }
+      const imageUrl = result.url;
+      // Size the placement from the file itself; the preview loads its own copy
+      const objectUrl = URL.createObjectURL(file);
+      const aspectRatio = await new Promise<number>((resolve) => {
+        const img = new Image();
+        img.onload = () => resolve(img.naturalHeight > 0 ? img.naturalWidth / img.naturalHeight : 1);
+        img.onerror = () => resolve(1);
+        img.src = objectUrl;
+      });
+      URL.revokeObjectURL(objectUrl);
+      updateLayout((current) => ({
+        ...current,
+        overlays: [
+          ...(current.overlays ?? []),
+          { id: nanoid(8), imageUrl, placement: defaultPlacement(newOverlayType, current, aspectRatio), thermal: { ...DEFAULT_OVERLAY_THERMAL } }
+        ]
+      }));
+    } catch (error) {
+      console.error('Overlay upload error:', error);
+      showNotification(error instanceof Error ? error.message : 'Failed to upload overlay', 'error');
+    } finally {
+      setUploadingOverlay(false);
+      e.target.value = '';
+    }
+  };
+
+  // Uploaded files stay in storage: a saved template may still point at them
+  const removeOverlay = (index: number) => {
+    updateLayout((current) => ({ ...current, overlays: (current.overlays ?? []).filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = async () => {
+    if (!session) return;
+    if (!draft.name.trim()) {
+      showNotification('Give the template a name', 'error');
+      return;
+    }
+    setSaving(true);
+    try {
+      const updated = await saveSessionTemplate(session.sessionCode, { ...draft, name: draft.name.trim() });
+      onSessionUpdated(updated);
+      setEditingId(draft.id);
+      showNotification(`Template "${draft.name.trim()}" saved`, 'success');
+    } catch (error) {
+      console.error('Failed to save template:', error);
+      showNotification(error instanceof Error ? error.message : 'Failed to save template', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!session || editingId === NEW_TEMPLATE) return;
+    if (!confirm(`Delete template "${draft.name}"?`)) return;
+    try {
+      const updated = await deleteSessionTemplate(session.sessionCode, editingId);
+      onSessionUpdated(updated);
+      setEditingId(NEW_TEMPLATE);
+      setSelected(null);
+      setDraft(createDraft(startFrom, printerWidth));
+      showNotification('Template deleted', 'success');
+    } catch (error) {
+      console.error('Failed to delete template:', error);
+      showNotification(error instanceof Error ? error.message : 'Failed to delete template', 'error');
+    }
+  };
+
+  const elementLabel = (key: ElementKey) => {
+    const [kind, index] = key.split(':');
+    if (kind === 'cell') return `Photo ${Number(index) + 1}`;
+    if (kind === 'text') return TEXT_SOURCE_LABELS[layout.texts[Number(index)].source];
+    return kind === 'logo' ? 'Logo' : 'QR code';
+  };
+
+  const renderElement = (key: ElementKey, rect: TemplateRect, label: string, rotation = 0) => (
+    <div
+      key={key}
+      className={`template-designer-element template-designer-${key.split(':')[0]} ${selected === key ? 'selected' : ''}`}
+      style={{
+        left: `${rect.x * pxPerMm}px`,
+        top: `${rect.y * pxPerMm}px`,
+        width: `${rect.width * pxPerMm}px`,
+        height: `${rect.height * pxPerMm}px`,
+        transform: rotation ? `rotate(${rotation}deg)` : undefined
+      }}
+      onPointerDown={(e) => startDrag(e, key, 'move')}
+    >
+      <span>{label}</span>
+      {selected === key && (
+        <div className="template-designer-handle" onPointerDown={(e) => startDrag(e, key, 'resize')} />
+      )}
+    </div>
+  );
+
+  const selectedKind = selected?.split(':')[0];
+  const selectedIndex = Number(selected?.split(':')[1]);
+
+  return (
+    <div className="admin-card">
+      <div className="card-header">
+        <h2>Template Designer</h2>
+      </div>
+      {!session ? (
+        <div className="no-session">
+          <p>No active session</p>
+          <p className="subtitle">Designed templates are stored with the session</p>
+        </div>
+      ) : (
+        <div className="printer-output-settings">
+          <p className="settings-description">
+            Place photos, text, the logo and the QR code for {session.eventName}. Saved templates appear next to the
+            built-in ones on the booth. Paper width: {printerWidth}mm.
+          </p>
+
+          <div className="setting-group" style={{ display: 'flex', flexDirection: 'row', gap: '12px' }}>
+            <div style={{ flex: 1 }}>
+              <label className="field-label">Template</label>
+              <select value={editingId} onChange={(e) => handleEditSelect(e.target.value)} className="select-input">
+                <option value={NEW_TEMPLATE}>+ New template</option>
+                {customTemplates.map((t) => (
+                  <option key={t.id} value={t.id}>{t.name}</option>
+                ))}
+              </select>
+            </div>
+            {editingId === NEW_TEMPLATE && (
+              <div style={{ flex: 1 }}>
+                <label className="field-label">Start From</label>
+                <select value={startFrom} onChange={(e) => handleStartFrom(e.target.value)} className="select-input">
+                  {BASE_TEMPLATES.map((t) => (
+                    <option key={t.id} value={t.id}>{t.name}</option>
+                  ))}
+                  <option value="blank">Blank</option>
+                </select>
+              </div>
+            )}
+          </div>
+
+          <div className="setting-group">
+            <label className="field-label">Name</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+            />
+          </div>
+
+          <div className="setting-group" style={{ display: 'flex', flexDirection: 'row', gap: '12px' }}>
+            <div style={{ flex: 1 }}>
+              <label className="field-label">
+                Length
+                <span className="setting-help">(mm)</span>
+              </label>
+              <input
+                type="number"
+                min={MIN_SIZE_MM}
+                step={SNAP_MM}
+                value={layout.height}
+                onChange={(e) => {
+                  const height = parseFloat(e.target.value);
+                  if (Number.isFinite(height) && height >= MIN_SIZE_MM) updateLayout((current) => ({ ...current, height }));
+                }}
+                className="number-input"
+              />
+            </div>
+            <div style={{ flex: 1 }}>
+              <label className="field-label">Capture</label>
+              <select
+                value={draft.captureMode ?? 'still'}
+                onChange={(e) => setDraft((prev) => ({ ...prev, captureMode: e.target.value === 'motion' ? 'motion' : undefined }))}
+                className="select-input"
+              >
+                <option value="still">Photos</option>
+                <option value="motion">Boomerang GIF</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="setting-group">
+            <label className="field-label toggle-label">
+              <span>Close Gaps</span>
+              <span className="setting-help">(empty text and a missing logo give their space to what's below)</span>
+              <div
+                className={`toggle-switch ${layout.collapseEmpty ? 'active' : ''}`}
+                onClick={() => updateLayout((current) => ({ ...current, collapseEmpty: !current.collapseEmpty }))}
+              >
+                <div className="toggle-slider"></div>
+              </div>
+            </label>
+          </div>
+
+          <div className="template-designer-toolbar">
+            <button onClick={addCell} className="small-btn">+ Photo</button>
+            <button onClick={addText} className="small-btn">+ Text</button>
+            <button onClick={() => toggleSlot('logo')} className="small-btn">{layout.logo ? '− Logo' : '+ Logo'}</button>
+            <button onClick={() => toggleSlot('qr')} className="small-btn">{layout.qr ? '− QR' : '+ QR'}</button>
+          </div>
+
+          <div className="template-designer-workspace">
+            <div
+              className="template-designer-canvas"
+              style={{ width: `${EDITOR_WIDTH}px`, height: `${layout.height * pxPerMm}px` }}
+              onPointerMove={handlePointerMove}
+              onPointerUp={endDrag}
+              onPointerCancel={endDrag}
+              onPointerDown={() => setSelected(null)}
+            >
+              {layout.logo && renderElement('logo', layout.logo, 'LOGO')}
+              {layout.texts.map((t, i) => renderElement(`text:${i}`, t, t.source === 'static' ? (t.text || 'Text') : TEXT_SOURCE_LABELS[t.source]))}
+              {layout.cells.map((c, i) => renderElement(`cell:${i}`, c, String(i + 1), c.rotation))}
+              {layout.qr && renderElement('qr', layout.qr, 'QR')}
+              {overlays.map((overlay) => {
+                const { placement } = overlay;
+                let rect: TemplateRect = { x: 0, y: 0, width: layout.width, height: layout.height };
+                if (placement.type === 'sticker') {
+                  const cell = layout.cells[placement.cellIndex];
+                  if (!cell) return null;
+                  rect = { ...placement.rect, x: cell.x + placement.rect.x, y: cell.y + placement.rect.y };
+                } else if (placement.type === 'corner') {
+                  rect = {
+                    x: placement.corner.endsWith('left') ? layout.margins.left : layout.width - layout.margins.right - placement.width,
+                    y: placement.corner.startsWith('top') ? layout.margins.top : layout.height - layout.margins.bottom - placement.height,
+                    width: placement.width,
+                    height: placement.height
+                  };
+                }
+                return (
+                  <img
+                    key={overlay.id}
+                    src={overlay.imageUrl}
+                    alt=""
+                    className="template-designer-overlay-art"
+                    style={{
+                      left: `${rect.x * pxPerMm}px`,
+                      top: `${rect.y * pxPerMm}px`,
+                      width: `${rect.width * pxPerMm}px`,
+                      height: `${rect.height * pxPerMm}px`
+                    }}
+                  />
+                );
+              })}
+            </div>
+            <div className="template-designer-preview">
+              <canvas ref={previewRef} style={{ width: `${EDITOR_WIDTH}px` }} />
+              <span className="setting-help">Print preview (sample photos)</span>
+            </div>
+          </div>
+
+          <div className="setting-group">
+            <label className="field-label">
+              Overlays
+              <span className="setting-help">(PNG/WebP with transparency: borders, stickers, corner logos)</span>
+            </label>
+            {overlays.map((overlay, index) => {
+              const { placement } = overlay;
+              const thermal = overlay.thermal ?? DEFAULT_OVERLAY_THERMAL;
+              return (
+                <div key={overlay.id} className="template-designer-overlay">
+                  <img src={overlay.imageUrl} alt="" />
+                  <div className="template-designer-overlay-fields">
+                    <select
+                      value={placement.type}
+                      onChange={(e) => updateOverlay(index, {
+                        placement: defaultPlacement(e.target.value as OverlayPlacement['type'], layout, aspectRatioOf(overlay.imageUrl))
+                      })}
+                      className="select-input"
+                    >
+                      {(Object.keys(OVERLAY_TYPE_LABELS) as OverlayPlacement['type'][]).map((type) => (
+                        <option key={type} value={type}>{OVERLAY_TYPE_LABELS[type]}</option>
+                      ))}
+                    </select>
+
+                    {placement.type === 'sticker' && (
+                      <>
+                        <select
+                          value={placement.cellIndex}
+                          onChange={(e) => updateOverlay(index, { placement: { ...placement, cellIndex: Number(e.target.value) } })}
+                          className="select-input"
+                        >
+                          {layout.cells.map((_, i) => (
+                            <option key={i} value={i}>On photo {i + 1}</option>
+                          ))}
+                        </select>
+                        <div style={{ display: 'flex', gap: '8px' }}>
+                          {(['x', 'y', 'width', 'height'] as const).map((field) => (
+                            <div key={field} style={{ flex: 1 }}>
+                              <span className="setting-help">{field === 'width' ? 'W' : field === 'height' ? 'H' : field.toUpperCase()}</span>
+                              <input
+                                type="number"
+                                step={SNAP_MM}
+                                value={placement.rect[field]}
+                                onChange={(e) => {
+                                  const value = parseFloat(e.target.value);
+                                  if (!Number.isFinite(value)) return;
+                                  updateOverlay(index, { placement: { ...placement, rect: { ...placement.rect, [field]: value } } });
+                                }}
+                                className="number-input"
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      </>
+                    )}
+
+                    {placement.type === 'corner' && (
+                      <div style={{ display: 'flex', gap: '8px' }}>
+                        <select
+                          value={placement.corner}
+                          onChange={(e) => updateOverlay(index, { placement: { ...placement, corner: e.target.value as OverlayCorner } })}
+                          className="select-input"
+                          style={{ flex: 2 }}
+                        >
+                          {(Object.keys(CORNER_LABELS) as OverlayCorner[]).map((corner) => (
+                            <option key={corner} value={corner}>{CORNER_LABELS[corner]}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          min={MIN_SIZE_MM}
+                          step={SNAP_MM}
+                          value={placement.width}
+                          onChange={(e) => {
+                            const width = parseFloat(e.target.value);
+                            if (!Number.isFinite(width) || width < MIN_SIZE_MM) return;
+                            updateOverlay(index, {
+                              placement: { ...placement, width, height: snap(width / aspectRatioOf(overlay.imageUrl)) }
+                            });
+                          }}
+                          className="number-input"
+                          style={{ flex: 1 }}
+                          title="Width (mm)"
+                        />
+                      </div>
+                    )}
+
+                    <div style={{ display: 'flex', gap: '8px' }}>
+                      <select
+                        value={thermal.algorithm}
+                        onChange={(e) => updateOverlay(index, { thermal: { ...thermal, algorithm: e.target.value as DitherAlgorithm } })}
+                        className="select-input"
+                        style={{ flex: 2 }}
+                      >
+                        {DITHER_ALGORITHMS.map((a) => (
+                          <option key={a.id} value={a.id}>{a.label}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min="0"
+                        max="255"
+                        value={thermal.threshold}
+                        onChange={(e) => updateOverlay(index, {
+                          thermal: { ...thermal, threshold: Math.max(0, Math.min(255, parseInt(e.target.value) || 0)) }
+                        })}
+                        className="number-input"
+                        style={{ flex: 1 }}
+                        title="Threshold (0-255)"
+                      />
+                    </div>
+                    <button onClick={() => removeOverlay(index)} className="danger-btn">
+                      Remove Overlay
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+            <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+              <select
+                value={newOverlayType}
+                onChange={(e) => setNewOverlayType(e.target.value as OverlayPlacement['type'])}
+                className="select-input"
+                style={{ flex: 1 }}
+              >
+                {(Object.keys(OVERLAY_TYPE_LABELS) as OverlayPlacement['type'][]).map((type) => (
+                  <option key={type} value={type}>{OVERLAY_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+              <input
+                type="file"
+                accept="image/png,image/webp"
+                onChange={handleOverlayUpload}
+                disabled={uploadingOverlay}
+                style={{ flex: 1 }}
+              />
+            </div>
+            {uploadingOverlay && <span className="setting-help">Uploading...</span>}
+          </div>
+
+          {selected && selectedRect && (
+            <div className="setting-group">
+              <label className="field-label">
+                {elementLabel(selected)}
+                <span className="setting-help">(mm, drag on the canvas or type)</span>
+              </label>
+              <div style={{ display: 'flex', gap: '8px' }}>
+                {(['x', 'y', 'width', 'height'] as const).map((field) => (
+                  <div key={field} style={{ flex: 1 }}>
+                    <span className="setting-help">{field === 'width' ? 'W' : field === 'height' ? 'H' : field.toUpperCase()}</span>
+                    <input
+                      type="number"
+                      step={SNAP_MM}
+                      value={selectedRect[field]}
+                      onChange={(e) => updateSelectedRect(field, parseFloat(e.target.value))}
+                      className="number-input"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {selectedKind === 'cell' && (
+                <>
+                  <span className="setting-help">Rotation (degrees)</span>
+                  <input
+                    type="number"
+                    min="-180"
+                    max="180"
+                    value={layout.cells[selectedIndex].rotation ?? 0}
+                    onChange={(e) => {
+                      const rotation = parseFloat(e.target.value) || 0;
+                      updateLayout((current) => ({
+                        ...current,
+                        cells: current.cells.map((c, i) => (i === selectedIndex ? { ...c, rotation } : c))
+                      }));
+                    }}
+                    className="number-input"
+                  />
+                </>
+              )}
+
+              {selectedKind === 'text' && (
+                <>
+                  <span className="setting-help">Content</span>
+                  <select
+                    value={layout.texts[selectedIndex].source}
+                    onChange={(e) => {
+                      const source = e.target.value as TemplateTextSource;
+                      updateLayout((current) => ({
+                        ...current,
+                        texts: current.texts.map((t, i) => (i === selectedIndex ? { ...t, source } : t))
+                      }));
+                    }}
+                    className="select-input"
+                  >
+                    {(Object.keys(TEXT_SOURCE_LABELS) as TemplateTextSource[]).map((source) => (
+                      <option key={source} value={source}>{TEXT_SOURCE_LABELS[source]}</option>
+                    ))}
+                  </select>
+                  {layout.texts[selectedIndex].source === 'static' && (
+                    <input
+                      type="text"
+                      placeholder="e.g. Guest #{photoNumber:3}"
+                      value={layout.texts[selectedIndex].text ?? ''}
+                      onChange={(e) => {
+                        const text = e.target.value;
+                        updateLayout((current) => ({
+                          ...current,
+                          texts: current.texts.map((t, i) => (i === selectedIndex ? { ...t, text } : t))
+                        }));
+                      }}
+                    />
+                  )}
+                  <span className="setting-help">Font size (mm)</span>
+                  <input
+                    type="number"
+                    min="0.5"
+                    step="0.25"
+                    value={layout.texts[selectedIndex].fontSize}
+                    onChange={(e) => {
+                      const fontSize = parseFloat(e.target.value);
+                      if (!Number.isFinite(fontSize) || fontSize <= 0) return;
+                      updateLayout((current) => ({
+                        ...current,
+                        texts: current.texts.map((t, i) => (i === selectedIndex ? { ...t, fontSize } : t))
+                      }));
+                    }}
+                    className="number-input"
+                  />
+                  <span className="setting-help">Alignment</span>
+                  <select
+                    value={layout.texts[selectedIndex].align ?? 'center'}
+                    onChange={(e) => {
+                      const align = e.target.value as TextAlign;
+                      updateLayout((current) => ({
+                        ...current,
+                        texts: current.texts.map((t, i) => (i === selectedIndex ? { ...t, align } : t))
+                      }));
+                    }}
+                    className="select-input"
+                  >
+                    {(Object.keys(TEXT_ALIGN_LABELS) as TextAlign[]).map((align) => (
+                      <option key={align} value={align}>{TEXT_ALIGN_LABELS[align]}</option>
+                    ))}
+                  </select>
+                  <label className="field-label toggle-label">
+                    <span>Wrap Lines</span>
+                    <span className="setting-help">(as many lines as the block height fits)</span>
+                    <div
+                      className={`toggle-switch ${layout.texts[selectedIndex].wrap ? 'active' : ''}`}
+                      onClick={() => updateLayout((current) => ({
+                        ...current,
+                        texts: current.texts.map((t, i) => (i === selectedIndex ? { ...t, wrap: !t.wrap } : t))
+                      }))}
+                    >
+                      <div className="toggle-slider"></div>
+                    </div>
+                  </label>
+                  {textStyles[layout.texts[selectedIndex].source] && (
+                    <p className="setting-help">
+                      Printer → Photo Text Settings overrides the style of this block; the preview shows the override.
+                    </p>
+                  )}
+                </>
+              )}
+
+              <button onClick={removeSelected} className="danger-btn">
+                Remove {elementLabel(selected)}
+              </button>
+            </div>
+          )}
+
+          <div style={{ display: 'flex', gap: '12px' }}>
+            <button onClick={handleSave} className="primary-btn" disabled={saving}>
+              {saving ? 'Saving...' : 'Save Template'}
+            </button>
+            {editingId !== NEW_TEMPLATE && (
+              <button onClick={handleDelete} className="danger-btn">
+                Delete Template
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
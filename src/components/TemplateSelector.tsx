@@ -1,60 +1,14 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { getPrinterSizeSettings } from '../services/configService';
-
-interface Template {
-  id: string;
-  name: string;
-  description: string;
-  width: number; // mm
-  height: number; // mm
-  photoCount: number;
-  layout: 'vertical' | 'horizontal' | 'grid';
-  thermalSize: '58mm' | '80mm';
-  customText?: string;
-  customSubtext?: string;
-}
+import { BASE_TEMPLATES, resolveTemplate, type Template, type TemplateDefinition } from '../config/templates';
+import { getCurrentSession } from '../services/sessionService';
+import { fitCellRects } from '../utils/templateLayout';
 
 interface TemplateSelectorProps {
   onTemplateSelected: (template: Template) => void;
   onBack?: () => void;
 }
 
-// Base templates (akan di-adjust berdasarkan settings)
-const baseTemplates: Omit<Template, 'width' | 'thermalSize'>[] = [
-  {
-    id: 'single-photo',
-    name: 'Single Portrait',
-    description: '1 large photo in portrait orientation - perfect for individual shots',
-    height: 80,
-    photoCount: 1,
-    layout: 'vertical',
-  },
-  {
-    id: 'strip-horizontal',
-    name: 'Double Strip',
-    description: '2 photos stacked vertically - great for couples or friends',
-    height: 120,
-    photoCount: 2,
-    layout: 'vertical',
-  },
-  {
-    id: 'strip-vertical',
-    name: 'Classic Strip',
-    description: '3 photos stacked vertically - traditional photo booth style',
-    height: 180,
-    photoCount: 3,
-    layout: 'vertical',
-  },
-  {
-    id: 'strip-double',
-    name: 'Quad Strip',
-    description: '4 photos in 2x2 grid - perfect for group photos',
-    height: 200,
-    photoCount: 4,
-    layout: 'grid',
-  }
-];
-
 export const TemplateSelector: React.FC<TemplateSelectorProps> = ({ onTemplateSelected, onBack }) => {
   const [selectedTemplateId, setSelectedTemplateId] = useState<string>('');
   const [, setAdminTapCount] = useState<number>(0);
@@ -62,6 +16,20 @@ export const TemplateSelector: React.FC<TemplateSelectorProps> = ({ onTemplateSe
   
   // Load printer size from settings
   const [printerSize, setPrinterSize] = useState(getPrinterSizeSettings());
+  // Designed in the admin for the current session
+  const [customTemplates, setCustomTemplates] = useState<TemplateDefinition[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getCurrentSession()
+      .then((session) => {
+        if (!cancelled) setCustomTemplates(session?.customTemplates ?? []);
+      })
+      .catch((error) => console.warn('TemplateSelector: failed to load session templates:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
 
   // Update when settings change
   useEffect(() => {
@@ -105,11 +73,7 @@ export const TemplateSelector: React.FC<TemplateSelectorProps> = ({ onTemplateSe
   }, []);
 
   // Generate templates based on printer size settings
-  const templates: Template[] = baseTemplates.map(template => ({
-    ...template,
-    width: printerSize.width,
-    thermalSize: printerSize.thermalSize
-  }));
+  const templates: Template[] = [...BASE_TEMPLATES, ...customTemplates].map(template => resolveTemplate(template, printerSize));
 
   const handleTemplateChange = (templateId: string) => {
     setSelectedTemplateId(templateId);
@@ -153,56 +117,58 @@ export const TemplateSelector: React.FC<TemplateSelectorProps> = ({ onTemplateSe
     };
   }, []);
 
-  // Render preview icon based on template type
+  // Render preview icon from the template's photo cells
   const renderPreviewIcon = (template: Template) => {
     const iconSize = 80;
     const gap = 4;
     
-    if (template.id === 'single-photo') {
-      // Single Portrait → 1 rectangle
-      return (
-        <div className="template-preview-icon">
-          <div className="preview-rectangle" style={{ width: `${iconSize * 0.6}px`, height: `${iconSize}px` }} />
-        </div>
-      );
-    } else if (template.id === 'strip-vertical') {
-      // Strip Vertical → 3 stacked rectangles
-      const rectHeight = (iconSize - gap * 2) / 3;
+    if (template.captureMode === 'motion') {
+      // Boomerang → fanned stack of frames
       return (
         <div className="template-preview-icon">
-          <div className="preview-rectangle" style={{ width: `${iconSize * 0.6}px`, height: `${rectHeight}px`, marginBottom: `${gap}px` }} />
-          <div className="preview-rectangle" style={{ width: `${iconSize * 0.6}px`, height: `${rectHeight}px`, marginBottom: `${gap}px` }} />
-          <div className="preview-rectangle" style={{ width: `${iconSize * 0.6}px`, height: `${rectHeight}px` }} />
-        </div>
-      );
-    } else if (template.id === 'strip-horizontal') {
-      // Strip Horizontal → 2 stacked rectangles (vertical layout)
-      const rectHeight = (iconSize - gap) / 2;
-      return (
-        <div className="template-preview-icon">
-          <div className="preview-rectangle" style={{ width: `${iconSize * 0.6}px`, height: `${rectHeight}px`, marginBottom: `${gap}px` }} />
-          <div className="preview-rectangle" style={{ width: `${iconSize * 0.6}px`, height: `${rectHeight}px` }} />
-        </div>
-      );
-    } else if (template.id === 'strip-double') {
-      // Quad Frame → 4 squares in 2×2 layout
-      const squareSize = (iconSize - gap) / 2;
-      return (
-        <div className="template-preview-icon">
-          <div style={{ display: 'flex', flexDirection: 'column', gap: `${gap}px` }}>
-            <div style={{ display: 'flex', gap: `${gap}px` }}>
-              <div className="preview-rectangle" style={{ width: `${squareSize}px`, height: `${squareSize}px` }} />
-              <div className="preview-rectangle" style={{ width: `${squareSize}px`, height: `${squareSize}px` }} />
-            </div>
-            <div style={{ display: 'flex', gap: `${gap}px` }}>
-              <div className="preview-rectangle" style={{ width: `${squareSize}px`, height: `${squareSize}px` }} />
-              <div className="preview-rectangle" style={{ width: `${squareSize}px`, height: `${squareSize}px` }} />
-            </div>
+          <div style={{ position: 'relative', width: `${iconSize * 0.6 + gap * 2}px`, height: `${iconSize}px` }}>
+            {[0, 1, 2].map((i) => (
+              <div
+                key={i}
+                className="preview-rectangle"
+                style={{
+                  position: 'absolute',
+                  left: `${i * gap}px`,
+                  top: `${(2 - i) * gap}px`,
+                  width: `${iconSize * 0.6}px`,
+                  height: `${iconSize - gap * 2}px`,
+                  background: i < 2 ? 'var(--c-white)' : undefined
+                }}
+              />
+            ))}
           </div>
         </div>
       );
     }
-    return null;
+
+    // Cells sit 1mm apart, which is under a pixel at icon scale - inset each one to keep a visible gap
+    const inset = gap / 2;
+    const rects = fitCellRects(template.layout, iconSize, iconSize);
+    return (
+      <div className="template-preview-icon">
+        <div style={{ position: 'relative', width: `${iconSize}px`, height: `${iconSize}px` }}>
+          {rects.map((rect, i) => (
+            <div
+              key={i}
+              className="preview-rectangle"
+              style={{
+                position: 'absolute',
+                left: `${rect.x + inset}px`,
+                top: `${rect.y + inset}px`,
+                width: `${rect.width - inset * 2}px`,
+                height: `${rect.height - inset * 2}px`,
+                transform: template.layout.cells[i].rotation ? `rotate(${template.layout.cells[i].rotation}deg)` : undefined
+              }}
+            />
+          ))}
+        </div>
+      </div>
+    );
   };
 
   // Map template IDs to display names as per user requirements
@@ -211,15 +177,19 @@ export const TemplateSelector: React.FC<TemplateSelectorProps> = ({ onTemplateSe
     if (template.id === 'strip-vertical') return 'Strip Vertical';
     if (template.id === 'strip-horizontal') return 'Strip Horizontal';
     if (template.id === 'strip-double') return 'Quad Frame';
+    if (template.id === 'motion-boomerang') return 'Boomerang';
     return template.name;
   };
 
-  // Order templates for display: Single Portrait, Strip Vertical, Strip Horizontal, Quad Frame
+  // Order templates for display: Single Portrait, Strip Vertical, Strip Horizontal, Quad Frame, Boomerang,
+  // then the session's own templates
   const orderedTemplates = [
     templates.find(t => t.id === 'single-photo'),
     templates.find(t => t.id === 'strip-vertical'),
     templates.find(t => t.id === 'strip-horizontal'),
     templates.find(t => t.id === 'strip-double'),
+    templates.find(t => t.id === 'motion-boomerang'),
+    ...templates.filter(t => customTemplates.some(custom => custom.id === t.id)),
   ].filter(Boolean) as Template[];
 
   return (
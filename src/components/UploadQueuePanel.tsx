@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react';
+import { isSupabaseConfigured } from '../config/supabase';
+import {
+  getUploadQueueStatus,
+  drainUploadQueue,
+  initUploadQueue,
+  UPLOAD_CONCURRENCY,
+  type UploadQueueState,
+  type UploadQueueStatus
+} from '../services/uploadQueueService';
+
+interface UploadQueuePanelProps {
+  showNotification: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+const STATE_LABEL: Record<UploadQueueState, string> = {
+  idle: '✅ UP TO DATE',
+  uploading: '⬆️ UPLOADING',
+  waiting: '⏳ WAITING TO RETRY',
+  offline: '📴 OFFLINE',
+  disabled: '⏸️ AUTO UPLOAD OFF',
+  unconfigured: '✗ SUPABASE NOT CONFIGURED'
+};
+
+function formatRetry(iso?: string): string {
+  if (!iso) return 'soon';
+  const seconds = Math.round((Date.parse(iso) - Date.now()) / 1000);
+  if (seconds <= 0) return 'now';
+  if (seconds < 60) return `in ${seconds}s`;
+  return `in ${Math.ceil(seconds / 60)} min`;
+}
+
+export const UploadQueuePanel = ({ showNotification }: UploadQueuePanelProps) => {
+  const [status, setStatus] = useState<UploadQueueStatus>(getUploadQueueStatus);
+  const [uploadingNow, setUploadingNow] = useState(false);
+
+  useEffect(() => {
+    const handler = (event: Event) => setStatus((event as CustomEvent<{ status: UploadQueueStatus }>).detail.status);
+    window.addEventListener('uploadQueueChanged', handler);
+    initUploadQueue();
+    void drainUploadQueue();
+    return () => window.removeEventListener('uploadQueueChanged', handler);
+  }, []);
+
+  const handleUploadNow = async () => {
+    setUploadingNow(true);
+    try {
+      const before = getUploadQueueStatus().uploadedThisSession;
+      await drainUploadQueue(true);
+      const after = getUploadQueueStatus();
+      const uploaded = after.uploadedThisSession - before;
+      if (after.pending === 0) {
+        showNotification(uploaded > 0 ? `✓ ${uploaded} photos uploaded successfully` : 'All photos are uploaded', 'success');
+      } else {
+        showNotification(
+          `${uploaded} photos uploaded, ${after.pending} still pending. They will be retried automatically.`,
+          uploaded > 0 ? 'info' : 'error'
+        );
+      }
+    } catch (error) {
+      showNotification('Upload failed: ' + (error instanceof Error ? error.message : 'Unknown error'), 'error');
+    } finally {
+      setUploadingNow(false);
+    }
+  };
+
+  const percent = status.runTotal > 0 ? Math.round((status.runDone / status.runTotal) * 100) : 0;
+
+  return (
+    <div className="admin-card">
+      <div className="card-header">
+        <h2>Upload Photos</h2>
+      </div>
+      <p className="settings-description">
+        Saved photos upload in the background, {UPLOAD_CONCURRENCY} at a time. Failed uploads are retried with an
+        increasing delay, and uploads resume by themselves when the connection comes back.
+      </p>
+
+      <div className="upload-stats">
+        <div className="stat-item">
+          <span className="stat-number">{status.pending}</span>
+          <span className="stat-label">Pending Uploads</span>
+        </div>
+        <div className="stat-item">
+          <span className="stat-number">{status.uploadedThisSession}</span>
+          <span className="stat-label">Uploaded Since Opening</span>
+        </div>
+        <div className="config-status">
+          <span className={status.state === 'unconfigured' || status.state === 'offline' ? 'error' : 'success'}>
+            {STATE_LABEL[status.state]}
+          </span>
+        </div>
+      </div>
+
+      {status.state === 'uploading' && status.runTotal > 0 && (
+        <>
+          <div className="storage-meter">
+            <div className="storage-meter-fill" style={{ width: `${percent}%` }} />
+          </div>
+          <p className="settings-description">
+            {status.runDone} of {status.runTotal} processed
+          </p>
+        </>
+      )}
+
+      {status.state === 'waiting' && (
+        <p className="settings-description">Next automatic retry {formatRetry(status.nextRetryAt)}.</p>
+      )}
+
+      {status.failures.length > 0 && (
+        <div className="sessions-list">
+          {status.failures.slice(0, 5).map((failure) => (
+            <div key={failure.photoId} className="session-item">
+              <div className="session-info">
+                <div className="session-header">
+                  <div className="session-code">Photo #{failure.photoNumber}</div>
+                  <div className={`session-status ${status.active.includes(failure.photoId) ? 'active' : 'inactive'}`}>
+                    {status.active.includes(failure.photoId) ? '⬆️ UPLOADING' : `⏳ RETRY ${formatRetry(failure.nextUploadAt).toUpperCase()}`}
+                  </div>
+                </div>
+                <div className="session-event">attempt {failure.attempts}</div>
+                <div className="session-date">Last error: {failure.lastError}</div>
+              </div>
+            </div>
+          ))}
+          {status.failures.length > 5 && (
+            <div className="more-results">... and {status.failures.length - 5} more</div>
+          )}
+        </div>
+      )}
+
+      {status.pending > 0 && (
+        <button
+          onClick={handleUploadNow}
+          disabled={uploadingNow || !isSupabaseConfigured()}
+          className="upload-btn"
+        >
+          {uploadingNow ? `Uploading... (${status.runDone}/${status.runTotal})` : 'Upload Now'}
+        </button>
+      )}
+    </div>
+  );
+};
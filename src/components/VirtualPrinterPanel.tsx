@@ -0,0 +1,94 @@
+import { useState, useEffect } from 'react';
+import { getVirtualPrinterEnabled, setVirtualPrinterEnabled } from '../services/configService';
+import { getVirtualPrinterService, type VirtualPrintOutput } from '../services/virtualPrinterService';
+
+interface VirtualPrinterPanelProps {
+  showNotification: (message: string, type?: 'success' | 'error' | 'info') => void;
+}
+
+export const VirtualPrinterPanel = ({ showNotification }: VirtualPrinterPanelProps) => {
+  const [enabled, setEnabled] = useState<boolean>(() => getVirtualPrinterEnabled());
+  const [outputs, setOutputs] = useState<VirtualPrintOutput[]>(() => getVirtualPrinterService().getOutputs());
+
+  useEffect(() => {
+    const refresh = () => setOutputs([...getVirtualPrinterService().getOutputs()]);
+    window.addEventListener('virtualPrinterOutput', refresh);
+    return () => window.removeEventListener('virtualPrinterOutput', refresh);
+  }, []);
+
+  const handleToggle = (next: boolean) => {
+    try {
+      setVirtualPrinterEnabled(next);
+      setEnabled(next);
+      showNotification(
+        next
+          ? 'Virtual printer enabled. Disconnect and press Connect Printer to use it.'
+          : 'Virtual printer disabled. Reconnect to use a real printer.',
+        'info'
+      );
+    } catch (error) {
+      showNotification(error instanceof Error ? error.message : 'Failed to save setting', 'error');
+    }
+  };
+
+  return (
+    <div className="admin-card" style={{ marginTop: '20px' }}>
+      <div className="card-header">
+        <h2>Virtual Printer</h2>
+      </div>
+      <p className="settings-description">
+        Renders the ESC/POS bytes of each print job back into an image, so output can be checked without paper.
+      </p>
+
+      <div className="setting-group" style={{ marginBottom: '16px' }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '12px', cursor: 'pointer' }}>
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => handleToggle(e.target.checked)}
+            style={{ width: '20px', height: '20px', cursor: 'pointer' }}
+          />
+          <span style={{ fontSize: '16px', fontWeight: '500' }}>
+            Use virtual printer instead of Bluetooth
+          </span>
+        </label>
+      </div>
+
+      <div className="card-header" style={{ marginTop: '20px' }}>
+        <h3>Paper Preview</h3>
+        {outputs.length > 0 && (
+          <button onClick={() => getVirtualPrinterService().clearOutputs()} className="small-btn">
+            Clear
+          </button>
+        )}
+      </div>
+
+      {outputs.length === 0 ? (
+        <p className="settings-description">Nothing printed yet. Connect the virtual printer and run a test print.</p>
+      ) : (
+        <div style={{ display: 'flex', gap: '16px', overflowX: 'auto', paddingBottom: '8px' }}>
+          {outputs.map((output) => (
+            <div key={output.id} style={{ flex: '0 0 auto', textAlign: 'center' }}>
+              <img
+                src={output.dataURL}
+                alt="Virtual printer output"
+                style={{
+                  width: `${output.bitmap.width / 2}px`,
+                  imageRendering: 'pixelated',
+                  background: '#fff',
+                  boxShadow: '0 2px 8px rgba(0, 0, 0, 0.25)'
+                }}
+              />
+              <div className="session-date">
+                {new Date(output.createdAt).toLocaleTimeString()} · {output.bitmap.width}×{output.bitmap.height} · {output.byteLength} B
+              </div>
+              {output.unknownCommands.length > 0 && (
+                <div className="session-date">⚠️ {output.unknownCommands.length} unknown command(s)</div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
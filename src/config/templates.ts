@@ -0,0 +1,371 @@
+// Template schema and the built-in layouts.
+// Layouts are drawn in millimetres on a `width` x `height` design canvas and scaled to the
+// printer's paper width, so the same template prints on 58mm and 80mm paper.
+
+import { isDitherAlgorithm, type DitherAlgorithm } from '../utils/dithering';
+
+// Motion templates record a short burst: the guest downloads the animation, the printer gets keyframes
+export type CaptureMode = 'still' | 'motion';
+
+/** Rectangle in template millimetres, origin top-left */
+export interface TemplateRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * A photo slot. Frames are cropped to the cell's aspect ratio (cover), then rotated.
+ */
+export interface TemplateCell extends TemplateRect {
+  rotation?: number; // degrees clockwise around the cell centre
+}
+
+// Text from the booth config (admin Header/Body), the capture date, or fixed text
+export type TemplateTextSource = 'header-main' | 'header-sub' | 'body-main' | 'body-sub' | 'date' | 'static';
+
+export const TEXT_SOURCE_LABELS: Record<TemplateTextSource, string> = {
+  'header-main': 'Header main text',
+  'header-sub': 'Header sub text',
+  'body-main': 'Body main text',
+  'body-sub': 'Body sub text',
+  date: 'Date line',
+  static: 'Fixed text'
+};
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TemplateTextBlock extends TemplateRect {
+  source: TemplateTextSource;
+  text?: string; // 'static' only; may contain tokens like {photoNumber}
+  fontSize: number; // mm
+  align?: TextAlign; // default 'center'
+  wrap?: boolean; // break onto as many lines as the block height fits (default: one line)
+}
+
+// Per-source overrides from the admin, so built-in layouts can be restyled too
+export type TextBlockStyle = Partial<Pick<TemplateTextBlock, 'fontSize' | 'align' | 'wrap'>>;
+
+/** Where the QR code goes; the "Scan untuk download" caption sits under the code inside the rect */
+export type TemplateQrSlot = TemplateRect;
+
+/** Slot for the header image from the booth config */
+export type TemplateLogoSlot = TemplateRect;
+
+export interface TemplateMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export type OverlayCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+/**
+ * Where overlay artwork goes:
+ * - frame: stretched over the whole strip (borders)
+ * - sticker: `rect` is relative to a photo cell's top-left corner and moves with it
+ * - corner: pinned inside the margins of a strip corner
+ */
+export type OverlayPlacement =
+  | { type: 'frame' }
+  | { type: 'sticker'; cellIndex: number; rect: TemplateRect }
+  | { type: 'corner'; corner: OverlayCorner; width: number; height: number };
+
+// Overlays are reduced to black/white separately from the photos so line art stays crisp
+export interface OverlayThermal {
+  algorithm: DitherAlgorithm;
+  threshold: number; // 0-255
+}
+
+export const DEFAULT_OVERLAY_THERMAL: OverlayThermal = { algorithm: 'threshold', threshold: 128 };
+
+/** PNG/WebP artwork with alpha, drawn over the photos (under the QR code) */
+export interface TemplateOverlay {
+  id: string;
+  imageUrl: string;
+  placement: OverlayPlacement;
+  thermal?: OverlayThermal; // default DEFAULT_OVERLAY_THERMAL
+}
+
+export interface TemplateLayout {
+  width: number; // mm, design width (scaled to the paper width)
+  height: number; // mm
+  margins: TemplateMargins;
+  cells: TemplateCell[];
+  texts: TemplateTextBlock[];
+  logo?: TemplateLogoSlot;
+  qr?: TemplateQrSlot;
+  overlays?: TemplateOverlay[]; // drawn in order
+  // Empty text blocks and a missing logo give their height back to everything below them
+  collapseEmpty?: boolean;
+}
+
+export interface TemplateDefinition {
+  id: string;
+  name: string;
+  description: string;
+  captureMode?: CaptureMode; // default 'still'
+  layout: TemplateLayout;
+}
+
+/**
+ * A template bound to the current printer size.
+ */
+export interface Template extends TemplateDefinition {
+  width: number; // mm, paper width
+  thermalSize: '58mm' | '80mm';
+  photoCount: number; // layout.cells.length
+}
+
+export function resolveTemplate(
+  definition: TemplateDefinition,
+  printerSize: { width: number; thermalSize: '58mm' | '80mm' }
+): Template {
+  return {
+    ...definition,
+    width: printerSize.width,
+    thermalSize: printerSize.thermalSize,
+    photoCount: definition.layout.cells.length
+  };
+}
+
+export function applyTextStyles(
+  layout: TemplateLayout,
+  styles: Partial<Record<TemplateTextSource, TextBlockStyle>> | undefined
+): TemplateLayout {
+  if (!styles) return layout;
+  return {
+    ...layout,
+    texts: layout.texts.map((block) => {
+      const style = styles[block.source];
+      if (!style) return block;
+      return {
+        ...block,
+        ...(style.fontSize !== undefined ? { fontSize: style.fontSize } : {}),
+        ...(style.align !== undefined ? { align: style.align } : {}),
+        ...(style.wrap !== undefined ? { wrap: style.wrap } : {})
+      };
+    })
+  };
+}
+
+const TEXT_SOURCES: TemplateTextSource[] = ['header-main', 'header-sub', 'body-main', 'body-sub', 'date', 'static'];
+const TEXT_ALIGNS: TextAlign[] = ['left', 'center', 'right'];
+
+export function isTextAlign(value: unknown): value is TextAlign {
+  return TEXT_ALIGNS.includes(value as TextAlign);
+}
+
+function toRect(raw: unknown): TemplateRect | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { x, y, width, height } = raw as Record<string, unknown>;
+  const values = [x, y, width, height].map(Number);
+  if (values.some((v) => !Number.isFinite(v)) || values[2] <= 0 || values[3] <= 0) return null;
+  return { x: values[0], y: values[1], width: values[2], height: values[3] };
+}
+
+const OVERLAY_CORNERS: OverlayCorner[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+function normalizeOverlay(raw: TemplateOverlay): TemplateOverlay[] {
+  if (!raw || typeof raw.imageUrl !== 'string' || !raw.imageUrl) return [];
+  const placement = raw.placement;
+  let normalized: OverlayPlacement | null = null;
+  if (placement?.type === 'frame') {
+    normalized = { type: 'frame' };
+  } else if (placement?.type === 'sticker') {
+    const rect = toRect(placement.rect);
+    const cellIndex = Number(placement.cellIndex);
+    if (rect && Number.isInteger(cellIndex) && cellIndex >= 0) {
+      normalized = { type: 'sticker', cellIndex, rect };
+    }
+  } else if (placement?.type === 'corner') {
+    const size = toRect({ x: 0, y: 0, width: placement.width, height: placement.height });
+    if (size && OVERLAY_CORNERS.includes(placement.corner)) {
+      normalized = { type: 'corner', corner: placement.corner, width: size.width, height: size.height };
+    }
+  }
+  if (!normalized) return [];
+
+  const threshold = Number(raw.thermal?.threshold);
+  return [{
+    id: typeof raw.id === 'string' && raw.id ? raw.id : raw.imageUrl,
+    imageUrl: raw.imageUrl,
+    placement: normalized,
+    thermal: {
+      algorithm: isDitherAlgorithm(raw.thermal?.algorithm) ? raw.thermal.algorithm : DEFAULT_OVERLAY_THERMAL.algorithm,
+      threshold: Number.isFinite(threshold) ? Math.max(0, Math.min(255, threshold)) : DEFAULT_OVERLAY_THERMAL.threshold
+    }
+  }];
+}
+
+/**
+ * Validate a template that came from storage (designer templates saved on a session).
+ * Returns null when it can't be drawn.
+ */
+export function normalizeTemplateDefinition(raw: unknown): TemplateDefinition | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const source = raw as Partial<TemplateDefinition>;
+  const layout = source.layout as Partial<TemplateLayout> | undefined;
+  if (typeof source.id !== 'string' || !source.id || !layout) return null;
+
+  const width = Number(layout.width);
+  const height = Number(layout.height);
+  if (!Number.isFinite(width) || width <= 0 || !Number.isFinite(height) || height <= 0) return null;
+
+  const cells: TemplateCell[] = (Array.isArray(layout.cells) ? layout.cells : []).flatMap((cell) => {
+    const rect = toRect(cell);
+    if (!rect) return [];
+    const rotation = Number(cell.rotation);
+    return [{ ...rect, ...(Number.isFinite(rotation) && rotation !== 0 ? { rotation } : {}) }];
+  });
+  if (cells.length === 0) return null;
+
+  const texts: TemplateTextBlock[] = (Array.isArray(layout.texts) ? layout.texts : []).flatMap((block) => {
+    const rect = toRect(block);
+    if (!rect || !TEXT_SOURCES.includes(block.source)) return [];
+    const fontSize = Number(block.fontSize);
+    return [{
+      ...rect,
+      source: block.source,
+      ...(block.source === 'static' ? { text: String(block.text ?? '') } : {}),
+      fontSize: Number.isFinite(fontSize) && fontSize > 0 ? fontSize : 2,
+      ...(isTextAlign(block.align) && block.align !== 'center' ? { align: block.align } : {}),
+      ...(block.wrap === true ? { wrap: true } : {})
+    }];
+  });
+  const margins = layout.margins ?? { top: 0, right: 0, bottom: 0, left: 0 };
+  const overlays = (Array.isArray(layout.overlays) ? layout.overlays : []).flatMap(normalizeOverlay);
+  const logo = toRect(layout.logo);
+  const qr = toRect(layout.qr);
+
+  return {
+    id: source.id,
+    name: typeof source.name === 'string' && source.name.trim() ? source.name.trim() : 'Custom Template',
+    description: typeof source.description === 'string' ? source.description : '',
+    ...(source.captureMode === 'motion' ? { captureMode: 'motion' as const } : {}),
+    layout: {
+      width,
+      height,
+      margins: {
+        top: Number(margins.top) || 0,
+        right: Number(margins.right) || 0,
+        bottom: Number(margins.bottom) || 0,
+        left: Number(margins.left) || 0
+      },
+      cells,
+      texts,
+      ...(logo ? { logo } : {}),
+      ...(qr ? { qr } : {}),
+      ...(overlays.length > 0 ? { overlays } : {}),
+      collapseEmpty: layout.collapseEmpty === true
+    }
+  };
+}
+
+// Shared by the built-ins: logo, header/body text and date above the photos
+const STRIP_WIDTH = 58;
+const STRIP_MARGINS: TemplateMargins = { top: 1.5, right: 1.5, bottom: 1.5, left: 1.5 };
+const STRIP_LOGO: TemplateLogoSlot = { x: 1.5, y: 1.5, width: 55, height: 11 };
+const STRIP_TEXTS: TemplateTextBlock[] = [
+  { source: 'header-main', x: 1.5, y: 13.5, width: 55, height: 4.5, fontSize: 3 },
+  { source: 'header-sub', x: 1.5, y: 18, width: 55, height: 3, fontSize: 2 },
+  { source: 'body-main', x: 1.5, y: 21, width: 55, height: 4, fontSize: 2.6 },
+  { source: 'body-sub', x: 1.5, y: 25, width: 55, height: 3, fontSize: 1.9 },
+  { source: 'date', x: 1.5, y: 28.5, width: 55, height: 2.5, fontSize: 1.75 }
+];
+const GRID_CELLS: TemplateCell[] = [
+  { x: 1.5, y: 32, width: 27, height: 27 },
+  { x: 29.5, y: 32, width: 27, height: 27 },
+  { x: 1.5, y: 60, width: 27, height: 27 },
+  { x: 29.5, y: 60, width: 27, height: 27 }
+];
+
+export const BASE_TEMPLATES: TemplateDefinition[] = [
+  {
+    id: 'single-photo',
+    name: 'Single Portrait',
+    description: '1 large photo in portrait orientation - perfect for individual shots',
+    layout: {
+      width: STRIP_WIDTH,
+      height: 137,
+      margins: STRIP_MARGINS,
+      logo: STRIP_LOGO,
+      texts: STRIP_TEXTS,
+      cells: [
+        { x: 1.5, y: 32, width: 55, height: 55 }
+      ],
+      qr: { x: 9, y: 92, width: 40, height: 43.5 },
+      collapseEmpty: true
+    }
+  },
+  {
+    id: 'strip-horizontal',
+    name: 'Double Strip',
+    description: '2 photos stacked vertically - great for couples or friends',
+    layout: {
+      width: STRIP_WIDTH,
+      height: 193,
+      margins: STRIP_MARGINS,
+      logo: STRIP_LOGO,
+      texts: STRIP_TEXTS,
+      cells: [
+        { x: 1.5, y: 32, width: 55, height: 55 },
+        { x: 1.5, y: 88, width: 55, height: 55 }
+      ],
+      qr: { x: 9, y: 148, width: 40, height: 43.5 },
+      collapseEmpty: true
+    }
+  },
+  {
+    id: 'strip-vertical',
+    name: 'Classic Strip',
+    description: '3 photos stacked vertically - traditional photo booth style',
+    layout: {
+      width: STRIP_WIDTH,
+      height: 249,
+      margins: STRIP_MARGINS,
+      logo: STRIP_LOGO,
+      texts: STRIP_TEXTS,
+      cells: [
+        { x: 1.5, y: 32, width: 55, height: 55 },
+        { x: 1.5, y: 88, width: 55, height: 55 },
+        { x: 1.5, y: 144, width: 55, height: 55 }
+      ],
+      qr: { x: 9, y: 204, width: 40, height: 43.5 },
+      collapseEmpty: true
+    }
+  },
+  {
+    id: 'strip-double',
+    name: 'Quad Strip',
+    description: '4 photos in 2x2 grid - perfect for group photos',
+    layout: {
+      width: STRIP_WIDTH,
+      height: 137,
+      margins: STRIP_MARGINS,
+      logo: STRIP_LOGO,
+      texts: STRIP_TEXTS,
+      cells: GRID_CELLS,
+      qr: { x: 9, y: 92, width: 40, height: 43.5 },
+      collapseEmpty: true
+    }
+  },
+  {
+    id: 'motion-boomerang',
+    name: 'Boomerang GIF',
+    description: 'Short animated clip to download - prints a 4-frame contact strip',
+    captureMode: 'motion',
+    layout: {
+      width: STRIP_WIDTH,
+      height: 137,
+      margins: STRIP_MARGINS,
+      logo: STRIP_LOGO,
+      texts: STRIP_TEXTS,
+      cells: GRID_CELLS, // keyframes on the print
+      qr: { x: 9, y: 92, width: 40, height: 43.5 },
+      collapseEmpty: true
+    }
+  }
+];
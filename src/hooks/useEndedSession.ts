@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react';
+import { getCurrentSession, isSessionClosed, type SessionInfo } from '../services/sessionService';
+
+const RECHECK_INTERVAL_MS = 15_000;
+
+/**
+ * The booth's current session while it is closed (capture must stay blocked), otherwise null.
+ * Follows activations and closes made by the scheduler or the admin, and notices end times passing.
+ */
+export const useEndedSession = () => {
+  const [endedSession, setEndedSession] = useState<SessionInfo | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const check = () => {
+      getCurrentSession()
+        .then((session) => {
+          if (!cancelled) setEndedSession(isSessionClosed(session) ? session : null);
+        })
+        .catch((error) => console.warn('useEndedSession: failed to read session:', error));
+    };
+
+    check();
+    const interval = window.setInterval(check, RECHECK_INTERVAL_MS);
+    window.addEventListener('sessionChanged', check);
+    return () => {
+      cancelled = true;
+      window.clearInterval(interval);
+      window.removeEventListener('sessionChanged', check);
+    };
+  }, []);
+
+  return endedSession;
+};
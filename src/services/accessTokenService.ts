@@ -66,36 +66,6 @@ export async function generateUniqueAccessToken(retries: number = 3): Promise<st
   throw new Error(`Failed to generate unique access token after ${retries} attempts`);
 }
 
-/**
- * Save access token to Supabase database
- * @param photoId The photo ID (UUID)
- * @param token The access token to save
- * @returns true if successful, false otherwise
- */
-export async function saveAccessTokenToSupabase(photoId: string, token: string): Promise<boolean> {
-  if (!isSupabaseConfigured() || !supabase) {
-    console.warn('[AccessToken] Supabase not configured, cannot save token');
-    return false;
-  }
-  
-  try {
-    const { error } = await supabase
-      .from('photos')
-      .update({ access_token: token })
-      .eq('photo_id', photoId);
-    
-    if (error) {
-      console.error('[AccessToken] Failed to save token to Supabase:', error);
-      return false;
-    }
-    
-    return true;
-  } catch (err) {
-    console.error('[AccessToken] Exception saving token to Supabase:', err);
-    return false;
-  }
-}
-
 /**
  * Hash token for logging (SHA-256)
  * Used in access logs to maintain privacy
@@ -0,0 +1,173 @@
+import { supabase, isSupabaseConfigured } from '../config/supabase';
+import { getCurrentSession } from './sessionService';
+
+// Booth Identity
+// Several tablets can run the same session. Each device keeps a random id and an operator-chosen
+// name in localStorage, registers itself in the `booths` table for the active session and sends a
+// heartbeat while the booth is open, so the admin can see which booths are still alive.
+
+export interface BoothIdentity {
+  deviceId: string;
+  boothName: string;
+}
+
+export interface BoothInfo {
+  sessionCode: string;
+  deviceId: string;
+  boothName: string;
+  photoCount: number;
+  registeredAt: string;
+  lastSeenAt: string;
+}
+
+const IDENTITY_STORAGE_KEY = 'morobooth_booth_identity';
+const BOOTHS_TABLE = 'booths';
+const DEVICE_ID_HEADER = 'x-booth-device-id';
+const HEARTBEAT_INTERVAL_MS = 60_000;
+export const BOOTH_OFFLINE_AFTER_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+let cachedIdentity: BoothIdentity | null = null;
+let heartbeatTimer: number | null = null;
+
+/**
+ * Short code for a booth, used in its default name and in photo ids numbered while offline.
+ */
+export function getBoothTag(deviceId: string): string {
+  return deviceId.slice(0, 4).toUpperCase();
+}
+
+function defaultBoothName(deviceId: string): string {
+  return `Booth ${getBoothTag(deviceId)}`;
+}
+
+/**
+ * This device's booth id and name; the id is created on first use and never changes.
+ */
+export function getBoothIdentity(): BoothIdentity {
+  if (cachedIdentity) return cachedIdentity;
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(IDENTITY_STORAGE_KEY) ?? 'null');
+    if (stored && typeof stored.deviceId === 'string' && stored.deviceId) {
+      cachedIdentity = {
+        deviceId: stored.deviceId,
+        boothName: typeof stored.boothName === 'string' && stored.boothName.trim()
+          ? stored.boothName.trim()
+          : defaultBoothName(stored.deviceId)
+      };
+      return cachedIdentity;
+    }
+  } catch (error) {
+    console.warn('[BOOTH] Failed to read booth identity:', error);
+  }
+
+  const deviceId = crypto.randomUUID();
+  cachedIdentity = { deviceId, boothName: defaultBoothName(deviceId) };
+  try {
+    localStorage.setItem(IDENTITY_STORAGE_KEY, JSON.stringify(cachedIdentity));
+  } catch (error) {
+    console.warn('[BOOTH] Failed to save booth identity (non-fatal):', error);
+  }
+  return cachedIdentity;
+}
+
+export async function setBoothName(boothName: string): Promise<BoothIdentity> {
+  const name = boothName.trim();
+  if (!name) {
+    throw new Error('Booth name cannot be empty');
+  }
+  cachedIdentity = { ...getBoothIdentity(), boothName: name };
+  localStorage.setItem(IDENTITY_STORAGE_KEY, JSON.stringify(cachedIdentity));
+  window.dispatchEvent(new CustomEvent('boothIdentityChanged', { detail: { identity: cachedIdentity } }));
+
+  const session = await getCurrentSession();
+  if (session) {
+    await registerBooth(session.sessionCode);
+  }
+  return cachedIdentity;
+}
+
+/**
+ * Add this device to a session's booths, or refresh its name and last-seen time.
+ * Resolves to false when Supabase is unavailable.
+ */
+export async function registerBooth(sessionCode: string): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) return false;
+  const { deviceId, boothName } = getBoothIdentity();
+  const { error } = await supabase
+    .from(BOOTHS_TABLE)
+    .upsert({
+      session_code: sessionCode,
+      device_id: deviceId,
+      booth_name: boothName,
+      last_seen_at: new Date().toISOString()
+    }, { onConflict: 'session_code,device_id' })
+    .setHeader(DEVICE_ID_HEADER, deviceId); // RLS only lets a booth write its own row
+  if (error) {
+    console.error('[BOOTH] Supabase registerBooth error (non-fatal):', error);
+    return false;
+  }
+  return true;
+}
+
+async function sendHeartbeat(): Promise<void> {
+  if (!navigator.onLine) return;
+  try {
+    const session = await getCurrentSession();
+    if (session) {
+      await registerBooth(session.sessionCode);
+    }
+  } catch (error) {
+    console.warn('[BOOTH] Heartbeat failed:', error);
+  }
+}
+
+/**
+ * Start the heartbeat for the active session. Safe to call more than once.
+ */
+export function initBoothHeartbeat(): void {
+  if (heartbeatTimer !== null) return;
+  heartbeatTimer = window.setInterval(() => void sendHeartbeat(), HEARTBEAT_INTERVAL_MS);
+  window.addEventListener('online', () => void sendHeartbeat());
+  void sendHeartbeat();
+}
+
+interface BoothRow {
+  session_code: string;
+  device_id: string;
+  booth_name: string;
+  photo_count: number | null;
+  registered_at: string;
+  last_seen_at: string;
+}
+
+function mapBoothRow(row: BoothRow): BoothInfo {
+  return {
+    sessionCode: row.session_code,
+    deviceId: row.device_id,
+    boothName: row.booth_name,
+    photoCount: row.photo_count ?? 0,
+    registeredAt: row.registered_at,
+    lastSeenAt: row.last_seen_at
+  };
+}
+
+/**
+ * Booths registered for a session, most recently seen first.
+ */
+export async function getSessionBooths(sessionCode: string): Promise<BoothInfo[]> {
+  if (!isSupabaseConfigured() || !supabase) return [];
+  const { data, error } = await supabase
+    .from(BOOTHS_TABLE)
+    .select('*')
+    .eq('session_code', sessionCode)
+    .order('last_seen_at', { ascending: false });
+  if (error) {
+    throw new Error(error.message);
+  }
+  return ((data ?? []) as BoothRow[]).map(mapBoothRow);
+}
+
+export function isBoothOnline(booth: BoothInfo, now = Date.now()): boolean {
+  return now - Date.parse(booth.lastSeenAt) < BOOTH_OFFLINE_AFTER_MS;
+}
@@ -1,6 +1,10 @@
 // Configuration management service for Morobooth
 // Handles both config.txt and localStorage overrides
 
+import { isDitherAlgorithm, type DitherAlgorithm } from '../utils/dithering';
+import { DEFAULT_DATE_TEXT } from '../utils/textTokens';
+import { isTextAlign, type TemplateTextSource, type TextBlockStyle } from '../config/templates';
+
 export type HeaderMode = 'text' | 'image';
 
 export interface ConfigHeader {
@@ -15,9 +19,21 @@ export interface ConfigBody {
   subText: string;
 }
 
+// Uploaded TTF/OTF/WOFF file, registered with the browser under its own family name
+export interface BrandingFont {
+  id: string;
+  name: string; // shown in the admin (file name without extension)
+  url: string;
+}
+
+// Font id per text block; blocks without one (or with a font that fails to load) use monospace
+export type TextFontChoices = Partial<Record<TemplateTextSource, string>>;
+
 export interface Config {
   header: ConfigHeader;
   body: ConfigBody;
+  fonts?: BrandingFont[];
+  textFonts?: TextFontChoices;
 }
 
 export interface ConfigOverride {
@@ -25,6 +41,8 @@ export interface ConfigOverride {
   sessionCode?: string;
   header: ConfigHeader;
   body: ConfigBody;
+  fonts?: BrandingFont[];
+  textFonts?: TextFontChoices;
 }
 
 const DEFAULT_HEADER: ConfigHeader = {
@@ -58,6 +76,26 @@ function normalizeBody(raw: any, fallback?: Partial<ConfigBody>): ConfigBody {
   };
 }
 
+export function normalizeFonts(raw: unknown): BrandingFont[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((font) => {
+    if (!font || typeof font.url !== 'string' || !font.url || typeof font.id !== 'string' || !font.id) return [];
+    return [{ id: font.id, name: typeof font.name === 'string' && font.name ? font.name : 'Font', url: font.url }];
+  });
+}
+
+export function normalizeTextFonts(raw: unknown, fonts: BrandingFont[]): TextFontChoices {
+  if (!raw || typeof raw !== 'object') return {};
+  const choices: TextFontChoices = {};
+  for (const [source, fontId] of Object.entries(raw as Record<string, unknown>)) {
+    // Drop choices that point at a removed font
+    if (typeof fontId === 'string' && fonts.some((font) => font.id === fontId)) {
+      choices[source as TemplateTextSource] = fontId;
+    }
+  }
+  return choices;
+}
+
 function normalizeOverride(raw: any): ConfigOverride {
   if (!raw || typeof raw !== 'object') {
     return {
@@ -79,11 +117,14 @@ function normalizeOverride(raw: any): ConfigOverride {
     subText: raw.subText
   });
 
+  const fonts = normalizeFonts(raw.fonts);
   return {
     enabled: Boolean(raw.enabled),
     sessionCode: raw.sessionCode,
     header,
-    body
+    body,
+    fonts,
+    textFonts: normalizeTextFonts(raw.textFonts, fonts)
   };
 }
 
@@ -97,11 +138,13 @@ export async function loadConfig(): Promise<Config> {
     if (override.enabled) {
       const header = override.header;
       const body = override.body;
+      const fonts = { fonts: override.fonts ?? [], textFonts: override.textFonts ?? {} };
 
       if (header.mode === 'image' && header.imageUrl) {
         cachedConfig = {
           header,
-          body: normalizeBody(body)
+          body: normalizeBody(body),
+          ...fonts
         };
         return cachedConfig;
       }
@@ -115,7 +158,8 @@ export async function loadConfig(): Promise<Config> {
           subText: header.subText ?? '',
           imageUrl: ''
         },
-        body: normalizeBody(body)
+        body: normalizeBody(body),
+        ...fonts
       };
       return cachedConfig;
     }
@@ -171,11 +215,14 @@ export function getConfigOverride(): ConfigOverride {
 
 export function setConfigOverride(config: ConfigOverride): void {
   try {
+    const fonts = normalizeFonts(config.fonts);
     const payload: ConfigOverride = {
       enabled: config.enabled,
       sessionCode: config.sessionCode,
       header: normalizeHeader(config.header),
-      body: normalizeBody(config.body, DEFAULT_BODY)
+      body: normalizeBody(config.body, DEFAULT_BODY),
+      fonts,
+      textFonts: normalizeTextFonts(config.textFonts, fonts)
     };
     localStorage.setItem('morobooth_config_override', JSON.stringify(payload));
     clearConfigCache();
@@ -220,6 +267,7 @@ export interface PrinterOutputSettings {
   gamma?: number; // >= 1
   dithering?: boolean;
   sharpen?: number; // 0-1
+  printDitherAlgorithm?: DitherAlgorithm; // Used when dithering is on (default: floyd-steinberg)
   
   // New: Capture Stage
   captureGrayscale?: boolean; // Enable/disable grayscale at capture (default: true)
@@ -227,13 +275,37 @@ export interface PrinterOutputSettings {
   // New: Preview Stage
   previewGrayscale?: boolean; // Enable/disable grayscale in preview (default: true)
   previewDither?: boolean; // Enable/disable ordered dither in preview (default: true)
+  previewDitherAlgorithm?: DitherAlgorithm; // (default: bayer-4x4, cheap enough for every other frame)
   
   // New: Composition Stage
   compositionDither?: boolean; // Enable/disable Floyd-Steinberg dither (default: true)
   compositionDitherThreshold?: number; // Threshold for composition dither (0-255, default: 128)
+  compositionDitherAlgorithm?: DitherAlgorithm; // (default: floyd-steinberg)
   
   // New: Date Text
   showDateText?: boolean; // Enable/disable "MOROBOOTH // date" text on photos (default: true)
+  dateText?: string; // What the date line says, with tokens (default: "MOROBOOTH // {date:YYYY.MM.DD}")
+
+  // Font size / alignment / wrapping per text block, over whatever the template says
+  textStyles?: TextStyleOverrides;
+}
+
+export type TextStyleOverrides = Partial<Record<TemplateTextSource, TextBlockStyle>>;
+
+function normalizeTextStyles(raw: unknown): TextStyleOverrides {
+  if (!raw || typeof raw !== 'object') return {};
+  const styles: TextStyleOverrides = {};
+  for (const [source, value] of Object.entries(raw as Record<string, TextBlockStyle>)) {
+    if (!value || typeof value !== 'object') continue;
+    const fontSize = Number(value.fontSize);
+    const style: TextBlockStyle = {
+      ...(Number.isFinite(fontSize) && fontSize > 0 ? { fontSize } : {}),
+      ...(isTextAlign(value.align) ? { align: value.align } : {}),
+      ...(typeof value.wrap === 'boolean' ? { wrap: value.wrap } : {})
+    };
+    if (Object.keys(style).length > 0) styles[source as TemplateTextSource] = style;
+  }
+  return styles;
 }
 
 export const DEFAULT_PRINTER_OUTPUT: Required<PrinterOutputSettings> = {
@@ -241,12 +313,17 @@ export const DEFAULT_PRINTER_OUTPUT: Required<PrinterOutputSettings> = {
   gamma: 1.25,
   dithering: true,
   sharpen: 0.45,
+  printDitherAlgorithm: 'floyd-steinberg',
   captureGrayscale: true,
   previewGrayscale: true,
   previewDither: true,
+  previewDitherAlgorithm: 'bayer-4x4',
   compositionDither: true,
   compositionDitherThreshold: 128,
-  showDateText: true
+  compositionDitherAlgorithm: 'floyd-steinberg',
+  showDateText: true,
+  dateText: DEFAULT_DATE_TEXT,
+  textStyles: {}
 };
 
 export function getPrinterOutputSettings(): PrinterOutputSettings {
@@ -260,13 +337,18 @@ export function getPrinterOutputSettings(): PrinterOutputSettings {
         gamma: parsed.gamma !== undefined ? parsed.gamma : DEFAULT_PRINTER_OUTPUT.gamma,
         dithering: parsed.dithering !== undefined ? parsed.dithering : DEFAULT_PRINTER_OUTPUT.dithering,
         sharpen: parsed.sharpen !== undefined ? parsed.sharpen : DEFAULT_PRINTER_OUTPUT.sharpen,
+        printDitherAlgorithm: isDitherAlgorithm(parsed.printDitherAlgorithm) ? parsed.printDitherAlgorithm : DEFAULT_PRINTER_OUTPUT.printDitherAlgorithm,
         // New fields
         captureGrayscale: parsed.captureGrayscale !== undefined ? parsed.captureGrayscale : DEFAULT_PRINTER_OUTPUT.captureGrayscale,
         previewGrayscale: parsed.previewGrayscale !== undefined ? parsed.previewGrayscale : DEFAULT_PRINTER_OUTPUT.previewGrayscale,
         previewDither: parsed.previewDither !== undefined ? parsed.previewDither : DEFAULT_PRINTER_OUTPUT.previewDither,
+        previewDitherAlgorithm: isDitherAlgorithm(parsed.previewDitherAlgorithm) ? parsed.previewDitherAlgorithm : DEFAULT_PRINTER_OUTPUT.previewDitherAlgorithm,
         compositionDither: parsed.compositionDither !== undefined ? parsed.compositionDither : DEFAULT_PRINTER_OUTPUT.compositionDither,
         compositionDitherThreshold: parsed.compositionDitherThreshold !== undefined ? parsed.compositionDitherThreshold : DEFAULT_PRINTER_OUTPUT.compositionDitherThreshold,
-        showDateText: parsed.showDateText !== undefined ? parsed.showDateText : DEFAULT_PRINTER_OUTPUT.showDateText
+        compositionDitherAlgorithm: isDitherAlgorithm(parsed.compositionDitherAlgorithm) ? parsed.compositionDitherAlgorithm : DEFAULT_PRINTER_OUTPUT.compositionDitherAlgorithm,
+        showDateText: parsed.showDateText !== undefined ? parsed.showDateText : DEFAULT_PRINTER_OUTPUT.showDateText,
+        dateText: typeof parsed.dateText === 'string' ? parsed.dateText : DEFAULT_PRINTER_OUTPUT.dateText,
+        textStyles: normalizeTextStyles(parsed.textStyles)
       };
     }
   } catch (error) {
@@ -276,6 +358,15 @@ export function getPrinterOutputSettings(): PrinterOutputSettings {
   return { ...DEFAULT_PRINTER_OUTPUT };
 }
 
+// True once the admin has saved output settings; until then printer profiles supply the defaults
+export function hasSavedPrinterOutputSettings(): boolean {
+  try {
+    return localStorage.getItem('morobooth_printer_output_settings') !== null;
+  } catch {
+    return false;
+  }
+}
+
 export function setPrinterOutputSettings(settings: PrinterOutputSettings): void {
   try {
     // Use explicit checks to preserve 0 and false values
@@ -284,13 +375,18 @@ export function setPrinterOutputSettings(settings: PrinterOutputSettings): void
       gamma: settings.gamma !== undefined ? settings.gamma : DEFAULT_PRINTER_OUTPUT.gamma,
       dithering: settings.dithering !== undefined ? settings.dithering : DEFAULT_PRINTER_OUTPUT.dithering,
       sharpen: settings.sharpen !== undefined ? settings.sharpen : DEFAULT_PRINTER_OUTPUT.sharpen,
+      printDitherAlgorithm: settings.printDitherAlgorithm ?? DEFAULT_PRINTER_OUTPUT.printDitherAlgorithm,
       // New fields
       captureGrayscale: settings.captureGrayscale !== undefined ? settings.captureGrayscale : DEFAULT_PRINTER_OUTPUT.captureGrayscale,
       previewGrayscale: settings.previewGrayscale !== undefined ? settings.previewGrayscale : DEFAULT_PRINTER_OUTPUT.previewGrayscale,
       previewDither: settings.previewDither !== undefined ? settings.previewDither : DEFAULT_PRINTER_OUTPUT.previewDither,
+      previewDitherAlgorithm: settings.previewDitherAlgorithm ?? DEFAULT_PRINTER_OUTPUT.previewDitherAlgorithm,
       compositionDither: settings.compositionDither !== undefined ? settings.compositionDither : DEFAULT_PRINTER_OUTPUT.compositionDither,
       compositionDitherThreshold: settings.compositionDitherThreshold !== undefined ? settings.compositionDitherThreshold : DEFAULT_PRINTER_OUTPUT.compositionDitherThreshold,
-      showDateText: settings.showDateText !== undefined ? settings.showDateText : DEFAULT_PRINTER_OUTPUT.showDateText
+      compositionDitherAlgorithm: settings.compositionDitherAlgorithm ?? DEFAULT_PRINTER_OUTPUT.compositionDitherAlgorithm,
+      showDateText: settings.showDateText !== undefined ? settings.showDateText : DEFAULT_PRINTER_OUTPUT.showDateText,
+      dateText: settings.dateText !== undefined ? settings.dateText : DEFAULT_PRINTER_OUTPUT.dateText,
+      textStyles: normalizeTextStyles(settings.textStyles)
     };
     localStorage.setItem('morobooth_printer_output_settings', JSON.stringify(payload));
     console.log('Printer output settings saved:', payload);
@@ -432,10 +528,12 @@ export function resetQRCodeSettings(): void {
 // Upload Settings
 export interface UploadSettings {
   saveBeforePrint?: boolean; // Save photo to storage before print (default: true)
+  autoUpload?: boolean; // Upload saved photos in the background (default: true)
 }
 
 export const DEFAULT_UPLOAD_SETTINGS: Required<UploadSettings> = {
-  saveBeforePrint: true // Default: save before print (backward compatible)
+  saveBeforePrint: true, // Default: save before print (backward compatible)
+  autoUpload: true
 };
 
 export function getUploadSettings(): UploadSettings {
@@ -445,7 +543,8 @@ export function getUploadSettings(): UploadSettings {
       const parsed = JSON.parse(stored);
       // Use explicit checks to preserve false values
       return {
-        saveBeforePrint: parsed.saveBeforePrint !== undefined ? parsed.saveBeforePrint : DEFAULT_UPLOAD_SETTINGS.saveBeforePrint
+        saveBeforePrint: parsed.saveBeforePrint !== undefined ? parsed.saveBeforePrint : DEFAULT_UPLOAD_SETTINGS.saveBeforePrint,
+        autoUpload: parsed.autoUpload !== undefined ? parsed.autoUpload : DEFAULT_UPLOAD_SETTINGS.autoUpload
       };
     }
   } catch (error) {
@@ -459,7 +558,8 @@ export function setUploadSettings(settings: UploadSettings): void {
   try {
     // Use explicit checks to preserve false values
     const payload: Required<UploadSettings> = {
-      saveBeforePrint: settings.saveBeforePrint !== undefined ? settings.saveBeforePrint : DEFAULT_UPLOAD_SETTINGS.saveBeforePrint
+      saveBeforePrint: settings.saveBeforePrint !== undefined ? settings.saveBeforePrint : DEFAULT_UPLOAD_SETTINGS.saveBeforePrint,
+      autoUpload: settings.autoUpload !== undefined ? settings.autoUpload : DEFAULT_UPLOAD_SETTINGS.autoUpload
     };
     localStorage.setItem('morobooth_upload_settings', JSON.stringify(payload));
     console.log('Upload settings saved:', payload);
@@ -516,3 +616,29 @@ export function resetBaseUrlSettings(): void {
     console.error('Failed to reset base URL setting:', e);
   }
 }
+
+// Virtual Printer
+// When enabled, "Connect Printer" attaches an in-app ESC/POS printer that renders jobs to images
+// instead of talking to Web Bluetooth or the native bridge.
+export function getVirtualPrinterEnabled(): boolean {
+  try {
+    return localStorage.getItem('morobooth_virtual_printer') === 'true';
+  } catch (error) {
+    console.warn('Failed to read virtual printer setting:', error);
+    return false;
+  }
+}
+
+export function setVirtualPrinterEnabled(enabled: boolean): void {
+  try {
+    if (enabled) {
+      localStorage.setItem('morobooth_virtual_printer', 'true');
+    } else {
+      localStorage.removeItem('morobooth_virtual_printer');
+    }
+    console.log('[Config] Virtual printer', enabled ? 'enabled' : 'disabled');
+  } catch (error) {
+    console.error('Failed to save virtual printer setting:', error);
+    throw new Error('Failed to save virtual printer setting');
+  }
+}
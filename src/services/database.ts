@@ -0,0 +1,123 @@
+import { openDB } from 'idb';
+import { dataURLToBlob } from '../utils/dataUrl';
+
+// Single opener for morobooth-db so every service upgrades the schema the same way.
+// Whichever service opens the database first runs the upgrade, so all stores live here.
+
+export const DB_NAME = 'morobooth-db';
+export const DB_VERSION = 6;
+
+export const SESSION_STORE = 'sessions';
+export const PHOTO_STORE = 'photos';
+export const PRINT_JOB_STORE = 'print_jobs';
+
+export async function getDB() {
+  return openDB(DB_NAME, DB_VERSION, {
+    upgrade(db, oldVersion, newVersion, transaction) {
+      // Create sessions store
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE, { keyPath: 'sessionCode' });
+      }
+
+      // Create photos store if it doesn't exist
+      if (!db.objectStoreNames.contains(PHOTO_STORE)) {
+        const store = db.createObjectStore(PHOTO_STORE, { keyPath: 'id' });
+        store.createIndex('sessionCode', 'sessionCode');
+        store.createIndex('uploaded', 'uploaded');
+      } else if (oldVersion < 3) {
+        // Migration from version 2 to 3: add supabasePath field to existing records
+        console.log('Migrating database from version', oldVersion, 'to', newVersion);
+        const store = transaction.objectStore(PHOTO_STORE);
+        
+        // Get all existing photos and add supabasePath field
+        // Use native IDB API within upgrade transaction
+        const nativeStore = store as unknown as IDBObjectStore;
+        const request = nativeStore.openCursor();
+        const updatePromises: Promise<void>[] = [];
+        
+        request.onsuccess = (event: Event) => {
+          const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (cursor) {
+            const photo = cursor.value;
+            // Add supabasePath field if it doesn't exist
+            if (photo && !('supabasePath' in photo)) {
+              photo.supabasePath = undefined;
+              const updateRequest = cursor.update(photo);
+              updatePromises.push(
+                new Promise<void>((resolve, reject) => {
+                  updateRequest.onsuccess = () => {
+                    console.log('Migrated photo:', photo.id);
+                    resolve();
+                  };
+                  updateRequest.onerror = (err: Event) => {
+                    console.error('Failed to migrate photo:', photo.id, err);
+                    reject(err);
+                  };
+                })
+              );
+            }
+            cursor.continue();
+          } else {
+            // All records processed
+            Promise.all(updatePromises).then(() => {
+              console.log('Database migration completed');
+            }).catch((err: unknown) => {
+              console.error('Migration error:', err);
+            });
+          }
+        };
+        
+        request.onerror = (event: Event) => {
+          console.error('Migration cursor error:', event);
+        };
+      }
+
+      // Version 6: photo images move from base64 data URLs to Blobs (a third smaller, fast to read)
+      if (oldVersion > 0 && oldVersion < 6 && db.objectStoreNames.contains(PHOTO_STORE)) {
+        const nativeStore = transaction.objectStore(PHOTO_STORE) as unknown as IDBObjectStore;
+        const request = nativeStore.openCursor();
+        let migrated = 0;
+
+        request.onsuccess = (event: Event) => {
+          const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) {
+            console.log(`Moved ${migrated} photos to Blob storage`);
+            return;
+          }
+          const photo = cursor.value;
+          if (photo && typeof photo.imageDataURL === 'string' && photo.imageDataURL.startsWith('data:') && !photo.files) {
+            try {
+              const { imageDataURL, colorImageDataURL, motion, ...rest } = photo;
+              const files: Record<string, Blob> = { image: dataURLToBlob(imageDataURL) };
+              if (colorImageDataURL) files.color = dataURLToBlob(colorImageDataURL);
+              if (motion?.gifDataURL) files.gif = dataURLToBlob(motion.gifDataURL);
+              if (motion?.boomerangDataURL) files.boomerang = dataURLToBlob(motion.boomerangDataURL);
+              cursor.update({
+                ...rest,
+                imageDataURL: '',
+                files,
+                ...(motion ? { motion: { gifPath: motion.gifPath, boomerangPath: motion.boomerangPath } } : {})
+              });
+              migrated++;
+            } catch (err) {
+              // Leave the record as it was; reads still fall back to imageDataURL
+              console.error('Failed to move photo to Blob storage:', photo.id, err);
+            }
+          }
+          cursor.continue();
+        };
+
+        request.onerror = (event: Event) => {
+          console.error('Blob migration cursor error:', event);
+        };
+      }
+
+      // Version 5: persistent print queue
+      if (!db.objectStoreNames.contains(PRINT_JOB_STORE)) {
+        const store = db.createObjectStore(PRINT_JOB_STORE, { keyPath: 'id' });
+        store.createIndex('state', 'state');
+        store.createIndex('photoId', 'photoId');
+      }
+    }
+  });
+}
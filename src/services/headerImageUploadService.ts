@@ -2,7 +2,9 @@ import { supabase, isSupabaseConfigured } from '../config/supabase';
 
 const BUCKET_NAME = 'config-images'; // Bucket untuk config images
 const MAX_WIDTH = 1200; // Max width untuk header image
+const OVERLAY_MAX_WIDTH = 1600; // Frame art covers the whole strip (80mm paper = 1280px)
 const MAX_FILE_SIZE = 1024 * 1024; // 1MB max file size setelah optimasi
+const MAX_FONT_SIZE = 2 * 1024 * 1024; // Fonts are uploaded as-is
 const WEBP_QUALITY = 0.85; // WebP quality (0-1)
 
 export interface ImageUploadResult {
@@ -13,11 +15,16 @@ export interface ImageUploadResult {
 
 /**
  * Convert image file to optimized WebP Blob
- * - Resize if too large (max 1200px width)
+ * - Resize if too large (max 1200px width by default)
  * - Convert to WebP format
  * - Compress to reduce file size
+ * Without WebP support it falls back to `fallbackType` (PNG keeps transparency).
  */
-async function optimizeImageToWebP(file: File): Promise<Blob> {
+async function optimizeImageToWebP(
+  file: File,
+  maxWidth = MAX_WIDTH,
+  fallbackType: 'image/jpeg' | 'image/png' = 'image/jpeg'
+): Promise<Blob> {
   return new Promise((resolve, reject) => {
     const img = new Image();
     const canvas = document.createElement('canvas');
@@ -34,9 +41,9 @@ async function optimizeImageToWebP(file: File): Promise<Blob> {
         let width = img.width;
         let height = img.height;
         
-        if (width > MAX_WIDTH) {
-          height = (height * MAX_WIDTH) / width;
-          width = MAX_WIDTH;
+        if (width > maxWidth) {
+          height = (height * maxWidth) / width;
+          width = maxWidth;
         }
         
         canvas.width = width;
@@ -50,16 +57,16 @@ async function optimizeImageToWebP(file: File): Promise<Blob> {
           canvas.toBlob(
             (blob) => {
               if (!blob) {
-                // WebP not supported, fallback to JPEG
+                // WebP not supported, fallback to JPEG/PNG
                 canvas.toBlob(
-                  (jpegBlob) => {
-                    if (!jpegBlob) {
+                  (fallbackBlob) => {
+                    if (!fallbackBlob) {
                       reject(new Error('Failed to convert image'));
                       return;
                     }
-                    resolve(jpegBlob);
+                    resolve(fallbackBlob);
                   },
-                  'image/jpeg',
+                  fallbackType,
                   quality
                 );
                 return;
@@ -102,10 +109,28 @@ async function optimizeImageToWebP(file: File): Promise<Blob> {
   });
 }
 
+const EXTENSIONS: Record<string, string> = {
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'font/ttf': 'ttf',
+  'font/otf': 'otf',
+  'font/woff': 'woff',
+  'font/woff2': 'woff2'
+};
+
+// Browsers report fonts inconsistently (often ''), so go by extension
+const FONT_TYPES: Record<string, string> = {
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  woff: 'font/woff',
+  woff2: 'font/woff2'
+};
+
 /**
- * Upload header image to Supabase Storage as WebP
+ * Upload an optimized image (or a font) to the config bucket (falls back to the photos bucket) and return its URL
  */
-export async function uploadHeaderImage(file: File, sessionCode?: string): Promise<ImageUploadResult> {
+async function uploadConfigFile(blob: Blob, folder: string, prefix: string): Promise<ImageUploadResult> {
   if (!isSupabaseConfigured() || !supabase) {
     return {
       success: false,
@@ -114,24 +139,20 @@ export async function uploadHeaderImage(file: File, sessionCode?: string): Promi
   }
   
   try {
-    // Optimize image to WebP (with JPEG fallback)
-    const optimizedBlob = await optimizeImageToWebP(file);
-    
-    // Detect blob type (WebP or JPEG fallback)
-    const isWebP = optimizedBlob.type === 'image/webp';
-    const extension = isWebP ? 'webp' : 'jpg';
-    const contentType = isWebP ? 'image/webp' : 'image/jpeg';
+    // Detect blob type (WebP or fallback)
+    const contentType = EXTENSIONS[blob.type] ? blob.type : 'image/jpeg';
+    const extension = EXTENSIONS[contentType];
     
     // Generate unique filename
     const timestamp = Date.now();
     const randomId = Math.random().toString(36).substring(2, 9);
-    const filename = `header-${sessionCode || 'default'}-${timestamp}-${randomId}.${extension}`;
-    const filepath = `headers/${filename}`;
+    const filename = `${prefix}-${timestamp}-${randomId}.${extension}`;
+    const filepath = `${folder}/${filename}`;
     
     // Upload to Supabase Storage
     const { error: uploadError } = await supabase.storage
       .from(BUCKET_NAME)
-      .upload(filepath, optimizedBlob, {
+      .upload(filepath, blob, {
         contentType: contentType,
         upsert: false // Don't overwrite existing files
       });
@@ -142,7 +163,7 @@ export async function uploadHeaderImage(file: File, sessionCode?: string): Promi
         console.warn('Bucket not found, attempting fallback to photos bucket...');
         const { error: fallbackError } = await supabase.storage
           .from('photos')
-          .upload(`config/${filepath}`, optimizedBlob, {
+          .upload(`config/${filepath}`, blob, {
             contentType: contentType,
             upsert: false
           });
@@ -190,6 +211,30 @@ export async function uploadHeaderImage(file: File, sessionCode?: string): Promi
       success: true,
       url: signedData.signedUrl
     };
+  } catch (error) {
+    console.error(`Upload ${prefix} error:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Upload header image to Supabase Storage as WebP
+ */
+export async function uploadHeaderImage(file: File, sessionCode?: string): Promise<ImageUploadResult> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return {
+      success: false,
+      error: 'Supabase not configured'
+    };
+  }
+  
+  try {
+    // Optimize image to WebP (with JPEG fallback)
+    const optimizedBlob = await optimizeImageToWebP(file);
+    return await uploadConfigFile(optimizedBlob, 'headers', `header-${sessionCode || 'default'}`);
   } catch (error) {
     console.error('Upload header image error:', error);
     return {
@@ -200,9 +245,62 @@ export async function uploadHeaderImage(file: File, sessionCode?: string): Promi
 }
 
 /**
- * Delete header image from Supabase Storage
+ * Upload template overlay artwork (frames, stickers, corner logos) as WebP with alpha
+ */
+export async function uploadOverlayImage(file: File, sessionCode?: string): Promise<ImageUploadResult> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return {
+      success: false,
+      error: 'Supabase not configured'
+    };
+  }
+  
+  try {
+    // PNG fallback: JPEG would drop the transparency the overlay depends on
+    const optimizedBlob = await optimizeImageToWebP(file, OVERLAY_MAX_WIDTH, 'image/png');
+    return await uploadConfigFile(optimizedBlob, 'overlays', `overlay-${sessionCode || 'default'}`);
+  } catch (error) {
+    console.error('Upload overlay image error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Upload a TTF/OTF/WOFF font for printed text
+ */
+export async function uploadFontFile(file: File, sessionCode?: string): Promise<ImageUploadResult> {
+  if (!isSupabaseConfigured() || !supabase) {
+    return {
+      success: false,
+      error: 'Supabase not configured'
+    };
+  }
+
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  const contentType = FONT_TYPES[extension];
+  if (!contentType) {
+    return {
+      success: false,
+      error: 'Unsupported font file (use TTF, OTF, WOFF or WOFF2)'
+    };
+  }
+  if (file.size > MAX_FONT_SIZE) {
+    return {
+      success: false,
+      error: 'Font file is too large (max 2MB)'
+    };
+  }
+
+  return await uploadConfigFile(new Blob([file], { type: contentType }), 'fonts', `font-${sessionCode || 'default'}`);
+}
+
+/**
+ * Delete a header image, overlay or font from Supabase Storage
  */
-export async function deleteHeaderImage(imageUrl: string): Promise<boolean> {
+export async function deleteConfigImage(imageUrl: string): Promise<boolean> {
   if (!isSupabaseConfigured() || !supabase) {
     return false;
   }
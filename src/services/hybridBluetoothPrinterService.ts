@@ -1,21 +1,40 @@
 import { UniversalBluetoothPrinterService } from './universalBluetoothPrinterService';
 import { nativeBridge } from './nativeBridgeService';
 import { createStreetCoffeeReceipt } from './receiptTemplates';
-import { DEFAULT_PRINTER_OUTPUT, getPrinterOutputSettings, getPrinterSizeSettings } from './configService';
+import { DEFAULT_PRINTER_OUTPUT, getPrinterOutputSettings, getPrinterSizeSettings, getVirtualPrinterEnabled, hasSavedPrinterOutputSettings, type PrinterOutputSettings } from './configService';
+import { getFallbackPrinterProfile, resolvePrinterProfile, type PrinterProfile } from './printerProfileService';
+import { getVirtualPrinterService, VIRTUAL_PRINTER_NAME, type VirtualPrinterService } from './virtualPrinterService';
+import { encodeImageJob, type MonoBitmap } from '../shared/escpos';
+import type { PrinterStatusReport } from '../shared/printerStatus';
+import { convertToDitheredBitmapAsync } from '../utils/imageWorkerClient';
 
 interface PrinterInfo {
   name: string;
   width?: number;
   dpi?: number;
   address?: string;
+  profileId?: string;
 }
 
+interface PendingNativePrint {
+  resolve: (success: boolean) => void;
+  reject: (error: Error) => void;
+  timer: number;
+}
+
+// Native prints report back via PRINT_SUCCESS / PRINT_FAILED; give up if neither arrives
+const NATIVE_PRINT_TIMEOUT_MS = 90000;
+
 export class HybridBluetoothPrinterService {
   private webBluetooth: UniversalBluetoothPrinterService | null = null;
   private isNative: boolean = false;
   private isConnected: boolean = false;
   private printerInfo: PrinterInfo | null = null;
+  private profile: PrinterProfile | null = null;
   private listenersSetup: boolean = false;
+  private pendingPrint: PendingNativePrint | null = null;
+  private virtualPrinter: VirtualPrinterService | null = null;
+  private printerStatus: PrinterStatusReport | null = null;
 
   constructor() {
     this.isNative = nativeBridge.isNativeApp() && nativeBridge.hasNativeBluetooth();
@@ -42,15 +61,17 @@ export class HybridBluetoothPrinterService {
       this.isConnected = data.connected;
       const deviceName = data.device?.name ?? 'Native Bluetooth Printer';
       
-      // Detect width from device name or use settings
-      const detectedWidth = this.detectWidthFromName(deviceName);
+      // Resolve printer profile from device name, or fall back to settings
+      this.profile = this.resolveProfile(deviceName);
       
       this.printerInfo = { 
         name: deviceName, 
         address: data.device?.id,
-        width: detectedWidth.width,
-        dpi: detectedWidth.dpi
+        width: this.profile.width,
+        dpi: this.profile.dpi,
+        profileId: this.profile.id
       };
+      this.sendProfileToNative();
       
       // Notify UI
       const event = new CustomEvent('bluetoothStatusChange', { 
@@ -62,6 +83,9 @@ export class HybridBluetoothPrinterService {
     nativeBridge.onMessage('BLUETOOTH_DISCONNECTED', () => {
       this.isConnected = false;
       this.printerInfo = null;
+      this.profile = null;
+      this.setPrinterStatus(null);
+      this.settlePendingPrint(new Error('Printer disconnected during print'));
       
       // Notify UI
       const event = new CustomEvent('bluetoothStatusChange', { 
@@ -72,6 +96,9 @@ export class HybridBluetoothPrinterService {
 
     nativeBridge.onMessage('BLUETOOTH_ERROR', (data) => {
       console.error('Native Bluetooth error:', data.error);
+      if (data.errorCode === 'PRINT_ERROR') {
+        this.settlePendingPrint(new Error(data.error || 'Print failed'));
+      }
       // Dispatch custom event instead of alert
       const event = new CustomEvent('bluetoothError', { 
         detail: { error: data.error } 
@@ -82,6 +109,7 @@ export class HybridBluetoothPrinterService {
     nativeBridge.onMessage('PRINT_SUCCESS', (data) => {
       if (data.success) {
         console.log('Print successful via native');
+        this.settlePendingPrint();
         // Notify UI
         const event = new CustomEvent('printProgress', { 
           detail: { status: 'Printed', progress: 100 } 
@@ -90,39 +118,83 @@ export class HybridBluetoothPrinterService {
       }
     });
 
+    nativeBridge.onMessage('PRINT_FAILED', (data) => {
+      console.error('Native print failed:', data?.error);
+      if (data?.status) {
+        this.setPrinterStatus(data.status);
+      }
+      this.settlePendingPrint(new Error(data?.error || 'Print failed'));
+    });
+
+    nativeBridge.onMessage('PRINTER_STATUS', (data) => {
+      if (!this.isConnected) return;
+      this.setPrinterStatus(data);
+    });
+
     nativeBridge.onMessage('PRINT_PROGRESS', (data) => {
       // Trigger UI update
       const event = new CustomEvent('printProgress', { detail: data });
       window.dispatchEvent(event);
     });
+
+    // Re-resolve when the admin edits profiles while a native printer is connected
+    window.addEventListener('printerProfilesChanged', () => {
+      if (!this.isConnected || !this.printerInfo) return;
+      this.profile = this.resolveProfile(this.printerInfo.name);
+      this.printerInfo = {
+        ...this.printerInfo,
+        width: this.profile.width,
+        dpi: this.profile.dpi,
+        profileId: this.profile.id
+      };
+      this.sendProfileToNative();
+    });
   }
 
-  private detectWidthFromName(deviceName: string): { width: number; dpi: number } {
-    // Try to detect from device name first
-    const n = deviceName.toLowerCase();
-    
-    // Check for 80mm indicators
-    if (n.includes('80') || n.includes('80mm')) {
-      return { width: 576, dpi: 203 }; // 80mm = 576px at 203 DPI
+  /**
+   * Store the latest paper/cover status and notify the UI when the state changes.
+   */
+  private setPrinterStatus(status: PrinterStatusReport | null): void {
+    const changed = status?.state !== this.printerStatus?.state;
+    this.printerStatus = status;
+    if (changed) {
+      window.dispatchEvent(new CustomEvent('printerStatusChange', { detail: { status } }));
     }
-    
-    // Check for known 58mm brands
-    if (n.includes('eppos') || n.includes('epx') || 
-        n.includes('xprinter') || n.includes('xp-p300') ||
-        n.includes('hoin') || n.includes('h58') ||
-        n.includes('bellav') || n.includes('58a') ||
-        n.includes('58') || n.includes('58mm')) {
-      return { width: 384, dpi: 203 }; // 58mm = 384px at 203 DPI
+  }
+
+  /**
+   * Resolve (no error) or reject the native print currently waiting for a result.
+   */
+  private settlePendingPrint(error?: Error): void {
+    const pending = this.pendingPrint;
+    if (!pending) return;
+    this.pendingPrint = null;
+    window.clearTimeout(pending.timer);
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve(true);
     }
+  }
+
+  private resolveProfile(deviceName: string): PrinterProfile {
+    const profile = resolvePrinterProfile(deviceName);
+    if (profile) return profile;
     
     // Fallback to settings
-    const settings = getPrinterSizeSettings();
-    if (settings.thermalSize === '80mm') {
-      return { width: 576, dpi: 203 };
-    }
-    
-    // Default to 58mm
-    return { width: 384, dpi: 203 };
+    return getFallbackPrinterProfile(getPrinterSizeSettings().thermalSize);
+  }
+
+  private sendProfileToNative(): void {
+    // Native side uses the profile for GATT service/characteristic preference, BLE chunking and
+    // ESC/POS output. Only a profile matching the device is sent: the generic fallback would swap
+    // the native defaults (GS v 0 raster, left, 2 feeds) for the web app's ESC * output.
+    const profile = this.printerInfo ? resolvePrinterProfile(this.printerInfo.name) : null;
+    if (!profile) return;
+    nativeBridge.sendMessage('SET_PRINTER_PROFILE', {
+      deviceId: this.printerInfo?.address,
+      profile
+    });
   }
 
   async scanPrinters(): Promise<unknown[]> {
@@ -134,6 +206,9 @@ export class HybridBluetoothPrinterService {
   }
 
   async connect(address?: string): Promise<boolean> {
+    if (getVirtualPrinterEnabled()) {
+      return this.connectVirtual();
+    }
     if (this.isNative) {
       if (address) {
         nativeBridge.sendMessage('CONNECT_BLUETOOTH_PRINTER', { deviceId: address });
@@ -154,36 +229,97 @@ export class HybridBluetoothPrinterService {
           this.printerInfo = {
             name: info.name,
             width: info.width,
-            dpi: info.dpi
+            dpi: info.dpi,
+            profileId: info.profileId
           };
         }
+        // Native connections are announced by BLUETOOTH_CONNECTED; do the same for Web Bluetooth
+        window.dispatchEvent(new CustomEvent('bluetoothStatusChange', {
+          detail: { connected: true, info: this.printerInfo }
+        }));
       }
       return connected;
     }
   }
 
+  /**
+   * Attach the in-app virtual printer. Jobs are encoded exactly as for a real printer.
+   */
+  private connectVirtual(): boolean {
+    this.virtualPrinter = getVirtualPrinterService();
+    this.profile = this.resolveProfile(VIRTUAL_PRINTER_NAME);
+    this.isConnected = true;
+    this.printerInfo = {
+      name: VIRTUAL_PRINTER_NAME,
+      width: this.profile.width,
+      dpi: this.profile.dpi,
+      profileId: this.profile.id
+    };
+    window.dispatchEvent(new CustomEvent('bluetoothStatusChange', {
+      detail: { connected: true, info: this.printerInfo }
+    }));
+    return true;
+  }
+
   async disconnect(): Promise<void> {
-    if (this.isNative) {
+    if (this.virtualPrinter) {
+      this.virtualPrinter = null;
+      window.dispatchEvent(new CustomEvent('bluetoothStatusChange', {
+        detail: { connected: false, info: null }
+      }));
+    } else if (this.isNative) {
       nativeBridge.sendMessage('DISCONNECT_BLUETOOTH_PRINTER');
     } else if (this.webBluetooth) {
       await this.webBluetooth.disconnect();
+      window.dispatchEvent(new CustomEvent('bluetoothStatusChange', {
+        detail: { connected: false, info: null }
+      }));
     }
     this.isConnected = false;
     this.printerInfo = null;
+    this.profile = null;
+    this.setPrinterStatus(null);
   }
 
+  /**
+   * Print an image and resolve once the printer has the whole job.
+   * Native: waits for PRINT_SUCCESS; rejects on PRINT_FAILED, a print error, disconnect or timeout.
+   */
   async printImage(imageDataURL: string, width: number = 384): Promise<boolean> {
+    if (this.virtualPrinter) {
+      const profile = this.profile ?? getFallbackPrinterProfile(getPrinterSizeSettings().thermalSize);
+      const bitmap = await this.renderDitheredBitmap(imageDataURL, width);
+      const payload = encodeImageJob(bitmap, {
+        imageMode: profile.imageMode,
+        alignment: profile.alignment,
+        density: profile.density,
+        feedLines: profile.feedLines,
+        cutMode: profile.cutMode
+      });
+      this.virtualPrinter.write(payload, profile.width);
+      return true;
+    }
     if (this.isNative) {
+      if (this.pendingPrint) {
+        throw new Error('Another print is still in progress');
+      }
+      
       // Convert image to 1-bit dithered bitmap
-      const bitmap = await this.convertToDitheredBitmap(imageDataURL, width);
+      const bitmap = await this.renderDitheredBitmap(imageDataURL, width);
       
-      nativeBridge.sendMessage('PRINT_DITHERED_BITMAP', {
-        bitmapBase64: bitmap.base64,
-        width: bitmap.width,
-        height: bitmap.height
+      const result = new Promise<boolean>((resolve, reject) => {
+        const timer = window.setTimeout(() => {
+          this.settlePendingPrint(new Error(`Print timeout after ${NATIVE_PRINT_TIMEOUT_MS / 1000} seconds`));
+        }, NATIVE_PRINT_TIMEOUT_MS);
+        this.pendingPrint = { resolve, reject, timer };
       });
       
-      return true;
+      // A transfer that can't be completed fails the print right away instead of waiting for the timeout
+      nativeBridge
+        .sendBitmap(this.arrayToBase64(bitmap.pixels), bitmap.width, bitmap.height)
+        .catch((error: Error) => this.settlePendingPrint(error));
+      
+      return result;
     } else {
       // Web Bluetooth fallback
       return await this.webBluetooth?.printImage(imageDataURL) || false;
@@ -197,34 +333,36 @@ export class HybridBluetoothPrinterService {
     return this.printImage(receiptDataURL, targetWidth);
   }
 
-  private async convertToDitheredBitmap(
+  private async renderDitheredBitmap(
     imageDataURL: string,
     targetWidth: number
-  ): Promise<{ base64: string; width: number; height: number }> {
+  ): Promise<MonoBitmap> {
     const IMAGE_LOAD_TIMEOUT = 10000; // 10 seconds timeout
     
     // Load printer output settings from configService (consistent with AdminPage)
-    const customSettings = getPrinterOutputSettings();
+    // Until the admin saves output settings, the printer profile's dither defaults apply
+    const customSettings: PrinterOutputSettings = hasSavedPrinterOutputSettings() ? getPrinterOutputSettings() : {};
     console.log('Native printer: Using settings from configService:', customSettings);
+    const profile = this.profile ?? getFallbackPrinterProfile(getPrinterSizeSettings().thermalSize);
     
     // Get settings with defaults
     // Use explicit checks to preserve 0 and false values
-    // Use DEFAULT_PRINTER_OUTPUT from configService for consistency
     const threshold = customSettings.threshold !== undefined 
       ? customSettings.threshold 
-      : DEFAULT_PRINTER_OUTPUT.threshold!;
+      : profile.threshold;
     const gamma = customSettings.gamma !== undefined 
       ? customSettings.gamma 
-      : DEFAULT_PRINTER_OUTPUT.gamma!;
+      : profile.gamma;
     const applyDithering = customSettings.dithering !== undefined 
       ? customSettings.dithering 
-      : DEFAULT_PRINTER_OUTPUT.dithering!;
+      : profile.dithering;
     const sharpenAmount = customSettings.sharpen !== undefined 
       ? customSettings.sharpen 
-      : DEFAULT_PRINTER_OUTPUT.sharpen!;
+      : profile.sharpen;
+    const ditherAlgorithm = customSettings.printDitherAlgorithm ?? DEFAULT_PRINTER_OUTPUT.printDitherAlgorithm;
     
-    return Promise.race<{ base64: string; width: number; height: number }>([
-      new Promise<{ base64: string; width: number; height: number }>((resolve, reject) => {
+    return Promise.race<MonoBitmap>([
+      new Promise<MonoBitmap>((resolve, reject) => {
         const img = new Image();
         let resolved = false;
         
@@ -252,82 +390,50 @@ export class HybridBluetoothPrinterService {
             ctx.drawImage(img, 0, 0, targetWidth, targetHeight);
             const imageData = ctx.getImageData(0, 0, targetWidth, targetHeight);
             
-            // Apply sharpen if enabled
-            if (sharpenAmount > 0) {
-              this.applySharpenToImageData(imageData, sharpenAmount);
-            }
-            
-            // Apply gamma correction
-            if (gamma !== 1) {
-              this.applyGammaToImageData(imageData, gamma);
-            }
-            
-            // Apply dithering based on settings
-            if (applyDithering) {
-              // Use ordered dithering for native (faster than Floyd-Steinberg)
-              this.applyOrderedDither(imageData);
-            } else {
-              // Simple threshold without dithering
-              const data = imageData.data;
-              for (let i = 0; i < data.length; i += 4) {
-                const gray = data[i]; // R channel (already grayscale)
-                const value = gray < threshold ? 0 : 255;
-                data[i] = value;
-                data[i + 1] = value;
-                data[i + 2] = value;
-              }
-            }
-            
-            // Convert to 1-bit bitmap (0=white, 1=black)
-            const bitmap = new Uint8Array(targetWidth * targetHeight);
-            let blackCount = 0;
-            let whiteCount = 0;
-            for (let i = 0; i < imageData.data.length; i += 4) {
-              const pixelIndex = i / 4;
-              const gray = imageData.data[i]; // R channel
-              // Optimize: if dithering was not applied, imageData is already 0 or 255
-              // So we can use direct comparison instead of redundant threshold check
-              const v = applyDithering 
-                ? (gray < threshold ? 1 : 0)  // Dithering applied: may have values 0-255, use threshold
-                : (gray === 0 ? 1 : 0);        // No dithering: already 0 or 255, use direct check
-              bitmap[pixelIndex] = v;
-              if (v === 1) blackCount++; else whiteCount++;
-            }
-            
-            // Convert to base64 (chunked for large arrays)
-            const base64 = this.arrayToBase64(bitmap);
-            
-            // Debug stats untuk memastikan ada black pixels
-            console.log('Dithered bitmap stats:', {
-              width: targetWidth,
-              height: targetHeight,
-              totalPixels: blackCount + whiteCount,
-              blackPixels: blackCount,
-              whitePixels: whiteCount,
-              blackPercentage: (blackCount + whiteCount) > 0 ? ((blackCount / (blackCount + whiteCount)) * 100).toFixed(2) + '%' : '0%',
+            // Sharpen, gamma, dither/threshold and packing run in the image worker
+            convertToDitheredBitmapAsync(imageData, {
               threshold,
               gamma,
               sharpen: sharpenAmount,
               dithering: applyDithering,
-              usingCustomSettings: true
-            });
-            
-            // Enhanced debug logging for chunking
-            console.log('Dithered bitmap conversion:', {
-              width: targetWidth,
-              height: targetHeight,
-              bitmapArrayLength: bitmap.length,
-              base64Length: base64.length,
-              expectedPackedBytes: Math.ceil(targetWidth / 8) * targetHeight,
-              expectedUnpackedPixels: targetWidth * targetHeight,
-              willBeChunked: true // Always true now
-            });
-
-            resolve({
-              base64,
-              width: targetWidth,
-              height: targetHeight
-            });
+              algorithm: ditherAlgorithm,
+              source: 'grayscale'
+            }).then((bitmap) => {
+              let blackCount = 0;
+              for (let i = 0; i < bitmap.pixels.length; i++) {
+                blackCount += bitmap.pixels[i];
+              }
+              const whiteCount = bitmap.pixels.length - blackCount;
+
+              // Debug stats untuk memastikan ada black pixels
+              console.log('Dithered bitmap stats:', {
+                width: targetWidth,
+                height: targetHeight,
+                totalPixels: blackCount + whiteCount,
+                blackPixels: blackCount,
+                whitePixels: whiteCount,
+                blackPercentage: (blackCount + whiteCount) > 0 ? ((blackCount / (blackCount + whiteCount)) * 100).toFixed(2) + '%' : '0%',
+                threshold,
+                gamma,
+                sharpen: sharpenAmount,
+                dithering: applyDithering,
+                ditherAlgorithm,
+                profile: profile.id,
+                usingCustomSettings: hasSavedPrinterOutputSettings()
+              });
+
+              // Enhanced debug logging for chunking
+              console.log('Dithered bitmap conversion:', {
+                width: targetWidth,
+                height: targetHeight,
+                bitmapArrayLength: bitmap.pixels.length,
+                expectedPackedBytes: Math.ceil(targetWidth / 8) * targetHeight,
+                expectedUnpackedPixels: targetWidth * targetHeight,
+                willBeChunked: true // Always true now
+              });
+
+              resolve(bitmap);
+            }, reject);
           } catch (error) {
             reject(error instanceof Error ? error : new Error('Failed to process image'));
           }
@@ -341,7 +447,7 @@ export class HybridBluetoothPrinterService {
         
         img.src = imageDataURL;
       }),
-      new Promise<{ base64: string; width: number; height: number }>((_, reject) => {
+      new Promise<MonoBitmap>((_, reject) => {
         setTimeout(() => {
           reject(new Error(`Image conversion timeout after ${IMAGE_LOAD_TIMEOUT / 1000} seconds`));
         }, IMAGE_LOAD_TIMEOUT);
@@ -362,83 +468,6 @@ export class HybridBluetoothPrinterService {
     return btoa(segments.join(''));
   }
 
-  private applySharpenToImageData(imageData: ImageData, amount: number): void {
-    const strength = Math.min(Math.max(amount, 0), 1);
-    if (strength <= 0) return;
-
-    const { data, width, height } = imageData;
-    const original = new Uint8ClampedArray(data);
-    const kernel = [
-      0, -strength, 0,
-      -strength, 1 + 4 * strength, -strength,
-      0, -strength, 0
-    ];
-
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        let value = 0;
-
-        for (let ky = -1; ky <= 1; ky++) {
-          const sampleY = Math.min(height - 1, Math.max(0, y + ky));
-          for (let kx = -1; kx <= 1; kx++) {
-            const sampleX = Math.min(width - 1, Math.max(0, x + kx));
-            const weight = kernel[(ky + 1) * 3 + (kx + 1)];
-            const idx = (sampleY * width + sampleX) * 4;
-            value += original[idx] * weight; // Use R channel (grayscale)
-          }
-        }
-
-        const destIdx = (y * width + x) * 4;
-        const clamped = Math.min(255, Math.max(0, Math.round(value)));
-        data[destIdx] = clamped;
-        data[destIdx + 1] = clamped;
-        data[destIdx + 2] = clamped;
-      }
-    }
-  }
-
-  private applyGammaToImageData(imageData: ImageData, gamma: number): void {
-    if (gamma === 1) return;
-
-    const { data } = imageData;
-    for (let i = 0; i < data.length; i += 4) {
-      const gray = data[i]; // R channel (grayscale)
-      const normalized = gray / 255;
-      const gammaCorrected = Math.pow(normalized, gamma);
-      const adjusted = Math.min(255, Math.max(0, Math.round(gammaCorrected * 255)));
-      data[i] = adjusted;
-      data[i + 1] = adjusted;
-      data[i + 2] = adjusted;
-    }
-  }
-
-  private applyOrderedDither(imageData: ImageData): void {
-    const M4 = [
-      [0, 8, 2, 10],
-      [12, 4, 14, 6],
-      [3, 11, 1, 9],
-      [15, 7, 13, 5],
-    ];
-    
-    const M = M4;
-    const n = M.length;
-    const n2 = n * n;
-    const scale = 255 / n2;
-    
-    for (let y = 0; y < imageData.height; y++) {
-      for (let x = 0; x < imageData.width; x++) {
-        const idx = (y * imageData.width + x) * 4;
-        const lum = imageData.data[idx];
-        const threshold = M[y % n][x % n] * scale;
-        const v = lum < threshold ? 0 : 255;
-        
-        imageData.data[idx] = v;
-        imageData.data[idx + 1] = v;
-        imageData.data[idx + 2] = v;
-      }
-    }
-  }
-
   getPrinterInfo(): PrinterInfo | null {
     return this.printerInfo;
   }
@@ -459,6 +488,13 @@ export class HybridBluetoothPrinterService {
   getIsConnected(): boolean {
     return this.isConnected;
   }
+
+  /**
+   * Last status reported by the printer, or null when unknown (no printer or no status support).
+   */
+  getPrinterStatus(): PrinterStatusReport | null {
+    return this.printerStatus;
+  }
 }
 
 // Export singleton instance
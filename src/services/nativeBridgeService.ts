@@ -1,11 +1,51 @@
-export interface NativeMessage {
-  type: string;
-  data?: any;
+import {
+  BRIDGE_ACK_TIMEOUT_MS,
+  BRIDGE_CHUNK_SIZE,
+  BRIDGE_MAX_RETRIES,
+  BRIDGE_PROTOCOL_VERSION,
+  BRIDGE_TRANSFER_TIMEOUT_MS,
+  BRIDGE_TRANSFER_WINDOW,
+  createTransferId,
+  parseBridgeMessage,
+  splitTransferChunks,
+  type NativeToWebMessage,
+  type NativeToWebMessages,
+  type PrintTransferStart,
+  type WebToNativeMessage,
+  type WebToNativeMessages
+} from '../shared/bridgeProtocol';
+
+export type { NativeToWebMessage as NativeMessage } from '../shared/bridgeProtocol';
+
+type MessageHandler<T extends keyof NativeToWebMessages> = (data: NativeToWebMessages[T]) => void;
+
+// Wait this long for HELLO_ACK before assuming an app that predates the handshake
+const HANDSHAKE_TIMEOUT_MS = 2000;
+const TRANSFER_TICK_MS = 500;
+
+interface OutgoingTransfer {
+  id: string;
+  start: PrintTransferStart;
+  chunks: string[];
+  ready: boolean;
+  startSentAt: number;
+  startRetries: number;
+  nextChunk: number;
+  sentAt: Map<number, number>; // unacknowledged chunk -> last send time
+  retries: Map<number, number>;
+  lastProgressAt: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: number;
 }
 
 export class NativeBridgeService {
-  private messageHandlers: Map<string, (data: any) => void> = new Map();
+  private messageHandlers: Map<string, (data: unknown) => void> = new Map();
   private initialized: boolean = false;
+  private nativeProtocolVersion: number | null = null;
+  private handshake: Promise<number> | null = null;
+  private resolveHandshake: ((version: number) => void) | null = null;
+  private transfers: Map<string, OutgoingTransfer> = new Map();
 
   isNativeApp(): boolean {
     return window.isNativeApp === true;
@@ -15,92 +55,260 @@ export class NativeBridgeService {
     return window.hasNativeBluetooth === true;
   }
 
-  sendMessage(type: string, data?: any): void {
+  /**
+   * Protocol version reported by the native app, or null before / without a handshake.
+   */
+  getNativeProtocolVersion(): number | null {
+    return this.nativeProtocolVersion;
+  }
+
+  sendMessage<T extends keyof WebToNativeMessages>(
+    type: T,
+    ...data: undefined extends WebToNativeMessages[T] ? [WebToNativeMessages[T]?] : [WebToNativeMessages[T]]
+  ): void {
     if (!this.isNativeApp()) {
       console.warn('Not in native app, message not sent:', type);
       return;
     }
+    this.post({ type, data: data[0] } as WebToNativeMessage);
+  }
 
-    // Force chunking for all PRINT_DITHERED_BITMAP messages
-    if (type === 'PRINT_DITHERED_BITMAP' && data?.bitmapBase64) {
-      const base64 = data.bitmapBase64;
-      const chunkSize = 5000; // Safe limit accounting for JSON overhead
-      const totalChunks = Math.ceil(base64.length / chunkSize);
-      
-      console.log('Bridge: preparing print payload', {
-        totalChunks,
-        totalLength: base64.length,
-        width: data.width,
-        height: data.height,
-        chunkSize
-      });
-      
-      // Send first chunk as START message
-      const firstChunk = base64.slice(0, chunkSize);
-      const startMessage: NativeMessage = {
-        type: 'PRINT_DITHERED_BITMAP_START',
-        data: {
-          width: data.width,
-          height: data.height,
-          totalChunks,
-          bitmapBase64: firstChunk,
-          chunkIndex: 0,
-          isLast: totalChunks === 1 // If only one chunk, mark as last
-        }
+  private post(message: WebToNativeMessage): void {
+    if (window.ReactNativeWebView) {
+      window.ReactNativeWebView.postMessage(JSON.stringify(message));
+    }
+  }
+
+  onMessage<T extends keyof NativeToWebMessages>(type: T, handler: MessageHandler<T>): void {
+    this.messageHandlers.set(type, handler as (data: unknown) => void);
+  }
+
+  /**
+   * Send a dithered bitmap to the native app. Resolves once every chunk has arrived
+   * (the print result still comes as PRINT_SUCCESS / PRINT_FAILED).
+   */
+  async sendBitmap(bitmapBase64: string, width: number, height: number): Promise<void> {
+    if (!this.isNativeApp()) {
+      throw new Error('Not in native app');
+    }
+    const version = await this.ensureHandshake();
+    if (version < 2) {
+      this.sendLegacyBitmap(bitmapBase64, width, height);
+      return;
+    }
+
+    const chunks = splitTransferChunks(bitmapBase64, BRIDGE_CHUNK_SIZE);
+    const id = createTransferId();
+    console.log('Bridge: starting transfer', { id, totalChunks: chunks.length, totalLength: bitmapBase64.length, width, height });
+
+    return new Promise<void>((resolve, reject) => {
+      const now = Date.now();
+      const transfer: OutgoingTransfer = {
+        id,
+        start: { transferId: id, width, height, totalChunks: chunks.length, totalLength: bitmapBase64.length },
+        chunks,
+        ready: false,
+        startSentAt: now,
+        startRetries: 0,
+        nextChunk: 0,
+        sentAt: new Map(),
+        retries: new Map(),
+        lastProgressAt: now,
+        resolve,
+        reject,
+        timer: window.setInterval(() => this.checkTransfer(transfer), TRANSFER_TICK_MS)
       };
-      
-      if (window.ReactNativeWebView) {
-        window.ReactNativeWebView.postMessage(JSON.stringify(startMessage));
-        console.log('Bridge: sent START chunk', {
-          chunkIndex: 0,
-          totalChunks,
-          chunkLength: firstChunk.length,
-          isLast: totalChunks === 1
-        });
+      this.transfers.set(id, transfer);
+      this.sendTransferStart(transfer);
+    });
+  }
+
+  private sendTransferStart(transfer: OutgoingTransfer): void {
+    transfer.startSentAt = Date.now();
+    this.post({ type: 'PRINT_TRANSFER_START', data: transfer.start });
+  }
+
+  private sendChunk(transfer: OutgoingTransfer, chunkIndex: number): void {
+    transfer.sentAt.set(chunkIndex, Date.now());
+    this.post({
+      type: 'PRINT_TRANSFER_CHUNK',
+      data: { transferId: transfer.id, chunkIndex, data: transfer.chunks[chunkIndex] }
+    });
+  }
+
+  /** Keep up to BRIDGE_TRANSFER_WINDOW chunks in flight */
+  private pumpTransfer(transfer: OutgoingTransfer): void {
+    while (transfer.sentAt.size < BRIDGE_TRANSFER_WINDOW && transfer.nextChunk < transfer.chunks.length) {
+      this.sendChunk(transfer, transfer.nextChunk);
+      transfer.nextChunk += 1;
+    }
+  }
+
+  private retransmit(transfer: OutgoingTransfer, chunkIndex: number): boolean {
+    const retries = (transfer.retries.get(chunkIndex) ?? 0) + 1;
+    if (retries > BRIDGE_MAX_RETRIES) {
+      this.finishTransfer(transfer, new Error(`Print data chunk ${chunkIndex} was not acknowledged after ${BRIDGE_MAX_RETRIES} retries`));
+      return false;
+    }
+    transfer.retries.set(chunkIndex, retries);
+    console.warn('Bridge: retransmitting chunk', { transferId: transfer.id, chunkIndex, retries });
+    this.sendChunk(transfer, chunkIndex);
+    return true;
+  }
+
+  private checkTransfer(transfer: OutgoingTransfer): void {
+    const now = Date.now();
+    if (now - transfer.lastProgressAt > BRIDGE_TRANSFER_TIMEOUT_MS) {
+      this.post({ type: 'PRINT_TRANSFER_CANCEL', data: { transferId: transfer.id, reason: 'timeout' } });
+      this.finishTransfer(transfer, new Error('Timed out sending print data to the app'));
+      return;
+    }
+    if (!transfer.ready) {
+      if (now - transfer.startSentAt > BRIDGE_ACK_TIMEOUT_MS) {
+        transfer.startRetries += 1;
+        if (transfer.startRetries > BRIDGE_MAX_RETRIES) {
+          this.finishTransfer(transfer, new Error('The app did not accept the print job'));
+          return;
+        }
+        console.warn('Bridge: resending transfer START', { transferId: transfer.id });
+        // START is idempotent on the native side
+        this.sendTransferStart(transfer);
       }
-      
-      // Send subsequent chunks with delay
-      for (let i = 1; i < totalChunks; i++) {
-        setTimeout(() => {
-          const chunkStart = i * chunkSize;
-          const chunkEnd = Math.min(chunkStart + chunkSize, base64.length);
-          const chunk = base64.slice(chunkStart, chunkEnd);
-          const isLast = i === totalChunks - 1;
-          
-          const chunkMessage: NativeMessage = {
-            type: 'PRINT_DITHERED_BITMAP_CHUNK',
-            data: {
-              bitmapBase64: chunk,
-              chunkIndex: i,
-              isLast
-            }
-          };
-          
-          if (window.ReactNativeWebView) {
-            window.ReactNativeWebView.postMessage(JSON.stringify(chunkMessage));
-            console.log('Bridge: sent CHUNK', {
-              chunkIndex: i,
-              totalChunks,
-              chunkLength: chunk.length,
-              isLast
-            });
+      return;
+    }
+    for (const [chunkIndex, sentAt] of transfer.sentAt) {
+      if (now - sentAt > BRIDGE_ACK_TIMEOUT_MS && !this.retransmit(transfer, chunkIndex)) {
+        return;
+      }
+    }
+  }
+
+  private finishTransfer(transfer: OutgoingTransfer, error?: Error): void {
+    if (!this.transfers.has(transfer.id)) return;
+    this.transfers.delete(transfer.id);
+    window.clearInterval(transfer.timer);
+    if (error) {
+      console.error('Bridge: transfer failed', transfer.id, error.message);
+      transfer.reject(error);
+    } else {
+      console.log('Bridge: transfer complete', transfer.id);
+      transfer.resolve();
+    }
+  }
+
+  /**
+   * Transfer bookkeeping messages are handled here; returns true when the message was consumed.
+   */
+  private handleProtocolMessage(message: NativeToWebMessage): boolean {
+    switch (message.type) {
+      case 'HELLO_ACK':
+        console.log('Bridge: native protocol version', message.data.protocolVersion);
+        this.nativeProtocolVersion = message.data.protocolVersion;
+        this.resolveHandshake?.(message.data.protocolVersion);
+        return true;
+      case 'PRINT_TRANSFER_READY': {
+        const transfer = this.transfers.get(message.data.transferId);
+        if (transfer && !transfer.ready) {
+          transfer.ready = true;
+          transfer.lastProgressAt = Date.now();
+          this.pumpTransfer(transfer);
+        }
+        return true;
+      }
+      case 'PRINT_TRANSFER_ACK': {
+        const transfer = this.transfers.get(message.data.transferId);
+        if (transfer && transfer.sentAt.delete(message.data.chunkIndex)) {
+          transfer.lastProgressAt = Date.now();
+          this.pumpTransfer(transfer);
+        }
+        return true;
+      }
+      case 'PRINT_TRANSFER_RESEND': {
+        const transfer = this.transfers.get(message.data.transferId);
+        if (transfer) {
+          for (const chunkIndex of message.data.missing) {
+            if (chunkIndex < transfer.nextChunk && !this.retransmit(transfer, chunkIndex)) break;
           }
-        }, i * 10); // 10ms delay between chunks
+        }
+        return true;
       }
-      
-      return;
+      case 'PRINT_TRANSFER_COMPLETE': {
+        const transfer = this.transfers.get(message.data.transferId);
+        if (transfer) this.finishTransfer(transfer);
+        return true;
+      }
+      case 'PRINT_FAILED': {
+        // A rejected transfer (no printer, printer not ready) ends before all chunks are acked
+        const transfer = message.data.transferId ? this.transfers.get(message.data.transferId) : undefined;
+        if (transfer) this.finishTransfer(transfer, new Error(message.data.error));
+        return false; // still delivered to the PRINT_FAILED handler
+      }
+      default:
+        return false;
     }
+  }
 
-    // Normal message handling for other types
-    const message: NativeMessage = { type, data };
-    
-    if (window.ReactNativeWebView) {
-      window.ReactNativeWebView.postMessage(JSON.stringify(message));
+  /**
+   * Ask the native app which protocol it speaks. Apps built before the handshake never answer
+   * and are treated as v1; a late HELLO_ACK still upgrades the version.
+   */
+  private ensureHandshake(): Promise<number> {
+    if (this.nativeProtocolVersion !== null) return Promise.resolve(this.nativeProtocolVersion);
+    if (!this.handshake) {
+      this.handshake = new Promise<number>((resolve) => {
+        const timer = window.setTimeout(() => {
+          console.warn('Bridge: no HELLO_ACK, using legacy print transfer');
+          this.resolveHandshake = null;
+          this.nativeProtocolVersion = 1;
+          resolve(1);
+        }, HANDSHAKE_TIMEOUT_MS);
+        this.resolveHandshake = (version) => {
+          window.clearTimeout(timer);
+          this.resolveHandshake = null;
+          resolve(version);
+        };
+      });
+      this.post({ type: 'HELLO', data: { protocolVersion: BRIDGE_PROTOCOL_VERSION } });
+    }
+    return this.handshake;
+  }
+
+  /**
+   * v1 stream for apps that don't answer HELLO: fire-and-forget chunks, no acknowledgements.
+   */
+  private sendLegacyBitmap(bitmapBase64: string, width: number, height: number): void {
+    const chunks = splitTransferChunks(bitmapBase64, BRIDGE_CHUNK_SIZE);
+    console.log('Bridge: sending legacy print payload', { totalChunks: chunks.length, totalLength: bitmapBase64.length });
+
+    this.post({
+      type: 'PRINT_DITHERED_BITMAP_START',
+      data: {
+        width,
+        height,
+        totalChunks: chunks.length,
+        bitmapBase64: chunks[0],
+        chunkIndex: 0,
+        isLast: chunks.length === 1
+      }
+    });
+    for (let i = 1; i < chunks.length; i++) {
+      window.setTimeout(() => {
+        this.post({
+          type: 'PRINT_DITHERED_BITMAP_CHUNK',
+          data: { bitmapBase64: chunks[i], chunkIndex: i, isLast: i === chunks.length - 1 }
+        });
+      }, i * 10); // 10ms delay between chunks
     }
   }
 
-  onMessage(type: string, handler: (data: any) => void): void {
-    this.messageHandlers.set(type, handler);
+  private handleRawMessage(raw: unknown): void {
+    const message = parseBridgeMessage<NativeToWebMessage>(raw);
+    if (!message) return;
+    if (this.handleProtocolMessage(message)) return;
+    const handler = this.messageHandlers.get(message.type);
+    if (handler) {
+      handler(message.data);
+    }
   }
 
   init(): void {
@@ -110,33 +318,18 @@ export class NativeBridgeService {
     this.initialized = true;
 
     window.addEventListener('message', (event) => {
-      try {
-        const message = JSON.parse(event.data);
-        const handler = this.messageHandlers.get(message.type);
-        if (handler) {
-          handler(message.data);
-        }
-      } catch (error) {
-        console.error('Failed to parse native message:', error);
-      }
+      this.handleRawMessage(event.data);
     });
 
     // For Android
-    document.addEventListener('message', (event: any) => {
-      try {
-        const message = JSON.parse(event.data);
-        const handler = this.messageHandlers.get(message.type);
-        if (handler) {
-          handler(message.data);
-        }
-      } catch (error) {
-        console.error('Failed to parse native message:', error);
-      }
-    });
+    document.addEventListener('message', ((event: MessageEvent) => {
+      this.handleRawMessage(event.data);
+    }) as EventListener);
+
+    if (this.isNativeApp()) {
+      void this.ensureHandshake();
+    }
   }
 }
 
 export const nativeBridge = new NativeBridgeService();
-
-
-
@@ -0,0 +1,197 @@
+import { FunctionsHttpError, type User } from '@supabase/supabase-js';
+import { supabase, isSupabaseConfigured } from '../config/supabase';
+import { getBoothIdentity } from './boothService';
+import { deleteLocalPhoto, updatePhotoModeration, type PhotoRecord } from './photoStorageService';
+
+// Photo Moderation
+// The organiser can hide a photo, revoke its download link or delete it from the session photos page.
+// The photos row is kept with its status and without a token, so validate-download can tell a guest
+// holding an old QR code that the photo was removed. Actions go through the moderate-photo edge
+// function, which applies them with the service role and writes photo_moderation_log together with
+// the booth and organiser that made it; the browser can only read the log. Moderating needs an
+// organiser account: a Supabase Auth user given the 'admin' role in its app_metadata.
+
+export type ModerationAction = 'hide' | 'unhide' | 'revoke' | 'delete';
+
+export interface ModerationLogEntry {
+  id: string;
+  photoId: string;
+  sessionCode: string;
+  action: ModerationAction;
+  reason?: string;
+  actorDeviceId?: string;
+  actorName?: string;
+  actorEmail?: string; // organiser account, checked by the edge function
+  createdAt: string;
+}
+
+interface ModerationLogRow {
+  id: string;
+  photo_id: string;
+  session_code: string;
+  action: ModerationAction;
+  reason: string | null;
+  actor_device_id: string | null;
+  actor_name: string | null;
+  actor_email: string | null;
+  created_at: string;
+}
+
+const MODERATION_LOG_TABLE = 'photo_moderation_log';
+const MODERATE_FUNCTION = 'moderate-photo';
+const ADMIN_ROLE = 'admin'; // app_metadata.role of organiser accounts
+
+function getClient() {
+  if (!isSupabaseConfigured() || !supabase) {
+    throw new Error('Supabase is not configured');
+  }
+  return supabase;
+}
+
+function mapLogRow(row: ModerationLogRow): ModerationLogEntry {
+  return {
+    id: row.id,
+    photoId: row.photo_id,
+    sessionCode: row.session_code,
+    action: row.action,
+    reason: row.reason ?? undefined,
+    actorDeviceId: row.actor_device_id ?? undefined,
+    actorName: row.actor_name ?? undefined,
+    actorEmail: row.actor_email ?? undefined,
+    createdAt: row.created_at
+  };
+}
+
+interface ModerationResponse {
+  moderatedAt: string;
+  removedFiles: number;
+}
+
+function isOrganiser(user: User | null | undefined): user is User {
+  return user?.app_metadata?.role === ADMIN_ROLE;
+}
+
+/**
+ * Email of the organiser signed in on this device, or null. The edge function checks the account
+ * again on every action.
+ */
+export async function getSignedInOrganiser(): Promise<string | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+  const { data } = await supabase.auth.getSession();
+  const user = data.session?.user;
+  return isOrganiser(user) ? user.email ?? user.id : null;
+}
+
+/**
+ * Sign in with an organiser account. Accounts without the admin role are signed out again.
+ */
+export async function signInOrganiser(email: string, password: string): Promise<string> {
+  const client = getClient();
+  const { data, error } = await client.auth.signInWithPassword({ email: email.trim(), password });
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!isOrganiser(data.user)) {
+    await client.auth.signOut();
+    throw new Error('This account is not allowed to moderate photos');
+  }
+  console.log('[MODERATION] Organiser signed in:', data.user.email);
+  return data.user.email ?? data.user.id;
+}
+
+export async function signOutOrganiser(): Promise<void> {
+  const { error } = await getClient().auth.signOut();
+  if (error) {
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Apply an action through the moderate-photo edge function, which checks the organiser's account,
+ * updates the row, removes files and writes the log entry with the service role. Throws the
+ * function's error message.
+ */
+async function moderate(photo: PhotoRecord, action: ModerationAction, reason?: string): Promise<ModerationResponse> {
+  const client = getClient();
+  const { data: auth } = await client.auth.getSession();
+  if (!auth.session) {
+    throw new Error('Sign in as an organiser to moderate photos');
+  }
+  const { deviceId, boothName } = getBoothIdentity();
+  const { data, error } = await client.functions.invoke<ModerationResponse>(MODERATE_FUNCTION, {
+    headers: { Authorization: `Bearer ${auth.session.access_token}` },
+    body: {
+      photoId: photo.id,
+      sessionCode: photo.sessionCode,
+      action,
+      reason,
+      actorDeviceId: deviceId,
+      actorName: boothName
+    }
+  });
+  if (error) {
+    let message = error.message;
+    if (error instanceof FunctionsHttpError) {
+      const body = await (error.context as Response).json().catch(() => null);
+      message = body?.error ?? message;
+    }
+    console.error(`[MODERATION] Failed to ${action} photo:`, message);
+    throw new Error(message);
+  }
+  if (!data) {
+    throw new Error(`Failed to ${action} photo`);
+  }
+  return data;
+}
+
+/**
+ * Hide a photo: it stays in the session but guests can no longer download it.
+ */
+export async function hidePhoto(photo: PhotoRecord, reason?: string): Promise<void> {
+  const { moderatedAt } = await moderate(photo, 'hide', reason);
+  await updatePhotoModeration(photo.id, { moderationStatus: 'hidden', moderatedAt });
+  console.log('[MODERATION] Photo hidden:', photo.id);
+}
+
+export async function unhidePhoto(photo: PhotoRecord, reason?: string): Promise<void> {
+  const { moderatedAt } = await moderate(photo, 'unhide', reason);
+  await updatePhotoModeration(photo.id, { moderationStatus: undefined, moderatedAt });
+  console.log('[MODERATION] Photo unhidden:', photo.id);
+}
+
+/**
+ * Clear the photo's access token so every printed QR code and shared link stops working.
+ * A new token is not issued.
+ */
+export async function revokePhotoAccess(photo: PhotoRecord, reason?: string): Promise<void> {
+  const { moderatedAt } = await moderate(photo, 'revoke', reason);
+  await updatePhotoModeration(photo.id, { accessToken: undefined, tokenRevokedAt: moderatedAt });
+  console.log('[MODERATION] Download link revoked:', photo.id);
+}
+
+/**
+ * Delete a photo from Supabase and this device. The function marks the row deleted and clears its
+ * token before removing the files, so a failed removal still leaves the photo undownloadable, and
+ * deleting again retries it.
+ */
+export async function deletePhoto(photo: PhotoRecord, reason?: string): Promise<void> {
+  const { removedFiles } = await moderate(photo, 'delete', reason);
+  await deleteLocalPhoto(photo.id);
+  console.log(`[MODERATION] Photo deleted: ${photo.id} (${removedFiles} files)`);
+}
+
+/**
+ * Moderation history of a photo, newest first.
+ */
+export async function getModerationLog(photoId: string): Promise<ModerationLogEntry[]> {
+  if (!isSupabaseConfigured() || !supabase) return [];
+  const { data, error } = await supabase
+    .from(MODERATION_LOG_TABLE)
+    .select('*')
+    .eq('photo_id', photoId)
+    .order('created_at', { ascending: false });
+  if (error) {
+    throw new Error(error.message);
+  }
+  return ((data ?? []) as ModerationLogRow[]).map(mapLogRow);
+}
@@ -1,84 +1,228 @@
-import { openDB } from 'idb';
-import { getCurrentSession, incrementPhotoCount } from './sessionService';
+import { getCurrentSession, incrementPhotoCount, mergeRestoredSession, type SessionInfo } from './sessionService';
 import { supabase, isSupabaseConfigured } from '../config/supabase';
 import { generateUniqueAccessToken } from './accessTokenService';
+import { getBoothIdentity, getBoothTag } from './boothService';
+import { DB_NAME, PHOTO_STORE, SESSION_STORE, getDB } from './database';
+import { dataURLToBlob } from '../utils/dataUrl';
+import type { MotionClip } from '../utils/motionEncoder';
+
+// Storage paths of the animation saved with a motion template photo; the GIFs themselves are in `files`
+export interface PhotoMotion {
+  gifPath: string; // "photos/{uuid}/{uuid}.gif"
+  boomerangPath: string; // "photos/{uuid}/{uuid}-boomerang.gif"
+}
+
+// What the guest downloads besides the printed strip
+export interface PhotoDownloads {
+  colorImageDataURL?: string; // Undithered colour composite (JPEG)
+  motionClip?: MotionClip;
+}
+
+// Local copies, kept as Blobs: base64 strings are a third larger and slow to read back
+export interface PhotoFiles {
+  image: Blob; // Print version (dithered strip, PNG)
+  color?: Blob; // Full-colour download version (JPEG)
+  gif?: Blob;
+  boomerang?: Blob;
+}
+
+// How the strip was taken, for session analytics
+export interface PhotoCaptureInfo {
+  templateId: string;
+  templateName?: string;
+  capturedAt: string; // last shot of the strip (review screen shown)
+  frameRetakes: number; // single-photo retakes used on the review screen
+}
+
+// Print queue outcomes for this photo; kept here because finished print jobs are pruned
+export interface PhotoPrintStats {
+  printed: number;
+  failed: number; // jobs that gave up after MAX_PRINT_ATTEMPTS
+  firstPrintedAt?: string;
+}
+
+// Set by photoModerationService; deleted photos are removed from this device, only the Supabase row keeps the status
+export type PhotoModerationStatus = 'hidden' | 'deleted';
 
 export interface PhotoRecord {
   id: string; // UUID for new photos, SESSIONCODE-NUMBER for legacy
   sessionCode: string;
   photoNumber: number;
-  imageDataURL: string;
+  boothId?: string; // device id of the booth that took the photo (boothService)
+  boothName?: string;
+  imageDataURL: string; // Remote print version (Supabase data URL column or signed URL); '' for local photos, see files
+  files?: PhotoFiles; // Removed once uploaded when the device runs low on storage
+  filesEvictedAt?: string;
+  colorPath?: string; // "photos/{uuid}/{uuid}-color.jpg"
   timestamp: string;
   uploaded: boolean;
   supabaseUrl?: string;
   supabasePath?: string; // Permanent path in Supabase storage (e.g., "photos/{uuid}/{uuid}.png" for new format)
-  legacyPhotoId?: string; // Format lama untuk backward compatibility (SESSIONCODE-NUMBER)
+  legacyPhotoId?: string; // Format lama untuk backward compatibility (SESSIONCODE-NUMBER, SESSIONCODE-BOOTH-NUMBER when numbered offline)
   accessToken?: string; // Access token untuk secure downloads
+  tokenRevokedAt?: string; // Download link revoked by the organiser; accessToken is cleared
+  moderationStatus?: PhotoModerationStatus;
+  moderatedAt?: string;
+  motion?: PhotoMotion;
+  capture?: PhotoCaptureInfo;
+  prints?: PhotoPrintStats;
+  uploadedAt?: string;
+  // Background upload retries (uploadQueueService)
+  uploadAttempts?: number;
+  lastUploadError?: string;
+  nextUploadAt?: string; // ISO time of the next automatic attempt
 }
 
-const DB_NAME = 'morobooth-db';
-const PHOTO_STORE = 'photos';
-
-async function getDB() {
-  return openDB(DB_NAME, 4, {
-    upgrade(db, oldVersion, newVersion, transaction) {
-      // Create photos store if it doesn't exist
-      if (!db.objectStoreNames.contains(PHOTO_STORE)) {
-        const store = db.createObjectStore(PHOTO_STORE, { keyPath: 'id' });
-        store.createIndex('sessionCode', 'sessionCode');
-        store.createIndex('uploaded', 'uploaded');
-      } else if (oldVersion < 3) {
-        // Migration from version 2 to 3: add supabasePath field to existing records
-        console.log('Migrating database from version', oldVersion, 'to', newVersion);
-        const store = transaction.objectStore(PHOTO_STORE);
-        
-        // Get all existing photos and add supabasePath field
-        // Use native IDB API within upgrade transaction
-        const nativeStore = store as unknown as IDBObjectStore;
-        const request = nativeStore.openCursor();
-        const updatePromises: Promise<void>[] = [];
-        
-        request.onsuccess = (event: Event) => {
-          const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
-          if (cursor) {
-            const photo = cursor.value;
-            // Add supabasePath field if it doesn't exist
-            if (photo && !('supabasePath' in photo)) {
-              photo.supabasePath = undefined;
-              const updateRequest = cursor.update(photo);
-              updatePromises.push(
-                new Promise<void>((resolve, reject) => {
-                  updateRequest.onsuccess = () => {
-                    console.log('Migrated photo:', photo.id);
-                    resolve();
-                  };
-                  updateRequest.onerror = (err: Event) => {
-                    console.error('Failed to migrate photo:', photo.id, err);
-                    reject(err);
-                  };
-                })
-              );
-            }
-            cursor.continue();
-          } else {
-            // All records processed
-            Promise.all(updatePromises).then(() => {
-              console.log('Database migration completed');
-            }).catch((err: unknown) => {
-              console.error('Migration error:', err);
-            });
-          }
-        };
-        
-        request.onerror = (event: Event) => {
-          console.error('Migration cursor error:', event);
-        };
-      }
+export interface StorageUsage {
+  usage: number | null; // bytes used by this origin, null when the browser can't estimate
+  quota: number | null;
+  ratio: number | null; // usage / quota
+  localPhotos: number; // photos with a local copy
+  localBytes: number;
+  evictableBytes: number; // local copies of photos already uploaded
+  pendingPhotos: number; // not uploaded yet, never evicted
+  persisted: boolean;
+}
+
+// Evict uploaded copies above EVICT_RATIO of the quota, down to TARGET_RATIO; warn above WARN_RATIO
+export const STORAGE_EVICT_RATIO = 0.8;
+export const STORAGE_TARGET_RATIO = 0.6;
+export const STORAGE_WARN_RATIO = 0.9;
+
+function notifyStorageChanged(): void {
+  window.dispatchEvent(new CustomEvent('photoStorageChanged'));
+}
+
+function getFilesSize(files: PhotoFiles | undefined): number {
+  if (!files) return 0;
+  return files.image.size + (files.color?.size ?? 0) + (files.gif?.size ?? 0) + (files.boomerang?.size ?? 0);
+}
+
+/**
+ * Local copies of a photo, including records saved before Blob storage that the migration left as data URLs.
+ */
+export function getPhotoFiles(photo: PhotoRecord): PhotoFiles | undefined {
+  if (photo.files) return photo.files;
+  if (photo.imageDataURL.startsWith('data:')) {
+    return { image: dataURLToBlob(photo.imageDataURL) };
+  }
+  return undefined;
+}
+
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const db = await getDB();
+  const photos: PhotoRecord[] = await db.getAll(PHOTO_STORE);
+  let localPhotos = 0;
+  let localBytes = 0;
+  let evictableBytes = 0;
+  let pendingPhotos = 0;
+  for (const photo of photos) {
+    if (!photo.uploaded) pendingPhotos++;
+    const files = getPhotoFiles(photo);
+    if (!files) continue;
+    const size = getFilesSize(files);
+    localPhotos++;
+    localBytes += size;
+    if (photo.uploaded) evictableBytes += size;
+  }
+
+  let usage: number | null = null;
+  let quota: number | null = null;
+  let persisted = false;
+  if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+    try {
+      const estimate = await navigator.storage.estimate();
+      usage = estimate.usage ?? null;
+      quota = estimate.quota ?? null;
+      persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+    } catch (error) {
+      console.warn('[STORAGE] navigator.storage.estimate failed:', error);
     }
-  });
+  }
+
+  return {
+    usage,
+    quota,
+    ratio: usage !== null && quota ? usage / quota : null,
+    localPhotos,
+    localBytes,
+    evictableBytes,
+    pendingPhotos,
+    persisted
+  };
 }
 
-export async function savePhotoLocally(imageDataURL: string): Promise<PhotoRecord> {
+/**
+ * Ask the browser not to clear this origin's storage under pressure. Resolves to whether it agreed.
+ */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false;
+  try {
+    return await navigator.storage.persist();
+  } catch (error) {
+    console.warn('[STORAGE] navigator.storage.persist failed:', error);
+    return false;
+  }
+}
+
+/**
+ * Delete local copies of uploaded photos, oldest first, until `bytesToFree` is reached.
+ * The records stay so downloads and stats keep working from Supabase.
+ */
+export async function evictUploadedPhotos(bytesToFree = Infinity): Promise<{ photos: number; bytes: number }> {
+  const db = await getDB();
+  const photos: PhotoRecord[] = await db.getAll(PHOTO_STORE);
+  const candidates = photos
+    .filter((photo) => photo.uploaded && getPhotoFiles(photo))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  let freed = 0;
+  let evicted = 0;
+  for (const photo of candidates) {
+    if (freed >= bytesToFree) break;
+    freed += getFilesSize(getPhotoFiles(photo));
+    evicted++;
+    const evictedRecord: PhotoRecord = { ...photo, filesEvictedAt: new Date().toISOString() };
+    delete evictedRecord.files;
+    // Pre-Blob records keep the image in the data URL itself
+    if (evictedRecord.imageDataURL.startsWith('data:')) evictedRecord.imageDataURL = '';
+    await db.put(PHOTO_STORE, evictedRecord);
+  }
+
+  if (evicted > 0) {
+    console.log(`[STORAGE] Removed local copies of ${evicted} uploaded photos (~${Math.round(freed / 1024)} KB)`);
+    notifyStorageChanged();
+  }
+  return { photos: evicted, bytes: freed };
+}
+
+/**
+ * Run the eviction policy. Resolves to the usage afterwards so callers can warn when storage is still
+ * nearly full (photos that aren't uploaded yet are never removed).
+ */
+export async function enforceStorageQuota(): Promise<StorageUsage> {
+  const usage = await getStorageUsage();
+  if (usage.ratio === null || usage.quota === null || usage.usage === null || usage.ratio < STORAGE_EVICT_RATIO) {
+    return usage;
+  }
+  const { bytes } = await evictUploadedPhotos(usage.usage - usage.quota * STORAGE_TARGET_RATIO);
+  if (bytes === 0) return usage;
+  // The estimate lags behind deletes, so count the freed bytes ourselves
+  const after = await getStorageUsage();
+  const used = Math.max(0, Math.min(after.usage ?? usage.usage, usage.usage - bytes));
+  return { ...after, usage: used, ratio: used / usage.quota };
+}
+
+function isQuotaError(error: unknown): boolean {
+  const err = error as { name?: string; message?: string } | null;
+  return err?.name === 'QuotaExceededError' || !!err?.message?.includes('quota');
+}
+
+export async function savePhotoLocally(
+  imageDataURL: string,
+  downloads: PhotoDownloads = {},
+  capture?: PhotoCaptureInfo
+): Promise<PhotoRecord> {
   console.log('[SAVE_PHOTO] Starting savePhotoLocally');
   console.log('[SAVE_PHOTO] imageDataURL type:', typeof imageDataURL);
   console.log('[SAVE_PHOTO] imageDataURL length:', imageDataURL?.length || 0);
@@ -114,9 +258,11 @@ export async function savePhotoLocally(imageDataURL: string): Promise<PhotoRecor
     
     // Increment photo count
     console.log('[SAVE_PHOTO] Step 3: Incrementing photo count');
+    const booth = getBoothIdentity();
     let photoNumber: number;
+    let provisionalNumber: boolean;
     try {
-      photoNumber = await incrementPhotoCount();
+      ({ photoNumber, provisional: provisionalNumber } = await incrementPhotoCount(booth));
       console.log('[SAVE_PHOTO] ✓ Photo count incremented to:', photoNumber);
     } catch (error) {
       console.error('[SAVE_PHOTO] ERROR: Failed to increment photo count');
@@ -132,7 +278,15 @@ export async function savePhotoLocally(imageDataURL: string): Promise<PhotoRecor
   // Step 4: Generate UUID and access token for secure downloads
   console.log('[SAVE_PHOTO] Step 4: Generating UUID and access token');
   const photoId = crypto.randomUUID();
-  const legacyPhotoId = `${session.sessionCode}-${String(photoNumber).padStart(3, '0')}`;
+  // A number from the local count may also be taken by another booth, so its id names this booth
+  const paddedNumber = String(photoNumber).padStart(3, '0');
+  const legacyPhotoId = provisionalNumber
+    ? `${session.sessionCode}-${getBoothTag(booth.deviceId)}-${paddedNumber}`
+    : `${session.sessionCode}-${paddedNumber}`;
+  if (provisionalNumber) {
+    console.warn('[SAVE_PHOTO] Photo numbered offline, the number may repeat on other booths:', legacyPhotoId);
+    window.dispatchEvent(new CustomEvent('photoNumberProvisional', { detail: { photoNumber, legacyPhotoId } }));
+  }
   
   let accessToken: string;
   try {
@@ -151,21 +305,40 @@ export async function savePhotoLocally(imageDataURL: string): Promise<PhotoRecor
   console.log('[SAVE_PHOTO] Photo number:', photoNumber);
   console.log('[SAVE_PHOTO] Session code:', session.sessionCode);
   console.log('[SAVE_PHOTO] Storage path:', storagePath);
+
+  const { colorImageDataURL, motionClip } = downloads;
+  const colorPath = colorImageDataURL ? `photos/${photoId}/${photoId}-color.jpg` : undefined;
+  const motion: PhotoMotion | undefined = motionClip && {
+    gifPath: `photos/${photoId}/${photoId}.gif`,
+    boomerangPath: `photos/${photoId}/${photoId}-boomerang.gif`
+  };
   
   const record: PhotoRecord = {
     id: photoId,
     legacyPhotoId: legacyPhotoId,
     sessionCode: session.sessionCode,
     photoNumber,
-    imageDataURL,
+    boothId: booth.deviceId,
+    boothName: booth.boothName,
+    imageDataURL: '',
+    files: {
+      image: dataURLToBlob(imageDataURL),
+      ...(colorImageDataURL ? { color: dataURLToBlob(colorImageDataURL) } : {}),
+      ...(motionClip
+        ? { gif: dataURLToBlob(motionClip.gifDataURL), boomerang: dataURLToBlob(motionClip.boomerangDataURL) }
+        : {})
+    },
+    colorPath,
     timestamp: new Date().toISOString(),
     uploaded: false,
     supabasePath: storagePath,
-    accessToken: accessToken
+    accessToken: accessToken,
+    motion,
+    capture
   };
   
-    // Check data size (approximate)
-    const dataSize = imageDataURL.length;
+    // Check data size
+    const dataSize = getFilesSize(record.files);
     const dataSizeKB = Math.round(dataSize / 1024);
     console.log('[SAVE_PHOTO] Photo data size:', dataSize, 'bytes (~' + dataSizeKB + ' KB)');
     
@@ -182,11 +355,29 @@ export async function savePhotoLocally(imageDataURL: string): Promise<PhotoRecor
         photoNumber: record.photoNumber,
         timestamp: record.timestamp,
         uploaded: record.uploaded,
-        imageDataSize: record.imageDataURL.length
+        imageDataSize: dataSize
       });
       
-  await db.put(PHOTO_STORE, record);
+      try {
+        await db.put(PHOTO_STORE, record);
+      } catch (putError) {
+        if (!isQuotaError(putError)) throw putError;
+        // Make room from photos that are already in Supabase, then try once more
+        console.warn('[SAVE_PHOTO] Storage full, removing local copies of uploaded photos');
+        const { photos } = await evictUploadedPhotos();
+        if (photos === 0) throw putError;
+        await db.put(PHOTO_STORE, record);
+      }
       console.log('[SAVE_PHOTO] ✓ Photo saved successfully to IndexedDB');
+      notifyStorageChanged();
+      window.dispatchEvent(new CustomEvent('photoSaved', { detail: { id: record.id } }));
+      enforceStorageQuota()
+        .then((usage) => {
+          if (usage.ratio !== null && usage.ratio >= STORAGE_WARN_RATIO) {
+            window.dispatchEvent(new CustomEvent('photoStorageLow', { detail: { usage } }));
+          }
+        })
+        .catch((error) => console.warn('[SAVE_PHOTO] Storage check failed:', error));
       
       // Step 6: Insert photo record to Supabase database
       console.log('[SAVE_PHOTO] Step 6: Inserting to Supabase database');
@@ -199,11 +390,16 @@ export async function savePhotoLocally(imageDataURL: string): Promise<PhotoRecor
               legacy_photo_id: legacyPhotoId,
               session_code: session.sessionCode,
               photo_number: photoNumber,
+              booth_id: booth.deviceId,
+              booth_name: booth.boothName,
               image_data_url: imageDataURL, // Store for backward compatibility
               timestamp: record.timestamp,
               uploaded: false,
               access_token: accessToken,
-              storage_path: storagePath
+              storage_path: storagePath,
+              // Optional columns are only sent when there is something to store
+              ...(colorPath ? { color_path: colorPath } : {}),
+              ...(motion ? { motion_path: motion.gifPath, boomerang_path: motion.boomerangPath } : {})
             });
           
           if (insertError) {
@@ -232,7 +428,7 @@ export async function savePhotoLocally(imageDataURL: string): Promise<PhotoRecor
       console.error('[SAVE_PHOTO] Full error object:', JSON.stringify(dbError, Object.getOwnPropertyNames(dbError)));
       
       // Check for quota exceeded error
-      if (dbError.name === 'QuotaExceededError' || dbError.message?.includes('quota')) {
+      if (isQuotaError(dbError)) {
         console.error('[SAVE_PHOTO] ERROR TYPE: QuotaExceededError');
         throw new Error('Storage quota exceeded. Please clear some photos or use a device with more storage.');
       }
@@ -291,11 +487,43 @@ export async function markPhotoAsUploaded(
   const photo = await db.get(PHOTO_STORE, id);
   if (photo) {
     photo.uploaded = true;
+    photo.uploadedAt ??= new Date().toISOString();
     photo.supabaseUrl = supabaseUrl;
     if (supabasePath !== undefined) {
       photo.supabasePath = supabasePath;
     }
+    delete photo.uploadAttempts;
+    delete photo.lastUploadError;
+    delete photo.nextUploadAt;
     await db.put(PHOTO_STORE, photo);
+    notifyStorageChanged();
+  }
+}
+
+/**
+ * Count a finished print job against its photo (printQueueService).
+ */
+export async function recordPhotoPrint(id: string, success: boolean) {
+  const db = await getDB();
+  const photo: PhotoRecord | undefined = await db.get(PHOTO_STORE, id);
+  if (!photo) return;
+  const prints: PhotoPrintStats = photo.prints ?? { printed: 0, failed: 0 };
+  photo.prints = success
+    ? { ...prints, printed: prints.printed + 1, firstPrintedAt: prints.firstPrintedAt ?? new Date().toISOString() }
+    : { ...prints, failed: prints.failed + 1 };
+  await db.put(PHOTO_STORE, photo);
+}
+
+export async function recordUploadFailure(id: string, attempts: number, error: string, nextUploadAt: Date) {
+  const db = await getDB();
+  const photo: PhotoRecord | undefined = await db.get(PHOTO_STORE, id);
+  if (photo && !photo.uploaded) {
+    await db.put(PHOTO_STORE, {
+      ...photo,
+      uploadAttempts: attempts,
+      lastUploadError: error,
+      nextUploadAt: nextUploadAt.toISOString()
+    });
   }
 }
 
@@ -308,6 +536,95 @@ export async function updatePhotoSupabasePath(id: string, path: string) {
   }
 }
 
+/**
+ * Apply a moderation change to this device's copy of a photo (photoModerationService).
+ */
+export async function updatePhotoModeration(
+  id: string,
+  changes: Partial<Pick<PhotoRecord, 'moderationStatus' | 'moderatedAt' | 'accessToken' | 'tokenRevokedAt'>>
+) {
+  const db = await getDB();
+  const photo: PhotoRecord | undefined = await db.get(PHOTO_STORE, id);
+  if (photo) {
+    await db.put(PHOTO_STORE, { ...photo, ...changes });
+  }
+}
+
+/**
+ * Remove a photo and its files from this device. Resolves to false when it wasn't stored here.
+ */
+export async function deleteLocalPhoto(id: string): Promise<boolean> {
+  const db = await getDB();
+  const photo: PhotoRecord | undefined = await db.get(PHOTO_STORE, id);
+  if (!photo) return false;
+  await db.delete(PHOTO_STORE, id);
+  notifyStorageChanged();
+  return true;
+}
+
+/**
+ * Photos of a session stored on this device only (getPhotosBySession also merges Supabase rows,
+ * which carry no local files).
+ */
+export async function getLocalPhotosBySession(sessionCode: string): Promise<PhotoRecord[]> {
+  const db = await getDB();
+  const photos: PhotoRecord[] = await db.getAllFromIndex(PHOTO_STORE, 'sessionCode', sessionCode);
+  return photos.sort((a, b) => a.photoNumber - b.photoNumber);
+}
+
+/**
+ * Every photo of a session: the records on this device (with their files and local history),
+ * plus Supabase rows for photos taken on other booths or already removed here.
+ */
+export async function getAllSessionPhotos(sessionCode: string): Promise<PhotoRecord[]> {
+  const localPhotos = await getLocalPhotosBySession(sessionCode);
+  const localIds = new Set(localPhotos.map((photo) => photo.id));
+  const remotePhotos = (await getPhotosBySession(sessionCode)).filter((photo) => !localIds.has(photo.id));
+  return [...localPhotos, ...remotePhotos].sort((a, b) => a.photoNumber - b.photoNumber);
+}
+
+/**
+ * Write a session and its photos brought in from a session archive, in one transaction: if any
+ * write fails nothing is kept, so a failed import can simply be retried. Photos already on this
+ * device are kept unless their local copy was evicted and the archive has one.
+ */
+export async function restoreSessionPhotos(
+  imported: SessionInfo,
+  photos: PhotoRecord[]
+): Promise<{ session: SessionInfo; restored: number; skipped: number }> {
+  const db = await getDB();
+  const tx = db.transaction([SESSION_STORE, PHOTO_STORE], 'readwrite');
+  const sessions = tx.objectStore(SESSION_STORE);
+  const store = tx.objectStore(PHOTO_STORE);
+  let restored = 0;
+  let skipped = 0;
+  let session: SessionInfo;
+  try {
+    session = mergeRestoredSession(imported, await sessions.get(imported.sessionCode));
+    await sessions.put(session);
+    for (const photo of photos) {
+      const existing: PhotoRecord | undefined = await store.get(photo.id);
+      if (existing && (existing.files || !photo.files)) {
+        skipped++;
+        continue;
+      }
+      await store.put(existing ? { ...existing, files: photo.files, filesEvictedAt: undefined } : photo);
+      restored++;
+    }
+    await tx.done;
+  } catch (error) {
+    try {
+      tx.abort();
+    } catch {
+      // Already aborted by the failed request
+    }
+    await tx.done.catch(() => undefined);
+    throw error;
+  }
+  notifyStorageChanged();
+  return { session, restored, skipped };
+}
+
 export async function getPhotosBySession(sessionCode: string): Promise<PhotoRecord[]> {
   console.log(`[getPhotosBySession] Starting fetch for session: ${sessionCode}`);
   
@@ -328,7 +645,7 @@ export async function getPhotosBySession(sessionCode: string): Promise<PhotoReco
       console.log(`[getPhotosBySession] Fetching photos from Supabase for session: ${sessionCode}`);
       const { data: supabasePhotos, error } = await supabase
         .from('photos')
-        .select('photo_id, session_code, photo_number, image_data_url, timestamp, uploaded, supabase_url, storage_path, legacy_photo_id, access_token')
+        .select('photo_id, session_code, photo_number, image_data_url, timestamp, uploaded, supabase_url, storage_path, legacy_photo_id, access_token, booth_id, booth_name, moderation_status, moderated_at, token_revoked_at')
         .eq('session_code', sessionCode)
         .order('photo_number', { ascending: true });
       
@@ -355,7 +672,8 @@ export async function getPhotosBySession(sessionCode: string): Promise<PhotoReco
               console.warn('[getPhotosBySession] Skipping invalid photo row:', row);
               return false;
             }
-            return true;
+            // Deleted by the organiser: the row only remains so old download links report "removed"
+            return row.moderation_status !== 'deleted';
           })
           .map((row: any) => {
             // Ensure timestamp is in ISO string format
@@ -394,12 +712,17 @@ export async function getPhotosBySession(sessionCode: string): Promise<PhotoReco
               legacyPhotoId: row.legacy_photo_id || undefined,
               sessionCode: String(row.session_code),
               photoNumber: Number(row.photo_number) || 0,
+              boothId: row.booth_id || undefined,
+              boothName: row.booth_name || undefined,
               imageDataURL: imageDataURL,
               timestamp: timestamp,
               uploaded: Boolean(row.uploaded),
               supabaseUrl: row.supabase_url || undefined,
               supabasePath: row.storage_path || undefined,
-              accessToken: row.access_token || undefined
+              accessToken: row.access_token || undefined,
+              tokenRevokedAt: row.token_revoked_at || undefined,
+              moderationStatus: row.moderation_status || undefined,
+              moderatedAt: row.moderated_at || undefined
             };
           });
         
@@ -0,0 +1,264 @@
+import { nanoid } from 'nanoid';
+import { PRINT_JOB_STORE, getDB } from './database';
+import { getHybridBluetoothPrinterService, type HybridBluetoothPrinterService } from './hybridBluetoothPrinterService';
+import { canPrintWithStatus, type PrinterStatusReport } from '../shared/printerStatus';
+
+// Persistent Print Queue
+// Print jobs are stored in IndexedDB so a print survives a BLE drop or an app reload.
+// Jobs run one at a time in `position` order and resume when the printer reconnects
+// or reports that paper/cover problems are fixed.
+
+export type PrintJobState = 'queued' | 'sending' | 'done' | 'failed';
+
+export interface PrintJob {
+  id: string;
+  photoId: string | null; // null when the photo was printed without being saved
+  imageDataURL: string; // composed print image (with QR code)
+  width: number; // target width in dots
+  state: PrintJobState;
+  attempts: number;
+  position: number; // queue order, lower prints first
+  createdAt: string;
+  updatedAt: string;
+  lastError?: string;
+}
+
+export const MAX_PRINT_ATTEMPTS = 3;
+// Finished jobs kept for reprinting; older ones are pruned
+const MAX_FINISHED_JOBS = 20;
+// Pause before retrying a job the printer rejected while otherwise fine: 2s, then 4s
+const RETRY_DELAY_MS = 2_000;
+
+let processing = false;
+let rerun = false;
+let initialized = false;
+
+function notifyQueueChanged(): void {
+  window.dispatchEvent(new CustomEvent('printQueueChanged'));
+}
+
+async function putJob(job: PrintJob): Promise<void> {
+  const db = await getDB();
+  await db.put(PRINT_JOB_STORE, { ...job, updatedAt: new Date().toISOString() });
+  notifyQueueChanged();
+}
+
+export async function getPrintJobs(): Promise<PrintJob[]> {
+  const db = await getDB();
+  const jobs: PrintJob[] = await db.getAll(PRINT_JOB_STORE);
+  return jobs.sort((a, b) => a.position - b.position);
+}
+
+export async function getPrintJob(id: string): Promise<PrintJob | undefined> {
+  const db = await getDB();
+  return db.get(PRINT_JOB_STORE, id);
+}
+
+async function nextPosition(): Promise<number> {
+  const jobs = await getPrintJobs();
+  return jobs.length > 0 ? jobs[jobs.length - 1].position + 1 : 0;
+}
+
+export async function enqueuePrintJob(imageDataURL: string, width: number, photoId: string | null = null): Promise<PrintJob> {
+  const now = new Date().toISOString();
+  const job: PrintJob = {
+    id: nanoid(),
+    photoId,
+    imageDataURL,
+    width,
+    state: 'queued',
+    attempts: 0,
+    position: await nextPosition(),
+    createdAt: now,
+    updatedAt: now
+  };
+  await putJob(job);
+  console.log('[PRINT_QUEUE] Job queued:', job.id, 'photo:', photoId);
+  void processPrintQueue();
+  return job;
+}
+
+/**
+ * Remove a job that has not started printing yet (or already finished).
+ */
+export async function cancelPrintJob(id: string): Promise<void> {
+  const job = await getPrintJob(id);
+  if (!job) return;
+  if (job.state === 'sending') {
+    throw new Error('Job is printing and cannot be cancelled');
+  }
+  const db = await getDB();
+  await db.delete(PRINT_JOB_STORE, id);
+  notifyQueueChanged();
+}
+
+/**
+ * Put a done or failed job back at the end of the queue with a fresh attempt count.
+ */
+export async function reprintPrintJob(id: string): Promise<void> {
+  const job = await getPrintJob(id);
+  if (!job) {
+    throw new Error('Print job not found');
+  }
+  if (job.state === 'queued' || job.state === 'sending') return;
+  await putJob({
+    ...job,
+    state: 'queued',
+    attempts: 0,
+    lastError: undefined,
+    position: await nextPosition()
+  });
+  void processPrintQueue();
+}
+
+/**
+ * Swap a queued job with its queued neighbour.
+ */
+export async function movePrintJob(id: string, direction: 'up' | 'down'): Promise<void> {
+  const queued = (await getPrintJobs()).filter((job) => job.state === 'queued');
+  const index = queued.findIndex((job) => job.id === id);
+  const otherIndex = direction === 'up' ? index - 1 : index + 1;
+  if (index < 0 || otherIndex < 0 || otherIndex >= queued.length) return;
+
+  const current = queued[index];
+  const other = queued[otherIndex];
+  const db = await getDB();
+  const tx = db.transaction(PRINT_JOB_STORE, 'readwrite');
+  await Promise.all([
+    tx.store.put({ ...current, position: other.position }),
+    tx.store.put({ ...other, position: current.position }),
+    tx.done
+  ]);
+  notifyQueueChanged();
+}
+
+export async function clearFinishedPrintJobs(): Promise<void> {
+  const jobs = await getPrintJobs();
+  const db = await getDB();
+  const tx = db.transaction(PRINT_JOB_STORE, 'readwrite');
+  await Promise.all([
+    ...jobs.filter((job) => job.state === 'done').map((job) => tx.store.delete(job.id)),
+    tx.done
+  ]);
+  notifyQueueChanged();
+}
+
+async function pruneFinishedJobs(): Promise<void> {
+  const finished = (await getPrintJobs())
+    .filter((job) => job.state === 'done')
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  if (finished.length <= MAX_FINISHED_JOBS) return;
+  const db = await getDB();
+  for (const job of finished.slice(MAX_FINISHED_JOBS)) {
+    await db.delete(PRINT_JOB_STORE, job.id);
+  }
+}
+
+// Analytics only; never let it fail the queue
+async function recordPrintResult(photoId: string, success: boolean): Promise<void> {
+  try {
+    const { recordPhotoPrint } = await import('./photoStorageService');
+    await recordPhotoPrint(photoId, success);
+  } catch (error) {
+    console.warn('[PRINT_QUEUE] Failed to record print result:', error);
+  }
+}
+
+function isPrinterReady(printer: HybridBluetoothPrinterService): boolean {
+  return printer.getIsConnected() && canPrintWithStatus(printer.getPrinterStatus()?.state ?? 'unknown');
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => window.setTimeout(resolve, ms));
+}
+
+async function runQueue(): Promise<void> {
+  try {
+    const printer = getHybridBluetoothPrinterService();
+    while (isPrinterReady(printer)) {
+      const next = (await getPrintJobs()).find((job) => job.state === 'queued');
+      if (!next) break;
+
+      const job: PrintJob = { ...next, state: 'sending', attempts: next.attempts + 1 };
+      await putJob(job);
+      console.log(`[PRINT_QUEUE] Printing job ${job.id} (attempt ${job.attempts}/${MAX_PRINT_ATTEMPTS})`);
+
+      try {
+        const success = await printer.printImage(job.imageDataURL, job.width);
+        if (!success) {
+          throw new Error('Printer did not accept the job');
+        }
+        await putJob({ ...job, state: 'done', lastError: undefined });
+        console.log('[PRINT_QUEUE] Job done:', job.id);
+        if (job.photoId) await recordPrintResult(job.photoId, true);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error('[PRINT_QUEUE] Job failed:', job.id, message);
+        // A dropped link or an empty roll is not the job's fault: keep the attempt and retry once the printer is back
+        const printerProblem = !isPrinterReady(printer);
+        const attempts = printerProblem ? next.attempts : job.attempts;
+        const exhausted = !printerProblem && attempts >= MAX_PRINT_ATTEMPTS;
+        await putJob({ ...job, attempts, state: exhausted ? 'failed' : 'queued', lastError: message });
+        if (exhausted && job.photoId) await recordPrintResult(job.photoId, false);
+        if (!printerProblem && !exhausted) {
+          await wait(RETRY_DELAY_MS * 2 ** (attempts - 1));
+        }
+      }
+    }
+    await pruneFinishedJobs();
+  } catch (error) {
+    console.error('[PRINT_QUEUE] Queue processing error:', error);
+  }
+}
+
+/**
+ * Print queued jobs one by one while the printer stays connected and able to print.
+ * Safe to call any time; calls while a run is active are folded into one more run afterwards.
+ */
+export async function processPrintQueue(): Promise<void> {
+  if (processing) {
+    rerun = true;
+    return;
+  }
+  processing = true;
+  try {
+    do {
+      rerun = false;
+      await runQueue();
+    } while (rerun);
+  } finally {
+    processing = false;
+  }
+}
+
+/**
+ * Recover jobs interrupted by a reload and resume printing whenever the printer connects.
+ */
+export async function initPrintQueue(): Promise<void> {
+  if (initialized) return;
+  initialized = true;
+
+  // Nothing can be mid-send right after startup; those jobs were cut off
+  const jobs = await getPrintJobs();
+  for (const job of jobs.filter((j) => j.state === 'sending')) {
+    await putJob({ ...job, state: 'queued', lastError: 'Interrupted' });
+  }
+
+  window.addEventListener('bluetoothStatusChange', (event) => {
+    const detail = (event as CustomEvent<{ connected: boolean }>).detail;
+    if (detail?.connected) {
+      console.log('[PRINT_QUEUE] Printer connected, resuming queue');
+      void processPrintQueue();
+    }
+  });
+
+  window.addEventListener('printerStatusChange', (event) => {
+    const status = (event as CustomEvent<{ status: PrinterStatusReport | null }>).detail?.status;
+    if (status && canPrintWithStatus(status.state)) {
+      console.log('[PRINT_QUEUE] Printer ready again, resuming queue');
+      void processPrintQueue();
+    }
+  });
+
+  void processPrintQueue();
+}
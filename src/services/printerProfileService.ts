@@ -0,0 +1,286 @@
+import { nanoid } from 'nanoid';
+import type { EscPosAlignment, EscPosCutMode, EscPosImageMode } from '../shared/escpos';
+
+// Printer Profile Registry
+// Built-in profiles ship with the app and are read-only; admins can clone them or
+// import new ones. Custom profiles are stored in localStorage and always win over
+// built-ins when resolving a device name.
+
+export interface PrinterProfile {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  width: number; // printable dots (58mm -> 384, 80mm -> 576)
+  dpi: number;
+  /**
+   * Case-insensitive substrings matched against the Bluetooth device name.
+   */
+  namePatterns: string[];
+  /**
+   * Advertised name prefixes offered in the Web Bluetooth chooser (case-sensitive).
+   */
+  namePrefixes: string[];
+  serviceUUIDs: string[];
+  characteristicUUID?: string; // empty => first writable characteristic
+  chunkSize: number; // bytes per BLE write
+  chunkDelayMs: number;
+  // ESC/POS output, see shared/escpos.ts
+  imageMode: EscPosImageMode;
+  alignment: EscPosAlignment;
+  feedLines: number;
+  cutMode: EscPosCutMode;
+  density: number | null; // -6..6, null = printer default
+  /**
+   * Printer answers DLE EOT status requests (paper out, cover open, overheat), see shared/printerStatus.ts.
+   */
+  supportsStatus: boolean;
+  // Dither defaults, used when no printer output settings are saved
+  threshold: number;
+  gamma: number;
+  dithering: boolean;
+  sharpen: number;
+}
+
+const PROFILES_STORAGE_KEY = 'morobooth_printer_profiles';
+
+export const DEFAULT_SERVICE_UUIDS = [
+  '000018f0-0000-1000-8000-00805f9b34fb', // Serial
+  '00001101-0000-1000-8000-00805f9b34fb', // SPP
+  '0000ffe0-0000-1000-8000-00805f9b34fb'  // Generic
+];
+
+const BASE_PROFILE: Omit<PrinterProfile, 'id' | 'name' | 'namePatterns' | 'namePrefixes'> = {
+  builtIn: true,
+  width: 384,
+  dpi: 203,
+  serviceUUIDs: DEFAULT_SERVICE_UUIDS,
+  characteristicUUID: '',
+  chunkSize: 180,
+  chunkDelayMs: 30,
+  imageMode: 'column', // ESC * as the web app always printed; some cheap printers ignore GS v 0
+  alignment: 'center',
+  feedLines: 3,
+  cutMode: 'full',
+  density: null,
+  supportsStatus: false,
+  threshold: 165,
+  gamma: 1.25,
+  dithering: true,
+  sharpen: 0.45
+};
+
+// Order matters: resolution walks this list top to bottom, generics last
+export const BUILT_IN_PRINTER_PROFILES: PrinterProfile[] = [
+  { ...BASE_PROFILE, id: 'eppos-epx-58b', name: 'EPPOS EPX-58B', namePatterns: ['eppos', 'epx'], namePrefixes: ['EPPOS', 'EPX'], dithering: false },
+  { ...BASE_PROFILE, id: 'xprinter-xp-p300', name: 'XPRINTER XP-P300', namePatterns: ['xprinter', 'xp-p300'], namePrefixes: ['XPRINTER'], supportsStatus: true },
+  { ...BASE_PROFILE, id: 'hoin-hop-h58', name: 'HOIN HOP H58', namePatterns: ['hoin', 'h58'], namePrefixes: ['HOIN'] },
+  { ...BASE_PROFILE, id: 'bellav-ep-58a', name: 'BellaV EP-58A', namePatterns: ['bellav', '58a'], namePrefixes: ['BellaV'] },
+  { ...BASE_PROFILE, id: 'generic-80mm', name: 'Generic 80mm', width: 576, namePatterns: ['80'], namePrefixes: [] },
+  { ...BASE_PROFILE, id: 'generic-58mm', name: 'Generic 58mm', namePatterns: ['58'], namePrefixes: ['Printer', 'Thermal'] }
+];
+
+function normalizeStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((v): v is string => typeof v === 'string')
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+function numberOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Validate an untrusted profile (e.g. from an imported JSON file) and fill defaults.
+ * Throws if the profile has no usable name or width.
+ */
+export function normalizePrinterProfile(raw: unknown): PrinterProfile {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Printer profile must be an object');
+  }
+  const input = raw as Partial<Record<keyof PrinterProfile, unknown>>;
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    throw new Error('Printer profile is missing a name');
+  }
+  const width = numberOr(input.width, NaN);
+  if (!Number.isInteger(width) || width < 8 || width > 2048) {
+    throw new Error(`Printer profile "${name}" has an invalid width`);
+  }
+  const serviceUUIDs = normalizeStringList(input.serviceUUIDs).map((u) => u.toLowerCase());
+
+  return {
+    id: typeof input.id === 'string' && input.id.trim() ? input.id.trim() : `custom-${nanoid(8)}`,
+    name,
+    width,
+    dpi: numberOr(input.dpi, BASE_PROFILE.dpi),
+    namePatterns: normalizeStringList(input.namePatterns).map((p) => p.toLowerCase()),
+    namePrefixes: normalizeStringList(input.namePrefixes),
+    serviceUUIDs: serviceUUIDs.length > 0 ? serviceUUIDs : [...DEFAULT_SERVICE_UUIDS],
+    characteristicUUID: typeof input.characteristicUUID === 'string' ? input.characteristicUUID.trim().toLowerCase() : '',
+    chunkSize: Math.max(20, Math.round(numberOr(input.chunkSize, BASE_PROFILE.chunkSize))),
+    chunkDelayMs: Math.max(0, Math.round(numberOr(input.chunkDelayMs, BASE_PROFILE.chunkDelayMs))),
+    imageMode: input.imageMode === 'raster' ? 'raster' : BASE_PROFILE.imageMode,
+    alignment: input.alignment === 'left' || input.alignment === 'right' ? input.alignment : 'center',
+    feedLines: Math.max(0, Math.min(20, Math.round(numberOr(input.feedLines, BASE_PROFILE.feedLines)))),
+    cutMode: input.cutMode === 'partial' || input.cutMode === 'none' ? input.cutMode : 'full',
+    density: typeof input.density === 'number' && Number.isFinite(input.density)
+      ? Math.max(-6, Math.min(6, Math.round(input.density)))
+      : null,
+    supportsStatus: typeof input.supportsStatus === 'boolean' ? input.supportsStatus : BASE_PROFILE.supportsStatus,
+    // Use explicit checks to preserve 0 and false values
+    threshold: numberOr(input.threshold, BASE_PROFILE.threshold),
+    gamma: numberOr(input.gamma, BASE_PROFILE.gamma),
+    dithering: typeof input.dithering === 'boolean' ? input.dithering : BASE_PROFILE.dithering,
+    sharpen: numberOr(input.sharpen, BASE_PROFILE.sharpen)
+  };
+}
+
+export function getCustomPrinterProfiles(): PrinterProfile[] {
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      if (Array.isArray(parsed)) {
+        const profiles: PrinterProfile[] = [];
+        for (const entry of parsed) {
+          try {
+            profiles.push(normalizePrinterProfile(entry));
+          } catch (error) {
+            console.warn('Skipping invalid stored printer profile:', error);
+          }
+        }
+        return profiles;
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to parse printer profiles:', error);
+  }
+  return [];
+}
+
+function setCustomPrinterProfiles(profiles: PrinterProfile[]): void {
+  try {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.error('Failed to save printer profiles:', error);
+    throw new Error('Failed to save printer profiles');
+  }
+  window.dispatchEvent(new CustomEvent('printerProfilesChanged'));
+}
+
+export function getPrinterProfiles(): PrinterProfile[] {
+  return [...getCustomPrinterProfiles(), ...BUILT_IN_PRINTER_PROFILES];
+}
+
+export function getPrinterProfile(id: string): PrinterProfile | null {
+  return getPrinterProfiles().find((p) => p.id === id) ?? null;
+}
+
+export function savePrinterProfile(profile: PrinterProfile): PrinterProfile {
+  if (BUILT_IN_PRINTER_PROFILES.some((p) => p.id === profile.id)) {
+    throw new Error('Built-in profiles are read-only. Clone it to make changes.');
+  }
+  const normalized = normalizePrinterProfile(profile);
+  const profiles = getCustomPrinterProfiles();
+  const index = profiles.findIndex((p) => p.id === normalized.id);
+  if (index >= 0) {
+    profiles[index] = normalized;
+  } else {
+    profiles.unshift(normalized);
+  }
+  setCustomPrinterProfiles(profiles);
+  console.log('Printer profile saved:', normalized.name);
+  return normalized;
+}
+
+export function deletePrinterProfile(id: string): void {
+  const profiles = getCustomPrinterProfiles();
+  const next = profiles.filter((p) => p.id !== id);
+  if (next.length !== profiles.length) {
+    setCustomPrinterProfiles(next);
+  }
+}
+
+export function clonePrinterProfile(id: string): PrinterProfile {
+  const source = getPrinterProfile(id);
+  if (!source) {
+    throw new Error('Printer profile not found');
+  }
+  return savePrinterProfile({
+    ...source,
+    id: `custom-${nanoid(8)}`,
+    name: `${source.name} (copy)`,
+    builtIn: false
+  });
+}
+
+export function exportPrinterProfiles(ids?: string[]): string {
+  const profiles = getPrinterProfiles()
+    .filter((p) => !ids || ids.includes(p.id))
+    .map((p) => {
+      const copy: PrinterProfile = { ...p };
+      delete copy.builtIn;
+      return copy;
+    });
+  return JSON.stringify({ version: 1, profiles }, null, 2);
+}
+
+/**
+ * Import profiles from exported JSON (either `{ profiles: [...] }`, an array or a single profile).
+ * Imported profiles with the id of a built-in get a fresh id so built-ins stay untouched.
+ * Returns the number of imported profiles.
+ */
+export function importPrinterProfiles(json: string): number {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  const wrapped = parsed && typeof parsed === 'object' ? (parsed as { profiles?: unknown }).profiles : undefined;
+  const entries: unknown[] = Array.isArray(parsed)
+    ? parsed
+    : Array.isArray(wrapped)
+      ? wrapped
+      : [parsed];
+
+  const imported = entries.map((entry) => {
+    const profile = normalizePrinterProfile(entry);
+    if (BUILT_IN_PRINTER_PROFILES.some((p) => p.id === profile.id)) {
+      profile.id = `custom-${nanoid(8)}`;
+    }
+    return profile;
+  });
+  if (imported.length === 0) {
+    throw new Error('No printer profiles found in file');
+  }
+
+  const profiles = getCustomPrinterProfiles();
+  for (const profile of imported) {
+    const index = profiles.findIndex((p) => p.id === profile.id);
+    if (index >= 0) profiles[index] = profile;
+    else profiles.unshift(profile);
+  }
+  setCustomPrinterProfiles(profiles);
+  return imported.length;
+}
+
+/**
+ * Find the profile for a Bluetooth device name: exact name first, then name patterns.
+ * Returns null when nothing matches so callers can fall back to the paper size settings.
+ */
+export function resolvePrinterProfile(deviceName: string): PrinterProfile | null {
+  const profiles = getPrinterProfiles();
+  const exact = profiles.find((p) => p.name === deviceName);
+  if (exact) return exact;
+
+  const n = deviceName.toLowerCase();
+  return profiles.find((p) => p.namePatterns.some((pattern) => n.includes(pattern))) ?? null;
+}
+
+export function getFallbackPrinterProfile(thermalSize: '58mm' | '80mm'): PrinterProfile {
+  const id = thermalSize === '80mm' ? 'generic-80mm' : 'generic-58mm';
+  return BUILT_IN_PRINTER_PROFILES.find((p) => p.id === id)!;
+}
@@ -0,0 +1,287 @@
+import { supabase, isSupabaseConfigured } from '../config/supabase';
+import { getAllSessionPhotos, type PhotoRecord } from './photoStorageService';
+
+// Session Analytics
+// Per-event numbers for reporting back to the client. Capture, print and upload timings come from
+// the photo records on this booth (photos from other booths only count towards totals and hours);
+// downloads come from the `photo_access_logs` rows written by the validate-download function.
+
+export interface HourlyCount {
+  hour: string; // ISO start of the hour
+  count: number;
+}
+
+export interface TemplateCount {
+  templateId: string;
+  name: string;
+  count: number;
+}
+
+export interface DurationStats {
+  count: number; // photos with a measurement
+  averageSeconds: number | null;
+  medianSeconds: number | null;
+}
+
+export interface DownloadStats {
+  downloads: number; // granted accesses
+  uniqueIps: number;
+  photosDownloaded: number;
+  denied: number;
+}
+
+export interface PhotoAnalyticsRow {
+  photo: PhotoRecord;
+  downloads: number;
+  uniqueIps: number;
+}
+
+export interface SessionAnalytics {
+  sessionCode: string;
+  totalPhotos: number;
+  photosWithCaptureInfo: number; // taken on a booth that records template/retakes
+  hourly: HourlyCount[];
+  templates: TemplateCount[];
+  retakes: {
+    total: number;
+    photosWithRetake: number;
+    rate: number | null; // share of strips with at least one single-photo retake
+  };
+  prints: {
+    printed: number;
+    failed: number;
+    photosPrinted: number;
+    successRate: number | null;
+  };
+  captureToPrint: DurationStats;
+  uploadLag: DurationStats;
+  pendingUploads: number;
+  downloads: DownloadStats | null; // null when the access logs can't be read
+  rows: PhotoAnalyticsRow[];
+}
+
+const ACCESS_LOG_BATCH = 100; // photo ids per `in` filter, keeps the request URL short
+const UNKNOWN_TEMPLATE = 'unknown';
+
+function secondsBetween(from: string | undefined, to: string | undefined): number | null {
+  if (!from || !to) return null;
+  const seconds = (Date.parse(to) - Date.parse(from)) / 1000;
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+}
+
+function summarizeDurations(values: (number | null)[]): DurationStats {
+  const measured = values.filter((value): value is number => value !== null).sort((a, b) => a - b);
+  if (measured.length === 0) {
+    return { count: 0, averageSeconds: null, medianSeconds: null };
+  }
+  const middle = Math.floor(measured.length / 2);
+  return {
+    count: measured.length,
+    averageSeconds: measured.reduce((sum, value) => sum + value, 0) / measured.length,
+    medianSeconds: measured.length % 2 ? measured[middle] : (measured[middle - 1] + measured[middle]) / 2
+  };
+}
+
+function captureTime(photo: PhotoRecord): string {
+  return photo.capture?.capturedAt ?? photo.timestamp;
+}
+
+/**
+ * Photos per hour from the first to the last photo, empty hours included so the chart shows gaps.
+ */
+function countPerHour(photos: PhotoRecord[]): HourlyCount[] {
+  const counts = new Map<number, number>();
+  for (const photo of photos) {
+    const date = new Date(captureTime(photo));
+    if (isNaN(date.getTime())) continue;
+    date.setMinutes(0, 0, 0);
+    counts.set(date.getTime(), (counts.get(date.getTime()) ?? 0) + 1);
+  }
+  if (counts.size === 0) return [];
+
+  const hours = [...counts.keys()];
+  const first = Math.min(...hours);
+  const last = Math.max(...hours);
+  const result: HourlyCount[] = [];
+  for (const cursor = new Date(first); cursor.getTime() <= last; cursor.setHours(cursor.getHours() + 1)) {
+    result.push({ hour: cursor.toISOString(), count: counts.get(cursor.getTime()) ?? 0 });
+  }
+  return result;
+}
+
+function countTemplates(photos: PhotoRecord[]): TemplateCount[] {
+  const counts = new Map<string, TemplateCount>();
+  for (const photo of photos) {
+    const templateId = photo.capture?.templateId ?? UNKNOWN_TEMPLATE;
+    const entry = counts.get(templateId) ?? {
+      templateId,
+      name: photo.capture?.templateName ?? (photo.capture ? templateId : 'Not recorded'),
+      count: 0
+    };
+    entry.count++;
+    counts.set(templateId, entry);
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count);
+}
+
+interface AccessLogRow {
+  photo_id: string | null;
+  ip_address: string | null;
+  access_granted: boolean | null;
+}
+
+async function loadAccessLogs(photoIds: string[]): Promise<AccessLogRow[] | null> {
+  if (!isSupabaseConfigured() || !supabase) return null;
+  const rows: AccessLogRow[] = [];
+  for (let i = 0; i < photoIds.length; i += ACCESS_LOG_BATCH) {
+    const { data, error } = await supabase
+      .from('photo_access_logs')
+      .select('photo_id, ip_address, access_granted')
+      .in('photo_id', photoIds.slice(i, i + ACCESS_LOG_BATCH));
+    if (error) {
+      console.error('[SESSION_ANALYTICS] Failed to load access logs:', error);
+      return null;
+    }
+    rows.push(...((data ?? []) as AccessLogRow[]));
+  }
+  return rows;
+}
+
+export async function loadSessionAnalytics(sessionCode: string): Promise<SessionAnalytics> {
+  const photos = await getAllSessionPhotos(sessionCode);
+  const logs = await loadAccessLogs(photos.map((photo) => photo.id));
+
+  const downloadsByPhoto = new Map<string, { downloads: number; ips: Set<string> }>();
+  const allIps = new Set<string>();
+  let denied = 0;
+  for (const log of logs ?? []) {
+    if (!log.photo_id) continue;
+    if (!log.access_granted) {
+      denied++;
+      continue;
+    }
+    const entry = downloadsByPhoto.get(log.photo_id) ?? { downloads: 0, ips: new Set<string>() };
+    entry.downloads++;
+    if (log.ip_address) {
+      entry.ips.add(log.ip_address);
+      allIps.add(log.ip_address);
+    }
+    downloadsByPhoto.set(log.photo_id, entry);
+  }
+
+  const captured = photos.filter((photo) => photo.capture);
+  const photosWithRetake = captured.filter((photo) => (photo.capture?.frameRetakes ?? 0) > 0).length;
+  const printed = photos.reduce((sum, photo) => sum + (photo.prints?.printed ?? 0), 0);
+  const failed = photos.reduce((sum, photo) => sum + (photo.prints?.failed ?? 0), 0);
+
+  return {
+    sessionCode,
+    totalPhotos: photos.length,
+    photosWithCaptureInfo: captured.length,
+    hourly: countPerHour(photos),
+    templates: countTemplates(photos),
+    retakes: {
+      total: captured.reduce((sum, photo) => sum + (photo.capture?.frameRetakes ?? 0), 0),
+      photosWithRetake,
+      rate: captured.length > 0 ? photosWithRetake / captured.length : null
+    },
+    prints: {
+      printed,
+      failed,
+      photosPrinted: photos.filter((photo) => (photo.prints?.printed ?? 0) > 0).length,
+      successRate: printed + failed > 0 ? printed / (printed + failed) : null
+    },
+    captureToPrint: summarizeDurations(photos.map((photo) => secondsBetween(photo.capture?.capturedAt, photo.prints?.firstPrintedAt))),
+    uploadLag: summarizeDurations(photos.map((photo) => secondsBetween(photo.timestamp, photo.uploadedAt))),
+    pendingUploads: photos.filter((photo) => !photo.uploaded).length,
+    downloads: logs
+      ? {
+          downloads: [...downloadsByPhoto.values()].reduce((sum, entry) => sum + entry.downloads, 0),
+          uniqueIps: allIps.size,
+          photosDownloaded: downloadsByPhoto.size,
+          denied
+        }
+      : null,
+    rows: photos.map((photo) => ({
+      photo,
+      downloads: downloadsByPhoto.get(photo.id)?.downloads ?? 0,
+      uniqueIps: downloadsByPhoto.get(photo.id)?.ips.size ?? 0
+    }))
+  };
+}
+
+function csvCell(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: (string | number | boolean | null | undefined)[][]): string {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function roundSeconds(seconds: number | null): number | null {
+  return seconds === null ? null : Math.round(seconds);
+}
+
+function percent(ratio: number | null): string | null {
+  return ratio === null ? null : `${Math.round(ratio * 1000) / 10}%`;
+}
+
+/**
+ * Headline numbers and photos per hour, one metric per row.
+ */
+export function analyticsSummaryToCsv(analytics: SessionAnalytics): string {
+  const rows: (string | number | null)[][] = [
+    ['metric', 'value'],
+    ['session_code', analytics.sessionCode],
+    ['total_photos', analytics.totalPhotos],
+    ['photos_with_capture_info', analytics.photosWithCaptureInfo],
+    ['frame_retakes', analytics.retakes.total],
+    ['strips_with_retake', analytics.retakes.photosWithRetake],
+    ['retake_rate', percent(analytics.retakes.rate)],
+    ['prints_succeeded', analytics.prints.printed],
+    ['prints_failed', analytics.prints.failed],
+    ['print_success_rate', percent(analytics.prints.successRate)],
+    ['capture_to_print_median_seconds', roundSeconds(analytics.captureToPrint.medianSeconds)],
+    ['capture_to_print_average_seconds', roundSeconds(analytics.captureToPrint.averageSeconds)],
+    ['upload_lag_median_seconds', roundSeconds(analytics.uploadLag.medianSeconds)],
+    ['upload_lag_average_seconds', roundSeconds(analytics.uploadLag.averageSeconds)],
+    ['pending_uploads', analytics.pendingUploads],
+    ['downloads', analytics.downloads?.downloads ?? null],
+    ['unique_download_ips', analytics.downloads?.uniqueIps ?? null],
+    ['photos_downloaded', analytics.downloads?.photosDownloaded ?? null],
+    [],
+    ['template', 'photos'],
+    ...analytics.templates.map((template) => [template.name, template.count]),
+    [],
+    ['hour', 'photos'],
+    ...analytics.hourly.map((entry) => [entry.hour, entry.count])
+  ];
+  return toCsv(rows);
+}
+
+/**
+ * One row per photo.
+ */
+export function analyticsPhotosToCsv(analytics: SessionAnalytics): string {
+  const header = [
+    'photo_number', 'photo_id', 'taken_at', 'template', 'frame_retakes', 'prints', 'print_failures',
+    'capture_to_print_seconds', 'uploaded', 'upload_lag_seconds', 'downloads', 'unique_ips'
+  ];
+  const rows = analytics.rows.map(({ photo, downloads, uniqueIps }) => [
+    photo.photoNumber,
+    photo.id,
+    captureTime(photo),
+    photo.capture?.templateName ?? photo.capture?.templateId ?? null,
+    photo.capture?.frameRetakes ?? null,
+    photo.prints?.printed ?? null,
+    photo.prints?.failed ?? null,
+    roundSeconds(secondsBetween(photo.capture?.capturedAt, photo.prints?.firstPrintedAt)),
+    photo.uploaded,
+    roundSeconds(secondsBetween(photo.timestamp, photo.uploadedAt)),
+    downloads,
+    uniqueIps
+  ]);
+  return toCsv([header, ...rows]);
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { readSessionArchive, SESSION_ARCHIVE_FORMAT, SESSION_ARCHIVE_VERSION } from './sessionArchiveService';
+import { createZip, type ZipEntry } from '../utils/zipArchive';
+
+function photo(id: string, archiveFiles: Record<string, string> = { image: `photos/${id}.png` }) {
+  return {
+    id,
+    sessionCode: 'EVT01',
+    photoNumber: 1,
+    imageDataURL: '',
+    timestamp: '2026-05-17T14:30:00.000Z',
+    uploaded: false,
+    archiveFiles
+  };
+}
+
+async function archiveOf(photos: unknown[], files: string[] = []): Promise<Blob> {
+  const manifest = {
+    format: SESSION_ARCHIVE_FORMAT,
+    version: SESSION_ARCHIVE_VERSION,
+    exportedAt: '2026-05-17T15:00:00.000Z',
+    session: { sessionCode: 'EVT01', eventName: 'Launch party', createdAt: '2026-05-17T10:00:00.000Z', photoCount: photos.length },
+    photos,
+    printHistory: [],
+    branding: null,
+    brandingAssets: []
+  };
+  const entries: ZipEntry[] = [
+    { name: 'manifest.json', data: JSON.stringify(manifest) },
+    ...files.map((name) => ({ name, data: new Uint8Array([1, 2, 3]) }))
+  ];
+  return createZip(entries);
+}
+
+describe('readSessionArchive', () => {
+  it('opens an archive whose photos all have their files', async () => {
+    const archive = await readSessionArchive(await archiveOf([photo('a'), photo('b')], ['photos/a.png', 'photos/b.png']));
+    expect(archive.manifest.photos.map((entry) => entry.id)).toEqual(['a', 'b']);
+    expect(archive.files.get('photos/b.png')).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('accepts uploaded photos exported without a local image', async () => {
+    const uploaded = { ...photo('a', {}), uploaded: true };
+    await expect(readSessionArchive(await archiveOf([uploaded]))).resolves.toBeTruthy();
+  });
+
+  // Each of these used to fail halfway through the import, after earlier photos were written
+  it.each([
+    ['a photo without an id', [photo('a'), { ...photo('b'), id: undefined }], 'Photo 2 in the archive manifest has no id'],
+    ['a repeated id', [photo('a'), photo('a')], 'Photo 2 in the archive manifest repeats the id a'],
+    ['a photo without a number', [{ ...photo('a'), photoNumber: '1' }], 'Photo 1 in the archive manifest (a) is incomplete'],
+    ['a file missing from the ZIP', [photo('a'), photo('b')], 'Photo 2 in the archive manifest (b) points at photos/b.png, which is missing from the ZIP'],
+    ['a null entry', [photo('a'), null], 'Photo 2 in the archive manifest has no id']
+  ])('rejects a manifest with %s before anything is imported', async (_, photos, message) => {
+    await expect(readSessionArchive(await archiveOf(photos, ['photos/a.png']))).rejects.toThrow(message);
+  });
+
+  it('rejects ZIPs that are not session exports', async () => {
+    await expect(readSessionArchive(await createZip([{ name: 'notes.txt', data: 'hi' }]))).rejects.toThrow('manifest.json missing');
+  });
+});
@@ -0,0 +1,418 @@
+import { getConfigOverride, setConfigOverride, type ConfigOverride } from './configService';
+import { getDefaultSessionSettings, getLocalSession, getSessionByCode, syncRestoredSession, type SessionInfo, type SessionSettings } from './sessionService';
+import {
+  getAllSessionPhotos,
+  getPhotoFiles,
+  restoreSessionPhotos,
+  type PhotoFiles,
+  type PhotoRecord
+} from './photoStorageService';
+import { getPrintJobs, type PrintJob } from './printQueueService';
+import { getFreshSignedUrl } from './uploadService';
+import { drainUploadQueue } from './uploadQueueService';
+import { blobToDataURL } from '../utils/dataUrl';
+import { createZip, readZip, type ZipEntry } from '../utils/zipArchive';
+
+// Session Archive
+// One event as a self-contained ZIP: manifest.json (session, settings, photo records with access
+// tokens and upload state, print history, branding) next to every photo file and the branding
+// assets. Used to move an event to another booth or keep an offline backup.
+
+export const SESSION_ARCHIVE_FORMAT = 'morobooth-session';
+export const SESSION_ARCHIVE_VERSION = 1;
+
+type PhotoFileKind = keyof PhotoFiles;
+
+// File names inside the archive, per kind
+export type ArchivedPhotoFiles = Partial<Record<PhotoFileKind, string>>;
+
+export type ArchivedPhoto = Omit<PhotoRecord, 'files' | 'filesEvictedAt' | 'uploadAttempts' | 'lastUploadError' | 'nextUploadAt'> & {
+  archiveFiles: ArchivedPhotoFiles;
+};
+
+// Print history only; the print images themselves are not archived
+export type ArchivedPrintJob = Omit<PrintJob, 'imageDataURL'>;
+
+export interface ArchivedBrandingAsset {
+  url: string; // URL the branding config points at
+  file: string; // copy inside the archive
+}
+
+export interface SessionArchiveManifest {
+  format: typeof SESSION_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: SessionInfo;
+  settings: SessionSettings;
+  photos: ArchivedPhoto[];
+  printHistory: ArchivedPrintJob[];
+  branding: ConfigOverride | null;
+  brandingAssets: ArchivedBrandingAsset[];
+}
+
+export interface SessionArchive {
+  manifest: SessionArchiveManifest;
+  files: Map<string, Uint8Array>;
+}
+
+export interface SessionExportResult {
+  blob: Blob;
+  fileName: string;
+  photos: number;
+  missingFiles: number; // photos exported without their image (no local copy and not downloadable)
+}
+
+export interface SessionImportResult {
+  session: SessionInfo;
+  photosRestored: number;
+  photosSkipped: number;
+  brandingApplied: boolean;
+}
+
+const FILE_EXTENSIONS: Record<PhotoFileKind, string> = {
+  image: '.png',
+  color: '-color.jpg',
+  gif: '.gif',
+  boomerang: '-boomerang.gif'
+};
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  woff: 'font/woff',
+  woff2: 'font/woff2'
+};
+
+function mimeTypeFor(fileName: string): string {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return MIME_TYPES[extension] ?? 'application/octet-stream';
+}
+
+function extensionFromUrl(url: string): string {
+  try {
+    const extension = new URL(url).pathname.split('.').pop()?.toLowerCase() ?? '';
+    return /^[a-z0-9]{2,5}$/.test(extension) ? extension : 'bin';
+  } catch {
+    return 'bin';
+  }
+}
+
+async function fetchBlob(url: string): Promise<Blob | null> {
+  try {
+    const response = await fetch(url);
+    return response.ok ? await response.blob() : null;
+  } catch (error) {
+    console.warn('[SESSION_ARCHIVE] Failed to fetch', url, error);
+    return null;
+  }
+}
+
+async function fetchStoredFile(path: string | undefined): Promise<Blob | null> {
+  if (!path) return null;
+  const url = await getFreshSignedUrl(path);
+  return url ? fetchBlob(url) : null;
+}
+
+/**
+ * Local copies of a photo, topped up from Supabase storage for anything evicted from this device.
+ */
+async function collectPhotoFiles(photo: PhotoRecord): Promise<Partial<PhotoFiles>> {
+  const files: Partial<PhotoFiles> = { ...getPhotoFiles(photo) };
+  if (!photo.uploaded) return files;
+
+  const remote: Record<PhotoFileKind, string | undefined> = {
+    image: photo.supabasePath,
+    color: photo.colorPath,
+    gif: photo.motion?.gifPath,
+    boomerang: photo.motion?.boomerangPath
+  };
+  for (const kind of Object.keys(remote) as PhotoFileKind[]) {
+    if (files[kind] || !remote[kind]) continue;
+    const blob = await fetchStoredFile(remote[kind]);
+    if (blob) files[kind] = blob;
+  }
+  return files;
+}
+
+function toArchivedPhoto(photo: PhotoRecord, archiveFiles: ArchivedPhotoFiles): ArchivedPhoto {
+  const archived: ArchivedPhoto & Partial<PhotoRecord> = {
+    ...photo,
+    // Legacy records keep their image as a data URL; it is in the archive as a file instead
+    imageDataURL: photo.imageDataURL.startsWith('data:') ? '' : photo.imageDataURL,
+    archiveFiles
+  };
+  delete archived.files;
+  delete archived.filesEvictedAt;
+  delete archived.uploadAttempts;
+  delete archived.lastUploadError;
+  delete archived.nextUploadAt;
+  return archived;
+}
+
+/**
+ * Branding config of this session, when it is the one saved on this booth.
+ */
+function getSessionBranding(sessionCode: string): ConfigOverride | null {
+  const override = getConfigOverride();
+  return override.sessionCode === sessionCode ? override : null;
+}
+
+function getBrandingUrls(branding: ConfigOverride): string[] {
+  const urls = (branding.fonts ?? []).map((font) => font.url);
+  if (branding.header.mode === 'image' && branding.header.imageUrl) {
+    urls.unshift(branding.header.imageUrl);
+  }
+  // Data URLs are already inside the manifest
+  return urls.filter((url) => url && !url.startsWith('data:'));
+}
+
+export async function exportSessionArchive(
+  sessionCode: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<SessionExportResult> {
+  // Supabase has the latest settings; the local copy keeps offline exports working
+  const session = (await getSessionByCode(sessionCode)) ?? (await getLocalSession(sessionCode));
+  if (!session) {
+    throw new Error(`Session ${sessionCode} not found`);
+  }
+
+  const photos = await getAllSessionPhotos(sessionCode);
+
+  const entries: ZipEntry[] = [];
+  const archivedPhotos: ArchivedPhoto[] = [];
+  let missingFiles = 0;
+
+  for (const [index, photo] of photos.entries()) {
+    onProgress?.(index, photos.length);
+    const files = await collectPhotoFiles(photo);
+    const archiveFiles: ArchivedPhotoFiles = {};
+    for (const kind of Object.keys(files) as PhotoFileKind[]) {
+      const blob = files[kind];
+      if (!blob) continue;
+      const name = `photos/${photo.id}${FILE_EXTENSIONS[kind]}`;
+      entries.push({ name, data: blob, modified: new Date(photo.timestamp) });
+      archiveFiles[kind] = name;
+    }
+    if (!archiveFiles.image) missingFiles++;
+    archivedPhotos.push(toArchivedPhoto(photo, archiveFiles));
+  }
+
+  const branding = getSessionBranding(sessionCode);
+  const brandingAssets: ArchivedBrandingAsset[] = [];
+  if (branding) {
+    for (const [index, url] of getBrandingUrls(branding).entries()) {
+      const blob = await fetchBlob(url);
+      if (!blob) continue;
+      const file = `branding/asset-${index + 1}.${extensionFromUrl(url)}`;
+      entries.push({ name: file, data: blob });
+      brandingAssets.push({ url, file });
+    }
+  }
+
+  const photoIds = new Set(photos.map((photo) => photo.id));
+  const printHistory = (await getPrintJobs())
+    .filter((job) => job.photoId !== null && photoIds.has(job.photoId))
+    .map((job) => {
+      const archived: ArchivedPrintJob & Partial<PrintJob> = { ...job };
+      delete archived.imageDataURL;
+      return archived;
+    });
+
+  const manifest: SessionArchiveManifest = {
+    format: SESSION_ARCHIVE_FORMAT,
+    version: SESSION_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    session,
+    settings: session.settings ?? getDefaultSessionSettings(),
+    photos: archivedPhotos,
+    printHistory,
+    branding,
+    brandingAssets
+  };
+  entries.unshift({ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+
+  const blob = await createZip(entries);
+  onProgress?.(photos.length, photos.length);
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  return {
+    blob,
+    fileName: `morobooth-${sessionCode}-${date}.zip`,
+    photos: photos.length,
+    missingFiles
+  };
+}
+
+/**
+ * Open an archive and check its manifest, without touching this device's data yet.
+ */
+export async function readSessionArchive(file: Blob): Promise<SessionArchive> {
+  const files = await readZip(file);
+  const manifestBytes = files.get('manifest.json');
+  if (!manifestBytes) {
+    throw new Error('This ZIP is not a Morobooth session export (manifest.json missing)');
+  }
+
+  let manifest: SessionArchiveManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch {
+    throw new Error('The archive manifest is not valid JSON');
+  }
+  if (manifest?.format !== SESSION_ARCHIVE_FORMAT || typeof manifest.session?.sessionCode !== 'string') {
+    throw new Error('This ZIP is not a Morobooth session export');
+  }
+  if (manifest.version > SESSION_ARCHIVE_VERSION) {
+    throw new Error('This archive was made by a newer version of Morobooth. Update the app first.');
+  }
+  validateManifest(manifest, files);
+  return { manifest, files };
+}
+
+/**
+ * Check every photo entry up front, so an import never stops halfway through on a bad one.
+ */
+function validateManifest(manifest: SessionArchiveManifest, files: Map<string, Uint8Array>): void {
+  const { session } = manifest;
+  if (!session.sessionCode || typeof session.eventName !== 'string' || typeof session.photoCount !== 'number') {
+    throw new Error('The archive manifest has an incomplete session');
+  }
+  if (!Array.isArray(manifest.photos)) {
+    throw new Error('The archive manifest has no photo list');
+  }
+
+  const ids = new Set<string>();
+  for (const [index, photo] of manifest.photos.entries()) {
+    const label = `Photo ${index + 1} in the archive manifest`;
+    if (!photo || typeof photo.id !== 'string' || !photo.id) {
+      throw new Error(`${label} has no id`);
+    }
+    if (ids.has(photo.id)) {
+      throw new Error(`${label} repeats the id ${photo.id}`);
+    }
+    ids.add(photo.id);
+    if (typeof photo.photoNumber !== 'number' || typeof photo.timestamp !== 'string' || typeof photo.uploaded !== 'boolean') {
+      throw new Error(`${label} (${photo.id}) is incomplete`);
+    }
+    for (const name of Object.values(photo.archiveFiles ?? {})) {
+      if (name && !files.has(name)) {
+        throw new Error(`${label} (${photo.id}) points at ${name}, which is missing from the ZIP`);
+      }
+    }
+  }
+
+  if (manifest.brandingAssets !== undefined && !Array.isArray(manifest.brandingAssets)) {
+    throw new Error('The archive manifest has an invalid branding asset list');
+  }
+}
+
+function archiveBlob(archive: SessionArchive, name: string | undefined): Blob | undefined {
+  if (!name) return undefined;
+  const bytes = archive.files.get(name);
+  return bytes ? new Blob([bytes as Uint8Array<ArrayBuffer>], { type: mimeTypeFor(name) }) : undefined;
+}
+
+function toPhotoRecord(archive: SessionArchive, archived: ArchivedPhoto): PhotoRecord | null {
+  const { archiveFiles = {}, ...photo } = archived;
+  const image = archiveBlob(archive, archiveFiles.image);
+  // Without an image a photo that was never uploaded can't be shown, printed or uploaded
+  if (!image && !photo.uploaded) return null;
+
+  const record: PhotoRecord = { ...photo, sessionCode: archive.manifest.session.sessionCode };
+  if (image) {
+    record.files = {
+      image,
+      color: archiveBlob(archive, archiveFiles.color),
+      gif: archiveBlob(archive, archiveFiles.gif),
+      boomerang: archiveBlob(archive, archiveFiles.boomerang)
+    };
+  }
+  return record;
+}
+
+async function isReachable(url: string): Promise<boolean> {
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Branding with its assets pointing at the archived copies wherever the original URL can't be reached.
+ */
+async function resolveBranding(archive: SessionArchive): Promise<ConfigOverride | null> {
+  const { branding, brandingAssets, session } = archive.manifest;
+  if (!branding) return null;
+
+  const replacements = new Map<string, string>();
+  for (const asset of brandingAssets ?? []) {
+    if (await isReachable(asset.url)) continue;
+    const blob = archiveBlob(archive, asset.file);
+    if (blob) replacements.set(asset.url, await blobToDataURL(blob));
+  }
+  const resolve = (url: string) => replacements.get(url) ?? url;
+
+  return {
+    ...branding,
+    sessionCode: session.sessionCode,
+    header: { ...branding.header, imageUrl: resolve(branding.header.imageUrl) },
+    fonts: branding.fonts?.map((font) => ({ ...font, url: resolve(font.url) }))
+  };
+}
+
+/**
+ * Restore an archive into this device's database. The session and its photos are written in one
+ * transaction, so a failed import leaves nothing behind. Print history stays in the archive:
+ * re-adding the jobs would put them back in the print queue.
+ */
+export async function importSessionArchive(
+  archive: SessionArchive,
+  options: { applyBranding?: boolean } = {}
+): Promise<SessionImportResult> {
+  const { manifest } = archive;
+  validateManifest(manifest, archive.files);
+
+  const records: PhotoRecord[] = [];
+  let missing = 0;
+  for (const archived of manifest.photos) {
+    const record = toPhotoRecord(archive, archived);
+    if (record) {
+      records.push(record);
+    } else {
+      missing++;
+    }
+  }
+  const { session, restored, skipped } = await restoreSessionPhotos(
+    { ...manifest.session, settings: manifest.session.settings ?? manifest.settings },
+    records
+  );
+  await syncRestoredSession(session);
+
+  let brandingApplied = false;
+  if (options.applyBranding) {
+    const branding = await resolveBranding(archive);
+    if (branding) {
+      setConfigOverride(branding);
+      brandingApplied = true;
+    }
+  }
+
+  if (records.some((photo) => !photo.uploaded)) {
+    void drainUploadQueue();
+  }
+
+  console.log(`[SESSION_ARCHIVE] Imported ${session.sessionCode}: ${restored} photos restored, ${skipped + missing} skipped`);
+  return {
+    session,
+    photosRestored: restored,
+    photosSkipped: skipped + missing,
+    brandingApplied
+  };
+}
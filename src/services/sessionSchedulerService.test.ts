@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SessionInfo } from './sessionService';
+
+const sessionService = vi.hoisted(() => ({
+  activateSession: vi.fn(),
+  closeSession: vi.fn(),
+  getCurrentSession: vi.fn(),
+  getSessionsStartingBetween: vi.fn(),
+  isSessionClosed: (session: SessionInfo | null) => !!session?.closedAt
+}));
+vi.mock('./sessionService', () => sessionService);
+
+const { runSessionSchedule } = await import('./sessionSchedulerService');
+
+const NOW = Date.parse('2026-06-20T15:00:00.000Z');
+
+function scheduled(sessionCode: string, startsAt: string): SessionInfo {
+  return { sessionCode, eventName: sessionCode, createdAt: '2026-06-01T00:00:00.000Z', photoCount: 0, startsAt };
+}
+
+describe('runSessionSchedule', () => {
+  beforeEach(() => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value)
+    });
+    vi.stubGlobal('navigator', { onLine: true });
+    vi.resetAllMocks();
+    sessionService.getCurrentSession.mockResolvedValue(scheduled('CEREMONY', '2026-06-20T12:00:00.000Z'));
+  });
+
+  it('activates a session that so far only exists in Supabase, using the row it read', async () => {
+    const reception = scheduled('RECEPTION', '2026-06-20T14:59:00.000Z');
+    sessionService.getSessionsStartingBetween.mockResolvedValue([reception]);
+    sessionService.activateSession.mockResolvedValue(reception);
+
+    await runSessionSchedule(NOW);
+    expect(sessionService.activateSession).toHaveBeenCalledWith('RECEPTION', reception);
+
+    // Applied once: an operator switching back by hand is not overridden
+    await runSessionSchedule(NOW + 30_000);
+    expect(sessionService.activateSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a start whose activation failed on the next check', async () => {
+    const reception = scheduled('RECEPTION', '2026-06-20T14:59:00.000Z');
+    sessionService.getSessionsStartingBetween.mockResolvedValue([reception]);
+    sessionService.activateSession.mockRejectedValueOnce(new Error('Failed to save session to database'));
+
+    await expect(runSessionSchedule(NOW)).rejects.toThrow('Failed to save session to database');
+    await runSessionSchedule(NOW + 30_000);
+    expect(sessionService.activateSession).toHaveBeenCalledTimes(2);
+
+    await runSessionSchedule(NOW + 60_000);
+    expect(sessionService.activateSession).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  activateSession,
+  closeSession,
+  getCurrentSession,
+  getSessionsStartingBetween,
+  isSessionClosed,
+  type SessionInfo
+} from './sessionService';
+
+// Session Scheduler
+// Sessions with a start time are activated when it arrives and closed at their end time, so a
+// wedding can switch from ceremony to reception without anyone touching the booth. Each scheduled
+// start is applied once per device: an operator who switches back to another session by hand is
+// not overridden on the next tick.
+
+export interface TimelineEntry {
+  session: SessionInfo;
+  start: number; // ms, clipped to the day
+  end: number;
+  openEnded: boolean; // no end time: runs until the next session or the end of the day
+  state: 'upcoming' | 'running' | 'closed';
+}
+
+const CHECK_INTERVAL_MS = 30_000;
+const MAX_REMOTE_BACKOFF_MS = 10 * 60_000;
+const STARTED_STORAGE_KEY = 'morobooth_schedule_started';
+const MAX_REMEMBERED_STARTS = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Starts missed by longer than this are not applied (e.g. an old event imported from an archive)
+const MAX_START_DELAY_MS = DAY_MS / 2;
+
+let timer: number | null = null;
+let running: Promise<void> | null = null;
+let remoteFailures = 0;
+let nextRemoteCheck = 0;
+
+function startKey(session: SessionInfo): string {
+  return `${session.sessionCode}@${session.startsAt}`;
+}
+
+function getAppliedStarts(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STARTED_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((key): key is string => typeof key === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function rememberStart(session: SessionInfo): void {
+  const keys = getAppliedStarts().filter((key) => key !== startKey(session));
+  keys.push(startKey(session));
+  try {
+    localStorage.setItem(STARTED_STORAGE_KEY, JSON.stringify(keys.slice(-MAX_REMEMBERED_STARTS)));
+  } catch (error) {
+    console.warn('[SCHEDULER] Failed to save schedule state (non-fatal):', error);
+  }
+}
+
+/**
+ * Sessions whose start could be due now. They come from Supabase when it can be reached; offline,
+ * and for a while after a failed query (doubling up to MAX_REMOTE_BACKOFF_MS), the sessions on this
+ * device are used so the booth still follows a timetable it already has.
+ */
+async function getStartCandidates(now: number): Promise<SessionInfo[]> {
+  const from = new Date(now - MAX_START_DELAY_MS);
+  const to = new Date(now);
+  if (navigator.onLine && now >= nextRemoteCheck) {
+    try {
+      const sessions = await getSessionsStartingBetween(from, to);
+      remoteFailures = 0;
+      return sessions;
+    } catch (error) {
+      remoteFailures++;
+      const delay = Math.min(MAX_REMOTE_BACKOFF_MS, CHECK_INTERVAL_MS * 2 ** remoteFailures);
+      nextRemoteCheck = now + delay;
+      console.warn(`[SCHEDULER] Session query failed, using local sessions for ${Math.round(delay / 1000)}s:`, error);
+    }
+  }
+  return getSessionsStartingBetween(from, to, false);
+}
+
+/**
+ * Close the current session once its end time has passed, then activate the latest session whose
+ * start time has arrived and that hasn't been started on this device yet.
+ */
+export async function runSessionSchedule(now = Date.now()): Promise<void> {
+  const current = await getCurrentSession();
+  if (current && !current.closedAt && current.endsAt && Date.parse(current.endsAt) <= now) {
+    console.log('[SCHEDULER] End time reached, closing session:', current.sessionCode);
+    await closeSession(current.sessionCode);
+  }
+
+  const applied = new Set(getAppliedStarts());
+  const due = (await getStartCandidates(now))
+    .filter((session) =>
+      session.startsAt &&
+      Date.parse(session.startsAt) <= now &&
+      now - Date.parse(session.startsAt) < MAX_START_DELAY_MS &&
+      !isSessionClosed(session, now) &&
+      !applied.has(startKey(session))
+    )
+    .sort((a, b) => Date.parse(b.startsAt!) - Date.parse(a.startsAt!));
+  if (due.length === 0) return;
+
+  // Only the latest start counts; earlier ones that were missed (booth switched off) are skipped.
+  // The candidate is passed along because it may only exist in Supabase so far. Starts are
+  // remembered once activation succeeded; a failed one throws and is retried on the next tick.
+  const next = due[0];
+  if (next.sessionCode !== current?.sessionCode) {
+    console.log('[SCHEDULER] Start time reached, activating session:', next.sessionCode);
+    await activateSession(next.sessionCode, next);
+  }
+  due.forEach(rememberStart);
+}
+
+function tick(): void {
+  if (running) return;
+  running = runSessionSchedule()
+    .catch((error) => console.warn('[SCHEDULER] Schedule check failed:', error))
+    .finally(() => {
+      running = null;
+    });
+}
+
+/**
+ * Start checking the timetable. Safe to call more than once.
+ */
+export function initSessionScheduler(): void {
+  if (timer !== null) return;
+  timer = window.setInterval(tick, CHECK_INTERVAL_MS);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') tick();
+  });
+  window.addEventListener('online', () => {
+    nextRemoteCheck = 0;
+    tick();
+  });
+  tick();
+}
+
+/**
+ * Scheduled sessions overlapping the day that contains `day`, in start order. Sessions without an
+ * end time are drawn up to the next session's start (or the end of the day).
+ */
+export function getScheduleTimeline(sessions: SessionInfo[], day: Date, now = Date.now()): TimelineEntry[] {
+  const dayStart = new Date(day);
+  dayStart.setHours(0, 0, 0, 0);
+  const dayEnd = dayStart.getTime() + DAY_MS;
+
+  const scheduled = sessions
+    .filter((session) => session.startsAt)
+    .sort((a, b) => Date.parse(a.startsAt!) - Date.parse(b.startsAt!));
+
+  return scheduled.flatMap((session, index) => {
+    const start = Date.parse(session.startsAt!);
+    const nextStart = scheduled[index + 1] ? Date.parse(scheduled[index + 1].startsAt!) : dayEnd;
+    const end = session.endsAt ? Date.parse(session.endsAt) : Math.max(nextStart, start);
+    if (end <= dayStart.getTime() || start >= dayEnd) return [];
+
+    const state: TimelineEntry['state'] = isSessionClosed(session, now) ? 'closed' : start > now ? 'upcoming' : 'running';
+    return [{
+      session,
+      start: Math.max(start, dayStart.getTime()),
+      end: Math.min(end, dayEnd),
+      openEnded: !session.endsAt,
+      state
+    }];
+  });
+}
@@ -1,6 +1,8 @@
-import { openDB } from 'idb';
 import { nanoid } from 'nanoid';
 import { supabase, isSupabaseConfigured } from '../config/supabase';
+import { PHOTO_STORE, PRINT_JOB_STORE, SESSION_STORE, getDB } from './database';
+import { BASE_TEMPLATES, normalizeTemplateDefinition, type TemplateDefinition } from '../config/templates';
+import type { BoothIdentity } from './boothService';
 
 export interface SessionSettings {
   // Expired settings
@@ -15,6 +17,28 @@ export interface SessionSettings {
   // Other settings
   maxPhotos?: number; // Optional: limit jumlah photos per session
   allowDownloadAfterExpired?: boolean; // Default: false
+  maxFrameRetakes?: number; // Default: 2, single-photo retakes a guest gets per capture (0 = off)
+}
+
+// How a template's shots are taken during this session
+export interface CaptureSettings {
+  countdownSeconds: number; // Before the first shot
+  shotCountdownSeconds: number; // Between shots
+  posePrompts: string[]; // Index = shot number - 1, empty = no prompt
+  manualAdvance: boolean; // Wait for a button press before each next shot
+}
+
+// Shown on the booth instead of the capture screens once the session is closed
+export interface EventEndedScreen {
+  title: string;
+  message: string;
+}
+
+// Timetable for a session; the scheduler (sessionSchedulerService) activates and closes it
+export interface SessionSchedule {
+  startsAt?: string; // ISO time the session becomes active
+  endsAt?: string; // ISO time the session closes
+  endedScreen?: EventEndedScreen;
 }
 
 export interface SessionInfo {
@@ -23,12 +47,26 @@ export interface SessionInfo {
   createdAt: string;
   photoCount: number;
   settings?: SessionSettings; // Optional untuk backward compatibility
+  captureSettings?: Record<string, CaptureSettings>; // Keyed by template id
+  customTemplates?: TemplateDefinition[]; // Made in the admin template designer
+  startsAt?: string;
+  endsAt?: string;
+  closedAt?: string; // Set when the session was closed; capture is blocked until another session is active
+  endedScreen?: EventEndedScreen;
 }
 
-const DB_NAME = 'morobooth-db';
-const SESSION_STORE = 'sessions';
-const PHOTO_STORE = 'photos';
 const SESSIONS_TABLE = 'sessions';
+const MAX_COUNTDOWN_SECONDS = 10;
+const DEFAULT_MAX_FRAME_RETAKES = 2;
+
+export const DEFAULT_EVENT_ENDED_SCREEN: EventEndedScreen = {
+  title: 'This event has ended',
+  message: 'Thank you for coming! Scan the QR code on your print to download your photos.'
+};
+
+function notifySessionChanged(session: SessionInfo | null): void {
+  window.dispatchEvent(new CustomEvent('sessionChanged', { detail: { session } }));
+}
 
 // Lock mechanism to prevent race conditions
 let incrementLock = false;
@@ -41,6 +79,21 @@ function mapSupabaseSession(row: any): SessionInfo {
     createdAt: row.created_at ?? new Date().toISOString(),
     photoCount: row.photo_count ?? 0,
   };
+
+  if (row.capture_settings) {
+    session.captureSettings = row.capture_settings;
+  }
+
+  if (row.starts_at) session.startsAt = new Date(row.starts_at).toISOString();
+  if (row.ends_at) session.endsAt = new Date(row.ends_at).toISOString();
+  if (row.closed_at) session.closedAt = new Date(row.closed_at).toISOString();
+  if (row.ended_screen) session.endedScreen = normalizeEndedScreen(row.ended_screen);
+
+  if (Array.isArray(row.custom_templates)) {
+    session.customTemplates = row.custom_templates
+      .map(normalizeTemplateDefinition)
+      .filter((t: TemplateDefinition | null): t is TemplateDefinition => t !== null);
+  }
   
   // Map settings if available
   if (row.photo_expired_hours !== undefined || row.enable_expired_check !== undefined) {
@@ -51,37 +104,21 @@ function mapSupabaseSession(row: any): SessionInfo {
       storageDeleteDays: row.storage_delete_days ?? 5,
       enableAutoDelete: row.enable_auto_delete ?? true,
       maxPhotos: row.max_photos ?? undefined,
-      allowDownloadAfterExpired: row.allow_download_after_expired ?? false
+      allowDownloadAfterExpired: row.allow_download_after_expired ?? false,
+      maxFrameRetakes: row.max_frame_retakes ?? DEFAULT_MAX_FRAME_RETAKES
     };
   }
   
   return session;
 }
 
-async function getDB() {
-  return openDB(DB_NAME, 4, {
-    upgrade(db, oldVersion, newVersion) {
-      // Create sessions store
-      if (!db.objectStoreNames.contains(SESSION_STORE)) {
-        db.createObjectStore(SESSION_STORE, { keyPath: 'sessionCode' });
-      }
-      
-      // Create photos store (if not exists, photoStorageService will handle it)
-      // Note: photoStorageService handles its own migrations, so we only create if it doesn't exist
-      if (!db.objectStoreNames.contains(PHOTO_STORE)) {
-        const store = db.createObjectStore(PHOTO_STORE, { keyPath: 'id' });
-        store.createIndex('sessionCode', 'sessionCode');
-        store.createIndex('uploaded', 'uploaded');
-      }
-      
-      // Migration from version 3 to 4: handled by photoStorageService
-      // sessionService doesn't need to do anything for v4 migration
-      if (oldVersion < 4 && newVersion === 4) {
-        console.log('[SessionService] Database upgraded from version', oldVersion, 'to', newVersion);
-        // Migration logic is handled by photoStorageService
-      }
-    }
-  });
+function getActiveSessionCode(): string | null {
+  try {
+    const stored = localStorage.getItem('currentSession');
+    return stored ? JSON.parse(stored)?.sessionCode ?? null : null;
+  } catch {
+    return null;
+  }
 }
 
 export async function getCurrentSession(): Promise<SessionInfo | null> {
@@ -92,8 +129,9 @@ export async function getCurrentSession(): Promise<SessionInfo | null> {
     const db = await getDB();
     const allSessions = await db.getAll(SESSION_STORE);
     if (allSessions && allSessions.length > 0) {
-      // Get most recent session
-      const latestSession = allSessions.sort((a, b) => 
+      // The activated session (code cached in localStorage), otherwise the most recent one
+      const activeCode = getActiveSessionCode();
+      const latestSession = allSessions.find((s) => s.sessionCode === activeCode) ?? allSessions.sort((a, b) => 
         new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
       )[0];
       
@@ -161,11 +199,23 @@ export async function createSession(eventName: string): Promise<SessionInfo> {
   const db = await getDB();
   await db.put(SESSION_STORE, session);
   localStorage.setItem('currentSession', JSON.stringify(session));
+  notifySessionChanged(session);
   
   return session;
 }
 
-export async function incrementPhotoCount(): Promise<number> {
+export interface PhotoNumberAllocation {
+  photoNumber: number;
+  provisional: boolean; // from the local count: another booth on the session may get the same number
+}
+
+/**
+ * Allocate the next photo number of the active session. With Supabase the number comes from the
+ * `next_photo_number` RPC, which is atomic across every booth on the session and registers `booth`;
+ * offline (or when the RPC fails) the local count is used and the number is marked provisional.
+ * The local lock only keeps this device's own saves in order.
+ */
+export async function incrementPhotoCount(booth?: BoothIdentity): Promise<PhotoNumberAllocation> {
   console.log('[INCREMENT_PHOTO_COUNT] Starting incrementPhotoCount');
   
   // Prevent concurrent calls with timeout
@@ -180,7 +230,7 @@ export async function incrementPhotoCount(): Promise<number> {
     }
     // Retry after lock released
     console.log('[INCREMENT_PHOTO_COUNT] Lock released, retrying...');
-    return incrementPhotoCount();
+    return incrementPhotoCount(booth);
   }
   
   incrementLock = true;
@@ -195,33 +245,37 @@ export async function incrementPhotoCount(): Promise<number> {
     console.log('[INCREMENT_PHOTO_COUNT] ✓ Session found:', session.sessionCode);
     console.log('[INCREMENT_PHOTO_COUNT] Current photoCount:', session.photoCount);
     
-    // Create immutable updated session
-    const oldCount = session.photoCount;
-    const updatedSession: SessionInfo = {
-      ...session,
-      photoCount: session.photoCount + 1
-    };
-    console.log('[INCREMENT_PHOTO_COUNT] Photo count incremented from', oldCount, 'to', updatedSession.photoCount);
-    
-    // Update Supabase (non-blocking, log error but don't fail)
-    if (isSupabaseConfigured() && supabase) {
-      console.log('[INCREMENT_PHOTO_COUNT] Step 2: Updating Supabase');
+    // Allocate the number on the server so booths sharing the session never collide
+    let photoNumber = session.photoCount + 1;
+    let provisional = true;
+    if (isSupabaseConfigured() && supabase && navigator.onLine) {
+      console.log('[INCREMENT_PHOTO_COUNT] Step 2: Allocating photo number in Supabase');
       try {
-        const { error } = await supabase
-          .from(SESSIONS_TABLE)
-          .update({ photo_count: updatedSession.photoCount })
-          .eq('session_code', updatedSession.sessionCode);
+        const { data, error } = await supabase.rpc('next_photo_number', {
+          p_session_code: session.sessionCode,
+          p_device_id: booth?.deviceId ?? null,
+          p_booth_name: booth?.boothName ?? null
+        });
         if (error) {
-          console.error('[INCREMENT_PHOTO_COUNT] Supabase update error (non-fatal):', error);
-        } else {
-          console.log('[INCREMENT_PHOTO_COUNT] ✓ Supabase updated successfully');
+          console.error('[INCREMENT_PHOTO_COUNT] Supabase next_photo_number error, using local count:', error);
+        } else if (Number.isInteger(data) && data > 0) {
+          photoNumber = data;
+          provisional = false;
+          console.log('[INCREMENT_PHOTO_COUNT] ✓ Photo number allocated by Supabase:', photoNumber);
         }
       } catch (supabaseError) {
-        console.error('[INCREMENT_PHOTO_COUNT] Supabase update exception (non-fatal):', supabaseError);
+        console.error('[INCREMENT_PHOTO_COUNT] Supabase next_photo_number exception, using local count:', supabaseError);
       }
     } else {
-      console.log('[INCREMENT_PHOTO_COUNT] Supabase not configured, skipping');
+      console.log('[INCREMENT_PHOTO_COUNT] Supabase unavailable, using local count');
     }
+
+    // Local count follows the highest number seen, including other booths' photos
+    const updatedSession: SessionInfo = {
+      ...session,
+      photoCount: Math.max(session.photoCount + 1, photoNumber)
+    };
+    console.log('[INCREMENT_PHOTO_COUNT] Photo count updated from', session.photoCount, 'to', updatedSession.photoCount);
     
     // Update IndexedDB with transaction (with retry mechanism)
     console.log('[INCREMENT_PHOTO_COUNT] Step 3: Updating IndexedDB');
@@ -326,8 +380,8 @@ export async function incrementPhotoCount(): Promise<number> {
     }
     
     console.log('[INCREMENT_PHOTO_COUNT] SUCCESS: incrementPhotoCount completed');
-    console.log('[INCREMENT_PHOTO_COUNT] New photoCount:', updatedSession.photoCount);
-    return updatedSession.photoCount;
+    console.log('[INCREMENT_PHOTO_COUNT] New photo number:', photoNumber, provisional ? '(provisional)' : '');
+    return { photoNumber, provisional };
   } catch (error) {
     console.error('[INCREMENT_PHOTO_COUNT] ERROR: incrementPhotoCount failed');
     console.error('[INCREMENT_PHOTO_COUNT] Error type:', typeof error);
@@ -363,6 +417,32 @@ export async function getAllSessions(): Promise<SessionInfo[]> {
   return db.getAll(SESSION_STORE);
 }
 
+/**
+ * Sessions whose start time is between `from` and `to`, for the scheduler. Only those rows are read
+ * from Supabase; with `remote` off, or without Supabase, the sessions on this device are filtered
+ * instead. Throws when the Supabase query fails so the scheduler can back off.
+ */
+export async function getSessionsStartingBetween(from: Date, to: Date, remote = true): Promise<SessionInfo[]> {
+  if (remote && isSupabaseConfigured() && supabase) {
+    const { data, error } = await supabase
+      .from(SESSIONS_TABLE)
+      .select('*')
+      .gte('starts_at', from.toISOString())
+      .lte('starts_at', to.toISOString());
+    if (error) {
+      throw new Error(error.message);
+    }
+    return (data ?? []).map(mapSupabaseSession);
+  }
+
+  const db = await getDB();
+  const sessions: SessionInfo[] = await db.getAll(SESSION_STORE);
+  return sessions.filter((session) => {
+    const start = session.startsAt ? Date.parse(session.startsAt) : NaN;
+    return start >= from.getTime() && start <= to.getTime();
+  });
+}
+
 export async function getSessionByCode(sessionCode: string): Promise<SessionInfo | null> {
   if (isSupabaseConfigured() && supabase) {
     const { data, error } = await supabase
@@ -392,6 +472,14 @@ export async function getSessionByCode(sessionCode: string): Promise<SessionInfo
   }
 }
 
+/**
+ * The copy of a session stored on this device, without asking Supabase (works offline).
+ */
+export async function getLocalSession(sessionCode: string): Promise<SessionInfo | null> {
+  const db = await getDB();
+  return (await db.get(SESSION_STORE, sessionCode)) ?? null;
+}
+
 export async function updateSessionSettings(sessionCode: string, settings: SessionSettings): Promise<boolean> {
   if (!isSupabaseConfigured() || !supabase) {
     console.warn('Supabase not configured, cannot update session settings');
@@ -408,7 +496,8 @@ export async function updateSessionSettings(sessionCode: string, settings: Sessi
         storage_delete_days: settings.storageDeleteDays,
         enable_auto_delete: settings.enableAutoDelete,
         max_photos: settings.maxPhotos ?? null,
-        allow_download_after_expired: settings.allowDownloadAfterExpired
+        allow_download_after_expired: settings.allowDownloadAfterExpired,
+        max_frame_retakes: settings.maxFrameRetakes ?? DEFAULT_MAX_FRAME_RETAKES
       })
       .eq('session_code', sessionCode);
 
@@ -417,6 +506,13 @@ export async function updateSessionSettings(sessionCode: string, settings: Sessi
       return false;
     }
 
+    // The booth reads settings from its local copy of the session
+    try {
+      await updateLocalSession(sessionCode, () => ({ settings }));
+    } catch (dbError) {
+      console.warn('Failed to update local session settings (non-fatal):', dbError);
+    }
+
     return true;
   } catch (err) {
     console.error('Error updating session settings:', err);
@@ -431,10 +527,223 @@ export function getDefaultSessionSettings(): SessionSettings {
     autoDeleteDays: 30,
     storageDeleteDays: 5,
     enableAutoDelete: true,
-    allowDownloadAfterExpired: false
+    allowDownloadAfterExpired: false,
+    maxFrameRetakes: DEFAULT_MAX_FRAME_RETAKES
+  };
+}
+
+/**
+ * How many single photos a guest may retake from the review screen.
+ */
+export function getMaxFrameRetakes(session: SessionInfo | null): number {
+  return Math.max(0, session?.settings?.maxFrameRetakes ?? DEFAULT_MAX_FRAME_RETAKES);
+}
+
+export function getDefaultCaptureSettings(): CaptureSettings {
+  return {
+    countdownSeconds: 3,
+    shotCountdownSeconds: 3,
+    posePrompts: [],
+    manualAdvance: false
   };
 }
 
+function clampSeconds(value: unknown, fallback: number): number {
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds)) return fallback;
+  return Math.min(MAX_COUNTDOWN_SECONDS, Math.max(0, Math.round(seconds)));
+}
+
+export function normalizeCaptureSettings(raw: Partial<CaptureSettings> | undefined): CaptureSettings {
+  const defaults = getDefaultCaptureSettings();
+  return {
+    countdownSeconds: clampSeconds(raw?.countdownSeconds, defaults.countdownSeconds),
+    shotCountdownSeconds: clampSeconds(raw?.shotCountdownSeconds, defaults.shotCountdownSeconds),
+    posePrompts: Array.isArray(raw?.posePrompts) ? raw.posePrompts.map((prompt) => String(prompt ?? '').trim()) : [],
+    manualAdvance: raw?.manualAdvance ?? defaults.manualAdvance
+  };
+}
+
+/**
+ * Capture settings a session uses for a template (defaults when the admin never changed them).
+ */
+export function getCaptureSettings(session: SessionInfo | null, templateId: string): CaptureSettings {
+  return normalizeCaptureSettings(session?.captureSettings?.[templateId]);
+}
+
+/**
+ * Patch the session stored on this device (IndexedDB, plus the localStorage cache when it is the current one).
+ * Returns null when this device doesn't have the session.
+ */
+async function updateLocalSession(
+  sessionCode: string,
+  patch: (session: SessionInfo) => Partial<SessionInfo>
+): Promise<SessionInfo | null> {
+  const db = await getDB();
+  const session: SessionInfo | undefined = await db.get(SESSION_STORE, sessionCode);
+  if (!session) return null;
+
+  const updatedSession: SessionInfo = {
+    ...session,
+    ...patch(session)
+  };
+  await db.put(SESSION_STORE, updatedSession);
+
+  try {
+    const current = localStorage.getItem('currentSession');
+    if (current && JSON.parse(current)?.sessionCode === sessionCode) {
+      localStorage.setItem('currentSession', JSON.stringify(updatedSession));
+    }
+  } catch (e) {
+    console.warn('Failed to sync session to localStorage (non-fatal):', e);
+  }
+  return updatedSession;
+}
+
+export async function updateSessionCaptureSettings(
+  sessionCode: string,
+  templateId: string,
+  settings: CaptureSettings
+): Promise<SessionInfo> {
+  const updatedSession = await updateLocalSession(sessionCode, (session) => ({
+    captureSettings: {
+      ...session.captureSettings,
+      [templateId]: normalizeCaptureSettings(settings)
+    }
+  }));
+  if (!updatedSession) {
+    throw new Error(`Session ${sessionCode} not found`);
+  }
+
+  if (isSupabaseConfigured() && supabase) {
+    const { error } = await supabase
+      .from(SESSIONS_TABLE)
+      .update({ capture_settings: updatedSession.captureSettings })
+      .eq('session_code', sessionCode);
+    if (error) {
+      console.error('Supabase updateSessionCaptureSettings error (non-fatal):', error);
+    }
+  }
+
+  return updatedSession;
+}
+
+/**
+ * Built-in templates followed by the session's own designs.
+ */
+export function getSessionTemplates(session: SessionInfo | null): TemplateDefinition[] {
+  return [...BASE_TEMPLATES, ...(session?.customTemplates ?? [])];
+}
+
+// Capture settings go along because deleting a template drops its entry
+async function syncSessionTemplates(session: SessionInfo, context: string) {
+  if (!isSupabaseConfigured() || !supabase) return;
+  const { error } = await supabase
+    .from(SESSIONS_TABLE)
+    .update({
+      custom_templates: session.customTemplates ?? [],
+      capture_settings: session.captureSettings ?? null
+    })
+    .eq('session_code', session.sessionCode);
+  if (error) {
+    console.error(`Supabase ${context} error (non-fatal):`, error);
+  }
+}
+
+/**
+ * Add or replace (same id) a designer template on the session.
+ */
+export async function saveSessionTemplate(sessionCode: string, template: TemplateDefinition): Promise<SessionInfo> {
+  const normalized = normalizeTemplateDefinition(template);
+  if (!normalized) {
+    throw new Error('Template needs at least one photo cell');
+  }
+  if (BASE_TEMPLATES.some((t) => t.id === normalized.id)) {
+    throw new Error('Built-in templates cannot be overwritten');
+  }
+
+  const updatedSession = await updateLocalSession(sessionCode, (session) => {
+    const existing = session.customTemplates ?? [];
+    const replaced = existing.some((t) => t.id === normalized.id);
+    return {
+      customTemplates: replaced
+        ? existing.map((t) => (t.id === normalized.id ? normalized : t))
+        : [...existing, normalized]
+    };
+  });
+  if (!updatedSession) {
+    throw new Error(`Session ${sessionCode} not found`);
+  }
+
+  await syncSessionTemplates(updatedSession, 'saveSessionTemplate');
+  return updatedSession;
+}
+
+export async function deleteSessionTemplate(sessionCode: string, templateId: string): Promise<SessionInfo> {
+  const updatedSession = await updateLocalSession(sessionCode, (session) => {
+    const captureSettings = { ...session.captureSettings };
+    delete captureSettings[templateId];
+    return {
+      customTemplates: (session.customTemplates ?? []).filter((t) => t.id !== templateId),
+      captureSettings
+    };
+  });
+  if (!updatedSession) {
+    throw new Error(`Session ${sessionCode} not found`);
+  }
+
+  await syncSessionTemplates(updatedSession, 'deleteSessionTemplate');
+  return updatedSession;
+}
+
+/**
+ * A session brought in from another booth (session archive import), merged into the copy already
+ * on this device: that copy keeps its own settings and the photo count never goes down.
+ */
+export function mergeRestoredSession(imported: SessionInfo, existing: SessionInfo | undefined): SessionInfo {
+  return existing
+    ? { ...imported, ...existing, photoCount: Math.max(existing.photoCount, imported.photoCount) }
+    : imported;
+}
+
+/**
+ * Create the Supabase row of a restored session. Only done when the row is missing, so an event
+ * that is already online is left alone.
+ */
+export async function syncRestoredSession(session: SessionInfo): Promise<void> {
+  if (isSupabaseConfigured() && supabase) {
+    const settings = session.settings;
+    const { error } = await supabase
+      .from(SESSIONS_TABLE)
+      .upsert({
+        session_code: session.sessionCode,
+        event_name: session.eventName,
+        created_at: session.createdAt,
+        photo_count: session.photoCount,
+        is_active: false,
+        capture_settings: session.captureSettings ?? null,
+        custom_templates: session.customTemplates ?? [],
+        starts_at: session.startsAt ?? null,
+        ends_at: session.endsAt ?? null,
+        closed_at: session.closedAt ?? null,
+        ended_screen: session.endedScreen ?? null,
+        ...(settings ? {
+          photo_expired_hours: settings.photoExpiredHours,
+          enable_expired_check: settings.enableExpiredCheck,
+          auto_delete_days: settings.autoDeleteDays,
+          storage_delete_days: settings.storageDeleteDays,
+          enable_auto_delete: settings.enableAutoDelete,
+          max_photos: settings.maxPhotos ?? null,
+          allow_download_after_expired: settings.allowDownloadAfterExpired,
+          max_frame_retakes: settings.maxFrameRetakes ?? DEFAULT_MAX_FRAME_RETAKES
+        } : {})
+      }, { onConflict: 'session_code', ignoreDuplicates: true });
+    if (error) {
+      console.error('Supabase syncRestoredSession error (non-fatal):', error);
+    }
+  }
+}
+
 export async function clearSession() {
   const current = await getCurrentSession();
   if (isSupabaseConfigured() && supabase && current) {
@@ -450,12 +759,18 @@ export async function clearSession() {
   localStorage.removeItem('currentSession');
 }
 
-export async function activateSession(sessionCode: string): Promise<SessionInfo | null> {
+/**
+ * Make a session the current one, here and in Supabase. `known` is a copy the caller already read
+ * (the scheduler's Supabase query): it is used as-is, so a session that only exists on the server
+ * is activated and saved to this device even when the session list can't be fetched again.
+ */
+export async function activateSession(sessionCode: string, known?: SessionInfo): Promise<SessionInfo | null> {
   console.log('[ACTIVATE_SESSION] Activating session:', sessionCode);
   
-  // Get all sessions to find the one to activate
-  const allSessions = await getAllSessions();
-  const sessionToActivate = allSessions.find(s => s.sessionCode === sessionCode);
+  // The caller's copy, or the one in the session list
+  const sessionToActivate = known?.sessionCode === sessionCode
+    ? known
+    : (await getAllSessions()).find(s => s.sessionCode === sessionCode);
   
   if (!sessionToActivate) {
     console.error('[ACTIVATE_SESSION] Session not found:', sessionCode);
@@ -512,9 +827,102 @@ export async function activateSession(sessionCode: string): Promise<SessionInfo
   }
   
   console.log('[ACTIVATE_SESSION] SUCCESS: Session activated:', sessionCode);
+  notifySessionChanged(sessionToActivate);
   return sessionToActivate;
 }
 
+function normalizeEndedScreen(raw: Partial<EventEndedScreen> | undefined): EventEndedScreen {
+  return {
+    title: String(raw?.title ?? '').trim() || DEFAULT_EVENT_ENDED_SCREEN.title,
+    message: String(raw?.message ?? '').trim()
+  };
+}
+
+/**
+ * Closed sessions block capture: closed by the scheduler or the admin, or past their end time.
+ */
+export function isSessionClosed(session: SessionInfo | null, now = Date.now()): boolean {
+  if (!session) return false;
+  if (session.closedAt) return true;
+  return !!session.endsAt && Date.parse(session.endsAt) <= now;
+}
+
+export function getEventEndedScreen(session: SessionInfo | null): EventEndedScreen {
+  return session?.endedScreen ?? DEFAULT_EVENT_ENDED_SCREEN;
+}
+
+/**
+ * Save a session's start/end times and "event ended" screen. Moving the end time into the
+ * future (or removing it) reopens a closed session.
+ */
+export async function updateSessionSchedule(sessionCode: string, schedule: SessionSchedule): Promise<SessionInfo> {
+  const startsAt = schedule.startsAt ? new Date(schedule.startsAt).toISOString() : undefined;
+  const endsAt = schedule.endsAt ? new Date(schedule.endsAt).toISOString() : undefined;
+  if (startsAt && endsAt && Date.parse(endsAt) <= Date.parse(startsAt)) {
+    throw new Error('End time must be after the start time');
+  }
+  const reopen = !endsAt || Date.parse(endsAt) > Date.now();
+
+  const patch = (session: SessionInfo): SessionInfo => ({
+    ...session,
+    startsAt,
+    endsAt,
+    closedAt: reopen ? undefined : session.closedAt,
+    endedScreen: schedule.endedScreen ? normalizeEndedScreen(schedule.endedScreen) : session.endedScreen
+  });
+  const localSession = await updateLocalSession(sessionCode, patch);
+  const session = localSession ?? (await getSessionByCode(sessionCode));
+  if (!session) {
+    throw new Error(`Session ${sessionCode} not found`);
+  }
+  const updatedSession = localSession ?? patch(session);
+
+  if (isSupabaseConfigured() && supabase) {
+    const { error } = await supabase
+      .from(SESSIONS_TABLE)
+      .update({
+        starts_at: updatedSession.startsAt ?? null,
+        ends_at: updatedSession.endsAt ?? null,
+        closed_at: updatedSession.closedAt ?? null,
+        ended_screen: updatedSession.endedScreen ?? null
+      })
+      .eq('session_code', sessionCode);
+    if (error) {
+      console.error('Supabase updateSessionSchedule error (non-fatal):', error);
+    }
+  }
+
+  if (updatedSession.sessionCode === getActiveSessionCode()) {
+    notifySessionChanged(updatedSession);
+  }
+  return updatedSession;
+}
+
+/**
+ * Close a session: it stays the booth's current session, but capture shows the "event ended"
+ * screen until another session is activated.
+ */
+export async function closeSession(sessionCode: string): Promise<SessionInfo | null> {
+  console.log('[CLOSE_SESSION] Closing session:', sessionCode);
+  const closedAt = new Date().toISOString();
+
+  if (isSupabaseConfigured() && supabase) {
+    const { error } = await supabase
+      .from(SESSIONS_TABLE)
+      .update({ is_active: false, closed_at: closedAt })
+      .eq('session_code', sessionCode);
+    if (error) {
+      console.error('[CLOSE_SESSION] Supabase update error (non-fatal):', error);
+    }
+  }
+
+  const session = await updateLocalSession(sessionCode, (current) => ({ closedAt: current.closedAt ?? closedAt }));
+  if (session && session.sessionCode === getActiveSessionCode()) {
+    notifySessionChanged(session);
+  }
+  return session;
+}
+
 export async function clearAllData() {
   try {
     if (isSupabaseConfigured() && supabase) {
@@ -527,6 +935,7 @@ export async function clearAllData() {
     const db = await getDB();
     await db.clear(SESSION_STORE);
     await db.clear(PHOTO_STORE);
+    await db.clear(PRINT_JOB_STORE);
     localStorage.removeItem('currentSession');
   } catch (error) {
     console.error('Error clearing data:', error);
@@ -1,181 +1,51 @@
 /// <reference types="@types/web-bluetooth" />
 
-import { getPrinterOutputSettings, getPrinterSizeSettings, setPrinterSizeSettings } from './configService';
-
-export interface PrinterConfig {
-  name: string;
-  width: number; // printable pixel width (58mm -> ~384px, 80mm -> ~576px)
-  dpi: number;
-  /**
-   * Threshold defines the cut-off (0-255) used when converting the source canvas
-   * to pure black/white. Higher value => more pixels become black.
-   */
-  threshold?: number;
-  /**
-   * Gamma (>= 1 darkens mid tones). Default 1 (no adjustment).
-   */
-  gamma?: number;
-  /**
-   * Optional flag to enable error-diffusion dithering (Floyd-Steinberg)
-   */
-  dithering?: boolean;
-  /**
-   * Optional sharpen amount (0-1). Applies simple unsharp mask before thresholding.
-   */
-  sharpen?: number;
-  commands: {
-    init: string;
-    center: string;
-    feed: string; // few new lines to feed paper
-    cut: string; // some mobile printers may ignore cut
-    image: string; // raster bit image header (ESC * m)
-  };
-}
+import { DEFAULT_PRINTER_OUTPUT, getPrinterOutputSettings, getPrinterSizeSettings, hasSavedPrinterOutputSettings, setPrinterSizeSettings, type PrinterOutputSettings } from './configService';
+import { encodeImageJob, type MonoBitmap } from '../shared/escpos';
+import { convertToDitheredBitmapAsync } from '../utils/imageWorkerClient';
+import { getFallbackPrinterProfile, getPrinterProfiles, resolvePrinterProfile, type PrinterProfile } from './printerProfileService';
 
 export class UniversalBluetoothPrinterService {
   private device: BluetoothDevice | null = null;
   private characteristic: BluetoothRemoteGATTCharacteristic | null = null;
-  private config: PrinterConfig | null = null;
-
-  private static PRINTER_CONFIGS: Record<string, PrinterConfig> = {
-    'EPPOS EPX-58B': {
-      name: 'EPPOS EPX-58B',
-      width: 384,
-      dpi: 203,
-      threshold: 165,
-      gamma: 1.25,
-      dithering: false,
-      sharpen: 0.45,
-      commands: {
-        init: '\x1B\x40',
-        center: '\x1B\x61\x01',
-        feed: '\x0A\x0A\x0A',
-        cut: '\x1D\x56\x00',
-        image: '\x1B\x2A\x00'
-      }
-    },
-    'XPRINTER XP-P300': {
-      name: 'XPRINTER XP-P300',
-      width: 384,
-      dpi: 203,
-      threshold: 165,
-      gamma: 1.25,
-      dithering: true,
-      sharpen: 0.45,
-      commands: {
-        init: '\x1B\x40',
-        center: '\x1B\x61\x01',
-        feed: '\x0A\x0A\x0A',
-        cut: '\x1D\x56\x00',
-        image: '\x1B\x2A\x00'
-      }
-    },
-    'HOIN HOP H58': {
-      name: 'HOIN HOP H58',
-      width: 384,
-      dpi: 203,
-      threshold: 165,
-      gamma: 1.25,
-      dithering: true,
-      sharpen: 0.45,
-      commands: {
-        init: '\x1B\x40',
-        center: '\x1B\x61\x01',
-        feed: '\x0A\x0A\x0A',
-        cut: '\x1D\x56\x00',
-        image: '\x1B\x2A\x00'
-      }
-    },
-    'BellaV EP-58A': {
-      name: 'BellaV EP-58A',
-      width: 384,
-      dpi: 203,
-      threshold: 165,
-      gamma: 1.25,
-      dithering: true,
-      sharpen: 0.45,
-      commands: {
-        init: '\x1B\x40',
-        center: '\x1B\x61\x01',
-        feed: '\x0A\x0A\x0A',
-        cut: '\x1D\x56\x00',
-        image: '\x1B\x2A\x00'
-      }
-    },
-    'Generic 58mm': {
-      name: 'Generic 58mm',
-      width: 384,
-      dpi: 203,
-      threshold: 165,
-      gamma: 1.25,
-      dithering: true,
-      sharpen: 0.45,
-      commands: {
-        init: '\x1B\x40',
-        center: '\x1B\x61\x01',
-        feed: '\x0A\x0A\x0A',
-        cut: '\x1D\x56\x00',
-        image: '\x1B\x2A\x00'
-      }
-    },
-    'Generic 80mm': {
-      name: 'Generic 80mm',
-      width: 576,
-      dpi: 203,
-      threshold: 165,
-      gamma: 1.25,
-      dithering: true,
-      sharpen: 0.45,
-      commands: {
-        init: '\x1B\x40',
-        center: '\x1B\x61\x01',
-        feed: '\x0A\x0A\x0A',
-        cut: '\x1D\x56\x00',
-        image: '\x1B\x2A\x00'
-      }
-    }
-  };
+  private config: PrinterProfile | null = null;
 
   async connect(): Promise<boolean> {
     try {
-      const filters: any[] = [];
-      Object.keys(UniversalBluetoothPrinterService.PRINTER_CONFIGS).forEach((name) => {
-        filters.push({ name });
+      // Build chooser filters and GATT services from the printer profile registry
+      const profiles = getPrinterProfiles();
+      const filters: BluetoothLEScanFilter[] = [];
+      const prefixes = new Set<string>();
+      const allServices = new Set<string>();
+      profiles.forEach((profile) => {
+        filters.push({ name: profile.name });
+        profile.namePrefixes.forEach((prefix) => prefixes.add(prefix));
+        profile.serviceUUIDs.forEach((uuid) => allServices.add(uuid));
       });
-      filters.push(
-        { namePrefix: 'EPPOS' },
-        { namePrefix: 'EPX' },
-        { namePrefix: 'XPRINTER' },
-        { namePrefix: 'HOIN' },
-        { namePrefix: 'BellaV' },
-        { namePrefix: 'Printer' },
-        { namePrefix: 'Thermal' }
-      );
+      prefixes.forEach((namePrefix) => filters.push({ namePrefix }));
 
       this.device = await navigator.bluetooth.requestDevice({
         filters,
-        optionalServices: [
-          '000018f0-0000-1000-8000-00805f9b34fb', // Serial
-          '00001101-0000-1000-8000-00805f9b34fb', // SPP
-          '0000ffe0-0000-1000-8000-00805f9b34fb'  // Generic
-        ]
+        optionalServices: Array.from(allServices)
       });
 
       const detectedName = this.device.name || 'Generic 58mm';
       this.config = this.detectPrinterConfig(detectedName);
+      console.log('Web Bluetooth printer: Using profile', this.config.name, 'for', detectedName);
 
       const server = await this.device.gatt?.connect();
-      const services = [
-        '000018f0-0000-1000-8000-00805f9b34fb',
-        '00001101-0000-1000-8000-00805f9b34fb',
-        '0000ffe0-0000-1000-8000-00805f9b34fb'
-      ];
+      // Try the matched profile's services first, then everything else we know about
+      const services = Array.from(new Set([...this.config.serviceUUIDs, ...allServices]));
+      const preferredCharacteristic = this.config.characteristicUUID;
 
       for (const uuid of services) {
         try {
           const service = await server?.getPrimaryService(uuid);
           const chars = await service?.getCharacteristics();
-          for (const c of chars || []) {
+          const ordered = preferredCharacteristic
+            ? [...(chars || [])].sort((a, b) => Number(b.uuid === preferredCharacteristic) - Number(a.uuid === preferredCharacteristic))
+            : chars || [];
+          for (const c of ordered) {
             if (c.properties.write || c.properties.writeWithoutResponse) {
               this.characteristic = c;
               return true;
@@ -204,97 +74,54 @@ export class UniversalBluetoothPrinterService {
     }
   }
 
-  private detectPrinterConfig(deviceName: string): PrinterConfig {
+  private detectPrinterConfig(deviceName: string): PrinterProfile {
     // Step 1: Check manual settings first - if user manually set, respect that
     const manualSettings = getPrinterSizeSettings();
     const hasManualOverride = !manualSettings.autoDetected;
     
-    // Step 2: Try exact match from PRINTER_CONFIGS
-    if (UniversalBluetoothPrinterService.PRINTER_CONFIGS[deviceName]) {
-      const config = UniversalBluetoothPrinterService.PRINTER_CONFIGS[deviceName];
+    // Step 2: Resolve from the profile registry (exact name, then name patterns)
+    const detectedConfig = resolvePrinterProfile(deviceName);
+    
+    if (detectedConfig) {
       // If no manual override, save auto-detect result
       if (!hasManualOverride) {
         setPrinterSizeSettings({
-          thermalSize: config.width >= 500 ? '80mm' : '58mm',
-          width: config.width >= 500 ? 80 : 58,
+          thermalSize: detectedConfig.width >= 500 ? '80mm' : '58mm',
+          width: detectedConfig.width >= 500 ? 80 : 58,
           autoDetected: true
         });
       }
-      return config;
-    }
-    
-    // Step 3: Pattern matching untuk brand/model
-    const n = deviceName.toLowerCase();
-    let detectedConfig: PrinterConfig | null = null;
-    
-    if (n.includes('eppos') || n.includes('epx')) {
-      detectedConfig = UniversalBluetoothPrinterService.PRINTER_CONFIGS['EPPOS EPX-58B'];
-    } else if (n.includes('xprinter') || n.includes('xp-p300')) {
-      detectedConfig = UniversalBluetoothPrinterService.PRINTER_CONFIGS['XPRINTER XP-P300'];
-    } else if (n.includes('hoin') || n.includes('h58')) {
-      detectedConfig = UniversalBluetoothPrinterService.PRINTER_CONFIGS['HOIN HOP H58'];
-    } else if (n.includes('bellav') || n.includes('58a')) {
-      detectedConfig = UniversalBluetoothPrinterService.PRINTER_CONFIGS['BellaV EP-58A'];
-    } else if (n.includes('80') || n.includes('80mm')) {
-      detectedConfig = UniversalBluetoothPrinterService.PRINTER_CONFIGS['Generic 80mm'];
-    }
-    
-    // Step 4: If auto-detect berhasil DAN tidak ada manual override, simpan ke settings
-    if (detectedConfig && !hasManualOverride) {
-      setPrinterSizeSettings({
-        thermalSize: detectedConfig.width >= 500 ? '80mm' : '58mm',
-        width: detectedConfig.width >= 500 ? 80 : 58,
-        autoDetected: true
-      });
       return detectedConfig;
     }
     
-    // Step 5: Jika auto-detect gagal atau ada manual override, gunakan manual settings
-    if (hasManualOverride) {
-      // Use manual settings - convert mm to pixels
-      if (manualSettings.thermalSize === '80mm') {
-        return UniversalBluetoothPrinterService.PRINTER_CONFIGS['Generic 80mm'];
-      }
-      return UniversalBluetoothPrinterService.PRINTER_CONFIGS['Generic 58mm'];
-    }
-    
-    // Step 6: Fallback ke 58mm jika tidak ada settings
-    return UniversalBluetoothPrinterService.PRINTER_CONFIGS['Generic 58mm'];
+    // Step 3: Jika tidak ada profile yang cocok, gunakan manual settings (default 58mm)
+    return getFallbackPrinterProfile(manualSettings.thermalSize);
   }
 
   async printImage(imageDataURL: string): Promise<boolean> {
     if (!this.characteristic || !this.config) return false;
     try {
-      const payload = await this.convertToThermalFormat(imageDataURL, this.config);
-      const asciiEncoder = new TextEncoder();
-      const init = asciiEncoder.encode(this.config.commands.init);
-      const center = asciiEncoder.encode(this.config.commands.center);
-      const feed = asciiEncoder.encode(this.config.commands.feed);
-      const cut = asciiEncoder.encode(this.config.commands.cut);
-
-      const payloadBytes = new Uint8Array(payload.length);
-      let nonZeroBytes = 0;
-      for (let i = 0; i < payload.length; i++) {
-        const value = payload.charCodeAt(i) & 0xff;
-        payloadBytes[i] = value;
-        if (value !== 0) nonZeroBytes++;
-      }
+      const bitmap = await this.convertToThermalFormat(imageDataURL, this.config);
+      const payload = encodeImageJob(bitmap, {
+        imageMode: this.config.imageMode,
+        alignment: this.config.alignment,
+        density: this.config.density,
+        feedLines: this.config.feedLines,
+        cutMode: this.config.cutMode
+      });
 
-      if (nonZeroBytes === 0) {
-        console.warn('Generated payload contains only zero bytes. Print may appear blank.');
+      if (!bitmap.pixels.some((v) => v === 1)) {
+        console.warn('Generated bitmap contains no black pixels. Print may appear blank.');
       }
 
-      const commandQueue: Array<{ label: string; data: Uint8Array }> = [
-        { label: 'init', data: init },
-        { label: 'center', data: center },
-        { label: 'payload', data: payloadBytes },
-        { label: 'feed', data: feed },
-        { label: 'cut', data: cut }
-      ];
+      console.log('ESC/POS payload:', {
+        imageMode: this.config.imageMode,
+        width: bitmap.width,
+        height: bitmap.height,
+        payloadLength: payload.length
+      });
 
-      for (const cmd of commandQueue) {
-        await this.writeInChunks(cmd.data, cmd.label);
-      }
+      await this.writeInChunks(payload, 'image job');
       return true;
     } catch (e) {
       console.error('Print error:', e);
@@ -302,15 +129,16 @@ export class UniversalBluetoothPrinterService {
     }
   }
 
-  private async convertToThermalFormat(imageDataURL: string, config: PrinterConfig): Promise<string> {
+  private async convertToThermalFormat(imageDataURL: string, config: PrinterProfile): Promise<MonoBitmap> {
     const IMAGE_LOAD_TIMEOUT = 10000; // 10 seconds timeout
     
     // Load printer output settings from configService (consistent with AdminPage)
-    const customSettings = getPrinterOutputSettings();
+    // Until the admin saves output settings, the printer profile's dither defaults apply
+    const customSettings: PrinterOutputSettings = hasSavedPrinterOutputSettings() ? getPrinterOutputSettings() : {};
     console.log('Web Bluetooth printer: Using settings from configService:', customSettings);
     
-    return Promise.race<string>([
-      new Promise<string>((resolve, reject) => {
+    return Promise.race<MonoBitmap>([
+      new Promise<MonoBitmap>((resolve, reject) => {
         const img = new Image();
         let resolved = false;
         
@@ -336,89 +164,56 @@ export class UniversalBluetoothPrinterService {
             ctx.drawImage(img, 0, 0, targetWidth, targetHeight);
             const imageData = ctx.getImageData(0, 0, targetWidth, targetHeight);
 
-            // Use settings from configService, fall back to config if not set
+            // Use settings from configService, fall back to printer profile if not set
             // Use explicit checks to preserve 0 and false values
             const sharpenAmount = customSettings.sharpen !== undefined 
               ? customSettings.sharpen 
-              : (config.sharpen ?? 0);
-            if (sharpenAmount > 0) {
-              this.applySharpen(imageData, sharpenAmount);
-            }
-            
-            // Force pure black/white conversion for thermal printer
-            const data = imageData.data;
-            let blackCount = 0;
-            let whiteCount = 0;
+              : config.sharpen;
             const threshold = customSettings.threshold !== undefined 
               ? customSettings.threshold 
-              : (config.threshold ?? 150);
+              : config.threshold;
             const gamma = customSettings.gamma !== undefined 
               ? customSettings.gamma 
-              : (config.gamma ?? 1);
+              : config.gamma;
             const applyDithering = customSettings.dithering !== undefined 
               ? customSettings.dithering 
-              : (config.dithering ?? false);
-
-            for (let i = 0; i < data.length; i += 4) {
-              const r = data[i];
-              const g = data[i + 1];
-              const b = data[i + 2];
-              // Use proper luminance formula
-              const gray = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
-              // Apply gamma to darken mid-tones (gamma > 1 => darker)
-              const normalized = gray / 255;
-              const gammaCorrected = Math.pow(normalized, gamma);
-              const adjusted = Math.min(255, Math.max(0, Math.round(gammaCorrected * 255)));
+              : config.dithering;
+            const ditherAlgorithm = customSettings.printDitherAlgorithm ?? DEFAULT_PRINTER_OUTPUT.printDitherAlgorithm;
 
-              // For dithering, defer thresholding after error diffusion; for non-dither just threshold now
-              if (!applyDithering) {
-                const value = adjusted < threshold ? 0 : 255;
-                data[i] = value;     // R
-                data[i + 1] = value; // G
-                data[i + 2] = value; // B
-                if (value < 128) blackCount++;
-                else whiteCount++;
-              } else {
-                // Temporarily store adjusted grayscale in channels (R=G=B)
-                data[i] = adjusted;
-                data[i + 1] = adjusted;
-                data[i + 2] = adjusted;
-              }
-            }
-            
-            if (applyDithering) {
-              // Apply Floyd-Steinberg dithering on the temporary grayscale values
-              this.applyFloydSteinbergDither(imageData, threshold);
-
-              // After dithering, update stats and clamp to pure B/W
-              for (let i = 0; i < data.length; i += 4) {
-                const value = data[i] < threshold ? 0 : 255;
-                data[i] = value;
-                data[i + 1] = value;
-                data[i + 2] = value;
-                if (value < 128) blackCount++;
-                else whiteCount++;
-              }
-            }
-
-            // Debug logging for image conversion
-            const totalPixels = blackCount + whiteCount;
-            console.log('Image conversion stats:', {
-              width: targetWidth,
-              height: targetHeight,
-              totalPixels,
-              blackPixels: blackCount,
-              whitePixels: whiteCount,
-              blackPercentage: totalPixels > 0 ? ((blackCount / totalPixels) * 100).toFixed(2) + '%' : '0%',
+            // Force pure black/white conversion for thermal printer, in the image worker
+            convertToDitheredBitmapAsync(imageData, {
               threshold,
               gamma,
               sharpen: sharpenAmount,
               dithering: applyDithering,
-              usingCustomSettings: true
-            });
-            
-            const bitmap = this.imageDataToEscPosBitmap(imageData);
-            resolve(bitmap);
+              algorithm: ditherAlgorithm,
+              source: 'rgb'
+            }).then((bitmap) => {
+              let blackCount = 0;
+              for (let i = 0; i < bitmap.pixels.length; i++) {
+                blackCount += bitmap.pixels[i];
+              }
+              const whiteCount = bitmap.pixels.length - blackCount;
+
+              // Debug logging for image conversion
+              const totalPixels = blackCount + whiteCount;
+              console.log('Image conversion stats:', {
+                width: targetWidth,
+                height: targetHeight,
+                totalPixels,
+                blackPixels: blackCount,
+                whitePixels: whiteCount,
+                blackPercentage: totalPixels > 0 ? ((blackCount / totalPixels) * 100).toFixed(2) + '%' : '0%',
+                threshold,
+                gamma,
+                sharpen: sharpenAmount,
+                dithering: applyDithering,
+                ditherAlgorithm,
+                usingCustomSettings: hasSavedPrinterOutputSettings()
+              });
+
+              resolve(bitmap);
+            }, reject);
           } catch (error) {
             reject(error instanceof Error ? error : new Error('Failed to process image'));
           }
@@ -432,7 +227,7 @@ export class UniversalBluetoothPrinterService {
         
         img.src = imageDataURL;
       }),
-      new Promise<string>((_, reject) => {
+      new Promise<MonoBitmap>((_, reject) => {
         setTimeout(() => {
           reject(new Error(`Image conversion timeout after ${IMAGE_LOAD_TIMEOUT / 1000} seconds`));
         }, IMAGE_LOAD_TIMEOUT);
@@ -440,75 +235,9 @@ export class UniversalBluetoothPrinterService {
     ]);
   }
 
-  private imageDataToEscPosBitmap(imageData: ImageData): string {
-    const { data, width, height } = imageData;
-    let out = '';
-    
-    // Debug stats
-    let totalBytes = 0;
-    let bytesWithBits = 0;
-    let totalBitsSet = 0;
-    
-    // Process in 8-dot rows (vertical bit packing)
-    // ESC/POS format: ESC * m nL nH [data bytes]
-    // Mode 0 = 8-dot single density (normal)
-    for (let y = 0; y < height; y += 8) {
-      // ESC * m nL nH - m=0 (8-dot single density), n=width in dots
-      out += '\x1B\x2A\x00'; // ESC * 0 (8-dot single density, normal)
-      const nL = width & 0xFF;
-      const nH = (width >> 8) & 0xFF;
-      out += String.fromCharCode(nL);
-      out += String.fromCharCode(nH);
-      
-      // Build bitmap bytes column by column (vertical bit packing)
-      // Each byte = 8 vertical pixels in one column
-      for (let x = 0; x < width; x++) {
-        let byte = 0;
-        // Vertical bit packing: 8 pixels per byte, top to bottom
-        // MSB first: bit 7 = top pixel (y), bit 0 = bottom pixel (y+7)
-        for (let bit = 0; bit < 8; bit++) {
-          const pixelY = y + bit;
-          if (pixelY < height) {
-            const idx = (pixelY * width + x) * 4;
-            // Since we already forced pure black/white in convertToThermalFormat,
-            // R, G, B are all the same. Just check if it's black (value < 128)
-            const gray = data[idx]; // R channel (already pure black/white)
-            
-            // ESC/POS standard: Bit 1 = print (black), Bit 0 = no print (white)
-            // Black pixels (gray < 128) should set bit = 1 to print
-            if (gray < 128) { // Black pixel = set bit to 1
-              byte |= (1 << (7 - bit)); // Set bit for black pixel (MSB first)
-              totalBitsSet++;
-            }
-          }
-        }
-        if (byte > 0) bytesWithBits++;
-        totalBytes++;
-        out += String.fromCharCode(byte);
-      }
-      // ESC/POS requires explicit line feed after each bitmap row to advance print head
-      // Without LF, all rows will overlap at the same vertical position
-      out += '\x0A'; // Line feed to advance to next row
-    }
-    
-    // Debug logging for bitmap generation
-    console.log('Bitmap generation stats:', {
-      width,
-      height,
-      rows: Math.ceil(height / 8),
-      totalBytes,
-      bytesWithBits,
-      bytesWithBitsPercentage: totalBytes > 0 ? ((bytesWithBits / totalBytes) * 100).toFixed(2) + '%' : '0%',
-      totalBitsSet,
-      payloadLength: out.length
-    });
-    
-    return out;
-  }
-
-  getPrinterInfo(): { name: string; width: number; dpi: number } | null {
+  getPrinterInfo(): { name: string; width: number; dpi: number; profileId: string } | null {
     if (!this.config) return null;
-    return { name: this.config.name, width: this.config.width, dpi: this.config.dpi };
+    return { name: this.config.name, width: this.config.width, dpi: this.config.dpi, profileId: this.config.id };
   }
 
   async disconnect(): Promise<void> {
@@ -527,7 +256,8 @@ export class UniversalBluetoothPrinterService {
     }
 
     const DEFAULT_CHUNK_SIZE = 180;
-    const chunkSize = Math.max(20, DEFAULT_CHUNK_SIZE);
+    const chunkSize = Math.max(20, this.config?.chunkSize ?? DEFAULT_CHUNK_SIZE);
+    const chunkDelay = this.config?.chunkDelayMs ?? 30;
     const totalChunks = Math.ceil(data.length / chunkSize) || 1;
 
     for (let i = 0; i < data.length; i += chunkSize) {
@@ -543,97 +273,14 @@ export class UniversalBluetoothPrinterService {
         console.error(`Failed to write chunk ${chunkIndex + 1}/${totalChunks} for ${label}`, err);
         throw err;
       }
-      if (chunkSize >= 100) {
-        await new Promise((resolve) => setTimeout(resolve, 30));
+      if (chunkSize >= 100 && chunkDelay > 0) {
+        await new Promise((resolve) => setTimeout(resolve, chunkDelay));
       }
     }
     console.log(
       `Sent ${label} in ${totalChunks} chunk${totalChunks > 1 ? 's' : ''} (${data.length} bytes)`
     );
   }
-
-  private clampByte(value: number): number {
-    if (value < 0) return 0;
-    if (value > 255) return 255;
-    return Math.round(value);
-  }
-
-  private applySharpen(imageData: ImageData, amount = 0.5): void {
-    const strength = Math.min(Math.max(amount, 0), 1);
-    if (strength <= 0) return;
-
-    const { data, width, height } = imageData;
-    const original = new Uint8ClampedArray(data);
-    const kernel = [
-      0, -strength, 0,
-      -strength, 1 + 4 * strength, -strength,
-      0, -strength, 0
-    ];
-
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        let r = 0;
-        let g = 0;
-        let b = 0;
-
-        for (let ky = -1; ky <= 1; ky++) {
-          const sampleY = Math.min(height - 1, Math.max(0, y + ky));
-          for (let kx = -1; kx <= 1; kx++) {
-            const sampleX = Math.min(width - 1, Math.max(0, x + kx));
-            const weight = kernel[(ky + 1) * 3 + (kx + 1)];
-            const idx = (sampleY * width + sampleX) * 4;
-            r += original[idx] * weight;
-            g += original[idx + 1] * weight;
-            b += original[idx + 2] * weight;
-          }
-        }
-
-        const destIdx = (y * width + x) * 4;
-        data[destIdx] = this.clampByte(r);
-        data[destIdx + 1] = this.clampByte(g);
-        data[destIdx + 2] = this.clampByte(b);
-        data[destIdx + 3] = original[destIdx + 3];
-      }
-    }
-  }
-
-  private applyFloydSteinbergDither(imageData: ImageData, threshold: number): void {
-    const { data, width, height } = imageData;
-
-    const clamp = (value: number) => Math.min(255, Math.max(0, value));
-
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const idx = (y * width + x) * 4;
-        const oldPixel = data[idx];
-        const newPixel = oldPixel < threshold ? 0 : 255;
-        const error = oldPixel - newPixel;
-
-        data[idx] = newPixel;
-        data[idx + 1] = newPixel;
-        data[idx + 2] = newPixel;
-
-        const distribute = (offsetX: number, offsetY: number, factor: number) => {
-          const newX = x + offsetX;
-          const newY = y + offsetY;
-          if (newX >= 0 && newX < width && newY >= 0 && newY < height) {
-            const targetIdx = (newY * width + newX) * 4;
-            const updated = data[targetIdx] + error * factor;
-            const clamped = clamp(updated);
-            data[targetIdx] = clamped;
-            data[targetIdx + 1] = clamped;
-            data[targetIdx + 2] = clamped;
-          }
-        };
-
-        // Floyd-Steinberg diffusion coefficients
-        distribute(1, 0, 7 / 16);
-        distribute(-1, 1, 3 / 16);
-        distribute(0, 1, 5 / 16);
-        distribute(1, 1, 1 / 16);
-      }
-    }
-  }
 }
 
 
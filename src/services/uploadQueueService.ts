@@ -0,0 +1,249 @@
+import { isSupabaseConfigured } from '../config/supabase';
+import { getUploadSettings } from './configService';
+import { enforceStorageQuota, getUnuploadedPhotos, markPhotoAsUploaded, recordUploadFailure, type PhotoRecord } from './photoStorageService';
+import { uploadPhotoToSupabase } from './uploadService';
+
+// Background Upload Queue
+// Saved photos are uploaded automatically, a few at a time, so QR downloads work without anyone
+// pressing "Upload" in the admin. Failures back off exponentially (persisted on the photo record),
+// uploads pause while offline, and the service worker's Background Sync wakes the queue up when
+// connectivity returns (Chromium only; elsewhere the `online` event does the same while the app is open).
+
+export type UploadQueueState = 'idle' | 'uploading' | 'waiting' | 'offline' | 'disabled' | 'unconfigured';
+
+export interface UploadQueueFailure {
+  photoId: string;
+  photoNumber: number;
+  attempts: number;
+  lastError: string;
+  nextUploadAt?: string;
+}
+
+export interface UploadQueueStatus {
+  state: UploadQueueState;
+  pending: number; // photos not uploaded yet
+  active: string[]; // photo ids uploading right now
+  runTotal: number; // photos picked up by the current run
+  runDone: number; // of which finished (uploaded or failed)
+  uploadedThisSession: number;
+  failures: UploadQueueFailure[];
+  nextRetryAt?: string;
+}
+
+export const UPLOAD_CONCURRENCY = 2;
+export const UPLOAD_SYNC_TAG = 'morobooth-upload';
+const UPLOAD_SYNC_MESSAGE = 'morobooth-upload-sync'; // from public/upload-sync-sw.js
+const BACKOFF_BASE_MS = 5_000;
+const BACKOFF_MAX_MS = 10 * 60_000;
+
+type SyncRegistration = ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } };
+
+let status: UploadQueueStatus = {
+  state: 'idle',
+  pending: 0,
+  active: [],
+  runTotal: 0,
+  runDone: 0,
+  uploadedThisSession: 0,
+  failures: []
+};
+let draining: Promise<void> | null = null;
+let rerun = false;
+let rerunForced = false;
+let retryTimer: number | null = null;
+let initialized = false;
+
+function updateStatus(patch: Partial<UploadQueueStatus>): void {
+  status = { ...status, ...patch };
+  window.dispatchEvent(new CustomEvent('uploadQueueChanged', { detail: { status } }));
+}
+
+export function getUploadQueueStatus(): UploadQueueStatus {
+  return status;
+}
+
+/**
+ * Delay before the next automatic attempt: 5s, 10s, 20s ... capped at 10 minutes, with jitter so
+ * several booths on the same venue Wi-Fi don't retry in lockstep.
+ */
+export function getBackoffDelay(attempts: number): number {
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1));
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+function isDue(photo: PhotoRecord, now: number): boolean {
+  return !photo.nextUploadAt || Date.parse(photo.nextUploadAt) <= now;
+}
+
+function describeFailures(photos: PhotoRecord[]): UploadQueueFailure[] {
+  return photos
+    .filter((photo) => (photo.uploadAttempts ?? 0) > 0)
+    .map((photo) => ({
+      photoId: photo.id,
+      photoNumber: photo.photoNumber,
+      attempts: photo.uploadAttempts ?? 0,
+      lastError: photo.lastUploadError ?? 'Unknown error',
+      nextUploadAt: photo.nextUploadAt
+    }));
+}
+
+async function uploadOne(photo: PhotoRecord): Promise<boolean> {
+  updateStatus({ active: [...status.active, photo.id] });
+  let uploaded = false;
+  try {
+    const result = await uploadPhotoToSupabase(photo);
+    if (!result.success || !result.url) {
+      throw new Error(result.error ?? 'Upload failed');
+    }
+    await markPhotoAsUploaded(photo.id, result.url, result.path);
+    uploaded = true;
+    console.log('[UPLOAD_QUEUE] Uploaded', photo.id);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const attempts = (photo.uploadAttempts ?? 0) + 1;
+    const delay = getBackoffDelay(attempts);
+    console.warn(`[UPLOAD_QUEUE] Upload failed for ${photo.id} (attempt ${attempts}), retrying in ${Math.round(delay / 1000)}s:`, message);
+    await recordUploadFailure(photo.id, attempts, message, new Date(Date.now() + delay)).catch((recordError) =>
+      console.error('[UPLOAD_QUEUE] Failed to record upload failure:', recordError)
+    );
+  } finally {
+    updateStatus({
+      active: status.active.filter((id) => id !== photo.id),
+      runDone: status.runDone + 1,
+      uploadedThisSession: status.uploadedThisSession + (uploaded ? 1 : 0)
+    });
+  }
+  return uploaded;
+}
+
+async function registerBackgroundSync(): Promise<void> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  try {
+    const registration = (await navigator.serviceWorker.ready) as SyncRegistration;
+    await registration.sync?.register(UPLOAD_SYNC_TAG);
+  } catch (error) {
+    console.warn('[UPLOAD_QUEUE] Background Sync unavailable:', error);
+  }
+}
+
+function scheduleRetry(pending: PhotoRecord[]): void {
+  if (retryTimer !== null) {
+    window.clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  const next = pending
+    .map((photo) => (photo.nextUploadAt ? Date.parse(photo.nextUploadAt) : Date.now()))
+    .reduce((min, time) => Math.min(min, time), Infinity);
+  if (next === Infinity) {
+    updateStatus({ nextRetryAt: undefined });
+    return;
+  }
+  updateStatus({ nextRetryAt: new Date(next).toISOString() });
+  retryTimer = window.setTimeout(() => {
+    retryTimer = null;
+    void drainUploadQueue();
+  }, Math.max(1_000, next - Date.now()));
+}
+
+async function runQueue(force: boolean): Promise<void> {
+  let pending = await getUnuploadedPhotos();
+  pending.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  updateStatus({ pending: pending.length, failures: describeFailures(pending) });
+
+  if (!isSupabaseConfigured()) {
+    updateStatus({ state: 'unconfigured' });
+    return;
+  }
+  if (!force && getUploadSettings().autoUpload === false) {
+    updateStatus({ state: 'disabled' });
+    return;
+  }
+  if (!navigator.onLine) {
+    updateStatus({ state: 'offline' });
+    if (pending.length > 0) void registerBackgroundSync();
+    return;
+  }
+
+  const now = Date.now();
+  const due = pending.filter((photo) => force || isDue(photo, now));
+  if (due.length > 0) {
+    updateStatus({ state: 'uploading', runTotal: due.length, runDone: 0 });
+    let next = 0;
+    let uploaded = 0;
+    // A few parallel uploads keep the link busy without starving the booth's own requests
+    const worker = async () => {
+      while (next < due.length && navigator.onLine) {
+        if (await uploadOne(due[next++])) uploaded++;
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(UPLOAD_CONCURRENCY, due.length) }, worker));
+    if (uploaded > 0) {
+      await enforceStorageQuota().catch((error) => console.warn('[UPLOAD_QUEUE] Storage check failed:', error));
+    }
+    pending = await getUnuploadedPhotos();
+  }
+
+  updateStatus({
+    state: !navigator.onLine ? 'offline' : pending.length > 0 ? 'waiting' : 'idle',
+    pending: pending.length,
+    failures: describeFailures(pending)
+  });
+  if (pending.length > 0) {
+    scheduleRetry(pending);
+    void registerBackgroundSync();
+  } else {
+    scheduleRetry([]);
+  }
+}
+
+/**
+ * Upload everything that is due. `force` ignores backoff and the auto-upload setting (the admin's
+ * "Upload Now"). Calls while a run is active are folded into one more run afterwards.
+ */
+export function drainUploadQueue(force = false): Promise<void> {
+  if (draining) {
+    rerun = true;
+    rerunForced = rerunForced || force;
+    return draining;
+  }
+  draining = (async () => {
+    let forced = force;
+    do {
+      rerun = false;
+      rerunForced = false;
+      try {
+        await runQueue(forced);
+      } catch (error) {
+        console.error('[UPLOAD_QUEUE] Queue processing error:', error);
+      }
+      forced = rerunForced;
+    } while (rerun);
+  })().finally(() => {
+    draining = null;
+  });
+  return draining;
+}
+
+/**
+ * Start uploading in the background and keep going as photos are saved and connectivity changes.
+ */
+export function initUploadQueue(): void {
+  if (initialized) return;
+  initialized = true;
+
+  window.addEventListener('photoSaved', () => void drainUploadQueue());
+  window.addEventListener('online', () => {
+    console.log('[UPLOAD_QUEUE] Back online, retrying uploads');
+    void drainUploadQueue(getUploadSettings().autoUpload !== false);
+  });
+  window.addEventListener('offline', () => updateStatus({ state: 'offline' }));
+
+  // Background Sync fired in the service worker: drain here and report what is left
+  navigator.serviceWorker?.addEventListener('message', (event: MessageEvent) => {
+    if (event.data?.type !== UPLOAD_SYNC_MESSAGE) return;
+    const port = event.ports[0];
+    void drainUploadQueue().then(() => port?.postMessage({ remaining: status.pending }));
+  });
+
+  void drainUploadQueue();
+}
@@ -1,5 +1,5 @@
 import { supabase } from '../config/supabase';
-import type { PhotoRecord } from './photoStorageService';
+import { getPhotoFiles, type PhotoFiles, type PhotoRecord } from './photoStorageService';
 
 export interface UploadResult {
   success: boolean;
@@ -9,9 +9,31 @@ export interface UploadResult {
   error?: string;
 }
 
-async function dataURLtoBlob(dataURL: string): Promise<Blob> {
-  const response = await fetch(dataURL);
-  return response.blob();
+/**
+ * Upload the download versions (colour copy, motion GIFs) next to the strip. Throws so the photo stays pending.
+ */
+async function uploadDownloadFiles(photo: PhotoRecord, local: PhotoFiles): Promise<void> {
+  if (!supabase) return;
+  const files: { path: string; blob: Blob; contentType: string }[] = [];
+  if (local.color && photo.colorPath) {
+    files.push({ path: photo.colorPath, blob: local.color, contentType: 'image/jpeg' });
+  }
+  if (photo.motion && local.gif && local.boomerang) {
+    files.push(
+      { path: photo.motion.gifPath, blob: local.gif, contentType: 'image/gif' },
+      { path: photo.motion.boomerangPath, blob: local.boomerang, contentType: 'image/gif' }
+    );
+  }
+  for (const file of files) {
+    const { error } = await supabase.storage
+      .from('photos')
+      .upload(file.path, file.blob, {
+        contentType: file.contentType,
+        upsert: true
+      });
+    if (error) throw error;
+    console.log(`[UPLOAD] Successfully uploaded ${file.path}`);
+  }
 }
 
 export async function uploadPhotoToSupabase(photo: PhotoRecord): Promise<UploadResult> {
@@ -24,7 +46,11 @@ export async function uploadPhotoToSupabase(photo: PhotoRecord): Promise<UploadR
   }
   
   try {
-    const blob = await dataURLtoBlob(photo.imageDataURL);
+    const local = getPhotoFiles(photo);
+    if (!local) {
+      throw new Error('No local copy of this photo to upload');
+    }
+    const blob = local.image;
     
     // Get storage_path from database (UUID-based) or use photo.supabasePath
     // Fallback to legacy format for backward compatibility
@@ -100,6 +126,8 @@ export async function uploadPhotoToSupabase(photo: PhotoRecord): Promise<UploadR
         console.log(`[UPLOAD] Successfully uploaded ${filePath}`);
       }
     }
+
+    await uploadDownloadFiles(photo, local);
     
     // Get signed URL (24 hours) - for backward compatibility
     // Use filePath (with folder structure) for signed URL generation
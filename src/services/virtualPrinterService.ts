@@ -0,0 +1,93 @@
+import { nanoid } from 'nanoid';
+import type { MonoBitmap } from '../shared/escpos';
+import { decodeEscPos } from '../shared/escposDecoder';
+
+// Virtual Printer
+// Receives the same ESC/POS bytes a real printer would get, decodes them and keeps
+// the rendered "paper" so print output can be checked without a printer.
+
+export const VIRTUAL_PRINTER_NAME = 'Virtual Printer';
+const MAX_OUTPUTS = 10;
+
+export interface VirtualPrintOutput {
+  id: string;
+  createdAt: string;
+  bitmap: MonoBitmap; // decoded paper, for assertions
+  dataURL: string; // PNG of the paper
+  byteLength: number;
+  cuts: number;
+  unknownCommands: string[];
+}
+
+/**
+ * Render a 1-bit bitmap to a PNG data URL (black dots on white paper).
+ */
+export function monoBitmapToDataURL(bitmap: MonoBitmap): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = Math.max(1, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+  const imageData = ctx.createImageData(canvas.width, canvas.height);
+  for (let i = 0; i < bitmap.pixels.length; i++) {
+    const value = bitmap.pixels[i] === 1 ? 0 : 255;
+    const idx = i * 4;
+    imageData.data[idx] = value;
+    imageData.data[idx + 1] = value;
+    imageData.data[idx + 2] = value;
+    imageData.data[idx + 3] = 255;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+export class VirtualPrinterService {
+  private outputs: VirtualPrintOutput[] = [];
+
+  /**
+   * Accept one ESC/POS job. Every cut produces a separate output (newest first).
+   */
+  write(data: Uint8Array, paperWidth: number): VirtualPrintOutput[] {
+    const result = decodeEscPos(data, { paperWidth });
+    if (result.unknownCommands.length > 0) {
+      console.warn('Virtual printer: unknown ESC/POS commands:', result.unknownCommands);
+    }
+
+    const createdAt = new Date().toISOString();
+    const outputs = result.pages.map((bitmap) => ({
+      id: nanoid(),
+      createdAt,
+      bitmap,
+      dataURL: monoBitmapToDataURL(bitmap),
+      byteLength: data.length,
+      cuts: result.cuts,
+      unknownCommands: result.unknownCommands
+    }));
+
+    this.outputs = [...outputs.reverse(), ...this.outputs].slice(0, MAX_OUTPUTS);
+    console.log('Virtual printer: printed', outputs.length, 'page(s) from', data.length, 'bytes');
+    window.dispatchEvent(new CustomEvent('virtualPrinterOutput', { detail: { outputs } }));
+    return outputs;
+  }
+
+  getOutputs(): VirtualPrintOutput[] {
+    return this.outputs;
+  }
+
+  clearOutputs(): void {
+    this.outputs = [];
+    window.dispatchEvent(new CustomEvent('virtualPrinterOutput', { detail: { outputs: [] } }));
+  }
+}
+
+// Export singleton instance so the preview survives reconnects
+let singletonInstance: VirtualPrinterService | null = null;
+
+export function getVirtualPrinterService(): VirtualPrinterService {
+  if (!singletonInstance) {
+    singletonInstance = new VirtualPrinterService();
+  }
+  return singletonInstance;
+}
@@ -0,0 +1,206 @@
+// WebView <-> native app message schema. Both src/ and apps/mobile compile against this file,
+// so a message type or payload change breaks the build on both sides instead of at runtime.
+// Keep this file free of DOM / React Native imports.
+
+import type { EscPosAlignment, EscPosCutMode, EscPosImageMode } from './escpos';
+import type { PrinterStatusReport } from './printerStatus';
+
+/**
+ * Bumped whenever a message is added or changes shape.
+ * v1: untyped START/CHUNK bitmap stream without acknowledgements (pre-handshake apps).
+ * v2: HELLO handshake, per-transfer ids, chunk acks and retransmit requests.
+ */
+export const BRIDGE_PROTOCOL_VERSION = 2;
+
+/** base64 characters per chunk; safe limit for postMessage including JSON overhead */
+export const BRIDGE_CHUNK_SIZE = 5000;
+/** Chunks sent ahead of the last acknowledged one */
+export const BRIDGE_TRANSFER_WINDOW = 8;
+/** Resend a chunk (or the START) when no ack arrives within this time */
+export const BRIDGE_ACK_TIMEOUT_MS = 2000;
+export const BRIDGE_MAX_RETRIES = 5;
+/** Receiver asks for missing chunks after this long without data */
+export const BRIDGE_RESEND_AFTER_MS = 3000;
+/** Either side gives up on a transfer that makes no progress for this long */
+export const BRIDGE_TRANSFER_TIMEOUT_MS = 15000;
+
+export type BridgeTransportKind = 'ble' | 'tcp';
+
+export interface BridgePrinterDevice {
+  id: string;
+  name: string;
+  rssi?: number;
+  /** Missing on devices saved before network printers existed: treat as 'ble' */
+  transport?: BridgeTransportKind;
+  host?: string;
+  port?: number;
+}
+
+/**
+ * Subset of the web app's printer profile that the native transports use.
+ */
+export interface BridgePrinterProfile {
+  id: string;
+  name: string;
+  serviceUUIDs?: string[];
+  characteristicUUID?: string;
+  chunkSize?: number;
+  chunkDelayMs?: number;
+  imageMode?: EscPosImageMode;
+  alignment?: EscPosAlignment;
+  feedLines?: number;
+  cutMode?: EscPosCutMode;
+  density?: number | null;
+  supportsStatus?: boolean;
+}
+
+export interface PrintTransferStart {
+  transferId: string;
+  width: number;
+  height: number;
+  totalChunks: number;
+  totalLength: number;
+}
+
+export interface PrintTransferChunk {
+  transferId: string;
+  chunkIndex: number;
+  data: string;
+}
+
+/** Web app -> native app */
+export interface WebToNativeMessages {
+  HELLO: { protocolVersion: number };
+  GET_PRINTER_STATUS: undefined;
+  SCAN_BLUETOOTH_PRINTERS: undefined;
+  CONNECT_BLUETOOTH_PRINTER: { deviceId?: string } | undefined;
+  DISCONNECT_BLUETOOTH_PRINTER: undefined;
+  SET_PRINTER_PROFILE: { deviceId?: string; profile: BridgePrinterProfile };
+  PRINT_TRANSFER_START: PrintTransferStart;
+  PRINT_TRANSFER_CHUNK: PrintTransferChunk;
+  PRINT_TRANSFER_CANCEL: { transferId: string; reason?: string };
+  /** v1 bitmap stream, still sent to apps that don't answer HELLO */
+  PRINT_DITHERED_BITMAP_START: {
+    width: number;
+    height: number;
+    totalChunks: number;
+    bitmapBase64: string;
+    chunkIndex: 0;
+    isLast: boolean;
+  };
+  PRINT_DITHERED_BITMAP_CHUNK: { bitmapBase64: string; chunkIndex: number; isLast: boolean };
+  /** v0 single-message print */
+  PRINT_DITHERED_BITMAP: { bitmapBase64: string; width?: number; height?: number };
+  LOG_ERROR: { error: string; context?: Record<string, unknown> };
+}
+
+/** Native app -> web app */
+export interface NativeToWebMessages {
+  HELLO_ACK: { protocolVersion: number; appVersion?: string };
+  BLUETOOTH_DEVICES_FOUND: { devices: BridgePrinterDevice[] };
+  BLUETOOTH_CONNECTED: { connected: true; device: BridgePrinterDevice; autoConnected?: boolean };
+  BLUETOOTH_DISCONNECTED: { connected: false; reason?: string };
+  BLUETOOTH_ERROR: { error: string; errorCode?: string };
+  PRINTER_STATUS: PrinterStatusReport;
+  PRINT_PROGRESS: { status: string; progress: number };
+  PRINT_SUCCESS: { success: true; progress?: number; transferId?: string };
+  PRINT_FAILED: {
+    success: false;
+    error: string;
+    errorCode?: 'PRINTER_NOT_READY' | 'TRANSFER_TIMEOUT' | 'TRANSFER_INVALID' | 'PRINT_ERROR';
+    needsConnection?: boolean;
+    status?: PrinterStatusReport;
+    transferId?: string;
+  };
+  /** START accepted, chunks may follow */
+  PRINT_TRANSFER_READY: { transferId: string };
+  PRINT_TRANSFER_ACK: { transferId: string; chunkIndex: number };
+  PRINT_TRANSFER_RESEND: { transferId: string; missing: number[] };
+  /** Every chunk arrived; the native side starts printing */
+  PRINT_TRANSFER_COMPLETE: { transferId: string };
+}
+
+type MessageUnion<M> = { [K in keyof M]: { type: K; data: M[K] } }[keyof M];
+
+export type WebToNativeMessage = MessageUnion<WebToNativeMessages>;
+export type NativeToWebMessage = MessageUnion<NativeToWebMessages>;
+
+/**
+ * Parse a raw postMessage payload. Returns null for anything that is not a bridge message;
+ * payload shapes are trusted once the type is known.
+ */
+export function parseBridgeMessage<M extends { type: string }>(raw: unknown): M | null {
+  if (typeof raw !== 'string') return null;
+  try {
+    const message = JSON.parse(raw);
+    return message && typeof message === 'object' && typeof message.type === 'string' ? (message as M) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createTransferId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function splitTransferChunks(payload: string, chunkSize: number = BRIDGE_CHUNK_SIZE): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < payload.length; i += chunkSize) {
+    chunks.push(payload.slice(i, i + chunkSize));
+  }
+  return chunks.length > 0 ? chunks : [''];
+}
+
+/**
+ * Receiver side of a chunked transfer: stores chunks by index (duplicates are harmless)
+ * and reports what is still missing.
+ */
+export class TransferAssembler {
+  readonly start: PrintTransferStart;
+  private chunks: (string | undefined)[];
+  private received = 0;
+  lastActivityAt: number;
+
+  constructor(start: PrintTransferStart, now: number = Date.now()) {
+    this.start = start;
+    this.chunks = new Array(start.totalChunks);
+    this.lastActivityAt = now;
+  }
+
+  /** Store a chunk; false when it does not belong to this transfer */
+  accept(chunk: PrintTransferChunk, now: number = Date.now()): boolean {
+    const { chunkIndex } = chunk;
+    if (chunk.transferId !== this.start.transferId) return false;
+    if (!Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= this.start.totalChunks) return false;
+    if (this.chunks[chunkIndex] === undefined) {
+      this.chunks[chunkIndex] = chunk.data;
+      this.received += 1;
+    }
+    this.lastActivityAt = now;
+    return true;
+  }
+
+  isComplete(): boolean {
+    return this.received === this.start.totalChunks;
+  }
+
+  getMissing(): number[] {
+    const missing: number[] = [];
+    for (let i = 0; i < this.start.totalChunks; i++) {
+      if (this.chunks[i] === undefined) missing.push(i);
+    }
+    return missing;
+  }
+
+  /** Joined payload; throws if chunks are missing or the length does not match START */
+  assemble(): string {
+    if (!this.isComplete()) {
+      throw new Error(`Transfer ${this.start.transferId} is missing ${this.getMissing().length} chunk(s)`);
+    }
+    const payload = this.chunks.join('');
+    if (payload.length !== this.start.totalLength) {
+      throw new Error(`Transfer ${this.start.transferId} length ${payload.length} does not match ${this.start.totalLength}`);
+    }
+    return payload;
+  }
+}
@@ -0,0 +1,195 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ESC,
+  GS,
+  LF,
+  EscPosEncoder,
+  encodeImageJob,
+  packRasterRows,
+  unpackRasterRows,
+  type MonoBitmap
+} from './escpos';
+import { bitmapFromRows } from './escposTestBitmaps';
+import { BUILT_IN_PRINTER_PROFILES } from '../services/printerProfileService';
+
+// Golden bytes: any change here changes what every printer receives, so update them on purpose only
+
+function bytes(encoder: EscPosEncoder): number[] {
+  return Array.from(encoder.encode());
+}
+
+// 10 x 3: the second byte of every row is only partly used
+const SMALL = bitmapFromRows([
+  '#.#.#.#.##',
+  '#........#',
+  '##########'
+]);
+
+// 2 x 9: one full 8-dot band plus a band with a single row
+const TALL = bitmapFromRows([
+  '#.', '#.', '#.', '#.', '#.', '#.', '#.', '#.',
+  '##'
+]);
+
+const SMALL_RASTER = [
+  0x1d, 0x76, 0x30, 0x00, 0x02, 0x00, 0x03, 0x00,
+  0xaa, 0xc0,
+  0x80, 0x40,
+  0xff, 0xc0
+];
+
+const SMALL_COLUMN = [
+  0x1b, 0x33, 0x08,
+  0x1b, 0x2a, 0x00, 0x0a, 0x00,
+  0xe0, 0x20, 0xa0, 0x20, 0xa0, 0x20, 0xa0, 0x20, 0xa0, 0xe0,
+  0x0a,
+  0x1b, 0x32
+];
+
+// Every built-in profile: ESC @, centre, ESC * image, 3 line feeds, full cut
+const BUILT_IN_JOB = [
+  0x1b, 0x40,
+  0x1b, 0x61, 0x01,
+  ...SMALL_COLUMN,
+  0x0a, 0x0a, 0x0a,
+  0x1d, 0x56, 0x00
+];
+
+const BUILT_IN_GOLDEN: Record<string, number[]> = {
+  'eppos-epx-58b': BUILT_IN_JOB,
+  'xprinter-xp-p300': BUILT_IN_JOB,
+  'hoin-hop-h58': BUILT_IN_JOB,
+  'bellav-ep-58a': BUILT_IN_JOB,
+  'generic-80mm': BUILT_IN_JOB,
+  'generic-58mm': BUILT_IN_JOB
+};
+
+describe('EscPosEncoder', () => {
+  it('exports the control bytes', () => {
+    expect([ESC, GS, LF]).toEqual([0x1b, 0x1d, 0x0a]);
+  });
+
+  it('encodes initialize', () => {
+    expect(bytes(new EscPosEncoder().initialize())).toEqual([0x1b, 0x40]);
+  });
+
+  it('encodes alignment', () => {
+    const encoder = new EscPosEncoder().align('left').align('center').align('right');
+    expect(bytes(encoder)).toEqual([0x1b, 0x61, 0x00, 0x1b, 0x61, 0x01, 0x1b, 0x61, 0x02]);
+  });
+
+  it('encodes line spacing and clamps it to a byte', () => {
+    const encoder = new EscPosEncoder().lineSpacing(24).lineSpacing(300).defaultLineSpacing();
+    expect(bytes(encoder)).toEqual([0x1b, 0x33, 0x18, 0x1b, 0x33, 0xff, 0x1b, 0x32]);
+  });
+
+  it('encodes density levels as a signed byte clamped to -6..6', () => {
+    const encoder = new EscPosEncoder().density(0).density(-2).density(9);
+    expect(bytes(encoder)).toEqual([
+      0x1d, 0x28, 0x4b, 0x02, 0x00, 0x31, 0x00,
+      0x1d, 0x28, 0x4b, 0x02, 0x00, 0x31, 0xfe,
+      0x1d, 0x28, 0x4b, 0x02, 0x00, 0x31, 0x06
+    ]);
+  });
+
+  it('encodes feeds', () => {
+    const encoder = new EscPosEncoder().feed(4).feed(-1).lineFeed(2).lineFeed(0);
+    expect(bytes(encoder)).toEqual([0x1b, 0x64, 0x04, 0x1b, 0x64, 0x00, 0x0a, 0x0a]);
+  });
+
+  it('encodes cuts', () => {
+    const encoder = new EscPosEncoder().cut().cut('partial').cut('none');
+    expect(bytes(encoder)).toEqual([0x1d, 0x56, 0x00, 0x1d, 0x56, 0x01]);
+  });
+
+  it('encodes a GS v 0 raster image', () => {
+    expect(bytes(new EscPosEncoder().raster(SMALL))).toEqual(SMALL_RASTER);
+    expect(bytes(new EscPosEncoder().image(SMALL, 'raster'))).toEqual(SMALL_RASTER);
+  });
+
+  it('encodes an ESC * column image', () => {
+    expect(bytes(new EscPosEncoder().column(SMALL))).toEqual(SMALL_COLUMN);
+    expect(bytes(new EscPosEncoder().image(SMALL, 'column'))).toEqual(SMALL_COLUMN);
+  });
+
+  it('starts a new ESC * band every 8 rows', () => {
+    expect(bytes(new EscPosEncoder().column(TALL))).toEqual([
+      0x1b, 0x33, 0x08,
+      0x1b, 0x2a, 0x00, 0x02, 0x00, 0xff, 0x00, 0x0a,
+      0x1b, 0x2a, 0x00, 0x02, 0x00, 0x80, 0x80, 0x0a,
+      0x1b, 0x32
+    ]);
+  });
+
+  it('writes 16-bit sizes little endian', () => {
+    const wide: MonoBitmap = { width: 576, height: 300, pixels: new Uint8Array(576 * 300) };
+    const raster = new EscPosEncoder().raster(wide).encode();
+    expect(Array.from(raster.subarray(0, 8))).toEqual([0x1d, 0x76, 0x30, 0x00, 0x48, 0x00, 0x2c, 0x01]);
+    expect(raster.length).toBe(8 + 72 * 300);
+
+    const column = new EscPosEncoder().column(wide).encode();
+    expect(Array.from(column.subarray(3, 8))).toEqual([0x1b, 0x2a, 0x00, 0x40, 0x02]);
+  });
+
+  it('appends raw bytes unchanged', () => {
+    expect(bytes(new EscPosEncoder().raw([0x10, 0x04, 0x01]))).toEqual([0x10, 0x04, 0x01]);
+  });
+});
+
+describe('packRasterRows', () => {
+  it('packs rows MSB first and pads the last byte', () => {
+    expect(Array.from(packRasterRows(SMALL))).toEqual([0xaa, 0xc0, 0x80, 0x40, 0xff, 0xc0]);
+  });
+
+  it('round-trips through unpackRasterRows', () => {
+    const unpacked = unpackRasterRows(packRasterRows(SMALL), SMALL.width, SMALL.height);
+    expect(unpacked).toEqual(SMALL);
+  });
+});
+
+describe('encodeImageJob', () => {
+  it('encodes a raster job with density, feed and partial cut', () => {
+    const job = encodeImageJob(SMALL, {
+      imageMode: 'raster',
+      alignment: 'left',
+      density: 3,
+      feedLines: 2,
+      cutMode: 'partial'
+    });
+    expect(Array.from(job)).toEqual([
+      0x1b, 0x40,
+      0x1b, 0x61, 0x00,
+      0x1d, 0x28, 0x4b, 0x02, 0x00, 0x31, 0x03,
+      ...SMALL_RASTER,
+      0x0a, 0x0a,
+      0x1d, 0x56, 0x01
+    ]);
+  });
+
+  it('uses centre alignment, 3 feeds and a full cut by default', () => {
+    expect(Array.from(encodeImageJob(SMALL, { imageMode: 'column' }))).toEqual(BUILT_IN_JOB);
+  });
+
+  it('leaves out the cut for cutMode none', () => {
+    const job = encodeImageJob(SMALL, { imageMode: 'raster', feedLines: 0, cutMode: 'none' });
+    expect(Array.from(job)).toEqual([0x1b, 0x40, 0x1b, 0x61, 0x01, ...SMALL_RASTER]);
+  });
+
+  it('has a golden job for every built-in printer profile', () => {
+    expect(Object.keys(BUILT_IN_GOLDEN).sort()).toEqual(BUILT_IN_PRINTER_PROFILES.map((p) => p.id).sort());
+  });
+
+  it.each(BUILT_IN_PRINTER_PROFILES.map((profile) => [profile.id, profile] as const))(
+    'encodes the %s profile job byte for byte',
+    (id, profile) => {
+      const job = encodeImageJob(SMALL, {
+        imageMode: profile.imageMode,
+        alignment: profile.alignment,
+        density: profile.density,
+        feedLines: profile.feedLines,
+        cutMode: profile.cutMode
+      });
+      expect(Array.from(job)).toEqual(BUILT_IN_GOLDEN[id]);
+    }
+  );
+});
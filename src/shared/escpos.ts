@@ -0,0 +1,217 @@
+// ESC/POS command encoder shared by the web app (Web Bluetooth) and the mobile app (native BLE).
+// Keep this file free of DOM / React Native imports - apps/mobile pulls it in through Metro.
+
+export const ESC = 0x1b;
+export const GS = 0x1d;
+export const LF = 0x0a;
+
+export type EscPosAlignment = 'left' | 'center' | 'right';
+export type EscPosCutMode = 'full' | 'partial' | 'none';
+/**
+ * raster: GS v 0 (one block, row-major, 8 horizontal dots per byte)
+ * column: ESC * (8-dot vertical bands, one LF per band)
+ */
+export type EscPosImageMode = 'raster' | 'column';
+
+/**
+ * 1-bit image, one byte per pixel: 1 = black (print dot), 0 = white.
+ */
+export interface MonoBitmap {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+const ALIGNMENT_VALUE: Record<EscPosAlignment, number> = {
+  left: 0,
+  center: 1,
+  right: 2
+};
+
+const clampByte = (value: number) => Math.min(255, Math.max(0, Math.round(value)));
+
+/**
+ * Pack a MonoBitmap into rows of bytes, MSB = leftmost pixel (GS v 0 layout).
+ */
+export function packRasterRows(bitmap: MonoBitmap): Uint8Array {
+  const { width, height, pixels } = bitmap;
+  const bytesPerRow = Math.ceil(width / 8);
+  const out = new Uint8Array(bytesPerRow * height);
+  for (let y = 0; y < height; y++) {
+    for (let bx = 0; bx < bytesPerRow; bx++) {
+      let byte = 0;
+      for (let bit = 0; bit < 8; bit++) {
+        const x = bx * 8 + bit;
+        if (x < width && pixels[y * width + x] === 1) {
+          byte |= 0x80 >> bit;
+        }
+      }
+      out[y * bytesPerRow + bx] = byte;
+    }
+  }
+  return out;
+}
+
+/**
+ * Unpack GS v 0 style packed rows back into a MonoBitmap.
+ */
+export function unpackRasterRows(packed: Uint8Array, width: number, height: number): MonoBitmap {
+  const bytesPerRow = Math.ceil(width / 8);
+  const pixels = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const byte = packed[y * bytesPerRow + (x >> 3)] ?? 0;
+      pixels[y * width + x] = byte & (0x80 >> (x & 7)) ? 1 : 0;
+    }
+  }
+  return { width, height, pixels };
+}
+
+/**
+ * Chainable ESC/POS builder. Every method appends bytes; call encode() for the payload.
+ *
+ *   new EscPosEncoder().initialize().align('center').image(bitmap, 'raster').feed(3).cut('full').encode()
+ */
+export class EscPosEncoder {
+  private chunks: Uint8Array[] = [];
+  private length = 0;
+
+  private push(bytes: ArrayLike<number>): this {
+    const chunk = bytes instanceof Uint8Array ? bytes : Uint8Array.from(bytes);
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+    return this;
+  }
+
+  /** ESC @ - reset printer to power-on defaults */
+  initialize(): this {
+    return this.push([ESC, 0x40]);
+  }
+
+  /** ESC a n */
+  align(alignment: EscPosAlignment): this {
+    return this.push([ESC, 0x61, ALIGNMENT_VALUE[alignment]]);
+  }
+
+  /** LF, repeated */
+  lineFeed(count = 1): this {
+    return this.push(new Array(Math.max(0, count)).fill(LF));
+  }
+
+  /** ESC d n - print buffer and feed n lines */
+  feed(lines: number): this {
+    return this.push([ESC, 0x64, clampByte(lines)]);
+  }
+
+  /** ESC 3 n - line spacing in dots */
+  lineSpacing(dots: number): this {
+    return this.push([ESC, 0x33, clampByte(dots)]);
+  }
+
+  /** ESC 2 - default line spacing */
+  defaultLineSpacing(): this {
+    return this.push([ESC, 0x32]);
+  }
+
+  /**
+   * GS ( K pL pH fn m - print density, fn 49. Level -6 (lighter) .. 6 (darker), 0 = printer default.
+   * Printers without density support ignore the command.
+   */
+  density(level: number): this {
+    const clamped = Math.max(-6, Math.min(6, Math.round(level)));
+    return this.push([GS, 0x28, 0x4b, 0x02, 0x00, 0x31, clamped & 0xff]);
+  }
+
+  /** GS V m - full (0) or partial (1) cut. 'none' appends nothing. */
+  cut(mode: EscPosCutMode = 'full'): this {
+    if (mode === 'none') return this;
+    return this.push([GS, 0x56, mode === 'partial' ? 0x01 : 0x00]);
+  }
+
+  /**
+   * GS v 0 m xL xH yL yH d1...dk - raster bit image, normal density.
+   */
+  raster(bitmap: MonoBitmap): this {
+    const bytesPerRow = Math.ceil(bitmap.width / 8);
+    const { height } = bitmap;
+    this.push([
+      GS, 0x76, 0x30, 0x00,
+      bytesPerRow & 0xff, (bytesPerRow >> 8) & 0xff,
+      height & 0xff, (height >> 8) & 0xff
+    ]);
+    return this.push(packRasterRows(bitmap));
+  }
+
+  /**
+   * ESC * m nL nH d1...dk per 8-dot band, MSB = top pixel, LF after each band.
+   * Line spacing is set to 8 dots so bands butt together, then restored.
+   */
+  column(bitmap: MonoBitmap): this {
+    const { width, height, pixels } = bitmap;
+    this.lineSpacing(8);
+    for (let y = 0; y < height; y += 8) {
+      const band = new Uint8Array(5 + width + 1);
+      band[0] = ESC;
+      band[1] = 0x2a;
+      band[2] = 0x00; // m=0: 8-dot single density
+      band[3] = width & 0xff;
+      band[4] = (width >> 8) & 0xff;
+      for (let x = 0; x < width; x++) {
+        let byte = 0;
+        for (let bit = 0; bit < 8; bit++) {
+          const pixelY = y + bit;
+          if (pixelY < height && pixels[pixelY * width + x] === 1) {
+            byte |= 1 << (7 - bit);
+          }
+        }
+        band[5 + x] = byte;
+      }
+      band[5 + width] = LF;
+      this.push(band);
+    }
+    return this.defaultLineSpacing();
+  }
+
+  image(bitmap: MonoBitmap, mode: EscPosImageMode): this {
+    return mode === 'column' ? this.column(bitmap) : this.raster(bitmap);
+  }
+
+  /** Append raw bytes (escape hatch for printer-specific commands) */
+  raw(bytes: ArrayLike<number>): this {
+    return this.push(bytes);
+  }
+
+  encode(): Uint8Array {
+    const out = new Uint8Array(this.length);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      out.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return out;
+  }
+}
+
+export interface EscPosImageJobOptions {
+  imageMode: EscPosImageMode;
+  alignment?: EscPosAlignment;
+  density?: number | null; // null/undefined = leave printer default
+  feedLines?: number;
+  cutMode?: EscPosCutMode;
+}
+
+/**
+ * Full print job for a single image: init, alignment, optional density, image, feed, cut.
+ * Both the web and native print paths go through this so the bytes sent are identical.
+ */
+export function encodeImageJob(bitmap: MonoBitmap, options: EscPosImageJobOptions): Uint8Array {
+  const encoder = new EscPosEncoder().initialize().align(options.alignment ?? 'center');
+  if (options.density !== undefined && options.density !== null) {
+    encoder.density(options.density);
+  }
+  return encoder
+    .image(bitmap, options.imageMode)
+    .lineFeed(options.feedLines ?? 3)
+    .cut(options.cutMode ?? 'full')
+    .encode();
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { EscPosEncoder, encodeImageJob, type MonoBitmap } from './escpos';
+import { decodeEscPos } from './escposDecoder';
+import { bitmapFromRows } from './escposTestBitmaps';
+
+// Encode -> decode round trips: what the virtual printer shows is what a real printer would print
+
+/** Rows of a decoded page as '#'/'.' strings, for readable failures */
+function rowsOf(bitmap: MonoBitmap): string[] {
+  const rows: string[] = [];
+  for (let y = 0; y < bitmap.height; y++) {
+    let row = '';
+    for (let x = 0; x < bitmap.width; x++) {
+      row += bitmap.pixels[y * bitmap.width + x] ? '#' : '.';
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+// 16 x 4, so GS v 0 covers the image with no padding bits
+const RASTER_IMAGE = [
+  '#.#.#.#.#.#.#.#.',
+  '################',
+  '#..............#',
+  '.##..##..##..##.'
+];
+
+// 10 x 16: two full ESC * bands
+const COLUMN_IMAGE = [
+  '#.........', '.#........', '..#.......', '...#......',
+  '....#.....', '.....#....', '......#...', '.......#..',
+  '........#.', '.........#', '##########', '..........',
+  '#........#', '#........#', '##......##', '.########.'
+];
+
+describe('decodeEscPos', () => {
+  it('round-trips a GS v 0 raster image', () => {
+    const bitmap = bitmapFromRows(RASTER_IMAGE);
+    const job = encodeImageJob(bitmap, { imageMode: 'raster', alignment: 'left', feedLines: 0 });
+    const result = decodeEscPos(job, { paperWidth: 16 });
+
+    expect(result.unknownCommands).toEqual([]);
+    expect(result.cuts).toBe(1);
+    expect(result.pages).toHaveLength(1);
+    expect(rowsOf(result.pages[0])).toEqual(RASTER_IMAGE);
+  });
+
+  it('round-trips an ESC * column image', () => {
+    const bitmap = bitmapFromRows(COLUMN_IMAGE);
+    const job = encodeImageJob(bitmap, { imageMode: 'column', alignment: 'left', feedLines: 0 });
+    const result = decodeEscPos(job, { paperWidth: 10 });
+
+    expect(result.unknownCommands).toEqual([]);
+    expect(result.pages).toHaveLength(1);
+    expect(rowsOf(result.pages[0])).toEqual(COLUMN_IMAGE);
+  });
+
+  it('pads a column image to whole 8-dot bands', () => {
+    const rows = ['#.#', '.#.', '###'];
+    const job = encodeImageJob(bitmapFromRows(rows), { imageMode: 'column', alignment: 'left', feedLines: 0 });
+    const [page] = decodeEscPos(job, { paperWidth: 3 }).pages;
+    expect(rowsOf(page)).toEqual([...rows, '...', '...', '...', '...', '...']);
+  });
+
+  it('gives raster and column output the same image', () => {
+    const bitmap = bitmapFromRows(COLUMN_IMAGE.map((row) => row.padEnd(16, '.')));
+    const raster = decodeEscPos(encodeImageJob(bitmap, { imageMode: 'raster', feedLines: 0 }), { paperWidth: 32 });
+    const column = decodeEscPos(encodeImageJob(bitmap, { imageMode: 'column', feedLines: 0 }), { paperWidth: 32 });
+    expect(rowsOf(column.pages[0])).toEqual(rowsOf(raster.pages[0]));
+  });
+
+  it.each([
+    ['left', 0],
+    ['center', 12],
+    ['right', 24]
+  ] as const)('aligns a raster image %s', (alignment, offset) => {
+    const job = encodeImageJob(bitmapFromRows(['########']), { imageMode: 'raster', alignment, feedLines: 0 });
+    const [page] = decodeEscPos(job, { paperWidth: 32 }).pages;
+    expect(rowsOf(page)).toEqual(['.'.repeat(offset) + '#'.repeat(8) + '.'.repeat(24 - offset)]);
+  });
+
+  it.each([
+    ['left', 0],
+    ['center', 10],
+    ['right', 20]
+  ] as const)('aligns a column image %s', (alignment, offset) => {
+    const job = encodeImageJob(bitmapFromRows(['#'.repeat(10)]), { imageMode: 'column', alignment, feedLines: 0 });
+    const [page] = decodeEscPos(job, { paperWidth: 30 }).pages;
+    expect(rowsOf(page)[0]).toBe('.'.repeat(offset) + '#'.repeat(10) + '.'.repeat(20 - offset));
+  });
+
+  it('feeds paper for LF, ESC d and ESC J', () => {
+    const image = bitmapFromRows(['########', '########']);
+    const lineFeeds = decodeEscPos(encodeImageJob(image, { imageMode: 'raster', feedLines: 3 }), { paperWidth: 8 });
+    expect(lineFeeds.pages[0].height).toBe(2 + 3 * 30); // ESC 2 default line spacing
+
+    const data = new EscPosEncoder()
+      .initialize()
+      .raster(image)
+      .lineSpacing(10)
+      .feed(2)
+      .raw([0x1b, 0x4a, 0x05]) // ESC J 5
+      .cut('full')
+      .encode();
+    expect(decodeEscPos(data, { paperWidth: 8 }).pages[0].height).toBe(2 + 2 * 10 + 5);
+  });
+
+  it('starts a new page at every cut and skips blank trailing paper', () => {
+    const image = bitmapFromRows(['########']);
+    const first = encodeImageJob(image, { imageMode: 'raster', feedLines: 0, cutMode: 'full' });
+    const second = encodeImageJob(image, { imageMode: 'column', feedLines: 0, cutMode: 'partial' });
+    const result = decodeEscPos(new Uint8Array([...first, ...second]), { paperWidth: 8 });
+
+    expect(result.cuts).toBe(2);
+    expect(result.pages).toHaveLength(2);
+    expect(rowsOf(result.pages[0])).toEqual(['########']);
+    expect(rowsOf(result.pages[1])[0]).toBe('########');
+  });
+
+  it('keeps uncut paper as the last page', () => {
+    const job = encodeImageJob(bitmapFromRows(['########']), { imageMode: 'raster', feedLines: 0, cutMode: 'none' });
+    const result = decodeEscPos(job, { paperWidth: 8 });
+    expect(result.cuts).toBe(0);
+    expect(result.pages).toHaveLength(1);
+  });
+
+  it('skips density and reports no unknown commands', () => {
+    const job = encodeImageJob(bitmapFromRows(['########']), { imageMode: 'raster', density: -3, feedLines: 0 });
+    const result = decodeEscPos(job, { paperWidth: 8 });
+    expect(result.unknownCommands).toEqual([]);
+    expect(rowsOf(result.pages[0])).toEqual(['########']);
+  });
+
+  it('reports unknown commands and keeps decoding', () => {
+    const data = new EscPosEncoder()
+      .raw([0x1b, 0x99]) // ESC with an unknown command byte
+      .raw([0x1d, 0x99]) // GS with an unknown command byte
+      .raw([0x05]) // stray control byte
+      .raster(bitmapFromRows(['########']))
+      .cut('full')
+      .encode();
+    const result = decodeEscPos(data, { paperWidth: 8 });
+
+    expect(result.unknownCommands).toEqual(['1b 99', '1d 99', '05']);
+    expect(result.cuts).toBe(1);
+    expect(rowsOf(result.pages[0])).toEqual(['########']);
+  });
+
+  it('stops at a truncated GS v 0 image', () => {
+    const job = new EscPosEncoder().raster(bitmapFromRows(['########', '########'])).cut('full').encode();
+    const truncated = job.subarray(0, 9); // header and one of two rows
+    const result = decodeEscPos(truncated, { paperWidth: 8 });
+
+    expect(result.unknownCommands).toEqual(['truncated 1d 76 30']);
+    expect(result.cuts).toBe(0);
+    expect(result.pages).toEqual([]);
+  });
+
+  it('stops at a truncated ESC * band', () => {
+    const job = new EscPosEncoder().column(bitmapFromRows(['#'.repeat(10)])).encode();
+    const truncated = job.subarray(0, 3 + 5 + 4); // ESC 3, band header, 4 of 10 columns
+    const result = decodeEscPos(truncated, { paperWidth: 10 });
+    expect(result.unknownCommands).toEqual(['truncated 1b 2a']);
+  });
+
+  it('stops at a command cut off before its parameter', () => {
+    const result = decodeEscPos(new Uint8Array([0x1b, 0x40, 0x1b, 0x33]), { paperWidth: 8 });
+    expect(result.unknownCommands).toEqual(['truncated 1b 33']);
+  });
+});
@@ -0,0 +1,313 @@
+// ESC/POS interpreter that rasterizes a byte stream back into paper images.
+// Used by the virtual printer; covers the commands escpos.ts emits plus the usual
+// receipt basics. Keep this file free of DOM / React Native imports.
+
+import { ESC, GS, LF, type EscPosAlignment, type MonoBitmap } from './escpos';
+
+const DLE = 0x10;
+const CR = 0x0d;
+const DEFAULT_LINE_SPACING = 30; // dots, ESC 2
+const TEXT_CHAR_WIDTH = 12; // Font A
+const TEXT_CHAR_HEIGHT = 24;
+
+export interface EscPosDecodeOptions {
+  paperWidth: number; // printable dots
+}
+
+export interface EscPosDecodeResult {
+  /** One bitmap per cut. Trailing paper after the last cut is included if anything was printed on it. */
+  pages: MonoBitmap[];
+  cuts: number;
+  /** Command bytes the interpreter did not understand (skipped) */
+  unknownCommands: string[];
+}
+
+/**
+ * Paper roll that grows downward as rows are touched.
+ */
+class Paper {
+  private rows: Uint8Array[] = [];
+  readonly width: number;
+  height = 0;
+
+  constructor(width: number) {
+    this.width = width;
+  }
+
+  private ensure(rows: number): void {
+    while (this.rows.length < rows) {
+      this.rows.push(new Uint8Array(this.width));
+    }
+  }
+
+  setDot(x: number, y: number): void {
+    if (x < 0 || x >= this.width || y < 0) return;
+    this.ensure(y + 1);
+    this.rows[y][x] = 1;
+  }
+
+  /** Advance the paper so it is at least `y` dots long */
+  extendTo(y: number): void {
+    this.height = Math.max(this.height, y);
+  }
+
+  toBitmap(): MonoBitmap {
+    const height = Math.max(this.height, this.rows.length);
+    const pixels = new Uint8Array(this.width * height);
+    this.rows.forEach((row, y) => pixels.set(row, y * this.width));
+    return { width: this.width, height, pixels };
+  }
+
+  isBlank(): boolean {
+    return this.height === 0 && this.rows.length === 0;
+  }
+}
+
+const hex = (bytes: ArrayLike<number>) =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join(' ');
+
+/**
+ * Decode an ESC/POS stream into paper images.
+ *
+ * Supported: ESC @, ESC a, ESC 2, ESC 3, ESC d, ESC J, ESC *, GS v 0, GS V, GS ( K, LF, CR.
+ * Printable text is drawn as solid blocks per character so layout (not glyphs) can be checked.
+ */
+export function decodeEscPos(data: Uint8Array, options: EscPosDecodeOptions): EscPosDecodeResult {
+  const { paperWidth } = options;
+  const pages: MonoBitmap[] = [];
+  const unknownCommands: string[] = [];
+  let cuts = 0;
+
+  let paper = new Paper(paperWidth);
+  let y = 0; // top of the current print line
+  let x = 0; // text cursor
+  let alignment: EscPosAlignment = 'left';
+  let lineSpacing = DEFAULT_LINE_SPACING;
+  let textOnLine = false; // text lines never advance less than the glyph height
+  let lineItems: { width: number; draw: (offsetX: number) => void }[] = [];
+
+  const alignedX = (contentWidth: number) => {
+    if (alignment === 'center') return Math.max(0, Math.floor((paperWidth - contentWidth) / 2));
+    if (alignment === 'right') return Math.max(0, paperWidth - contentWidth);
+    return 0;
+  };
+
+  // Line contents are positioned when the line is printed, since alignment applies to the whole line
+  const printLine = () => {
+    const lineWidth = lineItems.reduce((sum, item) => sum + item.width, 0);
+    let offsetX = alignedX(lineWidth);
+    for (const item of lineItems) {
+      item.draw(offsetX);
+      offsetX += item.width;
+    }
+    y += textOnLine ? Math.max(lineSpacing, TEXT_CHAR_HEIGHT) : lineSpacing;
+    paper.extendTo(y);
+    lineItems = [];
+    textOnLine = false;
+    x = 0;
+  };
+
+  const finishPage = () => {
+    if (lineItems.length > 0) printLine();
+    if (!paper.isBlank()) {
+      pages.push(paper.toBitmap());
+    }
+    paper = new Paper(paperWidth);
+    y = 0;
+  };
+
+  const reset = () => {
+    alignment = 'left';
+    lineSpacing = DEFAULT_LINE_SPACING;
+  };
+
+  let i = 0;
+  const need = (count: number) => i + count <= data.length;
+
+  while (i < data.length) {
+    const byte = data[i];
+
+    if (byte === LF) {
+      printLine();
+      i += 1;
+      continue;
+    }
+
+    if (byte === CR) {
+      i += 1;
+      continue;
+    }
+
+    if (byte === ESC && need(2)) {
+      const cmd = data[i + 1];
+      switch (cmd) {
+        case 0x40: // ESC @
+          reset();
+          i += 2;
+          continue;
+        case 0x61: // ESC a n
+          if (!need(3)) break;
+          alignment = [0, 0x30].includes(data[i + 2]) ? 'left' : [1, 0x31].includes(data[i + 2]) ? 'center' : 'right';
+          i += 3;
+          continue;
+        case 0x32: // ESC 2
+          lineSpacing = DEFAULT_LINE_SPACING;
+          i += 2;
+          continue;
+        case 0x33: // ESC 3 n
+          if (!need(3)) break;
+          lineSpacing = data[i + 2];
+          i += 3;
+          continue;
+        case 0x64: // ESC d n - print and feed n lines
+          if (!need(3)) break;
+          if (lineItems.length > 0) printLine();
+          y += data[i + 2] * lineSpacing;
+          paper.extendTo(y);
+          i += 3;
+          continue;
+        case 0x4a: // ESC J n - print and feed n dots
+          if (!need(3)) break;
+          if (lineItems.length > 0) printLine();
+          y += data[i + 2];
+          paper.extendTo(y);
+          i += 3;
+          continue;
+        case 0x2a: { // ESC * m nL nH d1...dk
+          if (!need(5)) break;
+          const m = data[i + 2];
+          const columns = data[i + 3] | (data[i + 4] << 8);
+          const bytesPerColumn = m === 32 || m === 33 ? 3 : 1;
+          const start = i + 5;
+          const end = start + columns * bytesPerColumn;
+          if (end > data.length) break;
+          const bandTop = y;
+          const band = data.subarray(start, end);
+          lineItems.push({
+            width: columns,
+            draw: (offsetX) => {
+              for (let col = 0; col < columns; col++) {
+                for (let b = 0; b < bytesPerColumn; b++) {
+                  const value = band[col * bytesPerColumn + b];
+                  for (let bit = 0; bit < 8; bit++) {
+                    if (value & (0x80 >> bit)) {
+                      paper.setDot(offsetX + col, bandTop + b * 8 + bit);
+                    }
+                  }
+                }
+              }
+            }
+          });
+          x += columns;
+          i = end;
+          continue;
+        }
+        case 0x21: // ESC ! n - print mode
+        case 0x45: // ESC E n - bold
+        case 0x2d: // ESC - n - underline
+        case 0x4d: // ESC M n - font
+        case 0x74: // ESC t n - code page
+          if (!need(3)) break;
+          i += 3;
+          continue;
+        default:
+          unknownCommands.push(hex(data.subarray(i, i + 2)));
+          i += 2;
+          continue;
+      }
+      // Truncated command: stop decoding
+      unknownCommands.push(`truncated ${hex(data.subarray(i, i + 2))}`);
+      break;
+    }
+
+    if (byte === GS && need(2)) {
+      const cmd = data[i + 1];
+      if (cmd === 0x76 && need(8) && data[i + 2] === 0x30) { // GS v 0 m xL xH yL yH
+        const bytesPerRow = data[i + 4] | (data[i + 5] << 8);
+        const rows = data[i + 6] | (data[i + 7] << 8);
+        const start = i + 8;
+        const end = start + bytesPerRow * rows;
+        if (end > data.length) {
+          unknownCommands.push('truncated 1d 76 30');
+          break;
+        }
+        if (lineItems.length > 0) printLine();
+        const imageWidth = bytesPerRow * 8;
+        const offsetX = alignedX(imageWidth);
+        for (let row = 0; row < rows; row++) {
+          for (let bx = 0; bx < bytesPerRow; bx++) {
+            const value = data[start + row * bytesPerRow + bx];
+            if (!value) continue;
+            for (let bit = 0; bit < 8; bit++) {
+              if (value & (0x80 >> bit)) {
+                paper.setDot(offsetX + bx * 8 + bit, y + row);
+              }
+            }
+          }
+        }
+        y += rows;
+        paper.extendTo(y);
+        i = end;
+        continue;
+      }
+      if (cmd === 0x56 && need(3)) { // GS V m [n]
+        const m = data[i + 2];
+        const withFeed = m === 65 || m === 66;
+        if (withFeed && need(4)) {
+          y += data[i + 3];
+          paper.extendTo(y);
+        }
+        cuts += 1;
+        finishPage();
+        i += withFeed ? 4 : 3;
+        continue;
+      }
+      if (cmd === 0x28 && need(5)) { // GS ( fn pL pH ... - skip parameter block
+        const length = data[i + 3] | (data[i + 4] << 8);
+        i += 5 + length;
+        continue;
+      }
+      if ((cmd === 0x21 || cmd === 0x42 || cmd === 0x4c) && need(3)) { // GS ! / GS B / GS L (partial)
+        i += cmd === 0x4c ? 4 : 3;
+        continue;
+      }
+      unknownCommands.push(hex(data.subarray(i, i + 2)));
+      i += 2;
+      continue;
+    }
+
+    if (byte === DLE && need(3)) { // DLE EOT n / DLE ENQ n - real-time requests, nothing to print
+      i += 3;
+      continue;
+    }
+
+    if (byte >= 0x20) {
+      // Text: draw a block per character so line layout stays visible
+      if (x + TEXT_CHAR_WIDTH <= paperWidth) {
+        const glyphTop = y;
+        textOnLine = true;
+        const isSpace = byte === 0x20;
+        lineItems.push({
+          width: TEXT_CHAR_WIDTH,
+          draw: (offsetX) => {
+            if (isSpace) return;
+            for (let gy = 4; gy < TEXT_CHAR_HEIGHT - 4; gy++) {
+              for (let gx = 2; gx < TEXT_CHAR_WIDTH - 2; gx++) {
+                paper.setDot(offsetX + gx, glyphTop + gy);
+              }
+            }
+          }
+        });
+        x += TEXT_CHAR_WIDTH;
+      }
+      i += 1;
+      continue;
+    }
+
+    unknownCommands.push(hex([byte]));
+    i += 1;
+  }
+
+  finishPage();
+  return { pages, cuts, unknownCommands };
+}
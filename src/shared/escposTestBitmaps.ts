@@ -0,0 +1,17 @@
+import type { MonoBitmap } from './escpos';
+
+// Fixture helper for the encoder and decoder tests
+
+/**
+ * Bitmap from rows of '#' (black) and '.' (white) dots.
+ */
+export function bitmapFromRows(rows: string[]): MonoBitmap {
+  const width = rows[0].length;
+  const pixels = new Uint8Array(width * rows.length);
+  rows.forEach((row, y) => {
+    [...row].forEach((dot, x) => {
+      pixels[y * width + x] = dot === '#' ? 1 : 0;
+    });
+  });
+  return { width, height: rows.length, pixels };
+}
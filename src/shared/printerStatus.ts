@@ -0,0 +1,103 @@
+// Printer status over ESC/POS real-time status transmission (DLE EOT n) and
+// Automatic Status Back (GS a). Shared by the web app and apps/mobile.
+// Keep this file free of DOM / React Native imports.
+
+import { GS } from './escpos';
+
+const DLE = 0x10;
+const EOT = 0x04;
+
+export type PrinterStatusState =
+  | 'ready'
+  | 'paper-near-end'
+  | 'paper-out'
+  | 'cover-open'
+  | 'overheated'
+  | 'unknown';
+
+export interface PrinterStatusReport {
+  state: PrinterStatusState;
+  coverOpen: boolean;
+  paperOut: boolean;
+  paperNearEnd: boolean;
+  overheated: boolean;
+  checkedAt: string;
+}
+
+/** DLE EOT 2 - offline cause (cover open, stopped for paper end, error) */
+export const DLE_EOT_OFFLINE = [DLE, EOT, 0x02];
+/** DLE EOT 3 - error cause (auto-recoverable error = head overheated) */
+export const DLE_EOT_ERROR = [DLE, EOT, 0x03];
+/** DLE EOT 4 - paper roll sensor */
+export const DLE_EOT_PAPER = [DLE, EOT, 0x04];
+/** GS a n - enable Automatic Status Back for online/offline, error and paper sensor changes */
+export const ENABLE_AUTOMATIC_STATUS_BACK = [GS, 0x61, 0x0e];
+
+/**
+ * Operator-facing text per state (Indonesian to match the booth UI).
+ */
+export const PRINTER_STATUS_MESSAGES: Record<PrinterStatusState, string> = {
+  ready: 'Printer siap',
+  'paper-near-end': 'Kertas printer hampir habis',
+  'paper-out': 'Kertas printer habis. Ganti roll kertas.',
+  'cover-open': 'Tutup printer terbuka. Tutup dulu sebelum mencetak.',
+  overheated: 'Printer terlalu panas. Tunggu sebentar.',
+  unknown: 'Status printer tidak diketahui'
+};
+
+/**
+ * DLE EOT responses always have bit 1 and bit 4 set, bit 0 and bit 7 clear.
+ */
+export function isRealtimeStatusByte(value: number): boolean {
+  return (value & 0x93) === 0x12;
+}
+
+/** Whether a job can be sent. Unknown is allowed so printers without status support keep working. */
+export function canPrintWithStatus(state: PrinterStatusState): boolean {
+  return state === 'ready' || state === 'paper-near-end' || state === 'unknown';
+}
+
+function toReport(flags: Omit<PrinterStatusReport, 'state' | 'checkedAt'>): PrinterStatusReport {
+  // Most severe condition wins
+  const state: PrinterStatusState = flags.coverOpen
+    ? 'cover-open'
+    : flags.paperOut
+      ? 'paper-out'
+      : flags.overheated
+        ? 'overheated'
+        : flags.paperNearEnd
+          ? 'paper-near-end'
+          : 'ready';
+  return { ...flags, state, checkedAt: new Date().toISOString() };
+}
+
+/**
+ * Combine DLE EOT 2/3/4 responses. Missing or malformed bytes count as "no problem reported";
+ * if none of the bytes are valid the state is 'unknown'.
+ */
+export function parseRealtimeStatus(responses: { offline?: number; error?: number; paper?: number }): PrinterStatusReport {
+  const valid = (value?: number): value is number => value !== undefined && isRealtimeStatusByte(value);
+  const { offline, error, paper } = responses;
+  if (!valid(offline) && !valid(error) && !valid(paper)) {
+    return { state: 'unknown', coverOpen: false, paperOut: false, paperNearEnd: false, overheated: false, checkedAt: new Date().toISOString() };
+  }
+  return toReport({
+    coverOpen: valid(offline) && (offline & 0x04) !== 0,
+    paperOut: (valid(offline) && (offline & 0x20) !== 0) || (valid(paper) && (paper & 0x60) !== 0),
+    paperNearEnd: valid(paper) && (paper & 0x0c) !== 0,
+    overheated: valid(error) && (error & 0x40) !== 0
+  });
+}
+
+/**
+ * Parse a 4-byte Automatic Status Back packet, or null if the bytes are not one.
+ */
+export function parseAutomaticStatusBack(bytes: ArrayLike<number>): PrinterStatusReport | null {
+  if (bytes.length < 4 || (bytes[0] & 0x93) !== 0x10) return null;
+  return toReport({
+    coverOpen: (bytes[0] & 0x20) !== 0,
+    paperOut: (bytes[2] & 0x0c) !== 0,
+    paperNearEnd: (bytes[2] & 0x03) !== 0,
+    overheated: (bytes[1] & 0x40) !== 0
+  });
+}
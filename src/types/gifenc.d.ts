@@ -0,0 +1,31 @@
+// gifenc ships without type declarations; only the parts the motion encoder uses are typed here.
+declare module 'gifenc' {
+  export type Palette = number[][];
+
+  export interface WriteFrameOptions {
+    palette?: Palette;
+    delay?: number; // ms
+    repeat?: number; // 0 = loop forever, -1 = play once
+    transparent?: boolean;
+    dispose?: number;
+  }
+
+  export interface Encoder {
+    writeFrame(index: Uint8Array, width: number, height: number, options?: WriteFrameOptions): void;
+    finish(): void;
+    bytes(): Uint8Array;
+    reset(): void;
+  }
+
+  export function GIFEncoder(options?: { auto?: boolean; initialCapacity?: number }): Encoder;
+  export function quantize(
+    rgba: Uint8Array | Uint8ClampedArray,
+    maxColors: number,
+    options?: { format?: 'rgb565' | 'rgb444' | 'rgba4444'; oneBitAlpha?: boolean | number }
+  ): Palette;
+  export function applyPalette(
+    rgba: Uint8Array | Uint8ClampedArray,
+    palette: Palette,
+    format?: 'rgb565' | 'rgb444' | 'rgba4444'
+  ): Uint8Array;
+}
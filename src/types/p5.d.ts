@@ -0,0 +1,12 @@
+// p5 2.x keeps images and graphics buffers on a canvas; @types/p5 1.x doesn't declare it
+import 'p5';
+
+declare module 'p5' {
+  interface Image {
+    canvas: HTMLCanvasElement;
+  }
+  // p5.Graphics is typed as __Graphics__ & p5
+  interface __Graphics__ {
+    canvas: HTMLCanvasElement;
+  }
+}
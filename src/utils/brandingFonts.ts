@@ -0,0 +1,63 @@
+/**
+ * Uploaded branding fonts, registered through the FontFace API so both p5 (`textFont(family)`)
+ * and plain 2D canvases can draw with them by family name.
+ */
+import type { BrandingFont, Config } from '../services/configService';
+import type { TemplateTextSource } from '../config/templates';
+
+export const FALLBACK_FONT = 'monospace';
+
+// Keyed by URL: the same file is only fetched (and cached by the service worker) once
+const loading = new Map<string, Promise<string | null>>();
+
+export function getFontFamily(font: BrandingFont): string {
+  return `morobooth-font-${font.id.replace(/[^a-zA-Z0-9_-]/g, '')}`;
+}
+
+/**
+ * Load and register a font. Resolves to its family name, or null when it can't be used
+ * (offline before it was ever cached, a corrupt file, no FontFace support).
+ */
+export function loadBrandingFont(font: BrandingFont): Promise<string | null> {
+  if (typeof FontFace === 'undefined' || typeof document === 'undefined') {
+    return Promise.resolve(null);
+  }
+  const existing = loading.get(font.url);
+  if (existing) return existing;
+
+  const family = getFontFamily(font);
+  const promise = new FontFace(family, `url(${JSON.stringify(font.url)})`)
+    .load()
+    .then((face) => {
+      document.fonts.add(face);
+      return family;
+    })
+    .catch((error) => {
+      console.warn(`[FONTS] Failed to load "${font.name}", falling back to ${FALLBACK_FONT}:`, error);
+      loading.delete(font.url); // retry on the next print
+      return null;
+    });
+  loading.set(font.url, promise);
+  return promise;
+}
+
+/**
+ * Family name to draw each text block with. Blocks without a font, or whose font failed, are left out.
+ */
+export async function resolveTextFonts(config: Pick<Config, 'fonts' | 'textFonts'>): Promise<Partial<Record<TemplateTextSource, string>>> {
+  const families: Partial<Record<TemplateTextSource, string>> = {};
+  const fonts = config.fonts ?? [];
+  await Promise.all(Object.entries(config.textFonts ?? {}).map(async ([source, fontId]) => {
+    const font = fonts.find((f) => f.id === fontId);
+    const family = font ? await loadBrandingFont(font) : null;
+    if (family) families[source as TemplateTextSource] = family;
+  }));
+  return families;
+}
+
+// Fetch every font up front so the service worker has them before the booth goes offline
+export function preloadBrandingFonts(config: Pick<Config, 'fonts'>): void {
+  (config.fonts ?? []).forEach((font) => {
+    void loadBrandingFont(font);
+  });
+}
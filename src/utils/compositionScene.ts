@@ -0,0 +1,180 @@
+/**
+ * A composed strip as plain data, drawn with the 2D canvas API only. The composer builds the
+ * scene on the main thread; the image worker draws it on an OffscreenCanvas, and the same
+ * `renderScene` draws it inline when the worker can't, so the pixels are the same either way.
+ */
+import { ditherImageData, ditherOverlayData, type DitherAlgorithm } from './dithering';
+import { layoutTextLines, type FrameRect, type ResolvedText } from './templateLayout';
+import { FALLBACK_FONT } from './brandingFonts';
+
+export type SceneCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type SceneImage = ImageBitmap | SceneCanvas; // what `image` indexes point at
+type SceneContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface SceneDither {
+  algorithm: DitherAlgorithm;
+  threshold: number;
+}
+
+export interface SceneFont {
+  family: string;
+  url: string; // branding font file, loaded again inside the worker
+}
+
+export type SceneItem =
+  | { type: 'image'; image: number; rect: FrameRect } // header logo, QR code: drawn as-is
+  | { type: 'cell'; image: number; rect: FrameRect; rotation: number; dither?: SceneDither } // photo, cover-cropped
+  | { type: 'overlay'; image: number; rect: FrameRect; dither?: SceneDither } // artwork with alpha
+  | { type: 'text'; block: ResolvedText; font: string } // template text, wrapped by layoutTextLines
+  | { type: 'label'; text: string; x: number; y: number; fontSize: number; font: string }; // centred, top-aligned
+
+export interface CompositionScene {
+  width: number; // output pixels
+  height: number;
+  scale: number; // output pixels per layout pixel; item rects are in layout pixels
+  items: SceneItem[]; // drawn in order over a white background
+  fonts: SceneFont[];
+}
+
+export function createSceneCanvas(width: number, height: number): SceneCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function getContext(canvas: SceneCanvas): SceneContext {
+  const context = (canvas as OffscreenCanvas).getContext('2d') as SceneContext | null;
+  if (!context) throw new Error('2D canvas context unavailable');
+  return context;
+}
+
+// Generic families must stay unquoted; uploaded fonts are quoted in case of odd characters
+function fontString(size: number, family: string): string {
+  return `${size}px ${family === FALLBACK_FONT ? family : JSON.stringify(family)}`;
+}
+
+// Tight ink bounds rather than the advance width, as p5's textWidth measured for the p5 composer,
+// so text wraps where it used to
+function textWidth(context: SceneContext, text: string): number {
+  const metrics = context.measureText(text);
+  return metrics.actualBoundingBoxLeft + metrics.actualBoundingBoxRight;
+}
+
+// Splits 0-1 progress evenly over `steps` jobs run one after another
+function progressSteps(steps: number, onProgress?: (fraction: number) => void) {
+  return (step: number) => (fraction: number) => onProgress?.((step + fraction) / Math.max(1, steps));
+}
+
+function ditheredCopy(
+  image: SceneImage,
+  width: number,
+  height: number,
+  dither: SceneDither,
+  overlay: boolean,
+  onProgress: (fraction: number) => void
+): SceneCanvas {
+  const canvas = createSceneCanvas(width, height);
+  const context = getContext(canvas);
+  context.drawImage(image, 0, 0, width, height);
+  const pixels = context.getImageData(0, 0, width, height);
+  if (overlay) {
+    ditherOverlayData(pixels, dither.algorithm, dither.threshold, onProgress);
+  } else {
+    ditherImageData(pixels, dither.algorithm, dither.threshold, onProgress);
+  }
+  context.putImageData(pixels, 0, 0);
+  return canvas;
+}
+
+/**
+ * Draw a frame into a cell: cropped to the cell's aspect ratio (cover), rotated around its centre.
+ */
+function drawCell(out: SceneContext, frame: SceneImage, rect: FrameRect, rotation: number) {
+  const srcW = frame.width;
+  const srcH = frame.height;
+  const cellAspect = rect.width / rect.height;
+  let sw = srcW;
+  let sh = srcH;
+  if (srcW / srcH > cellAspect) {
+    sw = srcH * cellAspect;
+  } else {
+    sh = srcW / cellAspect;
+  }
+
+  out.save();
+  out.translate(rect.x + rect.width / 2, rect.y + rect.height / 2);
+  if (rotation) {
+    out.rotate((rotation * Math.PI) / 180);
+  }
+  out.drawImage(frame, (srcW - sw) / 2, (srcH - sh) / 2, sw, sh, -rect.width / 2, -rect.height / 2, rect.width, rect.height);
+  out.restore();
+}
+
+/**
+ * Draw the scene onto a new canvas. `images` are indexed by the items; dithering reports 0-1
+ * progress over every dithered cell and overlay.
+ */
+export function renderScene(scene: CompositionScene, images: SceneImage[], onProgress?: (fraction: number) => void): SceneCanvas {
+  const canvas = createSceneCanvas(scene.width, scene.height);
+  const out = getContext(canvas);
+  out.fillStyle = '#ffffff';
+  out.fillRect(0, 0, scene.width, scene.height);
+  out.scale(scene.scale, scene.scale);
+  out.fillStyle = '#000000';
+
+  const dithered = scene.items.filter((item) => (item.type === 'cell' || item.type === 'overlay') && item.dither).length;
+  const step = progressSteps(dithered, onProgress);
+  let done = 0;
+
+  for (const item of scene.items) {
+    switch (item.type) {
+      case 'image': {
+        const { x, y, width, height } = item.rect;
+        out.drawImage(images[item.image], x, y, width, height);
+        break;
+      }
+      case 'cell': {
+        const frame = images[item.image];
+        const source = item.dither ? ditheredCopy(frame, frame.width, frame.height, item.dither, false, step(done++)) : frame;
+        drawCell(out, source, item.rect, item.rotation);
+        break;
+      }
+      case 'overlay': {
+        // Rendered at its drawn pixel size so the black/white pass matches what prints
+        const { x, y, width, height } = item.rect;
+        const artWidth = Math.max(1, Math.round(width * scene.scale));
+        const artHeight = Math.max(1, Math.round(height * scene.scale));
+        let art: SceneImage = images[item.image];
+        if (item.dither) {
+          art = ditheredCopy(art, artWidth, artHeight, item.dither, true, step(done++));
+        } else {
+          const copy = createSceneCanvas(artWidth, artHeight);
+          getContext(copy).drawImage(art, 0, 0, artWidth, artHeight);
+          art = copy;
+        }
+        out.drawImage(art, x, y, width, height);
+        break;
+      }
+      case 'text': {
+        out.font = fontString(item.block.fontSize, item.font);
+        out.textAlign = item.block.align;
+        out.textBaseline = 'middle';
+        for (const line of layoutTextLines(item.block, (text) => textWidth(out, text))) {
+          out.fillText(line.text, line.x, line.y);
+        }
+        break;
+      }
+      case 'label':
+        out.font = fontString(item.fontSize, item.font);
+        out.textAlign = 'center';
+        out.textBaseline = 'top';
+        out.fillText(item.text, item.x, item.y);
+        break;
+    }
+  }
+  return canvas;
+}
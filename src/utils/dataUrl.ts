@@ -0,0 +1,32 @@
+/**
+ * Synchronous data URL -> Blob, usable inside an IndexedDB upgrade transaction
+ * (awaiting fetch() there would let the transaction commit).
+ */
+export function dataURLToBlob(dataURL: string): Blob {
+  const comma = dataURL.indexOf(',');
+  if (!dataURL.startsWith('data:') || comma < 0) {
+    throw new Error('Invalid data URL');
+  }
+  const header = dataURL.slice(5, comma);
+  const mimeType = header.split(';')[0] || 'application/octet-stream';
+  const payload = dataURL.slice(comma + 1);
+
+  if (!header.endsWith(';base64')) {
+    return new Blob([decodeURIComponent(payload)], { type: mimeType });
+  }
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+export function blobToDataURL(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Failed to read file'));
+    reader.readAsDataURL(blob);
+  });
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { ditherImageData, type DitherTarget } from './dithering';
+
+// Grey test image with hard edges, so error diffusion runs into both ends of the range
+function greyImage(width: number, height: number): DitherTarget {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let seed = 7;
+  for (let i = 0; i < width * height; i++) {
+    seed = (Math.imul(seed, 1103515245) + 12345) & 0x7fffffff;
+    const x = i % width;
+    const v = x < width / 4 ? 250 : x > (width * 3) / 4 ? 5 : (seed >>> 16) % 256;
+    data.set([v, v, v, 255], i * 4);
+  }
+  return { data, width, height };
+}
+
+/**
+ * The Floyd–Steinberg pass the composer used before the shared module: the R channel of a p5
+ * pixel array, every write clamped to 0-255.
+ */
+function previousFloydSteinberg(source: DitherTarget, threshold: number): Uint8ClampedArray {
+  const { width, height } = source;
+  const pixels = new Uint8ClampedArray(source.data);
+  const getPix = (x: number, y: number) =>
+    x < 0 || x >= width || y < 0 || y >= height ? 0 : pixels[(y * width + x) * 4];
+  const setPix = (x: number, y: number, value: number) => {
+    if (x < 0 || x >= width || y < 0 || y >= height) return;
+    const idx = (y * width + x) * 4;
+    const v = Math.min(255, Math.max(0, value));
+    pixels[idx] = v;
+    pixels[idx + 1] = v;
+    pixels[idx + 2] = v;
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const oldVal = getPix(x, y);
+      const newVal = oldVal < threshold ? 0 : 255;
+      setPix(x, y, newVal);
+      const err = oldVal - newVal;
+      setPix(x + 1, y, getPix(x + 1, y) + (err * 7) / 16);
+      setPix(x - 1, y + 1, getPix(x - 1, y + 1) + (err * 3) / 16);
+      setPix(x, y + 1, getPix(x, y + 1) + (err * 5) / 16);
+      setPix(x + 1, y + 1, getPix(x + 1, y + 1) + (err * 1) / 16);
+    }
+  }
+  return pixels;
+}
+
+describe('ditherImageData', () => {
+  // Thresholds near the ends push the diffused error past 0-255, where the clamp matters
+  it.each([20, 128, 165, 240])('matches the previous Floyd–Steinberg output on grey images (threshold %i)', (threshold) => {
+    const image = greyImage(64, 48);
+    const expected = previousFloydSteinberg(image, threshold);
+    ditherImageData(image, 'floyd-steinberg', threshold);
+    expect(Array.from(image.data)).toEqual(Array.from(expected));
+  });
+
+  it('reads colour pixels as luminance and leaves alpha alone', () => {
+    const image: DitherTarget = { data: new Uint8ClampedArray([255, 0, 0, 90, 0, 255, 0, 200]), width: 2, height: 1 };
+    ditherImageData(image, 'threshold', 128);
+    expect(Array.from(image.data)).toEqual([0, 0, 0, 90, 255, 255, 255, 200]);
+  });
+});
@@ -1,82 +1,304 @@
 /**
- * Dithering Bayer (Ordered) 4x4.
- * Fast dithering for real-time preview.
+ * Dithering algorithms shared by every stage (preview, composition, print).
+ * All algorithms work in place on ImageData-style RGBA buffers: luminance is read from
+ * RGB and each pixel is written back as pure black (0) or white (255). Alpha is untouched.
  */
-export function orderedDither(gfx: any): void {
-  gfx.loadPixels();
-  
-  const M4 = [
-    [0, 8, 2, 10],
-    [12, 4, 14, 6],
-    [3, 11, 1, 9],
-    [15, 7, 13, 5],
-  ];
-  
-  const M = M4;
-  const n = M.length;
-  const n2 = n * n;
-  const scale = 255 / n2; // Skala threshold (255 / 16)
-
-  for (let y = 0; y < gfx.height; y++) {
-    for (let x = 0; x < gfx.width; x++) {
-      const idx = (y * gfx.width + x) * 4;
-      const lum = gfx.pixels[idx]; // Ambil nilai R (sudah grayscale)
-      const threshold = M[y % n][x % n] * scale;
-      const v = lum < threshold ? 0 : 255;
-      
-      gfx.pixels[idx] = v;
-      gfx.pixels[idx + 1] = v;
-      gfx.pixels[idx + 2] = v;
-    }
-  }
-  gfx.updatePixels();
+import type p5 from 'p5';
+
+export type DitherAlgorithm =
+  | 'floyd-steinberg'
+  | 'atkinson'
+  | 'stucki'
+  | 'jarvis-judice-ninke'
+  | 'bayer-4x4'
+  | 'bayer-8x8'
+  | 'blue-noise'
+  | 'threshold';
+
+export const DITHER_ALGORITHMS: { id: DitherAlgorithm; label: string }[] = [
+  { id: 'floyd-steinberg', label: 'Floyd–Steinberg' },
+  { id: 'atkinson', label: 'Atkinson' },
+  { id: 'stucki', label: 'Stucki' },
+  { id: 'jarvis-judice-ninke', label: 'Jarvis–Judice–Ninke' },
+  { id: 'bayer-4x4', label: 'Bayer 4x4 (ordered)' },
+  { id: 'bayer-8x8', label: 'Bayer 8x8 (ordered)' },
+  { id: 'blue-noise', label: 'Blue noise' },
+  { id: 'threshold', label: 'Threshold only' }
+];
+
+export function isDitherAlgorithm(value: unknown): value is DitherAlgorithm {
+  return DITHER_ALGORITHMS.some((a) => a.id === value);
 }
 
 /**
- * Dithering Floyd-Steinberg.
- * High quality, slow. For final composition.
- * @param p - p5 instance
- * @param img - Image to dither
- * @param threshold - Optional threshold value (0-255, default: 128)
+ * Minimal ImageData shape so p5 pixel arrays can be passed too.
+ */
+export interface DitherTarget {
+  data: Uint8ClampedArray | number[];
+  width: number;
+  height: number;
+}
+
+// [dx, dy, weight] per neighbour, plus divisor
+type DiffusionKernel = { taps: [number, number, number][]; divisor: number };
+
+const DIFFUSION_KERNELS: Partial<Record<DitherAlgorithm, DiffusionKernel>> = {
+  'floyd-steinberg': {
+    divisor: 16,
+    taps: [[1, 0, 7], [-1, 1, 3], [0, 1, 5], [1, 1, 1]]
+  },
+  // Atkinson only diffuses 6/8 of the error, which keeps highlights and shadows clean
+  atkinson: {
+    divisor: 8,
+    taps: [[1, 0, 1], [2, 0, 1], [-1, 1, 1], [0, 1, 1], [1, 1, 1], [0, 2, 1]]
+  },
+  stucki: {
+    divisor: 42,
+    taps: [
+      [1, 0, 8], [2, 0, 4],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 8], [1, 1, 4], [2, 1, 2],
+      [-2, 2, 1], [-1, 2, 2], [0, 2, 4], [1, 2, 2], [2, 2, 1]
+    ]
+  },
+  'jarvis-judice-ninke': {
+    divisor: 48,
+    taps: [
+      [1, 0, 7], [2, 0, 5],
+      [-2, 1, 3], [-1, 1, 5], [0, 1, 7], [1, 1, 5], [2, 1, 3],
+      [-2, 2, 1], [-1, 2, 3], [0, 2, 5], [1, 2, 3], [2, 2, 1]
+    ]
+  }
+};
+
+const BAYER_4X4 = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5]
+];
+
+const BAYER_8X8 = [
+  [0, 32, 8, 40, 2, 34, 10, 42],
+  [48, 16, 56, 24, 50, 18, 58, 26],
+  [12, 44, 4, 36, 14, 46, 6, 38],
+  [60, 28, 52, 20, 62, 30, 54, 22],
+  [3, 35, 11, 43, 1, 33, 9, 41],
+  [51, 19, 59, 27, 49, 17, 57, 25],
+  [15, 47, 7, 39, 13, 45, 5, 37],
+  [63, 31, 55, 23, 61, 29, 53, 21]
+];
+
+const BLUE_NOISE_SIZE = 32;
+let blueNoiseMask: Uint8Array | null = null;
+
+/**
+ * Void-and-cluster blue-noise threshold mask (values 0-255), generated once on first use.
+ * Deterministic so repeated prints of the same photo come out identical.
  */
-export function floydSteinbergDither(p: any, img: any, threshold?: number): any {
-  const ditheredImg = p.createImage(img.width, img.height);
-  ditheredImg.copy(img, 0, 0, img.width, img.height, 0, 0, ditheredImg.width, ditheredImg.height);
-  
-  ditheredImg.loadPixels();
-  
-  const ditherThreshold = threshold ?? 128; // Default 128 if not provided
-  
-  const getPix = (x: number, y: number): number => {
-    if (x < 0 || x >= ditheredImg.width || y < 0 || y >= ditheredImg.height) return 0;
-    return ditheredImg.pixels[(y * ditheredImg.width + x) * 4];
+function getBlueNoiseMask(): Uint8Array {
+  if (blueNoiseMask) return blueNoiseMask;
+
+  const size = BLUE_NOISE_SIZE;
+  const n = size * size;
+  const sigma = 1.5;
+
+  // Toroidal gaussian energy kernel indexed by wrapped (dx, dy)
+  const kernel = new Float32Array(n);
+  for (let dy = 0; dy < size; dy++) {
+    for (let dx = 0; dx < size; dx++) {
+      const wx = Math.min(dx, size - dx);
+      const wy = Math.min(dy, size - dy);
+      kernel[dy * size + dx] = Math.exp(-(wx * wx + wy * wy) / (2 * sigma * sigma));
+    }
+  }
+
+  const energy = new Float32Array(n);
+  const pattern = new Uint8Array(n);
+  const update = (index: number, sign: number) => {
+    const px = index % size;
+    const py = Math.floor(index / size);
+    for (let y = 0; y < size; y++) {
+      const dy = (y - py + size) % size;
+      for (let x = 0; x < size; x++) {
+        energy[y * size + x] += sign * kernel[dy * size + ((x - px + size) % size)];
+      }
+    }
   };
-  
-  const setPix = (x: number, y: number, val: number): void => {
-    if (x < 0 || x >= ditheredImg.width || y < 0 || y >= ditheredImg.height) return;
-    const idx = (y * ditheredImg.width + x) * 4;
-    const v = p.constrain(val, 0, 255); // Pastikan nilai valid
-    ditheredImg.pixels[idx] = v;
-    ditheredImg.pixels[idx + 1] = v;
-    ditheredImg.pixels[idx + 2] = v;
-    ditheredImg.pixels[idx + 3] = 255;
+  const extreme = (wanted: number, pickMax: boolean) => {
+    let best = -1;
+    for (let i = 0; i < n; i++) {
+      if (pattern[i] !== wanted) continue;
+      if (best < 0 || (pickMax ? energy[i] > energy[best] : energy[i] < energy[best])) best = i;
+    }
+    return best;
   };
 
-  for (let y = 0; y < ditheredImg.height; y++) {
-    for (let x = 0; x < ditheredImg.width; x++) {
-      const oldVal = getPix(x, y);
-      const newVal = (oldVal < ditherThreshold) ? 0 : 255; // Use configurable threshold
-      setPix(x, y, newVal);
+  // Seed ~10% of the cells with a fixed LCG, then relax into an even distribution
+  let seed = 12345;
+  const initialCount = Math.floor(n / 10);
+  for (let placed = 0; placed < initialCount;) {
+    seed = (Math.imul(seed, 1103515245) + 12345) & 0x7fffffff;
+    const index = (seed >>> 16) % n;
+    if (!pattern[index]) {
+      pattern[index] = 1;
+      update(index, 1);
+      placed++;
+    }
+  }
+  for (let guard = 0; guard < n; guard++) {
+    const cluster = extreme(1, true);
+    pattern[cluster] = 0;
+    update(cluster, -1);
+    const voidIndex = extreme(0, false);
+    pattern[voidIndex] = 1;
+    update(voidIndex, 1);
+    if (voidIndex === cluster) break;
+  }
+
+  const rank = new Int32Array(n);
+  const initialPattern = pattern.slice();
+  const initialEnergy = energy.slice();
+
+  // Phase 1: remove tightest clusters from the initial pattern, ranking downward
+  for (let r = initialCount - 1; r >= 0; r--) {
+    const cluster = extreme(1, true);
+    pattern[cluster] = 0;
+    update(cluster, -1);
+    rank[cluster] = r;
+  }
+
+  // Phase 2: fill the largest voids from the initial pattern, ranking upward
+  pattern.set(initialPattern);
+  energy.set(initialEnergy);
+  for (let r = initialCount; r < n; r++) {
+    const voidIndex = extreme(0, false);
+    pattern[voidIndex] = 1;
+    update(voidIndex, 1);
+    rank[voidIndex] = r;
+  }
+
+  blueNoiseMask = new Uint8Array(n);
+  for (let i = 0; i < n; i++) {
+    blueNoiseMask[i] = Math.floor(((rank[i] + 0.5) * 256) / n);
+  }
+  return blueNoiseMask;
+}
+
+// Rounded and clamped to 0-255 on every write, as the original p5 Floyd–Steinberg pass did through
+// its pixel array: diffused error can't pile up past the range, and grey photos dither as before
+function readLuminance(target: DitherTarget): Uint8ClampedArray {
+  const { data, width, height } = target;
+  const lum = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < lum.length; i++) {
+    const idx = i * 4;
+    lum[i] = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+  }
+  return lum;
+}
+
+function writeBinary(target: DitherTarget, index: number, black: boolean): void {
+  const idx = index * 4;
+  const v = black ? 0 : 255;
+  target.data[idx] = v;
+  target.data[idx + 1] = v;
+  target.data[idx + 2] = v;
+}
+
+const PROGRESS_ROWS = 64; // rows between progress reports
+
+/**
+ * Dither an image in place.
+ * @param threshold - 0-255 cut-off (default 128). For ordered modes it shifts the whole matrix.
+ * @param onProgress - fraction of rows done, reported every few rows (used by the image worker)
+ */
+export function ditherImageData(
+  target: DitherTarget,
+  algorithm: DitherAlgorithm,
+  threshold = 128,
+  onProgress?: (fraction: number) => void
+): void {
+  const { width, height } = target;
+  const lum = readLuminance(target);
+  const kernel = DIFFUSION_KERNELS[algorithm];
+
+  if (kernel) {
+    for (let y = 0; y < height; y++) {
+      if (onProgress && y % PROGRESS_ROWS === 0) onProgress(y / height);
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        const oldVal = lum[i];
+        const newVal = oldVal < threshold ? 0 : 255;
+        writeBinary(target, i, newVal === 0);
+        const err = oldVal - newVal;
+        for (const [dx, dy, weight] of kernel.taps) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && nx < width && ny < height) {
+            lum[ny * width + nx] += (err * weight) / kernel.divisor;
+          }
+        }
+      }
+    }
+    return;
+  }
 
-      const err = oldVal - newVal;
+  // Ordered / mask based: per-pixel threshold, no error propagation
+  const bias = threshold - 128;
+  let cellThreshold: (x: number, y: number) => number;
+  if (algorithm === 'bayer-4x4') {
+    cellThreshold = (x, y) => BAYER_4X4[y % 4][x % 4] * (255 / 16) + bias;
+  } else if (algorithm === 'bayer-8x8') {
+    cellThreshold = (x, y) => BAYER_8X8[y % 8][x % 8] * (255 / 64) + bias;
+  } else if (algorithm === 'blue-noise') {
+    const mask = getBlueNoiseMask();
+    cellThreshold = (x, y) => mask[(y % BLUE_NOISE_SIZE) * BLUE_NOISE_SIZE + (x % BLUE_NOISE_SIZE)] + bias;
+  } else {
+    cellThreshold = () => threshold;
+  }
 
-      // Distribusikan error ke piksel tetangga
-      setPix(x + 1, y,     getPix(x + 1, y)     + err * 7 / 16);
-      setPix(x - 1, y + 1, getPix(x - 1, y + 1) + err * 3 / 16);
-      setPix(x,     y + 1, getPix(x,     y + 1) + err * 5 / 16);
-      setPix(x + 1, y + 1, getPix(x + 1, y + 1) + err * 1 / 16);
+  for (let y = 0; y < height; y++) {
+    if (onProgress && y % PROGRESS_ROWS === 0) onProgress(y / height);
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      writeBinary(target, i, lum[i] < cellThreshold(x, y));
     }
   }
-  ditheredImg.updatePixels();
-  return ditheredImg;
+}
+
+/**
+ * Prepare overlay artwork for thermal output in place: colour is flattened over white (so
+ * transparent pixels don't feed black into the error diffusion), reduced to black/white,
+ * and alpha is snapped to fully on or off so edges over the photo stay crisp.
+ */
+export function ditherOverlayData(
+  target: DitherTarget,
+  algorithm: DitherAlgorithm,
+  threshold = 128,
+  onProgress?: (fraction: number) => void
+): void {
+  const { data } = target;
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    data[i] = data[i] * alpha + 255 * (1 - alpha);
+    data[i + 1] = data[i + 1] * alpha + 255 * (1 - alpha);
+    data[i + 2] = data[i + 2] * alpha + 255 * (1 - alpha);
+  }
+  ditherImageData(target, algorithm, threshold, onProgress);
+  for (let i = 3; i < data.length; i += 4) {
+    data[i] = data[i] >= 128 ? 255 : 0;
+  }
+}
+
+/**
+ * Dither a p5.Graphics in place (used for the live preview).
+ */
+export function ditherGraphics(gfx: p5.Graphics, algorithm: DitherAlgorithm, threshold?: number): void {
+  gfx.loadPixels();
+  const density = gfx.pixelDensity();
+  ditherImageData(
+    { data: gfx.pixels, width: gfx.width * density, height: gfx.height * density },
+    algorithm,
+    threshold
+  );
+  gfx.updatePixels();
 }
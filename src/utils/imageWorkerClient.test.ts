@@ -0,0 +1,100 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { defineWebWorkers } from '@vitest/web-worker/pure';
+import { createCanvas, type Canvas } from '@napi-rs/canvas';
+import { composeScene } from './imageWorkerClient';
+import { renderScene, type CompositionScene, type SceneImage } from './compositionScene';
+
+// The worker runs in this thread (@vitest/web-worker) and draws on @napi-rs/canvas standing in
+// for OffscreenCanvas, so both paths go through the same rasteriser and must match exactly
+
+// napi canvases can't be subclassed, so the extra methods are added to plain ones
+function testImageBitmap(source: Canvas): Canvas & { close(): void } {
+  const copy = createCanvas(source.width, source.height);
+  copy.getContext('2d').drawImage(source, 0, 0);
+  return Object.assign(copy, { close() {} });
+}
+
+function testOffscreenCanvas(width: number, height: number): Canvas {
+  const canvas = createCanvas(width, height);
+  return Object.assign(canvas, { transferToImageBitmap: () => testImageBitmap(canvas) });
+}
+
+function pixelsOf(image: unknown): Uint8ClampedArray {
+  const canvas = image as Canvas;
+  return canvas.getContext('2d').getImageData(0, 0, canvas.width, canvas.height).data;
+}
+
+// Gradient photo with a bright square, so dithering and cropping both show
+function testPhoto(width: number, height: number): Canvas {
+  const canvas = testOffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  const gradient = context.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, '#202020');
+  gradient.addColorStop(1, '#e0e0e0');
+  context.fillStyle = gradient;
+  context.fillRect(0, 0, width, height);
+  context.fillStyle = '#ffffff';
+  context.fillRect(width / 4, height / 4, width / 4, height / 4);
+  return canvas;
+}
+
+// Artwork with a transparent middle, like a frame overlay
+function testArt(size: number): Canvas {
+  const canvas = testOffscreenCanvas(size, size);
+  const context = canvas.getContext('2d');
+  context.fillStyle = 'rgba(80, 80, 80, 0.8)';
+  context.fillRect(0, 0, size, size);
+  context.clearRect(size / 4, size / 4, size / 2, size / 2);
+  return canvas;
+}
+
+const SCENE: CompositionScene = {
+  width: 240,
+  height: 360,
+  scale: 2,
+  fonts: [],
+  items: [
+    { type: 'image', image: 2, rect: { x: 10, y: 5, width: 40, height: 20 } },
+    {
+      type: 'text',
+      block: { x: 0, y: 25, width: 120, height: 20, source: 'header-main', text: 'MOROBOOTH', fontSize: 12, align: 'center', wrap: false },
+      font: 'monospace'
+    },
+    { type: 'cell', image: 0, rect: { x: 10, y: 50, width: 100, height: 60 }, rotation: 0, dither: { algorithm: 'floyd-steinberg', threshold: 128 } },
+    { type: 'cell', image: 1, rect: { x: 10, y: 115, width: 100, height: 60 }, rotation: 3, dither: { algorithm: 'atkinson', threshold: 110 } },
+    { type: 'overlay', image: 2, rect: { x: 0, y: 45, width: 120, height: 135 }, dither: { algorithm: 'threshold', threshold: 128 } },
+    { type: 'label', text: 'Scan untuk download', x: 60, y: 160, fontSize: 9, font: 'monospace' }
+  ]
+};
+
+describe('composeScene', () => {
+  beforeAll(() => {
+    vi.stubGlobal('OffscreenCanvas', testOffscreenCanvas);
+    vi.stubGlobal('createImageBitmap', async (source: Canvas) => testImageBitmap(source));
+    defineWebWorkers({ clone: 'none' }); // napi canvases can't be structured-cloned
+  });
+
+  it('draws the same pixels in the worker as inline', async () => {
+    const sources = [testPhoto(160, 120), testPhoto(90, 120), testArt(64)];
+    const progress: number[] = [];
+
+    const fromWorker = await composeScene(SCENE, sources as unknown as HTMLCanvasElement[], (fraction) => progress.push(fraction));
+    const inline = renderScene(SCENE, sources as unknown as SceneImage[]);
+
+    expect(fromWorker).toHaveProperty('close'); // an ImageBitmap from the worker, not the inline fallback
+    expect(progress.length).toBeGreaterThan(0);
+    const workerPixels = pixelsOf(fromWorker);
+    const inlinePixels = pixelsOf(inline);
+    expect(workerPixels.length).toBe(SCENE.width * SCENE.height * 4);
+    expect(workerPixels.some((value, i) => i % 4 !== 3 && value === 0)).toBe(true); // not blank
+    const differing = workerPixels.filter((value, i) => value !== inlinePixels[i]).length;
+    expect(differing).toBe(0);
+  });
+
+  it('leaves the sources untouched', async () => {
+    const photo = testPhoto(160, 120);
+    const before = pixelsOf(photo).slice();
+    await composeScene(SCENE, [photo, photo, testArt(64)] as unknown as HTMLCanvasElement[]);
+    expect(pixelsOf(photo)).toEqual(before);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Runs strip composition and print bitmap conversion in the image worker so the camera preview
+ * and countdown keep animating. Falls back to running the same code inline when module workers
+ * or OffscreenCanvas aren't available (older WebViews) or the worker dies.
+ */
+import type { DitherTarget } from './dithering';
+import type { ThermalBitmapOptions, PixelBuffer } from './thermalBitmap';
+import type { MonoBitmap } from '../shared/escpos';
+import { renderScene, type CompositionScene, type SceneCanvas } from './compositionScene';
+import {
+  runImageJob,
+  type ComposeWorkerRequest,
+  type ImageJob,
+  type ImageJobResult,
+  type ImageWorkerRequest,
+  type ImageWorkerResponse
+} from '../workers/imageJobs';
+
+type WorkerResult = Extract<ImageWorkerResponse, { type: 'done' | 'composed' }>;
+
+interface PendingJob {
+  onProgress?: (fraction: number) => void;
+  onResult: (message: WorkerResult) => void;
+  onError: (message: string) => void;
+  runInline: () => void; // redo the job here if the worker dies
+}
+
+let worker: Worker | null | undefined; // undefined: not started yet, null: unavailable
+let nextId = 1;
+const pending = new Map<number, PendingJob>();
+
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+function handleMessage(event: MessageEvent<ImageWorkerResponse>): void {
+  const message = event.data;
+  const job = pending.get(message.id);
+  if (!job) return;
+  if (message.type === 'progress') {
+    job.onProgress?.(message.fraction);
+    return;
+  }
+  pending.delete(message.id);
+  if (message.type === 'error') {
+    job.onError(message.message);
+  } else {
+    job.onResult(message);
+  }
+}
+
+// Pixel input was posted as a copy and compositions keep their sources, so anything in flight can be redone here
+function handleWorkerFailure(event: Event): void {
+  console.warn('[IMAGE_WORKER] Worker failed, processing on the main thread:', event);
+  worker?.terminate();
+  worker = null;
+  const jobs = Array.from(pending.values());
+  pending.clear();
+  jobs.forEach((job) => job.runInline());
+}
+
+function getWorker(): Worker | null {
+  if (worker !== undefined) return worker;
+  if (typeof Worker === 'undefined') {
+    worker = null;
+    return worker;
+  }
+  try {
+    worker = new Worker(new URL('../workers/imageWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = handleMessage;
+    worker.onerror = handleWorkerFailure;
+    worker.onmessageerror = handleWorkerFailure;
+  } catch (error) {
+    console.warn('[IMAGE_WORKER] Workers unavailable, processing on the main thread:', error);
+    worker = null;
+  }
+  return worker;
+}
+
+function runJob(job: ImageJob, image: DitherTarget, onProgress?: (fraction: number) => void): Promise<ImageJobResult> {
+  return new Promise((resolve, reject) => {
+    const request: ImageWorkerRequest = {
+      id: nextId++,
+      job,
+      width: image.width,
+      height: image.height,
+      data: Uint8ClampedArray.from(image.data)
+    };
+    const runInline = () => {
+      try {
+        resolve(runImageJob(request.job, request, onProgress));
+      } catch (error) {
+        reject(toError(error));
+      }
+    };
+    const target = getWorker();
+    if (!target) {
+      runInline();
+      return;
+    }
+    pending.set(request.id, {
+      onProgress,
+      onResult: (message) => {
+        if (message.type === 'done') resolve({ data: message.data, bitmap: message.bitmap });
+      },
+      onError: (message) => reject(new Error(message)),
+      runInline
+    });
+    target.postMessage(request);
+  });
+}
+
+/**
+ * Worker version of convertToDitheredBitmap. `image` is left untouched.
+ */
+export async function convertToDitheredBitmapAsync(
+  image: PixelBuffer,
+  options: ThermalBitmapOptions,
+  onProgress?: (fraction: number) => void
+): Promise<MonoBitmap> {
+  const result = await runJob({ type: 'thermal', options }, image, onProgress);
+  if (!result.bitmap) throw new Error('Image worker returned no bitmap');
+  return { width: image.width, height: image.height, pixels: result.bitmap };
+}
+
+/**
+ * Draw a composition scene in the worker on an OffscreenCanvas. `sources` are the images the
+ * scene's items point at; they are copied to ImageBitmaps and left untouched. Draws the same
+ * scene inline when the worker can't (no OffscreenCanvas, a font it can't load, a crash).
+ */
+export async function composeScene(
+  scene: CompositionScene,
+  sources: (HTMLCanvasElement | OffscreenCanvas)[],
+  onProgress?: (fraction: number) => void
+): Promise<ImageBitmap | SceneCanvas> {
+  const inline = () => renderScene(scene, sources, onProgress);
+  const target = typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap === 'function' ? getWorker() : null;
+  if (!target) return inline();
+
+  let images: ImageBitmap[];
+  try {
+    images = await Promise.all(sources.map((source) => createImageBitmap(source)));
+  } catch (error) {
+    console.warn('[IMAGE_WORKER] Could not copy the composition sources, drawing on the main thread:', error);
+    return inline();
+  }
+
+  const composed = await new Promise<ImageBitmap | null>((resolve) => {
+    const request: ComposeWorkerRequest = { id: nextId++, scene, images };
+    pending.set(request.id, {
+      onProgress,
+      onResult: (message) => resolve(message.type === 'composed' ? message.image : null),
+      onError: (message) => {
+        console.warn('[IMAGE_WORKER] Composition failed in the worker, drawing on the main thread:', message);
+        resolve(null);
+      },
+      runInline: () => resolve(null)
+    });
+    target.postMessage(request, images);
+  });
+  return composed ?? inline();
+}
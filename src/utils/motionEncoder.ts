@@ -0,0 +1,67 @@
+/**
+ * Animated GIF encoding for motion templates.
+ * Frames are RGBA buffers of identical size, captured in burst order by PhotoBooth.
+ */
+import { GIFEncoder, applyPalette, quantize } from 'gifenc';
+
+export interface MotionFrame {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface MotionClip {
+  gifDataURL: string;
+  boomerangDataURL: string;
+}
+
+/**
+ * Ping-pong order: forward, then back without repeating the first and last frame.
+ */
+export function toBoomerang<T>(frames: T[]): T[] {
+  if (frames.length < 3) return [...frames];
+  return [...frames, ...frames.slice(1, -1).reverse()];
+}
+
+/**
+ * Indexes of `count` frames spread evenly over the burst (first and last included).
+ */
+export function pickKeyframeIndexes(frameCount: number, count: number): number[] {
+  if (frameCount <= 0 || count <= 0) return [];
+  if (count === 1) return [Math.floor(frameCount / 2)];
+  return Array.from({ length: count }, (_, i) => Math.round((i * (frameCount - 1)) / (count - 1)));
+}
+
+function bytesToDataURL(bytes: Uint8Array, mimeType: string): string {
+  const chunkSize = 0x8000; // 32k - safe for String.fromCharCode spreads
+  const segments: string[] = [];
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    segments.push(String.fromCharCode(...bytes.subarray(i, i + chunkSize)));
+  }
+  return `data:${mimeType};base64,${btoa(segments.join(''))}`;
+}
+
+/**
+ * Encode frames as a looping GIF data URL. Each frame gets its own 256-colour palette;
+ * the encoder yields between frames so the booth UI keeps drawing.
+ */
+export async function encodeGif(frames: MotionFrame[], delayMs: number): Promise<string> {
+  if (frames.length === 0) {
+    throw new Error('No frames to encode');
+  }
+  const gif = GIFEncoder();
+  for (const { data, width, height } of frames) {
+    const palette = quantize(data, 256);
+    const index = applyPalette(data, palette);
+    gif.writeFrame(index, width, height, { palette, delay: delayMs, repeat: 0 });
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  gif.finish();
+  return bytesToDataURL(gif.bytes(), 'image/gif');
+}
+
+export async function encodeMotionClip(frames: MotionFrame[], delayMs: number): Promise<MotionClip> {
+  const gifDataURL = await encodeGif(frames, delayMs);
+  const boomerangDataURL = await encodeGif(toBoomerang(frames), delayMs);
+  return { gifDataURL, boomerangDataURL };
+}
@@ -0,0 +1,388 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { createCanvas, type Canvas, type SKRSContext2D } from '@napi-rs/canvas';
+import { buildStripScene, type StripImages } from './photoComposer';
+import { renderScene, type SceneDither, type SceneImage } from './compositionScene';
+import { ditherImageData, ditherOverlayData } from './dithering';
+import { layoutTextLines, type FrameRect, type ResolvedLayout } from './templateLayout';
+import { FALLBACK_FONT } from './brandingFonts';
+
+// Golden check against the p5 composer that ran before the strip was composed in the image worker:
+// `previousComposeResult` is its drawing code, unchanged apart from the dither calls, run through a
+// stand-in for the p5 2.0 calls it made (PreviousGraphics, following p5's Renderer2D source).
+
+const CENTER = 'center';
+const LEFT = 'left';
+const RIGHT = 'right';
+const TOP = 'top';
+
+// The parts of p5.Graphics / p5.Image the previous composer used, drawn the way p5's P2D renderer does
+class PreviousGraphics {
+  readonly canvas: Canvas;
+  readonly ctx: SKRSContext2D;
+  pixels: Uint8ClampedArray = new Uint8ClampedArray(0);
+  private fontFamily = 'sans-serif';
+  private fontSize = 12;
+
+  constructor(width: number, height: number) {
+    this.canvas = createCanvas(Math.floor(width), Math.floor(height)); // canvas sizes truncate
+    this.ctx = this.canvas.getContext('2d');
+  }
+
+  get width() {
+    return this.canvas.width;
+  }
+
+  get height() {
+    return this.canvas.height;
+  }
+
+  // The booth sketch runs at density 1, and so does this stand-in
+  pixelDensity(density: number) {
+    expect(density).toBe(1);
+  }
+
+  background(gray: number) {
+    this.ctx.save();
+    this.ctx.resetTransform();
+    this.ctx.fillStyle = `rgb(${gray}, ${gray}, ${gray})`;
+    this.ctx.fillRect(0, 0, this.width, this.height);
+    this.ctx.restore();
+  }
+
+  clear() {
+    this.ctx.save();
+    this.ctx.resetTransform();
+    this.ctx.clearRect(0, 0, this.width, this.height);
+    this.ctx.restore();
+  }
+
+  scale(factor: number) {
+    this.ctx.scale(factor, factor);
+  }
+
+  push() {
+    this.ctx.save();
+  }
+
+  pop() {
+    this.ctx.restore();
+  }
+
+  translate(x: number, y: number) {
+    this.ctx.translate(x, y);
+  }
+
+  rotate(radians: number) {
+    this.ctx.rotate(radians);
+  }
+
+  fill(gray: number) {
+    this.ctx.fillStyle = `rgb(${gray}, ${gray}, ${gray})`;
+  }
+
+  noStroke() {}
+
+  // fn.image: a source size of 0 or one larger than the image means the whole image (_sAssign)
+  image(img: { canvas: Canvas }, dx: number, dy: number, dw?: number, dh?: number, sx = 0, sy = 0, sw?: number, sh?: number) {
+    const { width, height } = img.canvas;
+    const sWidth = sw !== undefined && sw > 0 && sw < width ? sw : width;
+    const sHeight = sh !== undefined && sh > 0 && sh < height ? sh : height;
+    this.ctx.drawImage(img.canvas, sx, sy, sWidth, sHeight, dx, dy, dw || width, dh || height);
+  }
+
+  copy(src: { canvas: Canvas }, sx: number, sy: number, sw: number, sh: number, dx: number, dy: number, dw: number, dh: number) {
+    this.ctx.drawImage(src.canvas, sx, sy, sw, sh, dx, dy, dw, dh);
+  }
+
+  loadPixels() {
+    this.pixels = this.ctx.getImageData(0, 0, this.width, this.height).data;
+  }
+
+  updatePixels() {
+    const image = this.ctx.createImageData(this.width, this.height);
+    image.data.set(this.pixels);
+    this.ctx.putImageData(image, 0, 0);
+  }
+
+  // Renderer._parseFontFamily quotes names with spaces; _applyFontString builds "<size>px <family>"
+  private applyFont() {
+    const family = this.fontFamily.includes(' ') ? `"${this.fontFamily}"` : this.fontFamily;
+    this.ctx.font = `${this.fontSize}px ${family}`;
+  }
+
+  textFont(family: string) {
+    this.fontFamily = family;
+    this.applyFont();
+  }
+
+  textSize(size: number) {
+    this.fontSize = size;
+    this.applyFont();
+  }
+
+  // Vertical CENTER becomes the canvas's 'middle' baseline
+  textAlign(horizontal: string, vertical: string) {
+    this.ctx.textAlign = horizontal as CanvasTextAlign;
+    this.ctx.textBaseline = (vertical === CENTER ? 'middle' : vertical) as CanvasTextBaseline;
+  }
+
+  // _textWidthSingle: tight bounds, not the advance width
+  textWidth(text: string) {
+    const metrics = this.ctx.measureText(text);
+    return metrics.actualBoundingBoxLeft + metrics.actualBoundingBoxRight;
+  }
+
+  text(text: string, x: number, y: number) {
+    this.ctx.fillText(text, x, y);
+  }
+
+  remove() {}
+}
+
+const previousP5 = {
+  LEFT,
+  RIGHT,
+  CENTER,
+  TOP,
+  createGraphics: (width: number, height: number) => new PreviousGraphics(width, height),
+  createImage: (width: number, height: number) => new PreviousGraphics(width, height)
+};
+
+type PreviousImage = { canvas: Canvas; width: number; height: number };
+
+interface PreviousImages {
+  header: PreviousImage | null;
+  frames: PreviousImage[];
+  overlays: Map<string, PreviousImage>;
+  qr: PreviousImage | null;
+}
+
+// --- The previous composer (photoComposer.ts before the worker composition) ---
+
+function ditherFrame(p: typeof previousP5, frame: PreviousImage, dither?: SceneDither) {
+  if (!dither) return frame;
+  const dithered = p.createImage(frame.width, frame.height);
+  dithered.copy(frame, 0, 0, frame.width, frame.height, 0, 0, dithered.width, dithered.height);
+  dithered.loadPixels();
+  ditherImageData({ data: dithered.pixels, width: dithered.width, height: dithered.height }, dither.algorithm, dither.threshold);
+  dithered.updatePixels();
+  return dithered;
+}
+
+function drawFrameInCell(out: PreviousGraphics, frame: PreviousImage, rect: FrameRect, rotation = 0) {
+  const srcW = frame.width;
+  const srcH = frame.height;
+  const cellAspect = rect.width / rect.height;
+  let sw = srcW;
+  let sh = srcH;
+  if (srcW / srcH > cellAspect) {
+    sw = srcH * cellAspect;
+  } else {
+    sh = srcW / cellAspect;
+  }
+  const sx = (srcW - sw) / 2;
+  const sy = (srcH - sh) / 2;
+
+  out.push();
+  out.translate(rect.x + rect.width / 2, rect.y + rect.height / 2);
+  if (rotation) {
+    out.rotate((rotation * Math.PI) / 180);
+  }
+  out.image(frame, -rect.width / 2, -rect.height / 2, rect.width, rect.height, sx, sy, sw, sh);
+  out.pop();
+}
+
+function renderOverlay(p: typeof previousP5, img: PreviousImage, overlay: ResolvedLayout['overlays'][number], scale: number, color: boolean) {
+  const art = p.createGraphics(Math.max(1, Math.round(overlay.width * scale)), Math.max(1, Math.round(overlay.height * scale)));
+  art.pixelDensity(1);
+  art.clear();
+  art.image(img, 0, 0, art.width, art.height);
+  if (!color) {
+    art.loadPixels();
+    ditherOverlayData({ data: art.pixels, width: art.width, height: art.height }, overlay.thermal.algorithm, overlay.thermal.threshold);
+    art.updatePixels();
+  }
+  return art;
+}
+
+function previousComposeResult(
+  p: typeof previousP5,
+  layout: ResolvedLayout,
+  images: PreviousImages,
+  { scale, color, dither, textFonts }: { scale: number; color: boolean; dither?: SceneDither; textFonts: Record<string, string> }
+): PreviousGraphics {
+  const { header: headerImage, frames, overlays: overlayImages, qr: qrImg } = images;
+  const out = p.createGraphics(layout.width * scale, layout.height * scale);
+  out.background(255); // Latar putih
+  out.scale(scale); // Layout below stays in print pixels
+
+  // Header image: fit inside the logo slot, centred
+  if (headerImage && layout.logo) {
+    const slot = layout.logo;
+    const aspectRatio = headerImage.width / headerImage.height || 1;
+    let drawWidth = slot.width;
+    let drawHeight = slot.height;
+    if (drawWidth / drawHeight > aspectRatio) {
+      drawWidth = drawHeight * aspectRatio;
+    } else {
+      drawHeight = drawWidth / aspectRatio;
+    }
+    out.image(headerImage, slot.x + (slot.width - drawWidth) / 2, slot.y + (slot.height - drawHeight) / 2, drawWidth, drawHeight);
+  }
+
+  out.fill(0);
+  out.noStroke();
+  for (const block of layout.texts) {
+    out.textFont(textFonts[block.source] ?? FALLBACK_FONT);
+    out.textSize(block.fontSize);
+    out.textAlign(block.align === 'left' ? p.LEFT : block.align === 'right' ? p.RIGHT : p.CENTER, p.CENTER);
+    for (const line of layoutTextLines(block, (text) => out.textWidth(text))) {
+      out.text(line.text, line.x, line.y);
+    }
+  }
+
+  for (const [i, cell] of layout.cells.entries()) {
+    if (!frames[i]) continue;
+    const frame = ditherFrame(p, frames[i], color ? undefined : dither);
+    drawFrameInCell(out, frame, cell, cell.rotation);
+  }
+
+  for (const overlay of layout.overlays) {
+    const img = overlayImages.get(overlay.imageUrl);
+    if (!img) continue;
+    const art = renderOverlay(p, img, overlay, scale, color);
+    out.image(art, overlay.x, overlay.y, overlay.width, overlay.height);
+    art.remove();
+  }
+
+  if (qrImg && layout.qr) {
+    const { code, caption } = layout.qr;
+    out.image(qrImg, code.x, code.y, code.width, code.height);
+
+    const captionX = caption.x + caption.width / 2;
+    out.textAlign(p.CENTER, p.TOP);
+    out.textFont(FALLBACK_FONT);
+    out.textSize(18);
+    out.text('Scan untuk download', captionX, caption.y + 4);
+    out.textSize(14);
+    out.text('(Valid 24 jam)', captionX, caption.y + 28);
+  }
+
+  return out;
+}
+
+// --- Fixture ---
+
+function canvasImage(width: number, height: number, draw: (context: SKRSContext2D) => void): PreviousImage {
+  const canvas = createCanvas(width, height);
+  draw(canvas.getContext('2d'));
+  return { canvas, width, height };
+}
+
+function photo(width: number, height: number, shade: number): PreviousImage {
+  return canvasImage(width, height, (context) => {
+    const gradient = context.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, `rgb(${shade}, ${shade}, ${shade})`);
+    gradient.addColorStop(1, '#f0f0f0');
+    context.fillStyle = gradient;
+    context.fillRect(0, 0, width, height);
+    context.fillStyle = '#101010';
+    context.beginPath();
+    context.arc(width / 2, height / 2, Math.min(width, height) / 4, 0, Math.PI * 2);
+    context.fill();
+  });
+}
+
+const LAYOUT: ResolvedLayout = {
+  width: 240,
+  height: 420,
+  logo: { x: 20, y: 8, width: 200, height: 30 },
+  texts: [
+    { x: 10, y: 40, width: 220, height: 24, source: 'header-main', text: 'MOROBOOTH', fontSize: 20, align: 'center', wrap: false },
+    {
+      x: 10, y: 64, width: 88.5, height: 40, source: 'body-main', // "A caption long" fits its advance width, not its tight bounds
+      text: 'A caption long enough to wrap onto a second line', fontSize: 12, align: 'left', wrap: true
+    },
+    { x: 130, y: 64, width: 100, height: 20, source: 'date', text: '19.10.2026', fontSize: 11, align: 'right', wrap: false }
+  ],
+  cells: [
+    { x: 20, y: 110, width: 200, height: 110, rotation: 0 },
+    { x: 20, y: 230, width: 200, height: 110, rotation: -4 }
+  ],
+  overlays: [
+    { x: 10, y: 100, width: 220, height: 250, imageUrl: 'frame.png', thermal: { algorithm: 'atkinson', threshold: 120 } }
+  ],
+  qr: { code: { x: 90, y: 350, width: 60, height: 60 }, caption: { x: 40, y: 350, width: 160, height: 70 } }
+};
+
+function fixtureImages(): PreviousImages {
+  return {
+    header: canvasImage(120, 40, (context) => {
+      context.fillStyle = '#404040';
+      context.fillRect(0, 0, 120, 40);
+      context.fillStyle = '#ffffff';
+      context.fillRect(10, 10, 100, 20);
+    }),
+    frames: [photo(320, 240, 40), photo(240, 320, 90)],
+    overlays: new Map([
+      ['frame.png', canvasImage(110, 125, (context) => {
+        context.fillStyle = 'rgba(60, 60, 60, 0.9)';
+        context.fillRect(0, 0, 110, 125);
+        context.clearRect(10, 10, 90, 105);
+      })]
+    ]),
+    qr: canvasImage(29, 29, (context) => {
+      for (let y = 0; y < 29; y++) {
+        for (let x = 0; x < 29; x++) {
+          context.fillStyle = (x * 7 + y * 3) % 5 < 2 ? '#000000' : '#ffffff';
+          context.fillRect(x, y, 1, 1);
+        }
+      }
+    })
+  };
+}
+
+function toStripImages(images: PreviousImages): StripImages {
+  const canvasOf = (image: PreviousImage | null) => (image?.canvas ?? null) as unknown as HTMLCanvasElement | null;
+  return {
+    header: canvasOf(images.header),
+    frames: images.frames.map((frame) => canvasOf(frame) ?? undefined),
+    overlays: new Map([...images.overlays].map(([url, image]) => [url, canvasOf(image)!])),
+    qr: canvasOf(images.qr)
+  };
+}
+
+function pixelsOf(canvas: { width: number; height: number; getContext(type: '2d'): unknown }): Uint8ClampedArray {
+  const context = canvas.getContext('2d') as SKRSContext2D;
+  return context.getImageData(0, 0, canvas.width, canvas.height).data;
+}
+
+// renderScene draws on OffscreenCanvas when there is one
+function testOffscreenCanvas(width: number, height: number): Canvas {
+  return createCanvas(width, height);
+}
+
+describe('buildStripScene + renderScene', () => {
+  beforeAll(() => {
+    vi.stubGlobal('OffscreenCanvas', testOffscreenCanvas);
+  });
+
+  it.each([
+    ['print strip', { scale: 1, color: false, dither: { algorithm: 'floyd-steinberg', threshold: 128 } as SceneDither }],
+    ['2x colour copy', { scale: 2, color: true, dither: undefined }]
+  ])('draws the %s pixel for pixel like the previous p5 composer', (_name, options) => {
+    const images = fixtureImages();
+    const textFonts = {};
+
+    const previous = previousComposeResult(previousP5, LAYOUT, images, { ...options, textFonts });
+    const { scene, sources } = buildStripScene(LAYOUT, toStripImages(images), { ...options, textFonts, fonts: [] });
+    const current = renderScene(scene, sources as unknown as SceneImage[]);
+
+    expect([current.width, current.height]).toEqual([previous.width, previous.height]);
+    const previousPixels = pixelsOf(previous.canvas);
+    const currentPixels = pixelsOf(current as unknown as Canvas);
+    expect(previousPixels.some((value, i) => i % 4 !== 3 && value === 0)).toBe(true); // not blank
+    const differing = currentPixels.filter((value, i) => value !== previousPixels[i]).length;
+    expect(differing).toBe(0);
+  });
+});
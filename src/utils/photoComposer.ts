@@ -1,126 +1,104 @@
-import { floydSteinbergDither } from './dithering';
+import type p5 from 'p5';
+import { composeScene } from './imageWorkerClient';
+import type { CompositionScene, SceneDither, SceneFont, SceneItem } from './compositionScene';
 import { loadConfig } from './config';
-import { getPrinterOutputSettings } from '../services/configService';
+import { DEFAULT_PRINTER_OUTPUT, getPrinterOutputSettings } from '../services/configService';
+import { getCurrentSession } from '../services/sessionService';
+import { applyTextStyles, type Template, type TemplateTextSource } from '../config/templates';
+import { PX_PER_MM, fitCellRects, resolveLayout, type FrameRect, type ResolvedLayout } from './templateLayout';
+import { expandTextTokens, type TextTokenContext } from './textTokens';
+import { FALLBACK_FONT, getFontFamily, resolveTextFonts } from './brandingFonts';
 
-interface Template {
-  id: string;
-  name: string;
-  description: string;
-  width: number; // mm
-  height: number; // mm
-  photoCount: number;
-  layout: 'vertical' | 'horizontal' | 'grid';
-  thermalSize: '58mm' | '80mm';
+export interface ComposeOptions {
+  color?: boolean; // Download copy: keep frames and header image in colour, no dithering
+  scale?: number; // Output pixels per print pixel
+  tokens?: TextTokenContext; // Photo number/id/time once the photo is saved; event and session are looked up
+  onProgress?: (fraction: number) => void; // 0-1 over the dithering of frames and overlays
 }
 
+// Captured frames: greyscale p5.Images for print, p5.Graphics colour originals for the download copy
+export type ComposeFrame = p5.Image | p5.Graphics;
+
+const REVIEW_MARGIN = 12;
+
 /**
- * Compose photos for review mode with smaller dimensions (500x375px)
+ * Where each frame sits on the review canvas (composeResultForReview), in canvas pixels.
+ * The template's photo cells are fitted and centred; text, logo and QR are left out.
  */
-export async function composeResultForReview(p: any, frames: any[], template: Template, canvasWidth?: number, canvasHeight?: number): Promise<any> {
+export function getReviewFrameRects(template: Template, canvasWidth?: number, canvasHeight?: number): FrameRect[] {
+  const W = canvasWidth || 500;
+  const H = canvasHeight || W;
+  return fitCellRects(template.layout, W, H, REVIEW_MARGIN);
+}
+
+// Dithering for the photo cells, or undefined when it's off (colour copy, printer settings)
+function frameDither(enabled: boolean, reason: string): SceneDither | undefined {
+  const settings = getPrinterOutputSettings();
+  if (!enabled || settings.compositionDither === false) {
+    console.log(`Skipping frame dither (${reason})`);
+    return undefined;
+  }
+  // Validate and clamp threshold
+  const threshold = Math.max(0, Math.min(255, settings.compositionDitherThreshold ?? 128));
+  const algorithm = settings.compositionDitherAlgorithm ?? 'floyd-steinberg';
+  console.log(`Applying ${algorithm} dither to frames with threshold ${threshold}`);
+  return { algorithm, threshold };
+}
+
+/**
+ * Draw the scene (in the image worker when it can) into a p5.Graphics, which callers keep
+ * drawing, saving and exporting as before.
+ */
+async function drawScene(
+  p: p5,
+  scene: CompositionScene,
+  sources: HTMLCanvasElement[],
+  onProgress?: (fraction: number) => void
+): Promise<p5.Graphics> {
+  const image = await composeScene(scene, sources, onProgress);
+  const out = p.createGraphics(scene.width, scene.height);
+  out.drawingContext.drawImage(image, 0, 0);
+  if ('close' in image) image.close();
+  return out;
+}
+
+/**
+ * Compose photos for review mode, sized to the preview canvas
+ */
+export async function composeResultForReview(
+  p: p5,
+  frames: ComposeFrame[],
+  template: Template,
+  canvasWidth?: number,
+  canvasHeight?: number,
+  onProgress?: (fraction: number) => void
+): Promise<p5.Graphics> {
   console.log('Composing result for review...');
   
   // Use canvas dimensions if provided, otherwise use default
   // This ensures review composite matches preview canvas size exactly
   const W = canvasWidth || 500;
   const H = canvasHeight || W; // Default to square if height not provided
-  
-  const margin = 12; // Smaller margin
-  const gap = 8; // Smaller gap
-  const cellW = W - margin * 2;
-  const cellH = cellW; // Rasio 1:1
-
-  let compositeHeight: number = 0; // Will be calculated per layout
-  let photoPositions: { x: number; y: number }[] = [];
-
-  if (template.layout === 'vertical') {
-    // Vertical layout: photos stacked vertically
-    compositeHeight = margin + (cellH * template.photoCount) + (gap * (template.photoCount - 1)) + margin;
-    
-    for (let i = 0; i < template.photoCount; i++) {
-      photoPositions.push({
-        x: margin,
-        y: margin + i * (cellH + gap)
-      });
-    }
-  } else if (template.layout === 'horizontal') {
-    // Horizontal layout: photos side by side
-    const photoWidth = (W - margin * 2 - gap * (template.photoCount - 1)) / template.photoCount;
-    compositeHeight = margin + photoWidth + margin;
-    
-    for (let i = 0; i < template.photoCount; i++) {
-      photoPositions.push({
-        x: margin + i * (photoWidth + gap),
-        y: margin
-      });
-    }
-  } else if (template.layout === 'grid') {
-    // Grid layout: photos in grid (2x2 for 4 photos, etc.)
-    const cols = template.photoCount === 4 ? 2 : template.photoCount === 6 ? 3 : 2;
-    const rows = Math.ceil(template.photoCount / cols);
-    const photoWidth = (W - margin * 2 - gap * (cols - 1)) / cols;
-    const photoHeight = photoWidth; // Square photos
-    
-    compositeHeight = margin + (photoHeight * rows) + (gap * (rows - 1)) + margin;
-    
-    for (let i = 0; i < template.photoCount; i++) {
-      const col = i % cols;
-      const row = Math.floor(i / cols);
-      photoPositions.push({
-        x: margin + col * (photoWidth + gap),
-        y: margin + row * (photoHeight + gap)
-      });
-    }
-  }
+  const frameRects = getReviewFrameRects(template, W, H);
 
-  // Use square canvas (same as preview) to maintain consistent positioning
-  const out = p.createGraphics(W, H);
-  out.background(255); // Latar putih
-  
-  // Get composition settings
-  const settings = getPrinterOutputSettings();
-  
-  // Center the composite content within the square canvas
-  const contentOffsetY = (H - compositeHeight) / 2;
-  
-  for (let i = 0; i < template.photoCount; i++) {
-    const pos = photoPositions[i];
-    // Adjust Y position to center content vertically
-    const adjustedY = pos.y + contentOffsetY;
-    
-    // Apply dithering based on settings
-    let ditheredFrame: any;
-    if (settings.compositionDither !== false) {
-      // Validate and clamp threshold
-      const threshold = Math.max(0, Math.min(255, settings.compositionDitherThreshold ?? 128));
-      console.log(`Applying FS dither to frame ${i} with threshold ${threshold}...`);
-      ditheredFrame = floydSteinbergDither(p, frames[i], threshold);
-    console.log(`Dither complete for frame ${i}.`);
-    } else {
-      // Skip dithering, use original frame
-      console.log(`Skipping dither for frame ${i} (disabled in settings)`);
-      ditheredFrame = frames[i];
-    }
-
-    if (template.layout === 'horizontal') {
-      const photoWidth = (W - margin * 2 - gap * (template.photoCount - 1)) / template.photoCount;
-      out.image(ditheredFrame, pos.x, adjustedY, photoWidth, photoWidth);
-    } else if (template.layout === 'grid') {
-      const cols = template.photoCount === 4 ? 2 : template.photoCount === 6 ? 3 : 2;
-      const photoWidth = (W - margin * 2 - gap * (cols - 1)) / cols;
-      out.image(ditheredFrame, pos.x, adjustedY, photoWidth, photoWidth);
-    } else { // Vertical layout
-      out.image(ditheredFrame, pos.x, adjustedY, cellW, cellH);
-    }
-  }
+  // Square canvas (same as preview) to keep positions consistent
+  const dither = frameDither(true, 'disabled in settings');
+  const sources: HTMLCanvasElement[] = [];
+  const items = frameRects.flatMap((rect, i): SceneItem[] => {
+    if (!frames[i]) return [];
+    const image = sources.push(frames[i].canvas) - 1;
+    return [{ type: 'cell', image, rect, rotation: template.layout.cells[i].rotation ?? 0, dither }];
+  });
+  const out = await drawScene(p, { width: W, height: H, scale: 1, items, fonts: [] }, sources, onProgress);
 
   console.log('Composing complete for review. Ready for review.');
   return out;
 }
 
-async function loadImageSafe(p: any, src: string): Promise<any | null> {
+async function loadImageSafe(p: p5, src: string): Promise<p5.Image | null> {
   return new Promise((resolve) => {
     try {
-      p.loadImage(src, (img: any) => resolve(img), () => resolve(null));
+      p.loadImage(src, (img: p5.Image) => resolve(img), () => resolve(null));
     } catch (error) {
       console.error('loadImageSafe error:', error);
       resolve(null);
@@ -128,387 +106,203 @@ async function loadImageSafe(p: any, src: string): Promise<any | null> {
   });
 }
 
+export interface StripImages {
+  header: HTMLCanvasElement | null; // logo, already greyscale for print
+  frames: (HTMLCanvasElement | undefined)[]; // one per cell
+  overlays: Map<string, HTMLCanvasElement>; // by imageUrl; missing ones are skipped
+  qr: HTMLCanvasElement | null;
+}
+
+export interface StripSceneOptions {
+  scale: number;
+  color: boolean; // colour copy: overlays keep their colours
+  dither?: SceneDither; // photo cells
+  textFonts: Partial<Record<TemplateTextSource, string>>;
+  fonts: SceneFont[]; // every uploaded font; only the ones the text uses go into the scene
+}
+
 /**
- * Compose photos into a single strip with high-quality dithering based on template
+ * Lay out the print strip as a scene: logo, text, photo cells, overlay art, then the QR code on top.
  */
-export async function composeResult(p: any, frames: any[], template: Template, qrCodeDataURL?: string): Promise<any> {
+export function buildStripScene(
+  layout: ResolvedLayout,
+  images: StripImages,
+  options: StripSceneOptions
+): { scene: CompositionScene; sources: HTMLCanvasElement[] } {
+  const { scale, color, dither, textFonts } = options;
+  const sources: HTMLCanvasElement[] = [];
+  const addSource = (canvas: HTMLCanvasElement) => sources.push(canvas) - 1;
+  const items: SceneItem[] = [];
+
+  // Header image: fit inside the logo slot, centred
+  const headerImage = images.header;
+  if (headerImage && layout.logo) {
+    const slot = layout.logo;
+    const aspectRatio = headerImage.width / headerImage.height || 1;
+    let drawWidth = slot.width;
+    let drawHeight = slot.height;
+    if (drawWidth / drawHeight > aspectRatio) {
+      drawWidth = drawHeight * aspectRatio;
+    } else {
+      drawHeight = drawWidth / aspectRatio;
+    }
+    items.push({
+      type: 'image',
+      image: addSource(headerImage),
+      rect: { x: slot.x + (slot.width - drawWidth) / 2, y: slot.y + (slot.height - drawHeight) / 2, width: drawWidth, height: drawHeight }
+    });
+  }
+
+  for (const block of layout.texts) {
+    items.push({ type: 'text', block, font: textFonts[block.source] ?? FALLBACK_FONT });
+  }
+
+  for (const [i, cell] of layout.cells.entries()) {
+    const frame = images.frames[i];
+    if (!frame) {
+      console.warn(`[COMPOSE_RESULT] No frame for cell ${i}`);
+      continue;
+    }
+    items.push({ type: 'cell', image: addSource(frame), rect: cell, rotation: cell.rotation, dither });
+  }
+
+  // Frame art, stickers and corner logos go over the photos; the QR code stays on top to scan.
+  // Thermal prints give the artwork a black/white pass of its own; the colour copy keeps it as-is.
+  for (const overlay of layout.overlays) {
+    const img = images.overlays.get(overlay.imageUrl);
+    if (!img) continue;
+    items.push({ type: 'overlay', image: addSource(img), rect: overlay, dither: color ? undefined : overlay.thermal });
+  }
+
+  if (images.qr && layout.qr) {
+    const { code, caption } = layout.qr;
+    console.log('[COMPOSE_RESULT] Drawing QR code at:', { x: code.x, y: code.y, size: code.width });
+    items.push({ type: 'image', image: addSource(images.qr), rect: code });
+
+    // Add instruction text (standardized across all layouts)
+    const captionX = caption.x + caption.width / 2;
+    items.push(
+      { type: 'label', text: 'Scan untuk download', x: captionX, y: caption.y + 4, fontSize: 18, font: FALLBACK_FONT },
+      { type: 'label', text: '(Valid 24 jam)', x: captionX, y: caption.y + 28, fontSize: 14, font: FALLBACK_FONT }
+    );
+  }
+
+  // Uploaded fonts the text uses, so the worker can register them too
+  const families = new Set(items.flatMap((item) => (item.type === 'text' ? [item.font] : [])));
+  const fonts = options.fonts.filter((font) => families.has(font.family));
+
+  return {
+    scene: { width: Math.round(layout.width * scale), height: Math.round(layout.height * scale), scale, items, fonts },
+    sources
+  };
+}
+
+/**
+ * Compose photos into a single print strip, laid out from the template's schema
+ */
+export async function composeResult(p: p5, frames: ComposeFrame[], template: Template, qrCodeDataURL?: string, options: ComposeOptions = {}): Promise<p5.Graphics> {
   console.log('Composing result...');
   console.log('QR Code provided:', !!qrCodeDataURL);
+  const color = options.color === true;
+  const scale = options.scale ?? 1;
+  const settings = getPrinterOutputSettings();
   
   // Load config for custom text
   const config = await loadConfig();
   console.log('Config loaded:', config);
   
-  const useImageHeader = !!(config.header.mode === 'image' && config.header.imageUrl);
-  let headerImage: any | null = null;
-  let headerImageDrawHeight = 0;
-  if (useImageHeader) {
+  let headerImage: p5.Image | null = null;
+  if (config.header.mode === 'image' && config.header.imageUrl) {
     headerImage = await loadImageSafe(p, config.header.imageUrl);
     if (!headerImage) {
       console.warn('Failed to load header image, falling back to text');
-    } else {
+    } else if (!color && settings.captureGrayscale !== false) {
       // Apply grayscale filter to header image based on settings
-      const settings = getPrinterOutputSettings();
-      if (settings.captureGrayscale !== false) {
-        headerImage.filter(p.GRAY);
-        console.log('Applied grayscale filter to header image');
-      }
+      headerImage.filter(p.GRAY);
+      console.log('Applied grayscale filter to header image');
     }
   }
-  const hasHeaderText = config.header.mode === 'text' && !!((config.header.mainText && config.header.mainText.trim()) || (config.header.subText && config.header.subText.trim()));
-  const bodyHasText = !!((config.body.mainText && config.body.mainText.trim()) || (config.body.subText && config.body.subText.trim()));
-  const imageHeaderHeight = headerImage ? 180 : 0;
-  const headerTextHeight = hasHeaderText ? 120 : 0;
-  const bodyTextHeight = bodyHasText ? 120 : 0;
-  const headerGap = headerImage && (hasHeaderText || bodyHasText) ? 20 : 0;
-  const headerH = imageHeaderHeight + headerGap + headerTextHeight + bodyTextHeight;
-  
-  // Use template dimensions for flexible sizing
-  const W = template.width * 16; // Convert mm to pixels (58mm * 16 = 928px)
-  const margin = 24;
-  const gap = 16;
-  const cellW = W - margin * 2;
-  const cellH = cellW; // Rasio 1:1
-  
-  // Calculate QR code space with dynamic sizing
-  // QR size: 70% of paper width (W), not photo width
-  const minQrSize = 80;
-  const qrSizePercent = 0.7; // 70% of paper width
-  const baseQrSize = Math.max(minQrSize, Math.floor(W * qrSizePercent)); // 70% of paper width
-  const qrSize = qrCodeDataURL ? baseQrSize : 0;
-  const textHeight = 50; // Space for "Scan untuk download" + "(Valid 24 jam)"
-  const qrSpacing = 80; // Spacing below photos before QR
-  const qrSpace = qrCodeDataURL ? qrSize + textHeight + qrSpacing : 0;
-  
-  console.log('[COMPOSE_RESULT] QR size calculation:', {
-    paperWidth: W,
-    qrSizePercent: `${(qrSizePercent * 100).toFixed(0)}%`,
-    baseQrSize,
-    qrSize,
-    qrSpace
-  });
 
-  let H: number = 0; // Will be calculated per layout
-  let photoPositions: { x: number; y: number }[] = [];
-  let photoWidth = cellW; // Default untuk vertical layout
-
-  if (template.layout === 'vertical') {
-    // Vertical layout: photos stacked vertically
-    photoWidth = cellW; // W - margin * 2
-    H = margin + headerH + 40 + (cellH * template.photoCount) + (gap * (template.photoCount - 1)) + qrSpace + margin;
-    
-    for (let i = 0; i < template.photoCount; i++) {
-      photoPositions.push({
-        x: margin,
-        y: margin + headerH + 40 + 20 + i * (cellH + gap)
-      });
-    }
-  } else if (template.layout === 'horizontal') {
-    // Horizontal layout: photos side by side
-    photoWidth = (W - margin * 2 - gap * (template.photoCount - 1)) / template.photoCount;
-    H = margin + headerH + 40 + photoWidth + qrSpace + margin;
-    
-    for (let i = 0; i < template.photoCount; i++) {
-      photoPositions.push({
-        x: margin + i * (photoWidth + gap),
-        y: margin + headerH + 40 + 20
-      });
+  let qrImg: p5.Image | null = null;
+  if (qrCodeDataURL) {
+    // Validate QR code data URL
+    if (typeof qrCodeDataURL !== 'string' || !qrCodeDataURL.startsWith('data:image')) {
+      console.error('[COMPOSE_RESULT] Invalid QR code data URL format');
+    } else {
+      qrImg = await loadImageSafe(p, qrCodeDataURL);
+      if (!qrImg) {
+        console.error('[COMPOSE_RESULT] Failed to load QR code image');
+      }
     }
-  } else if (template.layout === 'grid') {
-    // Grid layout: photos in grid (2x2 for 4 photos, etc.)
-    const cols = template.photoCount === 4 ? 2 : template.photoCount === 6 ? 3 : 2;
-    const rows = Math.ceil(template.photoCount / cols);
-    photoWidth = (W - margin * 2 - gap * (cols - 1)) / cols;
-    const photoHeight = photoWidth; // Square photos
-    
-    H = margin + headerH + 40 + (photoHeight * rows) + (gap * (rows - 1)) + qrSpace + margin;
-    
-    for (let i = 0; i < template.photoCount; i++) {
-      const col = i % cols;
-      const row = Math.floor(i / cols);
-      photoPositions.push({
-        x: margin + col * (photoWidth + gap),
-        y: margin + headerH + 40 + 20 + row * (photoHeight + gap)
-      });
+    if (!qrImg) {
+      console.log('[COMPOSE_RESULT] Composing without QR code.');
     }
+  } else {
+    console.log('[COMPOSE_RESULT] No QR code data provided. Composing without QR code.');
   }
 
-  const out = p.createGraphics(W, H);
-  out.background(255); // Latar putih
-  
-  // Render custom header image if provided
-  if (headerImage) {
-    // Gunakan lebar yang sama dengan photo width
-    let drawWidth = photoWidth;
-    let drawHeight = imageHeaderHeight;
-    const aspectRatio = headerImage.width / headerImage.height || 1;
-    // Maintain aspect ratio, tapi jangan melebihi photoWidth
-    if (drawWidth / drawHeight > aspectRatio) {
-      drawWidth = drawHeight * aspectRatio;
+  const overlayImages = new Map<string, HTMLCanvasElement>();
+  for (const url of new Set((template.layout.overlays ?? []).map((o) => o.imageUrl))) {
+    const img = await loadImageSafe(p, url);
+    if (img) {
+      overlayImages.set(url, img.canvas);
     } else {
-      drawHeight = drawWidth / aspectRatio;
-    }
-    // Center secara horizontal (sama seperti photo)
-    const imageX = margin + (photoWidth - drawWidth) / 2;
-    out.image(headerImage, imageX, margin, drawWidth, drawHeight);
-    headerImageDrawHeight = drawHeight;
-  }
-  
-  // Render custom text header if provided
-  let textCursor = margin + headerImageDrawHeight + (headerImageDrawHeight ? headerGap : 0);
-  if (hasHeaderText) {
-    out.fill(0);
-    out.noStroke();
-    out.textAlign(p.CENTER, p.CENTER);
-    out.textFont('monospace');
-    const headerY = textCursor + headerTextHeight / 2;
-    
-    if (config.header.mainText && config.header.mainText.trim()) {
-      out.textSize(48);
-      out.text(config.header.mainText.trim(), W / 2, headerY - 15);
+      console.warn('[COMPOSE_RESULT] Failed to load overlay, skipping:', url);
     }
-    
-    if (config.header.subText && config.header.subText.trim()) {
-      out.textSize(32);
-      out.text(config.header.subText.trim(), W / 2, headerY + 25);
-    }
-    textCursor += headerTextHeight;
-  }
-  
-  if (bodyHasText) {
-    out.fill(0);
-    out.noStroke();
-    out.textAlign(p.CENTER, p.CENTER);
-    out.textFont('monospace');
-    const bodyCenter = textCursor + bodyTextHeight / 2;
-    
-    if (config.body.mainText && config.body.mainText.trim()) {
-      out.textSize(42);
-      out.text(config.body.mainText.trim(), W / 2, bodyCenter - 15);
-    }
-    
-    if (config.body.subText && config.body.subText.trim()) {
-      out.textSize(30);
-      out.text(config.body.subText.trim(), W / 2, bodyCenter + 20);
-    }
-    textCursor += bodyTextHeight;
-  }
-  
-  // Render date below header (above photos) - only if enabled
-  const settings = getPrinterOutputSettings();
-  if (settings.showDateText !== false) {
-    out.fill(0);
-    out.noStroke();
-    out.textAlign(p.CENTER, p.CENTER);
-    out.textFont('monospace'); 
-    out.textSize(28); // Larger text for print
-    
-    const tgl3 = new Date();
-    const dateStr3 = `${tgl3.getFullYear()}.${(tgl3.getMonth()+1).toString().padStart(2,'0')}.${tgl3.getDate().toString().padStart(2,'0')}`;
-    const dateText = `MOROBOOTH // ${dateStr3}`;
-    
-    const dateY = margin + headerH + 40; // Below header with spacing
-    out.text(dateText, W / 2, dateY);
   }
-  
-  for (let i = 0; i < template.photoCount; i++) {
-    const pos = photoPositions[i];
-    
-    // Apply dithering based on settings
-    let ditheredFrame: any;
-    if (settings.compositionDither !== false) {
-      // Validate and clamp threshold
-      const threshold = Math.max(0, Math.min(255, settings.compositionDitherThreshold ?? 128));
-      console.log(`Applying FS dither to frame ${i} with threshold ${threshold}...`);
-      ditheredFrame = floydSteinbergDither(p, frames[i], threshold);
-    console.log(`Dither complete for frame ${i}.`);
-    } else {
-      // Skip dithering, use original frame
-      console.log(`Skipping dither for frame ${i} (disabled in settings)`);
-      ditheredFrame = frames[i];
-    }
 
-    if (template.layout === 'horizontal') {
-      const photoWidth = (W - margin * 2 - gap * (template.photoCount - 1)) / template.photoCount;
-      out.image(ditheredFrame, pos.x, pos.y, photoWidth, photoWidth);
-    } else if (template.layout === 'grid') {
-      const cols = template.photoCount === 4 ? 2 : template.photoCount === 6 ? 3 : 2;
-      const photoWidth = (W - margin * 2 - gap * (cols - 1)) / cols;
-      out.image(ditheredFrame, pos.x, pos.y, photoWidth, photoWidth);
-    } else {
-      // Vertical layout
-      out.image(ditheredFrame, pos.x, pos.y, cellW, cellH);
-    }
+  // Header text is only used when the header isn't an image
+  const useHeaderText = config.header.mode === 'text' || !headerImage;
+
+  let tokens: TextTokenContext = { ...options.tokens };
+  try {
+    const session = await getCurrentSession();
+    tokens = { eventName: session?.eventName, sessionCode: session?.sessionCode, ...tokens };
+  } catch (error) {
+    console.warn('[COMPOSE_RESULT] No session for text tokens:', error);
   }
 
-  // Render QR code if data is provided
-  if (qrCodeDataURL) {
-    console.log('[COMPOSE_RESULT] Rendering QR code...');
-    console.log('[COMPOSE_RESULT] QR code data URL length:', qrCodeDataURL.length);
-    console.log('[COMPOSE_RESULT] QR code data URL starts with data:image:', qrCodeDataURL.startsWith('data:image'));
-    
-    // Validate QR code data URL
-    if (!qrCodeDataURL || typeof qrCodeDataURL !== 'string' || !qrCodeDataURL.startsWith('data:image')) {
-      console.error('[COMPOSE_RESULT] Invalid QR code data URL format');
-      console.log('[COMPOSE_RESULT] No QR code data provided. Composing without QR code.');
-    } else {
-      try {
-        // Load QR code image asynchronously
-        const qrImg = await loadImageSafe(p, qrCodeDataURL);
-        
-        if (!qrImg) {
-          console.error('[COMPOSE_RESULT] Failed to load QR code image');
-          console.log('[COMPOSE_RESULT] Composing without QR code due to load failure.');
-        } else {
-          console.log('[COMPOSE_RESULT] QR code image loaded successfully, dimensions:', qrImg.width, 'x', qrImg.height);
-          // Calculate dynamic QR size based on layout and canvas width
-          let finalQrSize: number;
-      let qrX: number, qrY: number;
-      let textX: number, textY: number;
-      
-          // Calculate QR code position and size based on template layout
-      if (template.layout === 'vertical') {
-            // Vertical layout: QR code below all photos, centered
-        const lastPhotoY = margin + headerH + 40 + 20 + (template.photoCount - 1) * (cellH + gap) + cellH;
-            
-            // Use 70% of paper width
-            finalQrSize = Math.max(minQrSize, Math.floor(W * qrSizePercent));
-            
-            qrX = (W - finalQrSize) / 2;
-            qrY = lastPhotoY + qrSpacing;
-        textX = W / 2;
-            textY = qrY + finalQrSize + 20;
-            
-            // Bounds check
-            const textBottom = textY + 30;
-            if (textBottom > H) {
-              console.warn('QR code text would overflow, adjusting position');
-              qrY = H - finalQrSize - textHeight - 10;
-              textY = qrY + finalQrSize + 20;
-            }
-            
-            console.log('[COMPOSE_RESULT] Vertical layout - QR position:', { 
-              qrX, qrY, textX, textY, 
-              canvasH: H, 
-              qrSize: finalQrSize,
-              paperWidth: W,
-              qrSizePercent: `${(finalQrSize / W * 100).toFixed(1)}%`
-            });
-      } else if (template.layout === 'horizontal') {
-            // Horizontal layout: QR code below photos, centered
-        const photoWidth = (W - margin * 2 - gap * (template.photoCount - 1)) / template.photoCount;
-        const lastPhotoY = margin + headerH + 40 + 20 + photoWidth;
-        
-            // Use 70% of paper width
-            finalQrSize = Math.max(minQrSize, Math.floor(W * qrSizePercent));
-        
-            qrX = (W - finalQrSize) / 2; // Center horizontally
-            qrY = lastPhotoY + qrSpacing;
-            textX = W / 2; // Center text alignment
-            textY = qrY + finalQrSize + 20;
-            
-            // Bounds check
-            if (textY + 30 > H) {
-              console.warn('QR code text would overflow in horizontal layout');
-              qrY = H - finalQrSize - textHeight - 10;
-              textY = qrY + finalQrSize + 20;
-            }
-            
-            console.log('[COMPOSE_RESULT] Horizontal layout - QR position:', { 
-              qrX, qrY, textX, textY, 
-              canvasH: H, 
-              qrSize: finalQrSize,
-              paperWidth: W,
-              qrSizePercent: `${(finalQrSize / W * 100).toFixed(1)}%`
-            });
-      } else if (template.layout === 'grid') {
-        // Grid layout: QR code at bottom center
-        const cols = template.photoCount === 4 ? 2 : template.photoCount === 6 ? 3 : 2;
-        const photoWidth = (W - margin * 2 - gap * (cols - 1)) / cols;
-        
-            // Use 70% of paper width
-            finalQrSize = Math.max(minQrSize, Math.floor(W * qrSizePercent));
-            
-            const rows = Math.ceil(template.photoCount / cols);
-            const lastPhotoRowY = margin + headerH + 40 + 20 + photoWidth * rows + gap * (rows - 1);
-        
-            qrX = (W - finalQrSize) / 2;
-            qrY = lastPhotoRowY + qrSpacing;
-        textX = W / 2;
-            textY = qrY + finalQrSize + 20;
-            
-            // Bounds check
-            if (textY + 30 > H) {
-              console.warn('QR code text would overflow in grid layout');
-              qrY = H - finalQrSize - textHeight - 10;
-              textY = qrY + finalQrSize + 20;
-            }
-            
-            console.log('[COMPOSE_RESULT] Grid layout - QR position:', { 
-              qrX, qrY, textX, textY, 
-              canvasH: H, 
-              qrSize: finalQrSize,
-              paperWidth: W,
-              qrSizePercent: `${(finalQrSize / W * 100).toFixed(1)}%`
-            });
-      } else {
-        // Default layout (e.g., single photo)
-            // Use 70% of paper width
-            finalQrSize = Math.max(minQrSize, Math.floor(W * qrSizePercent));
-            
-            qrX = (W - finalQrSize) / 2;
-            qrY = margin + headerH + 40 + 20 + cellH + qrSpacing;
-        textX = W / 2;
-            textY = qrY + finalQrSize + 20;
-            
-            // Bounds check
-            if (textY + 30 > H) {
-              console.warn('QR code text would overflow in default layout');
-              qrY = H - finalQrSize - textHeight - 10;
-              textY = qrY + finalQrSize + 20;
-            }
-            
-            console.log('[COMPOSE_RESULT] Default layout - QR position:', { 
-              qrX, qrY, textX, textY, 
-              canvasH: H, 
-              qrSize: finalQrSize,
-              paperWidth: W,
-              qrSizePercent: `${(finalQrSize / W * 100).toFixed(1)}%`
-            });
-      }
+  const textFonts = await resolveTextFonts(config);
 
-          // Draw QR code
-          console.log('[COMPOSE_RESULT] Drawing QR code at:', { x: qrX, y: qrY, size: finalQrSize });
-          out.image(qrImg, qrX, qrY, finalQrSize, finalQrSize);
-        
-          // Add instruction text (standardized across all layouts)
-        out.textSize(18);
-        out.fill(0);
-        out.noStroke();
-        out.textAlign(out.CENTER);
-        out.text('Scan untuk download', textX, textY);
-        out.textSize(14);
-        out.text('(Valid 24 jam)', textX, textY + 20);
-        
-          console.log('[COMPOSE_RESULT] QR code rendered successfully:', { 
-            size: finalQrSize, 
-            position: { x: qrX, y: qrY },
-            paperWidth: W,
-            qrSizePercent: `${(finalQrSize / W * 100).toFixed(1)}%`
-          });
-      }
-      } catch (error) {
-        console.error('[COMPOSE_RESULT] Error rendering QR code:', error);
-        if (error instanceof Error) {
-          console.error('[COMPOSE_RESULT] Error details:', error.message, error.stack);
-        }
-        console.log('[COMPOSE_RESULT] Composing without QR code due to error.');
-      }
+  const W = template.width * PX_PER_MM; // 58mm * 16 = 928px
+  const layout = resolveLayout(applyTextStyles(template.layout, settings.textStyles), W, {
+    texts: {
+      'header-main': useHeaderText ? config.header.mainText : '',
+      'header-sub': useHeaderText ? config.header.subText : '',
+      'body-main': config.body.mainText,
+      'body-sub': config.body.subText,
+      date: settings.showDateText !== false ? settings.dateText ?? DEFAULT_PRINTER_OUTPUT.dateText : ''
+    },
+    formatText: (text) => expandTextTokens(text, tokens),
+    hasLogo: !!headerImage,
+    hasQr: !!qrImg
+  });
+  console.log('[COMPOSE_RESULT] Layout resolved:', {
+    template: template.id,
+    width: layout.width,
+    height: layout.height,
+    cells: layout.cells.length,
+    texts: layout.texts.length
+  });
+
+  const { scene, sources } = buildStripScene(
+    layout,
+    {
+      header: headerImage?.canvas ?? null,
+      frames: frames.map((frame) => frame?.canvas),
+      overlays: overlayImages,
+      qr: qrImg?.canvas ?? null
+    },
+    {
+      scale,
+      color,
+      dither: frameDither(!color, color ? 'colour copy' : 'disabled in settings'),
+      textFonts,
+      fonts: (config.fonts ?? []).map((font) => ({ family: getFontFamily(font), url: font.url }))
     }
-  } else {
-    console.log('[COMPOSE_RESULT] No QR code data provided. Composing without QR code.');
-  }
+  );
+  const out = await drawScene(p, scene, sources, options.onProgress);
 
   console.log('Composing complete. Ready for review.');
   return out;
-}
\ No newline at end of file
+}
@@ -0,0 +1,269 @@
+/**
+ * Turns a template layout (millimetres) into pixel boxes for the composer.
+ * Pure geometry: the composer decides what goes in each box.
+ */
+import {
+  DEFAULT_OVERLAY_THERMAL,
+  type OverlayThermal,
+  type TemplateLayout,
+  type TemplateRect,
+  type TemplateTextSource,
+  type TextAlign
+} from '../config/templates';
+
+export const PX_PER_MM = 16; // 58mm paper -> 928px print composite
+export const QR_CAPTION_HEIGHT = 3.5; // mm under the code for "Scan untuk download"
+export const TEXT_LINE_HEIGHT = 1.2; // x font size, wrapped text
+
+export interface FrameRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LayoutContent {
+  texts: Partial<Record<TemplateTextSource, string>>; // '' or missing = nothing to draw
+  formatText?: (text: string) => string; // token expansion, applied before emptiness is checked
+  hasLogo: boolean;
+  hasQr: boolean;
+}
+
+export interface ResolvedCell extends FrameRect {
+  rotation: number; // degrees
+}
+
+export interface ResolvedText extends FrameRect {
+  source: TemplateTextSource;
+  text: string;
+  fontSize: number; // px
+  align: TextAlign;
+  wrap: boolean;
+}
+
+export interface ResolvedOverlay extends FrameRect {
+  imageUrl: string;
+  thermal: OverlayThermal;
+}
+
+export interface ResolvedLayout {
+  width: number; // px
+  height: number; // px
+  cells: ResolvedCell[];
+  texts: ResolvedText[];
+  logo: FrameRect | null;
+  qr: { code: FrameRect; caption: FrameRect } | null;
+  overlays: ResolvedOverlay[];
+}
+
+type Interval = [number, number];
+
+function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = intervals.filter(([a, b]) => b > a).sort((a, b) => a[0] - b[0]);
+  const merged: Interval[] = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
+function subtractIntervals(base: Interval[], cuts: Interval[]): Interval[] {
+  let result = base;
+  for (const [cutStart, cutEnd] of cuts) {
+    result = result.flatMap(([start, end]): Interval[] => {
+      if (cutEnd <= start || cutStart >= end) return [[start, end]];
+      const parts: Interval[] = [];
+      if (cutStart > start) parts.push([start, cutStart]);
+      if (cutEnd < end) parts.push([cutEnd, end]);
+      return parts;
+    });
+  }
+  return result;
+}
+
+/**
+ * Resolve a layout at the given output width. With `collapseEmpty`, rows that only hold empty
+ * text blocks (or a missing logo) are removed and everything below moves up; without a QR code
+ * the strip ends after the last drawn element.
+ */
+export function resolveLayout(layout: TemplateLayout, outputWidth: number, content: LayoutContent): ResolvedLayout {
+  const scale = outputWidth / layout.width;
+  const format = content.formatText ?? ((text: string) => text);
+  const texts = layout.texts.map((block) => ({
+    block,
+    text: format((block.source === 'static' ? block.text : content.texts[block.source]) ?? '').trim()
+  }));
+
+  const visible: TemplateRect[] = [
+    ...layout.cells,
+    ...texts.filter((t) => t.text).map((t) => t.block),
+    ...(layout.logo && content.hasLogo ? [layout.logo] : []),
+    ...(layout.qr && content.hasQr ? [layout.qr] : [])
+  ];
+
+  let removed: Interval[] = [];
+  if (layout.collapseEmpty) {
+    const empty: TemplateRect[] = [
+      ...texts.filter((t) => !t.text).map((t) => t.block),
+      ...(layout.logo && !content.hasLogo ? [layout.logo] : [])
+    ];
+    // A row is only removed where nothing visible still needs it
+    removed = subtractIntervals(
+      mergeIntervals(empty.map((r) => [r.y, r.y + r.height])),
+      visible.map((r): Interval => [r.y, r.y + r.height])
+    );
+  }
+  const mapY = (y: number) => y - removed.reduce((sum, [start, end]) => sum + Math.max(0, Math.min(end, y) - start), 0);
+  const toPx = (r: TemplateRect): FrameRect => {
+    const top = mapY(r.y);
+    return {
+      x: r.x * scale,
+      y: top * scale,
+      width: r.width * scale,
+      height: (mapY(r.y + r.height) - top) * scale
+    };
+  };
+
+  let height = mapY(layout.height);
+  if (layout.qr && !content.hasQr) {
+    const contentBottom = Math.max(0, ...visible.map((r) => mapY(r.y + r.height)));
+    height = Math.min(height, contentBottom + layout.margins.bottom);
+  }
+
+  let qr: ResolvedLayout['qr'] = null;
+  if (layout.qr && content.hasQr) {
+    const slot = layout.qr;
+    const codeSize = Math.max(0, Math.min(slot.width, slot.height - QR_CAPTION_HEIGHT));
+    qr = {
+      code: toPx({ x: slot.x + (slot.width - codeSize) / 2, y: slot.y, width: codeSize, height: codeSize }),
+      caption: toPx({ x: slot.x, y: slot.y + codeSize, width: slot.width, height: QR_CAPTION_HEIGHT })
+    };
+  }
+
+  const cells = layout.cells.map((cell) => ({ ...toPx(cell), rotation: cell.rotation ?? 0 }));
+  const outputHeight = Math.round(height * scale);
+  const overlays = (layout.overlays ?? []).flatMap((overlay): ResolvedOverlay[] => {
+    const { placement } = overlay;
+    let rect: FrameRect;
+    if (placement.type === 'frame') {
+      rect = { x: 0, y: 0, width: outputWidth, height: outputHeight };
+    } else if (placement.type === 'sticker') {
+      const cell = cells[placement.cellIndex];
+      if (!cell) return [];
+      rect = {
+        x: cell.x + placement.rect.x * scale,
+        y: cell.y + placement.rect.y * scale,
+        width: placement.rect.width * scale,
+        height: placement.rect.height * scale
+      };
+    } else {
+      const { margins } = layout;
+      const width = placement.width * scale;
+      const height = placement.height * scale;
+      rect = {
+        x: placement.corner.endsWith('left') ? margins.left * scale : outputWidth - margins.right * scale - width,
+        y: placement.corner.startsWith('top') ? margins.top * scale : outputHeight - margins.bottom * scale - height,
+        width,
+        height
+      };
+    }
+    return [{ ...rect, imageUrl: overlay.imageUrl, thermal: overlay.thermal ?? DEFAULT_OVERLAY_THERMAL }];
+  });
+
+  return {
+    width: Math.round(outputWidth),
+    height: outputHeight,
+    cells,
+    texts: texts
+      .filter((t) => t.text)
+      .map((t) => ({
+        ...toPx(t.block),
+        source: t.block.source,
+        text: t.text,
+        fontSize: t.block.fontSize * scale,
+        align: t.block.align ?? 'center',
+        wrap: t.block.wrap === true
+      })),
+    logo: layout.logo && content.hasLogo ? toPx(layout.logo) : null,
+    qr,
+    overlays
+  };
+}
+
+export interface TextLine {
+  text: string;
+  x: number; // anchor for the block's alignment
+  y: number; // vertical centre of the line
+}
+
+/**
+ * Lines to draw for a text block, centred vertically in it. `measure` must use the block's font
+ * size. Wrapped text keeps the lines that fit the block height and ends the last one with "…".
+ */
+export function layoutTextLines(block: ResolvedText, measure: (text: string) => number): TextLine[] {
+  const lineHeight = block.fontSize * TEXT_LINE_HEIGHT;
+  let lines = [block.text];
+  if (block.wrap) {
+    lines = block.text.split('\n').flatMap((paragraph) => wrapWords(paragraph, block.width, measure));
+    const maxLines = Math.max(1, Math.floor(block.height / lineHeight));
+    if (lines.length > maxLines) {
+      lines = lines.slice(0, maxLines);
+      let last = lines[maxLines - 1];
+      while (last && measure(`${last}…`) > block.width) last = last.slice(0, -1);
+      lines[maxLines - 1] = `${last.trimEnd()}…`;
+    }
+  }
+
+  const x = block.align === 'left' ? block.x : block.align === 'right' ? block.x + block.width : block.x + block.width / 2;
+  const centre = block.y + block.height / 2;
+  return lines.map((text, i) => ({ text, x, y: centre + (i - (lines.length - 1) / 2) * lineHeight }));
+}
+
+function wrapWords(paragraph: string, maxWidth: number, measure: (text: string) => number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measure(candidate) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    // A word wider than the block is broken wherever it runs out of room
+    line = '';
+    for (const char of word) {
+      if (line && measure(line + char) > maxWidth) {
+        lines.push(line);
+        line = '';
+      }
+      line += char;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.length > 0 ? lines : [''];
+}
+
+/**
+ * Photo cells only, fitted and centred in a `width` x `height` box (review screen, icons).
+ */
+export function fitCellRects(layout: TemplateLayout, width: number, height: number, padding = 0): FrameRect[] {
+  if (layout.cells.length === 0) return [];
+  const left = Math.min(...layout.cells.map((c) => c.x));
+  const top = Math.min(...layout.cells.map((c) => c.y));
+  const right = Math.max(...layout.cells.map((c) => c.x + c.width));
+  const bottom = Math.max(...layout.cells.map((c) => c.y + c.height));
+  const scale = Math.min((width - padding * 2) / (right - left), (height - padding * 2) / (bottom - top));
+  const offsetX = (width - (right - left) * scale) / 2;
+  const offsetY = (height - (bottom - top) * scale) / 2;
+  return layout.cells.map((c) => ({
+    x: offsetX + (c.x - left) * scale,
+    y: offsetY + (c.y - top) * scale,
+    width: c.width * scale,
+    height: c.height * scale
+  }));
+}
@@ -0,0 +1,91 @@
+/**
+ * Placeholders in print text, expanded when the strip is composed:
+ *   {event} {sessionCode} {photoNumber} {photoNumber:3} {shortCode}
+ *   {date} {date:DD MMM YYYY} {time} {time:HH:mm:ss}
+ * Unknown tokens are left as typed so a mistake shows up on the test print.
+ */
+
+export interface TextTokenContext {
+  eventName?: string;
+  sessionCode?: string;
+  photoNumber?: number; // unknown until the photo is saved
+  photoId?: string;
+  date?: Date; // default: now
+}
+
+export const DEFAULT_DATE_FORMAT = 'YYYY.MM.DD';
+export const DEFAULT_TIME_FORMAT = 'HH:mm';
+export const DEFAULT_DATE_TEXT = `MOROBOOTH // {date:${DEFAULT_DATE_FORMAT}}`;
+
+export const TEXT_TOKENS: { token: string; description: string }[] = [
+  { token: '{event}', description: 'Event name' },
+  { token: '{date:DD MMM YYYY}', description: 'Capture date (YYYY YY MMMM MMM MM M DD D)' },
+  { token: '{time}', description: 'Capture time (HH H mm ss)' },
+  { token: '{photoNumber}', description: 'Photo number in the session, {photoNumber:3} pads to 001' },
+  { token: '{sessionCode}', description: 'Session code' },
+  { token: '{shortCode}', description: '6-character photo code, searchable in Session Photos' }
+];
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+export function formatDate(date: Date, format: string): string {
+  return format.replace(/YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|H|mm|ss/g, (part) => {
+    switch (part) {
+      case 'YYYY': return date.getFullYear().toString();
+      case 'YY': return pad(date.getFullYear() % 100);
+      case 'MMMM': return date.toLocaleString(undefined, { month: 'long' });
+      case 'MMM': return date.toLocaleString(undefined, { month: 'short' });
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'M': return (date.getMonth() + 1).toString();
+      case 'DD': return pad(date.getDate());
+      case 'D': return date.getDate().toString();
+      case 'HH': return pad(date.getHours());
+      case 'H': return date.getHours().toString();
+      case 'mm': return pad(date.getMinutes());
+      default: return pad(date.getSeconds());
+    }
+  });
+}
+
+// Photo ids are UUIDs; the first characters are enough to find one photo in a session
+export function getShortCode(photoId: string): string {
+  return photoId.replace(/[^a-z0-9]/gi, '').slice(0, 6).toUpperCase();
+}
+
+// Tokens known once the photo record exists (the print and the preview modal, not the saved copy)
+export function getPhotoTextTokens(
+  photo: { id: string; photoNumber: number; timestamp: string } | null | undefined
+): TextTokenContext | undefined {
+  if (!photo) return undefined;
+  const date = new Date(photo.timestamp);
+  return {
+    photoNumber: photo.photoNumber,
+    photoId: photo.id,
+    ...(Number.isNaN(date.getTime()) ? {} : { date })
+  };
+}
+
+export function expandTextTokens(text: string, context: TextTokenContext): string {
+  const date = context.date ?? new Date();
+  return text.replace(/\{(\w+)(?::([^}]*))?\}/g, (match, name: string, arg: string | undefined) => {
+    switch (name) {
+      case 'event':
+        return context.eventName ?? '';
+      case 'date':
+        return formatDate(date, arg || DEFAULT_DATE_FORMAT);
+      case 'time':
+        return formatDate(date, arg || DEFAULT_TIME_FORMAT);
+      case 'photoNumber': {
+        if (context.photoNumber === undefined) return '';
+        const width = Number(arg);
+        return Number.isInteger(width) && width > 0 ? pad(context.photoNumber, width) : context.photoNumber.toString();
+      }
+      case 'sessionCode':
+        return context.sessionCode ?? '';
+      case 'shortCode':
+        return context.photoId ? getShortCode(context.photoId) : '';
+      default:
+        return match;
+    }
+  });
+}
@@ -0,0 +1,181 @@
+/**
+ * Print-stage conversion: a composed strip (already scaled to the printer width) to a 1-bit
+ * bitmap (1 = black dot). Pure pixel code so it can run in the image worker.
+ */
+import { ditherImageData, type DitherAlgorithm } from './dithering';
+import type { MonoBitmap } from '../shared/escpos';
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface ThermalBitmapOptions {
+  threshold: number; // 0-255
+  gamma: number; // >= 1 darkens mid-tones
+  sharpen: number; // 0-1
+  dithering: boolean;
+  algorithm: DitherAlgorithm;
+  // The two printer paths read the image differently and must keep doing so:
+  // 'grayscale' (native / virtual printer) works on the red channel of the grey composite,
+  // 'rgb' (Web Bluetooth) sharpens every channel, then takes luminance and gamma in one pass
+  source: 'grayscale' | 'rgb';
+}
+
+function clampByte(value: number): number {
+  if (value < 0) return 0;
+  if (value > 255) return 255;
+  return Math.round(value);
+}
+
+const sharpenKernel = (strength: number) => [
+  0, -strength, 0,
+  -strength, 1 + 4 * strength, -strength,
+  0, -strength, 0
+];
+
+function sharpenGray(image: PixelBuffer, amount: number): void {
+  const strength = Math.min(Math.max(amount, 0), 1);
+  if (strength <= 0) return;
+
+  const { data, width, height } = image;
+  const original = new Uint8ClampedArray(data);
+  const kernel = sharpenKernel(strength);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = 0;
+
+      for (let ky = -1; ky <= 1; ky++) {
+        const sampleY = Math.min(height - 1, Math.max(0, y + ky));
+        for (let kx = -1; kx <= 1; kx++) {
+          const sampleX = Math.min(width - 1, Math.max(0, x + kx));
+          const weight = kernel[(ky + 1) * 3 + (kx + 1)];
+          const idx = (sampleY * width + sampleX) * 4;
+          value += original[idx] * weight; // Use R channel (grayscale)
+        }
+      }
+
+      const destIdx = (y * width + x) * 4;
+      const clamped = Math.min(255, Math.max(0, Math.round(value)));
+      data[destIdx] = clamped;
+      data[destIdx + 1] = clamped;
+      data[destIdx + 2] = clamped;
+    }
+  }
+}
+
+function sharpenRgb(image: PixelBuffer, amount: number): void {
+  const strength = Math.min(Math.max(amount, 0), 1);
+  if (strength <= 0) return;
+
+  const { data, width, height } = image;
+  const original = new Uint8ClampedArray(data);
+  const kernel = sharpenKernel(strength);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+
+      for (let ky = -1; ky <= 1; ky++) {
+        const sampleY = Math.min(height - 1, Math.max(0, y + ky));
+        for (let kx = -1; kx <= 1; kx++) {
+          const sampleX = Math.min(width - 1, Math.max(0, x + kx));
+          const weight = kernel[(ky + 1) * 3 + (kx + 1)];
+          const idx = (sampleY * width + sampleX) * 4;
+          r += original[idx] * weight;
+          g += original[idx + 1] * weight;
+          b += original[idx + 2] * weight;
+        }
+      }
+
+      const destIdx = (y * width + x) * 4;
+      data[destIdx] = clampByte(r);
+      data[destIdx + 1] = clampByte(g);
+      data[destIdx + 2] = clampByte(b);
+      data[destIdx + 3] = original[destIdx + 3];
+    }
+  }
+}
+
+function applyGammaGray(image: PixelBuffer, gamma: number): void {
+  if (gamma === 1) return;
+
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    const gray = data[i]; // R channel (grayscale)
+    const normalized = gray / 255;
+    const gammaCorrected = Math.pow(normalized, gamma);
+    const adjusted = Math.min(255, Math.max(0, Math.round(gammaCorrected * 255)));
+    data[i] = adjusted;
+    data[i + 1] = adjusted;
+    data[i + 2] = adjusted;
+  }
+}
+
+function setGray(data: Uint8ClampedArray, i: number, value: number): void {
+  data[i] = value;
+  data[i + 1] = value;
+  data[i + 2] = value;
+}
+
+/**
+ * Convert in place and pack into a MonoBitmap. `onProgress` follows the dithering pass (0-1).
+ */
+export function convertToDitheredBitmap(
+  image: PixelBuffer,
+  options: ThermalBitmapOptions,
+  onProgress?: (fraction: number) => void
+): MonoBitmap {
+  const { data, width, height } = image;
+  const { threshold, gamma, sharpen, dithering, algorithm } = options;
+  const pixels = new Uint8Array(width * height);
+
+  if (options.source === 'grayscale') {
+    if (sharpen > 0) {
+      sharpenGray(image, sharpen);
+    }
+    if (gamma !== 1) {
+      applyGammaGray(image, gamma);
+    }
+    if (dithering) {
+      ditherImageData(image, algorithm, threshold, onProgress);
+    } else {
+      // Simple threshold without dithering
+      for (let i = 0; i < data.length; i += 4) {
+        setGray(data, i, data[i] < threshold ? 0 : 255);
+      }
+    }
+    for (let i = 0; i < pixels.length; i++) {
+      const gray = data[i * 4];
+      pixels[i] = dithering ? (gray < threshold ? 1 : 0) : (gray === 0 ? 1 : 0);
+    }
+  } else {
+    if (sharpen > 0) {
+      sharpenRgb(image, sharpen);
+    }
+    for (let i = 0; i < data.length; i += 4) {
+      const gray = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+      // Apply gamma to darken mid-tones (gamma > 1 => darker)
+      const adjusted = Math.min(255, Math.max(0, Math.round(Math.pow(gray / 255, gamma) * 255)));
+      // For dithering, defer thresholding after error diffusion; for non-dither just threshold now
+      setGray(data, i, dithering ? adjusted : adjusted < threshold ? 0 : 255);
+    }
+    if (dithering) {
+      ditherImageData(image, algorithm, threshold, onProgress);
+      for (let i = 0; i < data.length; i += 4) {
+        setGray(data, i, data[i] < threshold ? 0 : 255);
+      }
+    }
+    // Pixels are pure black/white now; 1 = black (print dot)
+    for (let i = 0; i < pixels.length; i++) {
+      pixels[i] = data[i * 4] < 128 ? 1 : 0;
+    }
+  }
+
+  onProgress?.(1);
+  return { width, height, pixels };
+}
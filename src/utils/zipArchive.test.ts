@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, readZip } from './zipArchive';
+
+const MODIFIED = new Date(2026, 4, 17, 14, 30, 10);
+
+async function zipBytes(blob: Blob): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Single-entry archive with a deflated file, the way desktop tools write one. `crc` is taken from
+ * a stored archive of the same file.
+ */
+async function deflatedZip(name: string, data: Uint8Array, crc: number): Promise<Blob> {
+  const nameBytes = new TextEncoder().encode(name);
+  const compressed = await deflateRaw(data);
+
+  const local = new DataView(new ArrayBuffer(30));
+  local.setUint32(0, 0x04034b50, true);
+  local.setUint16(4, 20, true);
+  local.setUint16(8, 8, true); // deflate
+  local.setUint32(14, crc, true);
+  local.setUint32(18, compressed.length, true);
+  local.setUint32(22, data.length, true);
+  local.setUint16(26, nameBytes.length, true);
+
+  const central = new DataView(new ArrayBuffer(46));
+  central.setUint32(0, 0x02014b50, true);
+  central.setUint16(4, 20, true);
+  central.setUint16(6, 20, true);
+  central.setUint16(10, 8, true);
+  central.setUint32(16, crc, true);
+  central.setUint32(20, compressed.length, true);
+  central.setUint32(24, data.length, true);
+  central.setUint16(28, nameBytes.length, true);
+
+  const centralOffset = 30 + nameBytes.length + compressed.length;
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, 1, true);
+  end.setUint16(10, 1, true);
+  end.setUint32(12, 46 + nameBytes.length, true);
+  end.setUint32(16, centralOffset, true);
+
+  return new Blob([
+    local.buffer,
+    nameBytes,
+    compressed as Uint8Array<ArrayBuffer>,
+    central.buffer,
+    nameBytes,
+    end.buffer
+  ]);
+}
+
+describe('zipArchive', () => {
+  it('reads back every entry written, byte for byte', async () => {
+    const binary = new Uint8Array(1000).map((_, i) => (i * 37) & 0xff);
+    const zip = await createZip([
+      { name: 'manifest.json', data: '{"format":"morobooth-session"}', modified: MODIFIED },
+      { name: 'photos/strip.png', data: binary, modified: MODIFIED },
+      { name: 'photos/color.jpg', data: new Blob([binary.slice(0, 10)]), modified: MODIFIED },
+      { name: 'branding/logo – ünïcode.svg', data: '<svg/>', modified: MODIFIED },
+      { name: 'empty.txt', data: '' }
+    ]);
+    expect(zip.type).toBe('application/zip');
+
+    const files = await readZip(zip);
+    expect([...files.keys()]).toEqual([
+      'manifest.json',
+      'photos/strip.png',
+      'photos/color.jpg',
+      'branding/logo – ünïcode.svg',
+      'empty.txt'
+    ]);
+    expect(new TextDecoder().decode(files.get('manifest.json'))).toBe('{"format":"morobooth-session"}');
+    expect(Array.from(files.get('photos/strip.png')!)).toEqual(Array.from(binary));
+    expect(Array.from(files.get('photos/color.jpg')!)).toEqual(Array.from(binary.slice(0, 10)));
+    expect(new TextDecoder().decode(files.get('branding/logo – ünïcode.svg'))).toBe('<svg/>');
+    expect(files.get('empty.txt')!.length).toBe(0);
+  });
+
+  it('writes the standard CRC-32 and DOS timestamp into both headers', async () => {
+    const bytes = await zipBytes(await createZip([{ name: 'check.txt', data: '123456789', modified: MODIFIED }]));
+    const view = new DataView(bytes.buffer);
+    const centralOffset = 30 + 'check.txt'.length + 9;
+
+    // CRC-32 check value of "123456789"
+    expect(view.getUint32(14, true)).toBe(0xcbf43926);
+    expect(view.getUint32(centralOffset + 16, true)).toBe(0xcbf43926);
+    expect(view.getUint16(10, true)).toBe((14 << 11) | (30 << 5) | 5);
+    expect(view.getUint16(12, true)).toBe(((2026 - 1980) << 9) | (5 << 5) | 17);
+  });
+
+  it('reads deflated entries from archives made by other tools', async () => {
+    const text = 'morobooth '.repeat(200);
+    const data = new TextEncoder().encode(text);
+    const stored = await zipBytes(await createZip([{ name: 'notes.txt', data }]));
+    const crc = new DataView(stored.buffer).getUint32(14, true);
+
+    const files = await readZip(await deflatedZip('notes.txt', data, crc));
+    expect(new TextDecoder().decode(files.get('notes.txt'))).toBe(text);
+  });
+
+  it('rejects an entry whose contents no longer match its checksum', async () => {
+    const bytes = await zipBytes(await createZip([{ name: 'photo.png', data: new Uint8Array([1, 2, 3, 4]) }]));
+    bytes[30 + 'photo.png'.length + 2] ^= 0xff;
+    await expect(readZip(new Blob([bytes]))).rejects.toThrow('photo.png is damaged (checksum mismatch)');
+  });
+
+  it('rejects files that are not ZIP archives', async () => {
+    await expect(readZip(new Blob(['just some text, no archive here']))).rejects.toThrow('Not a ZIP archive');
+    await expect(readZip(new Blob([]))).rejects.toThrow('Not a ZIP archive');
+  });
+
+  it('rejects an archive whose directory points at the wrong place', async () => {
+    const bytes = await zipBytes(await createZip([{ name: 'a.txt', data: 'a' }]));
+    const view = new DataView(bytes.buffer);
+    const end = bytes.length - 22;
+    view.setUint32(end + 16, view.getUint32(end + 16, true) - 1, true);
+    await expect(readZip(new Blob([bytes]))).rejects.toThrow('Corrupt ZIP directory');
+  });
+});
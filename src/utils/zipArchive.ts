@@ -0,0 +1,179 @@
+/**
+ * Minimal ZIP reader/writer for session archives. Entries are written uncompressed ("stored"):
+ * the archive is mostly PNG/JPEG/GIF files that don't shrink any further. Reading also accepts
+ * deflated entries so an archive re-zipped by a desktop tool still imports. No ZIP64 (4 GB limit).
+ */
+
+export interface ZipEntry {
+  name: string; // path inside the archive, forward slashes
+  data: Blob | Uint8Array | string; // strings are written as UTF-8
+  modified?: Date;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIR = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const MAX_ZIP_SIZE = 0xffffffff;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+async function toBytes(data: ZipEntry['data']): Promise<Uint8Array> {
+  if (typeof data === 'string') return new TextEncoder().encode(data);
+  if (data instanceof Uint8Array) return data;
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+/**
+ * Build a ZIP file from the entries, in order.
+ */
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const bytes = await toBytes(entry.data);
+    const name = new TextEncoder().encode(entry.name);
+    const crc = crc32(bytes);
+    const { time, date } = toDosDateTime(entry.modified ?? new Date());
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_HEADER, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, bytes.length, true);
+    local.setUint32(22, bytes.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, CENTRAL_HEADER, true);
+    header.setUint16(4, 20, true); // version made by
+    header.setUint16(6, 20, true);
+    header.setUint16(8, UTF8_FLAG, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, bytes.length, true);
+    header.setUint32(24, bytes.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+
+    parts.push(local.buffer, name, bytes as Uint8Array<ArrayBuffer>);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += 30 + name.length + bytes.length;
+    if (offset > MAX_ZIP_SIZE) {
+      throw new Error('Archive is larger than 4 GB');
+    }
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIR, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...(central as Uint8Array<ArrayBuffer>[]), end.buffer], { type: 'application/zip' });
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot read compressed ZIP entries');
+  }
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Read every file in a ZIP archive. Directory entries are skipped. Throws on anything that
+ * isn't a ZIP, on unsupported compression and on CRC mismatches.
+ */
+export async function readZip(archive: Blob): Promise<Map<string, Uint8Array>> {
+  const buffer = new Uint8Array(await archive.arrayBuffer());
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+
+  // The end-of-central-directory record sits at the end, followed by an optional comment
+  let endOffset = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIR) {
+      endOffset = i;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const count = view.getUint16(endOffset + 10, true);
+  let pointer = view.getUint32(endOffset + 16, true);
+  const files = new Map<string, Uint8Array>();
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(pointer, true) !== CENTRAL_HEADER) {
+      throw new Error('Corrupt ZIP directory');
+    }
+    const method = view.getUint16(pointer + 10, true);
+    const crc = view.getUint32(pointer + 16, true);
+    const compressedSize = view.getUint32(pointer + 20, true);
+    const nameLength = view.getUint16(pointer + 28, true);
+    const extraLength = view.getUint16(pointer + 30, true);
+    const commentLength = view.getUint16(pointer + 32, true);
+    const localOffset = view.getUint32(pointer + 42, true);
+    const name = decoder.decode(buffer.subarray(pointer + 46, pointer + 46 + nameLength));
+    pointer += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = buffer.subarray(dataStart, dataStart + compressedSize);
+    let data: Uint8Array;
+    if (method === 0) {
+      data = raw;
+    } else if (method === 8) {
+      data = await inflateRaw(raw);
+    } else {
+      throw new Error(`Unsupported compression in ${name}`);
+    }
+    if (crc32(data) !== crc) {
+      throw new Error(`${name} is damaged (checksum mismatch)`);
+    }
+    files.set(name, data);
+  }
+
+  return files;
+}
@@ -0,0 +1,49 @@
+/**
+ * Pixel jobs for the image worker. The same `runImageJob` runs inline when workers are
+ * unavailable, so the output is identical either way.
+ */
+import { convertToDitheredBitmap, type ThermalBitmapOptions } from '../utils/thermalBitmap';
+import type { CompositionScene } from '../utils/compositionScene';
+
+export type ImageJob =
+  | { type: 'thermal'; options: ThermalBitmapOptions }; // print bitmap
+
+export interface ImageJobResult {
+  data: Uint8ClampedArray; // processed RGBA
+  bitmap?: Uint8Array; // 'thermal' only: 1 = black dot
+}
+
+export interface ImageWorkerRequest {
+  id: number;
+  job: ImageJob;
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Whole-strip composition: the scene's items refer to `images` by index
+export interface ComposeWorkerRequest {
+  id: number;
+  scene: CompositionScene;
+  images: ImageBitmap[];
+}
+
+export type ImageWorkerResponse =
+  | { id: number; type: 'progress'; fraction: number }
+  | { id: number; type: 'done'; data: Uint8ClampedArray; bitmap?: Uint8Array }
+  | { id: number; type: 'composed'; image: ImageBitmap }
+  | { id: number; type: 'error'; message: string };
+
+/**
+ * Process `data` in place.
+ */
+export function runImageJob(
+  job: ImageJob,
+  image: { data: Uint8ClampedArray; width: number; height: number },
+  onProgress?: (fraction: number) => void
+): ImageJobResult {
+  switch (job.type) {
+    case 'thermal':
+      return { data: image.data, bitmap: convertToDitheredBitmap(image, job.options, onProgress).pixels };
+  }
+}
@@ -0,0 +1,51 @@
+// Dithering, print bitmap conversion and strip composition off the main thread, so the live preview keeps running
+import { runImageJob, type ComposeWorkerRequest, type ImageWorkerRequest, type ImageWorkerResponse } from './imageJobs';
+import { renderScene, type SceneFont } from '../utils/compositionScene';
+
+const scope = self as unknown as { fonts?: FontFaceSet };
+const fonts = new Map<string, Promise<void>>();
+
+const reply = (message: ImageWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+// Branding fonts registered on the page aren't visible here; without them the text would differ
+function loadFont({ family, url }: SceneFont): Promise<void> {
+  if (typeof FontFace === 'undefined' || !scope.fonts) {
+    return Promise.reject(new Error('FontFace is not available in the image worker'));
+  }
+  const existing = fonts.get(url);
+  if (existing) return existing;
+  const promise = new FontFace(family, `url(${JSON.stringify(url)})`).load().then((face) => {
+    scope.fonts?.add(face);
+  });
+  promise.catch(() => fonts.delete(url));
+  fonts.set(url, promise);
+  return promise;
+}
+
+async function compose({ id, scene, images }: ComposeWorkerRequest): Promise<void> {
+  await Promise.all(scene.fonts.map(loadFont));
+  const canvas = renderScene(scene, images, (fraction) => reply({ id, type: 'progress', fraction })) as OffscreenCanvas;
+  images.forEach((image) => image.close());
+  const image = canvas.transferToImageBitmap();
+  reply({ id, type: 'composed', image }, [image]);
+}
+
+self.onmessage = (event: MessageEvent<ImageWorkerRequest | ComposeWorkerRequest>) => {
+  const { id } = event.data;
+  const fail = (error: unknown) => reply({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  if ('scene' in event.data) {
+    compose(event.data).catch(fail);
+    return;
+  }
+  const { job, width, height, data } = event.data;
+  try {
+    const result = runImageJob(job, { data, width, height }, (fraction) => reply({ id, type: 'progress', fraction }));
+    const transfer: Transferable[] = [result.data.buffer];
+    if (result.bitmap) transfer.push(result.bitmap.buffer);
+    reply({ id, type: 'done', data: result.data, bitmap: result.bitmap }, transfer);
+  } catch (error) {
+    fail(error);
+  }
+};
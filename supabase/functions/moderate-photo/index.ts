@@ -0,0 +1,204 @@
+// Supabase Edge Function: Moderate Photo
+// Hides, unhides, revokes or deletes a photo for the organiser. Runs with the service role, so the
+// bucket needs no public delete policy, and writes the photo_moderation_log entry itself: clients
+// can't insert log rows, so the trail only holds actions that were actually applied.
+// Only organiser accounts may call it: a Supabase Auth user whose app_metadata.role is 'admin'.
+// app_metadata can only be set with the service role, so users can't give themselves the role.
+
+// @ts-expect-error - Deno types are available at runtime
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+// @ts-expect-error - ESM types are available at runtime
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+// Type declarations for Deno runtime
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Max-Age': '86400',
+};
+
+type ModerationAction = 'hide' | 'unhide' | 'revoke' | 'delete';
+
+const ACTIONS: ModerationAction[] = ['hide', 'unhide', 'revoke', 'delete'];
+
+interface ModerationRequest {
+  photoId?: string;
+  sessionCode?: string;
+  action?: string;
+  reason?: string;
+  actorDeviceId?: string; // reported by the booth; the request IP is logged next to it
+  actorName?: string;
+}
+
+interface Organiser {
+  id: string;
+  email: string | null;
+}
+
+function json(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * The organiser signed in with the request's Authorization header, or the 401/403 response to send.
+ * The anon key is a valid JWT too, but not a user, so getUser rejects it.
+ */
+async function authenticate(supabase: ReturnType<typeof createClient>, req: Request): Promise<Organiser | Response> {
+  const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '').trim();
+  if (!token) {
+    return json({ error: 'Sign in as an organiser to moderate photos' }, 401);
+  }
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) {
+    return json({ error: 'Sign in as an organiser to moderate photos' }, 401);
+  }
+  if (data.user.app_metadata?.role !== 'admin') {
+    console.warn('[ModeratePhoto] Rejected user without the admin role:', data.user.id);
+    return json({ error: 'This account is not allowed to moderate photos' }, 403);
+  }
+  return { id: data.user.id, email: data.user.email ?? null };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('[ModeratePhoto] Missing Supabase configuration');
+      return json({ error: 'Server configuration error' }, 500);
+    }
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const organiser = await authenticate(supabase, req);
+    if (organiser instanceof Response) {
+      return organiser;
+    }
+
+    let body: ModerationRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return json({ error: 'Invalid request body' }, 400);
+    }
+    const { photoId, sessionCode } = body;
+    const action = body.action as ModerationAction;
+    if (!photoId || !sessionCode || !ACTIONS.includes(action)) {
+      return json({ error: 'photoId, sessionCode and a valid action are required' }, 400);
+    }
+
+    const { data: photo, error: photoError } = await supabase
+      .from('photos')
+      .select('photo_id, session_code, moderation_status, storage_path, color_path, motion_path, boomerang_path')
+      .eq('photo_id', photoId)
+      .maybeSingle();
+    if (photoError) {
+      console.error('[ModeratePhoto] Failed to read photo:', photoError);
+      return json({ error: 'Failed to read photo' }, 500);
+    }
+    // The photo has to be in the session the organiser is looking at, not just exist
+    if (!photo || photo.session_code !== sessionCode) {
+      return json({ error: 'Photo not found in the database' }, 404);
+    }
+    if (photo.moderation_status === 'deleted' && action !== 'delete') {
+      return json({ error: 'Photo has been deleted' }, 409);
+    }
+
+    const now = new Date().toISOString();
+    const updates: Record<ModerationAction, Record<string, string | null>> = {
+      hide: { moderation_status: 'hidden', moderated_at: now },
+      unhide: { moderation_status: null, moderated_at: now },
+      revoke: { access_token: null, token_revoked_at: now },
+      // Marked deleted before the files go, so a failed removal never leaves a downloadable photo.
+      // The paths stay on the row, so deleting again retries the removal.
+      delete: {
+        moderation_status: 'deleted',
+        moderated_at: now,
+        access_token: null,
+        token_revoked_at: now,
+        image_data_url: '',
+        supabase_url: null,
+      },
+    };
+    const { error: updateError } = await supabase.from('photos').update(updates[action]).eq('photo_id', photoId);
+    if (updateError) {
+      console.error('[ModeratePhoto] Failed to update photo:', updateError);
+      return json({ error: `Failed to ${action} photo` }, 500);
+    }
+
+    let removedFiles = 0;
+    if (action === 'delete') {
+      const paths = [photo.storage_path, photo.color_path, photo.motion_path, photo.boomerang_path]
+        .filter((path): path is string => !!path);
+      if (paths.length > 0) {
+        const { error: removeError } = await supabase.storage.from('photos').remove(paths);
+        if (removeError) {
+          console.error('[ModeratePhoto] Failed to remove files:', removeError);
+          await logAction(supabase, req, body, organiser, action, photo.session_code);
+          return json({ error: `Photo marked deleted, but its files could not be removed: ${removeError.message}` }, 502);
+        }
+      }
+      removedFiles = paths.length;
+    }
+
+    const logError = await logAction(supabase, req, body, organiser, action, photo.session_code);
+    if (logError) {
+      return json({ error: `Photo ${action} applied, but the audit log entry could not be written` }, 500);
+    }
+
+    return json({ photoId, action, moderatedAt: now, removedFiles }, 200);
+  } catch (error) {
+    console.error('[ModeratePhoto] Unexpected error:', error);
+    return json({ error: 'Internal server error' }, 500);
+  }
+});
+
+/**
+ * Append the action to photo_moderation_log. Resolves to the error, if any.
+ */
+async function logAction(
+  supabase: ReturnType<typeof createClient>,
+  req: Request,
+  body: ModerationRequest,
+  organiser: Organiser,
+  action: ModerationAction,
+  sessionCode: string
+): Promise<unknown> {
+  const ipAddress = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+                   req.headers.get('x-real-ip') ||
+                   'unknown';
+  const { error } = await supabase
+    .from('photo_moderation_log')
+    .insert({
+      photo_id: body.photoId,
+      session_code: sessionCode,
+      action,
+      reason: body.reason?.trim() || null,
+      actor_device_id: body.actorDeviceId || null,
+      actor_name: body.actorName || null,
+      actor_user_id: organiser.id,
+      actor_email: organiser.email,
+      ip_address: ipAddress,
+    });
+  if (error) {
+    console.error('[ModeratePhoto] Failed to write audit log entry:', error);
+  }
+  return error;
+}
@@ -105,7 +105,7 @@ serve(async (req) => {
     // Query photo from database
     const { data: photo, error: photoError } = await supabase
       .from('photos')
-      .select('photo_id, access_token, session_code, timestamp, uploaded, storage_path')
+      .select('photo_id, access_token, session_code, timestamp, uploaded, storage_path, color_path, motion_path, boomerang_path, moderation_status, token_revoked_at')
       .eq('photo_id', photoId)
       .single();
 
@@ -118,6 +118,16 @@ serve(async (req) => {
       );
     }
 
+    // Hidden, deleted or link revoked by the organiser: say so instead of "invalid link"
+    if (photo.moderation_status || (photo.token_revoked_at && !photo.access_token)) {
+      const reason = photo.moderation_status ? `Photo ${photo.moderation_status}` : 'Access token revoked';
+      await logAccess(supabase, photoId, token, ipAddress, userAgent, false, reason);
+      return new Response(
+        JSON.stringify({ error: 'This photo has been removed', removed: true }),
+        { status: 410, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     if (photo.access_token !== token) {
       await logAccess(supabase, photoId, token, ipAddress, userAgent, false, 'Invalid access token');
       return new Response(
@@ -182,6 +192,33 @@ serve(async (req) => {
       );
     }
 
+    // Colour download copy; the strip above is the dithered print version
+    let colorUrl: string | null = null;
+    if (photo.color_path) {
+      const { data: colorUrlData, error: colorUrlError } = await supabase.storage
+        .from('photos')
+        .createSignedUrl(photo.color_path, 3600);
+      if (!colorUrlError && colorUrlData?.signedUrl) {
+        colorUrl = colorUrlData.signedUrl;
+      } else {
+        console.error('[ValidateDownload] Failed to generate colour signed URL:', colorUrlError);
+      }
+    }
+
+    // Motion photos: the strip above is the printed keyframes, the guest wants the animation
+    let motion: { gifUrl: string; boomerangUrl: string } | null = null;
+    if (photo.motion_path && photo.boomerang_path) {
+      const { data: motionUrls, error: motionUrlError } = await supabase.storage
+        .from('photos')
+        .createSignedUrls([photo.motion_path, photo.boomerang_path], 3600);
+      const [gif, boomerang] = motionUrls ?? [];
+      if (!motionUrlError && gif?.signedUrl && boomerang?.signedUrl) {
+        motion = { gifUrl: gif.signedUrl, boomerangUrl: boomerang.signedUrl };
+      } else {
+        console.error('[ValidateDownload] Failed to generate motion signed URLs:', motionUrlError);
+      }
+    }
+
     // Log successful access
     await logAccess(supabase, photoId, token, ipAddress, userAgent, true, null);
 
@@ -192,7 +229,9 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({ 
         signedUrl: signedUrlData.signedUrl,
-        expiresIn: 3600 // 1 hour in seconds
+        expiresIn: 3600, // 1 hour in seconds
+        colorUrl,
+        motion
       }),
       { 
         status: 200, 